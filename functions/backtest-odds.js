@@ -0,0 +1,107 @@
+/**
+ * Backtests every odds source against the results of finished events
+ *
+ * To use:
+ * 1. Build the functions: npm run build
+ * 2. Run against Firestore (uses application default credentials, e.g.
+ *    GOOGLE_APPLICATION_CREDENTIALS or FIRESTORE_EMULATOR_HOST):
+ *      node backtest-odds.js [--sport basketball] [--from 2025-01-01] [--to 2025-06-30]
+ *    or against an exported snapshot:
+ *      node backtest-odds.js --snapshot snapshot.json
+ *
+ * Options:
+ *   --export <file>  Also save the events read from Firestore as a snapshot
+ *   --out <name>     Report path without extension (default: backtest-report).
+ *                    Writes <name>.md and <name>.json
+ *
+ * A snapshot is { "events": [ { ...event document, "id": "...", "oddsHistory": [...] } ] }.
+ * Each source in oddsHistory (gemini-ai, elo, placedBet, ...) is scored on its
+ * last odds before the game started; "closing" is the event's current odds.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { formatReport, runBacktest, toBacktestEvent } = require('./lib/services/Backtest');
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+async function loadFromFirestore({ sport, from, to }) {
+  const admin = require('firebase-admin');
+  admin.initializeApp();
+  const db = admin.firestore();
+
+  let query = db.collection('events');
+  // NBA events stored before other sports were added have no sport, so
+  // basketball is filtered after reading
+  if (sport && sport !== 'basketball') query = query.where('sport', '==', sport);
+  if (from) query = query.where('date', '>=', from);
+  if (to) query = query.where('date', '<=', to);
+  const snapshot = await query.get();
+  const docs = snapshot.docs.filter((doc) => !sport || (doc.data().sport || 'basketball') === sport);
+  console.log(`Read ${docs.length} events from Firestore`);
+
+  const events = [];
+  for (const doc of docs) {
+    const history = await doc.ref.collection('oddsHistory').get();
+    events.push({
+      ...doc.data(),
+      id: doc.id,
+      oddsHistory: history.docs.map((entry) => entry.data()),
+    });
+  }
+  return events;
+}
+
+function loadSnapshot(file, { sport, from, to }) {
+  const { events = [] } = JSON.parse(fs.readFileSync(file, 'utf8'));
+  console.log(`Read ${events.length} events from ${file}`);
+  return events.filter((event) =>
+    (!sport || (event.sport || 'basketball') === sport) &&
+    (!from || event.date >= from) &&
+    (!to || event.date <= to)
+  );
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const events = args.snapshot
+    ? loadSnapshot(args.snapshot, args)
+    : await loadFromFirestore(args);
+
+  if (args.export && !args.snapshot) {
+    // JSON.stringify turns Timestamps into { _seconds, _nanoseconds }, which the backtest reads back
+    fs.writeFileSync(args.export, JSON.stringify({ exportedAt: new Date().toISOString(), events }, null, 2));
+    console.log(`Saved snapshot to ${args.export}`);
+  }
+
+  const backtestEvents = events
+    .map((event) => toBacktestEvent(event, event.oddsHistory || []))
+    .filter(Boolean);
+  console.log(`${backtestEvents.length} finished events with odds to score`);
+
+  const report = runBacktest(backtestEvents);
+  const out = path.resolve(args.out || 'backtest-report');
+  fs.writeFileSync(`${out}.json`, JSON.stringify(report, null, 2));
+  fs.writeFileSync(`${out}.md`, formatReport(report));
+
+  report.sources.forEach((s) => {
+    console.log(`${s.source}: ${s.events} events, Brier ${s.brierScore.toFixed(4)}, log loss ${s.logLoss.toFixed(4)}`);
+  });
+  console.log(`Report written to ${out}.md and ${out}.json`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Backtest failed:', error);
+    process.exit(1);
+  });
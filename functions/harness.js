@@ -0,0 +1,32 @@
+/**
+ * Shared harness for the unit tests in test-*.js. Each file registers its
+ * tests with `test` and calls `run()` once they are all registered.
+ *
+ * `npm test` builds the functions and runs every file. To run one file, build
+ * the functions (npm run build) and run it with node, e.g.
+ * `node test-settlement.js`.
+ */
+
+const tests = [];
+
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+async function run() {
+  let failures = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failures++;
+      console.error(`✗ ${name}\n  ${error.message}`);
+    }
+  }
+
+  console.log(`\n${tests.length - failures} passed, ${failures} failed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+module.exports = { run, test };
@@ -0,0 +1,97 @@
+/**
+ * Backfills every event's oddsHistory subcollection to the current schema
+ *
+ * To use:
+ * 1. Build the functions: npm run build
+ * 2. Run against Firestore (uses application default credentials, e.g.
+ *    GOOGLE_APPLICATION_CREDENTIALS or FIRESTORE_EMULATOR_HOST):
+ *      node migrate-odds-history.js [--sport soccer] [--dry-run]
+ *
+ * Options:
+ *   --sport <sport>  Only migrate events of one sport
+ *   --dry-run        Count the entries that would change without writing
+ *
+ * Entries without a schemaVersion are rewritten with every outcome's odds
+ * (visitorTeamOdds instead of awayTeamOdds, and the draw for soccer bets
+ * that didn't record it), a null bet and null pools. Entries already on the
+ * current schema are left alone, so the migration can be re-run safely.
+ */
+
+const { ODDS_HISTORY_SCHEMA_VERSION, readOddsHistoryEntry } = require('./lib/services/OddsHistory');
+
+// Firestore batches hold at most 500 writes
+const BATCH_SIZE = 400;
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--dry-run') {
+      args.dryRun = true;
+    } else if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const admin = require('firebase-admin');
+  admin.initializeApp();
+  const db = admin.firestore();
+
+  const eventsSnapshot = await db.collection('events').get();
+  // NBA events stored before other sports were added have no sport
+  const events = eventsSnapshot.docs.filter((doc) =>
+    !args.sport || (doc.data().sport || 'basketball') === args.sport
+  );
+  console.log(`Checking the odds history of ${events.length} events`);
+
+  const counts = { migrated: 0, current: 0, unreadable: 0 };
+  let batch = db.batch();
+  let pending = 0;
+
+  for (const eventDoc of events) {
+    const isSoccer = eventDoc.data().sport === 'soccer';
+    const history = await eventDoc.ref.collection('oddsHistory').get();
+
+    for (const entryDoc of history.docs) {
+      const entry = entryDoc.data();
+      if (entry.schemaVersion === ODDS_HISTORY_SCHEMA_VERSION) {
+        counts.current++;
+        continue;
+      }
+      const migrated = readOddsHistoryEntry(entry, isSoccer);
+      if (!migrated) {
+        counts.unreadable++;
+        console.warn(`Skipping unreadable entry events/${eventDoc.id}/oddsHistory/${entryDoc.id}`);
+        continue;
+      }
+
+      counts.migrated++;
+      if (args.dryRun) continue;
+      // Replace rather than merge so the old awayTeamOdds and betAmount fields go away
+      batch.set(entryDoc.ref, migrated);
+      pending++;
+      if (pending === BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pending = 0;
+      }
+    }
+  }
+  if (pending > 0) await batch.commit();
+
+  console.log(
+    `${args.dryRun ? 'Would migrate' : 'Migrated'} ${counts.migrated} entries ` +
+    `(${counts.current} already current, ${counts.unreadable} unreadable)`
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,120 @@
+/**
+ * Backfills an opening entry in walletTransactions for every user, so wallet
+ * reconciliation accounts for funds and P&L from before the ledger existed
+ *
+ * To use:
+ * 1. Build the functions: npm run build
+ * 2. Run against Firestore (uses application default credentials, e.g.
+ *    GOOGLE_APPLICATION_CREDENTIALS or FIRESTORE_EMULATOR_HOST):
+ *      node migrate-opening-balances.js [--dry-run]
+ *
+ * Options:
+ *   --dry-run  List the opening entries that would be written without writing
+ *
+ * Each user's wallet is recomputed from their deposits, trades and open
+ * orders, and the difference from their stored walletBalance and lifetimePnl
+ * is recorded as an "opening" entry, even when it is zero. Users who already
+ * have one are left alone, as are users whose wallet moved while the script
+ * ran, so the migration can be re-run until none are skipped. Once every user
+ * has an opening entry it writes migrations/openingBalances, which
+ * reconcileWallets needs before it will auto-correct anything.
+ */
+
+const { computeExpectedWallets, getOpeningBalance } = require('./lib/services/WalletReconciliation');
+
+// Firestore batches hold at most 500 writes
+const BATCH_SIZE = 400;
+
+function parseArgs(argv) {
+  return { dryRun: argv.includes('--dry-run') };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const admin = require('firebase-admin');
+  admin.initializeApp();
+  const db = admin.firestore();
+  const startedAt = admin.firestore.Timestamp.now();
+
+  const [usersSnapshot, tradesSnapshot, ordersSnapshot, seedsSnapshot] = await Promise.all([
+    db.collection('users').get(),
+    db.collection('trades').get(),
+    db.collection('pendingOrders').where('status', '==', 'Open').get(),
+    db.collection('walletTransactions').where('type', 'in', ['deposit', 'opening']).get(),
+  ]);
+  const seeds = seedsSnapshot.docs.map((doc) => doc.data());
+  const openedUserIds = new Set(seeds.filter((seed) => seed.type === 'opening').map((seed) => seed.userId));
+  const expectedWallets = computeExpectedWallets(
+    new Map(tradesSnapshot.docs.map((doc) => [doc.id, doc.data()])),
+    ordersSnapshot.docs.map((doc) => doc.data()),
+    seeds
+  );
+
+  // Anything that touched a wallet after the snapshot was taken
+  const activeSnapshot = await db.collection('walletTransactions').where('createdAt', '>=', startedAt).get();
+  const activeUserIds = new Set(activeSnapshot.docs.map((doc) => doc.data().userId));
+
+  const counts = { opened: 0, alreadyOpened: 0, skipped: 0 };
+  let batch = db.batch();
+  let pending = 0;
+
+  for (const userDoc of usersSnapshot.docs) {
+    if (openedUserIds.has(userDoc.id)) {
+      counts.alreadyOpened++;
+      continue;
+    }
+    if (activeUserIds.has(userDoc.id)) {
+      counts.skipped++;
+      continue;
+    }
+
+    const userData = userDoc.data();
+    const opening = getOpeningBalance(
+      { walletBalance: userData.walletBalance || 0, lifetimePnl: userData.lifetimePnl || 0 },
+      expectedWallets.get(userDoc.id) || { walletBalance: 0, lifetimePnl: 0 }
+    );
+    counts.opened++;
+    if (opening.walletBalance !== 0 || opening.lifetimePnl !== 0) {
+      console.log(
+        `${userDoc.id}: opening balance ${opening.walletBalance.toFixed(2)}, ` +
+        `opening P&L ${opening.lifetimePnl.toFixed(2)}`
+      );
+    }
+    if (args.dryRun) continue;
+
+    batch.set(db.collection('walletTransactions').doc(), {
+      userId: userDoc.id,
+      type: 'opening',
+      amount: opening.walletBalance,
+      pnlChange: opening.lifetimePnl,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    pending++;
+    if (pending === BATCH_SIZE) {
+      await batch.commit();
+      batch = db.batch();
+      pending = 0;
+    }
+  }
+  if (pending > 0) await batch.commit();
+
+  if (!args.dryRun && counts.skipped === 0) {
+    await db.doc('migrations/openingBalances').set({
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+      userCount: usersSnapshot.size,
+    });
+  }
+
+  console.log(
+    `${args.dryRun ? 'Would open' : 'Opened'} ${counts.opened} wallets ` +
+    `(${counts.alreadyOpened} already opened, ${counts.skipped} skipped as active)`
+  );
+  if (counts.skipped > 0) console.log('Re-run the migration to open the skipped wallets');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
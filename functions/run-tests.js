@@ -0,0 +1,27 @@
+/**
+ * Runs every test-*.js file in its own process against the built functions,
+ * and fails if any of them does. Run it with `npm test`, which builds first.
+ */
+
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+// Scripts that call the live APIs and need their keys in .env
+const LIVE_SCRIPTS = ['test-analysis.js', 'test-soccer.js'];
+
+const files = fs
+  .readdirSync(__dirname)
+  .filter((file) => /^test-.*\.js$/.test(file) && !LIVE_SCRIPTS.includes(file))
+  .sort();
+
+const failed = [];
+files.forEach((file) => {
+  console.log(`\n${file}`);
+  const { status } = spawnSync(process.execPath, [path.join(__dirname, file)], { stdio: 'inherit' });
+  if (status !== 0) failed.push(file);
+});
+
+console.log(`\n${files.length - failed.length} of ${files.length} files passed`);
+if (failed.length > 0) console.error(`Failed: ${failed.join(', ')}`);
+process.exit(failed.length > 0 ? 1 : 0);
@@ -1,11 +1,96 @@
 import { onSchedule } from "firebase-functions/v2/scheduler";
 import * as admin from "firebase-admin";
 import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentCreated, onDocumentUpdated } from "firebase-functions/v2/firestore";
 import { BalldontlieAPI } from "@balldontlie/sdk";
 import OpenAI from "openai";
 import * as dotenv from "dotenv";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { FootballDataAPI } from "./services/FootballDataAPI";
+import {
+  BalldontlieMlbProvider,
+  BalldontlieNbaProvider,
+  BalldontlieNflProvider,
+} from "./services/BalldontlieProvider";
+import { FootballDataProvider } from "./services/FootballDataProvider";
+import { FixtureProvider } from "./services/FixtureProvider";
+import { NhlProvider } from "./services/NhlProvider";
+import {
+  Game,
+  getDateRange,
+  isFinishedEvent,
+  Sport,
+  SportsDataProvider,
+  toEventDocument,
+} from "./services/SportsDataProvider";
+import {
+  applyMargin,
+  createMarketMaker,
+  MarketMaker,
+  MarketState,
+  PricingModel,
+  roundOdds,
+} from "./services/MarketMaker";
+import { EloModel, PoissonGoalModel, RatedResult } from "./services/RatingModel";
+import { buildHoldReport, getEventMargin } from "./services/HoldReport";
+import { aggregateOddsCandles, CANDLE_INTERVALS, CandleInterval } from "./services/OddsCandles";
+import { createOddsHistoryEntry, OddsHistoryOutcome, readOddsHistoryEntry } from "./services/OddsHistory";
+import {
+  createNotification,
+  describeBoughtListing,
+  describeFollowedBet,
+  describeReply,
+  describeSettledTrade,
+  describeSoldTrade,
+  NotificationContent,
+} from "./services/Notifications";
+import {
+  DEFAULT_ODDS_ALERT_THRESHOLD,
+  describeOddsMove,
+  findEventWatch,
+  getEventStateAlert,
+  getEventWatchKeys,
+  getLargestOddsMove,
+  getOfferedSnapshot,
+  getWatchKey,
+  MAX_ODDS_ALERT_THRESHOLD,
+  MIN_ODDS_ALERT_THRESHOLD,
+  OddsMove,
+  OddsSnapshot,
+  Watch,
+} from "./services/Watchlist";
+import { createMailTransport } from "./services/MailTransport";
+import {
+  DIGEST_WEEK_MS,
+  DigestGame,
+  DigestPost,
+  DigestSettlement,
+  findUpcomingGames,
+  getEventTeamKeys,
+  hasDigestContent,
+  rankTopPosts,
+  renderWeeklyDigest,
+  summarizeWeek,
+  WeeklyDigest,
+} from "./services/WeeklyDigest";
+import {
+  computeExpectedWallets,
+  ExpectedWallet,
+  getPartialSale,
+  getTransferAmounts,
+  haveTradesChanged,
+  roundToCents,
+  WalletSeed,
+} from "./services/WalletReconciliation";
+import {
+  computeSettlement,
+  EventResult,
+  getOtherLedgerIds,
+  ParlayLeg,
+  SettlementLedger,
+  TradeSettlement,
+} from "./services/Settlement";
+import { createHmac, timingSafeEqual } from "crypto";
 
 // Load environment variables from .env file
 dotenv.config();
@@ -18,24 +103,73 @@ const api = new BalldontlieAPI({ apiKey: "066f0ce8-a61a-4aee-82c0-e902d6ad3a0a"
 const footballApiKey = process.env.FOOTBALL_DATA_API_KEY || "";
 const footballApi = new FootballDataAPI(footballApiKey);
 
+// Set SPORTS_DATA_FIXTURES to a fixtures file (see fixtures/sports-data.json)
+// to run ingestion and settlement offline, e.g. against the emulator
+const sportsDataFixtures = process.env.SPORTS_DATA_FIXTURES || "";
+const getProvider = (sport: Sport, liveProvider: () => SportsDataProvider): SportsDataProvider =>
+  sportsDataFixtures ? new FixtureProvider(sport, sportsDataFixtures) : liveProvider();
+const nbaProvider = getProvider("basketball", () => new BalldontlieNbaProvider(api));
+const nflProvider = getProvider("football", () => new BalldontlieNflProvider(api));
+const mlbProvider = getProvider("baseball", () => new BalldontlieMlbProvider(api));
+const nhlProvider = getProvider("hockey", () => new NhlProvider());
+const soccerProvider = getProvider("soccer", () => new FootballDataProvider(footballApi));
+
 // Initialize the Google Generative AI client
 const geminiApiKey = process.env.GEMINI_API_KEY || "";
 const genAI = new GoogleGenerativeAI(geminiApiKey);
 
 /**
- * Gets AI-predicted odds for a basketball game using Gemini
+ * A league with a two-way moneyline, spread and total
+ */
+interface League {
+  sport: Sport;
+  name: string;
+  scoreUnit: string;
+  defaultTotalLine: number; // Fallback game total when no prediction is available (recent league average)
+  winPercentPerPoint: number; // How much a point of spread moves the win probability
+  eloKFactor: number; // How far one result moves the Elo ratings
+  eloHomeAdvantage: number; // Elo points added to the home team
+}
+
+const LEAGUES: { [sport: string]: League } = {
+  basketball: {
+    sport: "basketball", name: "NBA", scoreUnit: "points", defaultTotalLine: 224.5, winPercentPerPoint: 3,
+    eloKFactor: 8, eloHomeAdvantage: 100,
+  },
+  football: {
+    sport: "football", name: "NFL", scoreUnit: "points", defaultTotalLine: 44.5, winPercentPerPoint: 3,
+    eloKFactor: 20, eloHomeAdvantage: 48,
+  },
+  baseball: {
+    sport: "baseball", name: "MLB", scoreUnit: "runs", defaultTotalLine: 8.5, winPercentPerPoint: 10,
+    eloKFactor: 4, eloHomeAdvantage: 24,
+  },
+  hockey: {
+    sport: "hockey", name: "NHL", scoreUnit: "goals", defaultTotalLine: 5.5, winPercentPerPoint: 15,
+    eloKFactor: 6, eloHomeAdvantage: 50,
+  },
+};
+
+/**
+ * Rounds a betting line to the nearest half point
+ */
+function roundToHalfPoint(value: number) {
+  return Math.round(value * 2) / 2;
+}
+
+/**
+ * Gets AI-predicted odds for a basketball, football, baseball or hockey game using Gemini
  * @param homeTeam The home team data
  * @param visitorTeam The visitor team data
- * @returns Promise resolving to an object with home and visitor team winning percentages
+ * @param league The game's league
+ * @returns Promise resolving to an object with home and visitor team winning percentages,
+ * the home team's point spread and the game total line, or null if there is no usable prediction
  */
-async function getPredictedOdds(homeTeam: any, visitorTeam: any) {
+async function getPredictedOdds(homeTeam: any, visitorTeam: any, league: League = LEAGUES.basketball) {
   try {
-    // Default odds in case the AI call fails
-    const defaultOdds = { homeTeamOdds: 50, visitorTeamOdds: 50 };
-    
     if (!geminiApiKey) {
-      console.warn("GEMINI_API_KEY not configured. Using default odds.");
-      return defaultOdds;
+      console.warn("GEMINI_API_KEY not configured. No AI prediction.");
+      return null;
     }
     
     const model = genAI.getGenerativeModel({
@@ -43,7 +177,7 @@ async function getPredictedOdds(homeTeam: any, visitorTeam: any) {
     });
     
     // Create a prompt with relevant team information
-    const prompt = `Predict the probability of each team winning in the upcoming NBA game:
+    const prompt = `Predict the probability of each team winning in the upcoming ${league.name} game:
     
     Home Team: ${homeTeam.full_name} (${homeTeam.abbreviation})
     Away Team: ${visitorTeam.full_name} (${visitorTeam.abbreviation})
@@ -52,6 +186,8 @@ async function getPredictedOdds(homeTeam: any, visitorTeam: any) {
     Return the percentage chance for each team as JSON with the following fields:
     - team-1-winning: percentage chance the home team wins (as a number)
     - team-2-winning: percentage chance the visitor team wins (as a number)
+    - home-spread: the spread in ${league.scoreUnit} for the home team, negative if the home team is favored (as a number)
+    - game-total: the expected combined ${league.scoreUnit} scored by both teams (as a number)
     The percentages should add up to 100%.`;
     
     // Generate content with structured output
@@ -69,18 +205,29 @@ async function getPredictedOdds(homeTeam: any, visitorTeam: any) {
     
     // Validate that the odds add up to approximately 100%
     const total = odds["team-1-winning"] + odds["team-2-winning"];
-    if (total < 95 || total > 105) {
-      console.warn(`Odd percentages don't sum close to 100% (${total}%). Using default odds.`);
-      return defaultOdds;
+    if (!(total >= 95 && total <= 105)) {
+      console.warn(`Odd percentages don't sum close to 100% (${total}%). Ignoring AI prediction.`);
+      return null;
     }
     
+    // Lines are optional in the response; fall back to a spread implied by the
+    // win probability and the league-average total
+    const spread = Number(odds["home-spread"]);
+    const gameTotal = Number(odds["game-total"]);
+
     return {
       homeTeamOdds: odds["team-1-winning"],
-      visitorTeamOdds: odds["team-2-winning"]
+      visitorTeamOdds: odds["team-2-winning"],
+      spreadLine: roundToHalfPoint(
+        Number.isFinite(spread) ? spread : -(odds["team-1-winning"] - 50) / league.winPercentPerPoint
+      ),
+      totalLine: roundToHalfPoint(
+        Number.isFinite(gameTotal) && gameTotal > 0 ? gameTotal : league.defaultTotalLine
+      ),
     };
   } catch (error) {
     console.error("Error getting predicted odds from Gemini:", error);
-    return { homeTeamOdds: 50, visitorTeamOdds: 50 };
+    return null;
   }
 }
 
@@ -88,16 +235,15 @@ async function getPredictedOdds(homeTeam: any, visitorTeam: any) {
  * Gets AI-predicted odds for a soccer match using Gemini
  * @param homeTeam The home team data
  * @param awayTeam The away team data
- * @returns Promise resolving to an object with home, draw, and away team winning percentages
+ * @returns Promise resolving to an object with home, draw, and away team winning percentages,
+ * plus the chances that both teams score and that there are over 2.5 goals, or null if there
+ * is no usable prediction
  */
 async function getSoccerPredictedOdds(homeTeam: any, awayTeam: any, competition: any) {
   try {
-    // Default odds in case the AI call fails (soccer has 3 outcomes)
-    const defaultOdds = { homeTeamOdds: 40, drawOdds: 20, awayTeamOdds: 40 };
-    
     if (!geminiApiKey) {
-      console.warn("GEMINI_API_KEY not configured. Using default odds.");
-      return defaultOdds;
+      console.warn("GEMINI_API_KEY not configured. No AI prediction.");
+      return null;
     }
     
     const model = genAI.getGenerativeModel({
@@ -107,16 +253,18 @@ async function getSoccerPredictedOdds(homeTeam: any, awayTeam: any, competition:
     // Create a prompt with relevant team information
     const prompt = `Predict the probability of each possible outcome in the upcoming soccer match:
     
-    Competition: ${competition.name}
-    Home Team: ${homeTeam.name} (${homeTeam.tla})
-    Away Team: ${awayTeam.name} (${awayTeam.tla})
+    Competition: ${competition?.name}
+    Home Team: ${homeTeam.full_name} (${homeTeam.abbreviation})
+    Away Team: ${awayTeam.full_name} (${awayTeam.abbreviation})
     
     Based on team statistics, recent performance, and historical matchups, what is the probability of each outcome?
     Return the percentage chance for each outcome as JSON with the following fields:
     - home-win: percentage chance the home team wins (as a number)
     - draw: percentage chance of a draw (as a number)
     - away-win: percentage chance the away team wins (as a number)
-    The percentages should add up to 100%.`;
+    - both-teams-score: percentage chance both teams score at least one goal (as a number)
+    - over-2-5-goals: percentage chance of 3 or more total goals (as a number)
+    The home-win, draw, and away-win percentages should add up to 100%.`;
     
     // Generate content with structured output
     const response = await model.generateContent({
@@ -133,250 +281,2334 @@ async function getSoccerPredictedOdds(homeTeam: any, awayTeam: any, competition:
     
     // Validate that the odds add up to approximately 100%
     const total = odds["home-win"] + odds["draw"] + odds["away-win"];
-    if (total < 95 || total > 105) {
-      console.warn(`Odd percentages don't sum close to 100% (${total}%). Using default odds.`);
-      return defaultOdds;
+    if (!(total >= 95 && total <= 105)) {
+      console.warn(`Odd percentages don't sum close to 100% (${total}%). Ignoring AI prediction.`);
+      return null;
     }
     
+    // Goal predictions are optional in the response; keep them within 1-99%
+    const toSidePercentage = (value: any) => {
+      const percentage = Math.round(Number(value));
+      return Number.isFinite(percentage) ? Math.min(Math.max(percentage, 1), 99) : 50;
+    };
+
+    return {
+      homeTeamOdds: odds["home-win"],
+      drawOdds: odds["draw"],
+      awayTeamOdds: odds["away-win"],
+      bothTeamsScoreOdds: toSidePercentage(odds["both-teams-score"]),
+      overGoalsOdds: toSidePercentage(odds["over-2-5-goals"]),
+    };
+  } catch (error) {
+    console.error("Error getting predicted soccer odds from Gemini:", error);
+    return null;
+  }
+}
+
+// --- Opening Odds Logic ---
+
+/**
+ * Where opening lines come from:
+ * - "blend" (default): averages the rating model and Gemini, or uses
+ *   whichever one has a prediction
+ * - "model": the rating model, asking Gemini only for teams the model
+ *   can't rate yet
+ * - "ai": Gemini only
+ * Set with OPENING_ODDS_MODE.
+ */
+type OpeningOddsMode = "blend" | "model" | "ai";
+const openingOddsMode: OpeningOddsMode =
+  process.env.OPENING_ODDS_MODE === "model" || process.env.OPENING_ODDS_MODE === "ai"
+    ? process.env.OPENING_ODDS_MODE
+    : "blend";
+
+// Weight of the Gemini prediction when blending it with the rating model
+const OPENING_ODDS_AI_WEIGHT = 0.5;
+
+// How many days of results the rating models learn from
+const RATING_HISTORY_DAYS = 365;
+// Rating models are cached in ratingModels and rebuilt from results at most this often
+const RATING_CACHE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Opening lines for a two-way game and the model that produced them, as
+ * recorded in oddsHistory.source
+ */
+interface OpeningOdds {
+  homeTeamOdds: number;
+  visitorTeamOdds: number;
+  spreadLine: number;
+  totalLine: number;
+  source: string;
+}
+
+/**
+ * Opening lines for a soccer match and the model that produced them
+ */
+interface SoccerOpeningOdds {
+  homeTeamOdds: number;
+  drawOdds: number;
+  awayTeamOdds: number;
+  bothTeamsScoreOdds: number;
+  overGoalsOdds: number;
+  source: string;
+}
+
+/**
+ * Finished games of a sport from the last RATING_HISTORY_DAYS, for the rating models
+ */
+async function loadRatedResults(sport: Sport): Promise<RatedResult[]> {
+  const { from, to } = getDateRange(RATING_HISTORY_DAYS, 0);
+  let eventsQuery: admin.firestore.Query = db.collection("events")
+    .where("date", ">=", from)
+    .where("date", "<=", to);
+  if (sport !== "basketball") {
+    eventsQuery = eventsQuery.where("sport", "==", sport);
+  }
+  const snapshot = await eventsQuery.get();
+
+  // NBA events stored before other sports were added have no sport
+  return snapshot.docs
+    .map((doc) => doc.data())
+    .filter((data) =>
+      getEventSport(data) === sport &&
+      isFinishedEvent(data) &&
+      typeof data.home_team_score === "number" &&
+      typeof data.visitor_team_score === "number" &&
+      data.home_team?.id !== undefined &&
+      data.visitor_team?.id !== undefined
+    )
+    .map((data) => ({
+      date: data.date,
+      homeTeam: String(data.home_team.id),
+      visitorTeam: String(data.visitor_team.id),
+      homeScore: data.home_team_score,
+      visitorScore: data.visitor_team_score,
+    }));
+}
+
+/**
+ * A sport's rating model snapshot from ratingModels, so hourly ingestion
+ * doesn't replay a year of results every run. Rebuilt from the stored
+ * results when missing or older than RATING_CACHE_MS.
+ * @param build Fits the model to the results and returns its snapshot
+ */
+async function getCachedRatings<T>(sport: Sport, build: (results: RatedResult[]) => T): Promise<T> {
+  const cacheRef = db.collection("ratingModels").doc(sport);
+  const cacheDoc = await cacheRef.get();
+  const builtAt = cacheDoc.data()?.builtAt?.toMillis?.() || 0;
+  if (cacheDoc.exists && Date.now() - builtAt < RATING_CACHE_MS) {
+    return cacheDoc.data()!.snapshot as T;
+  }
+
+  const results = await loadRatedResults(sport);
+  console.log(`Rating ${sport} teams from ${results.length} results`);
+  const snapshot = build(results);
+  await cacheRef.set({
+    snapshot,
+    resultCount: results.length,
+    builtAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return snapshot;
+}
+
+/**
+ * Elo ratings for a league, or null when the rating model isn't used
+ */
+async function getEloModel(league: League): Promise<EloModel | null> {
+  if (openingOddsMode === "ai") return null;
+  const options = { kFactor: league.eloKFactor, homeAdvantage: league.eloHomeAdvantage };
+  const snapshot = await getCachedRatings(league.sport, (results) =>
+    EloModel.fromResults(results, options).toSnapshot()
+  );
+  return EloModel.fromSnapshot(snapshot, options);
+}
+
+/**
+ * Poisson goal model for soccer, or null when the rating model isn't used
+ */
+async function getPoissonModel(): Promise<PoissonGoalModel | null> {
+  if (openingOddsMode === "ai") return null;
+  const snapshot = await getCachedRatings("soccer", (results) =>
+    PoissonGoalModel.fromResults(results).toSnapshot()
+  );
+  return PoissonGoalModel.fromSnapshot(snapshot);
+}
+
+// Weighted average of the model's and Gemini's value
+function blend(modelValue: number, aiValue: number) {
+  return (1 - OPENING_ODDS_AI_WEIGHT) * modelValue + OPENING_ODDS_AI_WEIGHT * aiValue;
+}
+
+// Keeps a side market's opening odds within 1-99%
+function toSidePercentage(probability: number) {
+  return Math.min(Math.max(Math.round(probability * 100), 1), 99);
+}
+
+/**
+ * Opening lines for a two-way game from the Elo model, Gemini or both,
+ * depending on OPENING_ODDS_MODE. Falls back to 50/50 and the league-average
+ * total when neither has a prediction.
+ */
+async function getOpeningOdds(game: Game, league: League, elo: EloModel | null): Promise<OpeningOdds> {
+  const rated = elo?.predict(String(game.homeTeam.id), String(game.visitorTeam.id));
+  const model = rated && {
+    homeWinProbability: rated.homeWinProbability,
+    spreadLine: -(rated.homeWinProbability * 100 - 50) / league.winPercentPerPoint,
+    totalLine: rated.expectedTotal ?? league.defaultTotalLine,
+  };
+
+  // Only ask Gemini when its prediction will be used
+  const predicted = model && openingOddsMode === "model"
+    ? null
+    : await getPredictedOdds(game.homeTeam, game.visitorTeam, league);
+  const ai = predicted && {
+    homeWinProbability:
+      predicted.homeTeamOdds / (predicted.homeTeamOdds + predicted.visitorTeamOdds),
+    spreadLine: predicted.spreadLine,
+    totalLine: predicted.totalLine,
+  };
+
+  let prediction = { homeWinProbability: 0.5, spreadLine: 0, totalLine: league.defaultTotalLine };
+  let source = "default";
+  if (model && ai) {
+    prediction = {
+      homeWinProbability: blend(model.homeWinProbability, ai.homeWinProbability),
+      spreadLine: blend(model.spreadLine, ai.spreadLine),
+      totalLine: blend(model.totalLine, ai.totalLine),
+    };
+    source = "elo+gemini-ai";
+  } else if (model) {
+    prediction = model;
+    source = "elo";
+  } else if (ai) {
+    prediction = ai;
+    source = "gemini-ai";
+  }
+
+  const [homeTeamOdds, visitorTeamOdds] = roundOdds([
+    prediction.homeWinProbability,
+    1 - prediction.homeWinProbability,
+  ]);
+  return {
+    homeTeamOdds,
+    visitorTeamOdds,
+    spreadLine: roundToHalfPoint(prediction.spreadLine),
+    totalLine: roundToHalfPoint(prediction.totalLine),
+    source,
+  };
+}
+
+/**
+ * Opening lines for a soccer match from the Poisson goal model, Gemini or
+ * both, depending on OPENING_ODDS_MODE. Falls back to 40/20/40 when neither
+ * has a prediction.
+ */
+async function getSoccerOpeningOdds(match: Game, poisson: PoissonGoalModel | null): Promise<SoccerOpeningOdds> {
+  const model = poisson?.predict(String(match.homeTeam.id), String(match.visitorTeam.id));
+
+  const predicted = model && openingOddsMode === "model"
+    ? null
+    : await getSoccerPredictedOdds(match.homeTeam, match.visitorTeam, match.competition);
+  const resultTotal = predicted
+    ? predicted.homeTeamOdds + predicted.drawOdds + predicted.awayTeamOdds
+    : 0;
+  const ai = predicted && {
+    homeWinProbability: predicted.homeTeamOdds / resultTotal,
+    drawProbability: predicted.drawOdds / resultTotal,
+    awayWinProbability: predicted.awayTeamOdds / resultTotal,
+    bothTeamsScoreProbability: predicted.bothTeamsScoreOdds / 100,
+    overGoalsProbability: predicted.overGoalsOdds / 100,
+  };
+
+  let prediction = {
+    homeWinProbability: 0.4,
+    drawProbability: 0.2,
+    awayWinProbability: 0.4,
+    bothTeamsScoreProbability: 0.5,
+    overGoalsProbability: 0.5,
+  };
+  let source = "default";
+  if (model && ai) {
+    prediction = {
+      homeWinProbability: blend(model.homeWinProbability, ai.homeWinProbability),
+      drawProbability: blend(model.drawProbability, ai.drawProbability),
+      awayWinProbability: blend(model.awayWinProbability, ai.awayWinProbability),
+      bothTeamsScoreProbability: blend(model.bothTeamsScoreProbability, ai.bothTeamsScoreProbability),
+      overGoalsProbability: blend(model.overGoalsProbability, ai.overGoalsProbability),
+    };
+    source = "poisson+gemini-ai";
+  } else if (model) {
+    prediction = model;
+    source = "poisson";
+  } else if (ai) {
+    prediction = ai;
+    source = "gemini-ai";
+  }
+
+  const [homeTeamOdds, drawOdds, awayTeamOdds] = roundOdds([
+    prediction.homeWinProbability,
+    prediction.drawProbability,
+    prediction.awayWinProbability,
+  ]);
+  return {
+    homeTeamOdds,
+    drawOdds,
+    awayTeamOdds,
+    bothTeamsScoreOdds: toSidePercentage(prediction.bothTeamsScoreProbability),
+    overGoalsOdds: toSidePercentage(prediction.overGoalsProbability),
+    source,
+  };
+}
+
+// --- End Opening Odds Logic ---
+
+/**
+ * Writes a league's upcoming games to events with opening odds and records
+ * the opening odds and the model behind them in oddsHistory
+ * @param days How many days ahead to fetch
+ */
+async function ingestUpcomingGames(provider: SportsDataProvider, days: number) {
+  const league = LEAGUES[provider.sport];
+  const allGames = await provider.getUpcomingGames(getDateRange(0, days));
+  const elo = await getEloModel(league);
+
+  // Batch write to Firestore with chunking
+  const batchSize = 500; // Firestore batch limit
+  const batches = [];
+
+  for (let i = 0; i < allGames.length; i += batchSize) {
+    const batch = db.batch();
+    const chunk = allGames.slice(i, i + batchSize);
+
+    // Process each game in the chunk, getting opening odds for each
+    for (const game of chunk) {
+      const predictedOdds = await getOpeningOdds(game, league, elo);
+
+      const docRef = db.collection("events").doc(game.id);
+
+      // Open the spread and total markets only once, so later runs don't
+      // move the line or reset pools that already have bets in them
+      const existingDoc = await docRef.get();
+      const existingData = existingDoc.exists ? existingDoc.data() : undefined;
+      const existingMarkets = existingData?.markets || {};
+      const seedOdds = !hasMoneylineBets(existingData);
+      const markets: any = {};
+      if (!existingMarkets.spread) {
+        markets.spread = openSideMarket(SIDE_MARKETS.spread, predictedOdds.spreadLine);
+      }
+      if (!existingMarkets.total) {
+        markets.total = openSideMarket(SIDE_MARKETS.total, predictedOdds.totalLine);
+      }
+
+      // Set with merge: true to update existing documents
+      batch.set(
+        docRef,
+        {
+          ...toEventDocument(game),
+          // Events with bets keep the odds and shares their bets moved them to
+          ...(seedOdds && {
+            homeTeamCurrentOdds: predictedOdds.homeTeamOdds,
+            visitorTeamCurrentOdds: predictedOdds.visitorTeamOdds,
+            // LMSR events seed their shares from the new odds on the first bet
+            lmsrShares: admin.firestore.FieldValue.delete(),
+          }),
+          ...(Object.keys(markets).length > 0 && { markets }),
+          ...(typeof existingData?.margin !== "number" && { margin: getSportMargin(provider.sport) }),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+
+      // Create the oddsHistory subcollection with initial odds
+      if (seedOdds) {
+        const oddsHistoryRef = docRef.collection("oddsHistory").doc();
+        batch.set(oddsHistoryRef, createOddsHistoryEntry({
+          source: predictedOdds.source,
+          odds: { home: predictedOdds.homeTeamOdds, visitor: predictedOdds.visitorTeamOdds },
+          pools: { home: existingData?.homeBetAmount, visitor: existingData?.visitorBetAmount },
+          isSoccer: false,
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        }));
+      }
+    }
+
+    batches.push(batch.commit());
+  }
+
+  // Execute all batches
+  await Promise.all(batches);
+
+  console.log(`${allGames.length} ${league.name} games processed successfully with opening odds`);
+}
+
+/**
+ * Updates scores and statuses of a sport's recent games, then settles the
+ * ones that finished or won't be played
+ * @param days How many days back to fetch
+ */
+async function updateRecentGames(provider: SportsDataProvider, days: number) {
+  const allGames = await provider.getRecentResults(getDateRange(days, 0));
+
+  // Batch update Firestore event documents
+  const batchSize = 500;
+  const batches = [];
+
+  for (let i = 0; i < allGames.length; i += batchSize) {
+    const batch = db.batch();
+    const chunk = allGames.slice(i, i + batchSize);
+
+    chunk.forEach((game) => {
+      const docRef = db.collection("events").doc(game.id);
+      batch.set(
+        docRef,
+        {
+          ...toEventDocument(game),
+          // Preserve current odds values by not overwriting them (using merge: true)
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+        { merge: true }
+      );
+    });
+
+    batches.push(batch.commit());
+  }
+
+  await Promise.all(batches);
+  console.log(`Updated ${allGames.length} recent ${provider.sport} games successfully`);
+
+  await settleGames(allGames);
+}
+
+export const getFutureNbaGames = onSchedule({
+  schedule: "every 1 hours",
+  timeoutSeconds: 3600 ,
+  memory: "1GiB" // Increase memory allocation
+}, async (event) => {
+  try {
+    await ingestUpcomingGames(nbaProvider, 31);
+  } catch (error) {
+    console.error("Error processing games:", error);
+  }
+});
+
+export const updateRecentNbaGames = onSchedule("every 1 hours", async (event) => {
+  try {
+    // Games from 1 day ago to today
+    await updateRecentGames(nbaProvider, 1);
+  } catch (error) {
+    console.error("Error updating recent games:", error);
+  }
+});
+
+export const getFutureNflGames = onSchedule({
+  schedule: "every 6 hours",
+  timeoutSeconds: 3600,
+  memory: "1GiB"
+}, async () => {
+  try {
+    // NFL games are weekly, so look further ahead
+    await ingestUpcomingGames(nflProvider, 14);
+  } catch (error) {
+    console.error("Error processing NFL games:", error);
+  }
+});
+
+export const updateRecentNflGames = onSchedule("every 1 hours", async () => {
+  try {
+    await updateRecentGames(nflProvider, 1);
+  } catch (error) {
+    console.error("Error updating recent NFL games:", error);
+  }
+});
+
+export const getFutureMlbGames = onSchedule({
+  schedule: "every 1 hours",
+  timeoutSeconds: 3600,
+  memory: "1GiB"
+}, async () => {
+  try {
+    await ingestUpcomingGames(mlbProvider, 7);
+  } catch (error) {
+    console.error("Error processing MLB games:", error);
+  }
+});
+
+export const updateRecentMlbGames = onSchedule("every 1 hours", async () => {
+  try {
+    await updateRecentGames(mlbProvider, 1);
+  } catch (error) {
+    console.error("Error updating recent MLB games:", error);
+  }
+});
+
+export const getFutureNhlGames = onSchedule({
+  schedule: "every 1 hours",
+  timeoutSeconds: 3600,
+  memory: "1GiB"
+}, async () => {
+  try {
+    await ingestUpcomingGames(nhlProvider, 14);
+  } catch (error) {
+    console.error("Error processing NHL games:", error);
+  }
+});
+
+export const updateRecentNhlGames = onSchedule("every 1 hours", async () => {
+  try {
+    await updateRecentGames(nhlProvider, 1);
+  } catch (error) {
+    console.error("Error updating recent NHL games:", error);
+  }
+});
+
+// --- Pricing & Side Market Logic ---
+
+const DEFAULT_ODDS_ALPHA = 0.5;
+const DEFAULT_LMSR_LIQUIDITY = 1000;
+
+/**
+ * Returns the market maker an event is priced with, chosen by its
+ * pricingModel ("poolBlend" unless set). LMSR needs mutually exclusive
+ * outcomes, so markets whose odds sum past 100 always use the pool blend.
+ */
+function getMarketMaker(eventData: any, oddsTotal = 100): MarketMaker {
+  const model: PricingModel =
+    eventData.pricingModel === "lmsr" && oddsTotal === 100 ? "lmsr" : "poolBlend";
+  return createMarketMaker(model, {
+    alpha: typeof eventData.oddsAlpha === "number" ? eventData.oddsAlpha : DEFAULT_ODDS_ALPHA,
+    liquidity:
+      typeof eventData.pricingLiquidity === "number"
+        ? eventData.pricingLiquidity
+        : DEFAULT_LMSR_LIQUIDITY,
+  });
+}
+
+/**
+ * Whether an event's moneyline has taken bets. Ingestion only seeds the odds
+ * and LMSR shares of events without any, so the market maker isn't reset
+ * while its liabilities are outstanding.
+ */
+function hasMoneylineBets(eventData: any) {
+  if (!eventData) return false;
+  if (eventData.lmsrShares || eventData.trades?.length) return true;
+  return ["homeBetAmount", "visitorBetAmount", "drawBetAmount"].some((field) => eventData[field] > 0);
+}
+
+/**
+ * Average odds a bet was filled at, as stored on the trade. Equal to the
+ * quoted odds for the pool blend; lower for LMSR bets that paid slippage.
+ */
+function getFilledOdds(betAmount: number, payout: number) {
+  return Math.round((betAmount * 100 / payout) * 100) / 100;
+}
+
+/**
+ * What a bet pays at the event's margined price, given what the market
+ * maker would pay at the fair price
+ */
+function applyMarginToPayout(eventData: any, betAmount: number, fairPayout: number) {
+  const margin = getEventMargin(eventData);
+  if (margin === 0) return fairPayout;
+  return betAmount * 100 / applyMargin(betAmount * 100 / fairPayout, margin);
+}
+
+/**
+ * Adds a moneyline bet to the event's pools, reprices the event with its
+ * market maker and records the move in oddsHistory. Shared by placeBet and
+ * limit order fills.
+ * @returns What the bet pays if it wins, at the margined price
+ */
+function applyMoneylineBet(
+  transaction: admin.firestore.Transaction,
+  eventRef: admin.firestore.DocumentReference,
+  eventData: any,
+  selectedTeam: string,
+  betAmount: number,
+  tradeId: string,
+  source: string
+): number {
+  const isSoccer = eventData.sport === "soccer";
+  const selections = isSoccer ? ["home", "visitor", "draw"] : ["home", "visitor"];
+  const poolFields = ["homeBetAmount", "visitorBetAmount", "drawBetAmount"];
+
+  // --- DYNAMIC ODDS LOGIC ---
+  // 1) Load the market before the bet
+  const state: MarketState = {
+    odds: selections.map((selection) => getSelectionOdds(eventData, selection)),
+    pools: selections.map((_, i) =>
+      typeof eventData[poolFields[i]] === "number" ? eventData[poolFields[i]] : 0
+    ),
+    ...(eventData.lmsrShares && {
+      shares: selections.map((selection) => eventData.lmsrShares[selection] || 0),
+    }),
+  };
+
+  // 2) Let the event's market maker price the bet and move the odds
+  const marketMaker = getMarketMaker(eventData);
+  const result = marketMaker.placeBet(state, selections.indexOf(selectedTeam), betAmount);
+
+  // 3) Pull back into your three odds
+  const [homeBetAmount, visitorBetAmount, drawBetAmount] = result.pools;
+  const newHomeOdds    = result.odds[0];
+  const newVisitorOdds = result.odds[1];
+  const newDrawOdds    = isSoccer ? result.odds[2] : undefined;
+
+  // Persist updated event state
+  const eventUpdates: any = {
+    trades: admin.firestore.FieldValue.arrayUnion(tradeId),
+    homeBetAmount,
+    visitorBetAmount,
+    homeTeamCurrentOdds: newHomeOdds,
+    visitorTeamCurrentOdds: newVisitorOdds,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  if (isSoccer) {
+    eventUpdates.drawBetAmount = drawBetAmount;
+    eventUpdates.drawOdds = newDrawOdds;
+  }
+  if (marketMaker.model === "poolBlend") {
+    eventUpdates.oddsAlpha =
+      typeof eventData.oddsAlpha === "number" ? eventData.oddsAlpha : DEFAULT_ODDS_ALPHA;
+  }
+  if (result.shares) {
+    const lmsrShares: { [selection: string]: number } = {};
+    selections.forEach((selection, i) => {
+      lmsrShares[selection] = result.shares![i];
+    });
+    eventUpdates.lmsrShares = lmsrShares;
+  }
+  transaction.update(eventRef, eventUpdates);
+
+  // NOTE: no more recomputation of existing trades’ currentStakeValue
+  const oddsHistoryRef = eventRef.collection("oddsHistory").doc();  // auto‐ID
+
+  transaction.set(oddsHistoryRef, createOddsHistoryEntry({
+    source,
+    odds: { home: newHomeOdds, visitor: newVisitorOdds, draw: newDrawOdds },
+    bet: { tradeId, selection: selectedTeam as OddsHistoryOutcome, amount: betAmount },
+    pools: { home: homeBetAmount, visitor: visitorBetAmount, draw: drawBetAmount },
+    isSoccer,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+  }));
+
+  return applyMarginToPayout(eventData, betAmount, result.payout);
+}
+
+interface SideMarketConfig {
+  sports: Sport[];
+  selections: string[];
+  oddsTotal: number;
+}
+
+// Sports without draws, which get a spread and total alongside the moneyline
+const TWO_WAY_SPORTS: Sport[] = ["basketball", "football", "baseball", "hockey"];
+
+/**
+ * An event's sport. NBA events from before other sports were added have no sport.
+ */
+function getEventSport(eventData: any): Sport {
+  return eventData.sport || "basketball";
+}
+
+// Markets offered alongside the moneyline, each with its own odds and pools
+const SIDE_MARKETS: { [market: string]: SideMarketConfig } = {
+  spread: { sports: TWO_WAY_SPORTS, selections: ["home", "visitor"], oddsTotal: 100 },
+  total: { sports: TWO_WAY_SPORTS, selections: ["over", "under"], oddsTotal: 100 },
+  doubleChance: {
+    sports: ["soccer"],
+    selections: ["homeOrDraw", "homeOrAway", "drawOrAway"],
+    oddsTotal: 200,
+  },
+  bothTeamsToScore: { sports: ["soccer"], selections: ["yes", "no"], oddsTotal: 100 },
+  totalGoals: { sports: ["soccer"], selections: ["over", "under"], oddsTotal: 100 },
+  halfTimeResult: { sports: ["soccer"], selections: ["home", "draw", "visitor"], oddsTotal: 100 },
+};
+
+// Goal line for the soccer total goals market
+const SOCCER_TOTAL_GOALS_LINE = 2.5;
+
+/**
+ * Builds a freshly opened side market with empty pools. Odds are even
+ * unless opening odds are given (in the same order as the selections).
+ */
+function openSideMarket(config: SideMarketConfig, line?: number, openingOdds?: number[]) {
+  const odds: { [selection: string]: number } = {};
+  const pools: { [selection: string]: number } = {};
+  config.selections.forEach((selection, i) => {
+    odds[selection] = openingOdds ? openingOdds[i] : config.oddsTotal / config.selections.length;
+    pools[selection] = 0;
+  });
+  return { ...(line !== undefined && { line }), odds, pools };
+}
+
+/**
+ * Opening odds for the soccer side markets, derived from the predicted
+ * full-time result and the goal predictions
+ */
+function openSoccerSideMarkets(predictedOdds: any) {
+  const { homeTeamOdds, drawOdds, awayTeamOdds } = predictedOdds;
+
+  // Half-time is drawn far more often than full time; move the draw up to
+  // at least 40% and split the rest in proportion to the full-time odds
+  const halfTimeDraw = Math.max(drawOdds, 40);
+  const halfTimeHome = Math.round((100 - halfTimeDraw) * homeTeamOdds / (homeTeamOdds + awayTeamOdds));
+
+  return {
+    doubleChance: openSideMarket(SIDE_MARKETS.doubleChance, undefined, [
+      homeTeamOdds + drawOdds,
+      homeTeamOdds + awayTeamOdds,
+      drawOdds + awayTeamOdds,
+    ]),
+    bothTeamsToScore: openSideMarket(SIDE_MARKETS.bothTeamsToScore, undefined, [
+      predictedOdds.bothTeamsScoreOdds,
+      100 - predictedOdds.bothTeamsScoreOdds,
+    ]),
+    totalGoals: openSideMarket(SIDE_MARKETS.totalGoals, SOCCER_TOTAL_GOALS_LINE, [
+      predictedOdds.overGoalsOdds,
+      100 - predictedOdds.overGoalsOdds,
+    ]),
+    halfTimeResult: openSideMarket(SIDE_MARKETS.halfTimeResult, undefined, [
+      halfTimeHome,
+      halfTimeDraw,
+      100 - halfTimeDraw - halfTimeHome,
+    ]),
+  };
+}
+
+/**
+ * Places a bet on a side market. The trade records the line (if the market
+ * has one) at the time of the bet, and only that market's pools and odds move.
+ */
+async function placeSideMarketBet(
+  uid: string,
+  eventId: string,
+  market: string,
+  selectedTeam: string,
+  betAmount: number,
+  quote: QuotePayload
+) {
+  const config = SIDE_MARKETS[market];
+  if (!config.selections.includes(selectedTeam)) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Selection for the ${market} market must be one of: ${config.selections.join(", ")}.`
+    );
+  }
+
+  const userRef = db.collection("users").doc(uid);
+  const eventRef = db.collection("events").doc(eventId);
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new HttpsError("not-found", "User document not found.");
+    }
+    const userData: any = userDoc.data();
+    const walletBalance = userData.walletBalance || 0;
+    if (betAmount > walletBalance) {
+      throw new HttpsError("failed-precondition", "Insufficient balance.");
+    }
+    await enforceResponsibleGaming(transaction, uid, userData, { stake: betAmount });
+
+    const eventDoc = await transaction.get(eventRef);
+    if (!eventDoc.exists) {
+      throw new HttpsError("not-found", "Event not found.");
+    }
+    const eventData: any = eventDoc.data()!;
+    assertEventOpen(eventData);
+    const sideMarket = eventData.markets?.[market];
+    if (!config.sports.includes(getEventSport(eventData)) || !sideMarket) {
+      throw new HttpsError("failed-precondition", `The ${market} market is not open for this event.`);
+    }
+
+    assertQuotedPrice(quote, getOfferedOdds(eventData, selectedTeam, market));
+
+    // Reprice this market only; the moneyline is unaffected
+    const marketMaker = getMarketMaker(eventData, config.oddsTotal);
+    const result = marketMaker.placeBet(
+      {
+        odds: config.selections.map((selection) => sideMarket.odds[selection]),
+        pools: config.selections.map((selection) => sideMarket.pools?.[selection] || 0),
+        ...(sideMarket.shares && {
+          shares: config.selections.map((selection) => sideMarket.shares[selection] || 0),
+        }),
+      },
+      config.selections.indexOf(selectedTeam),
+      betAmount,
+      config.oddsTotal
+    );
+    const expectedPayout = applyMarginToPayout(eventData, betAmount, result.payout);
+    const selectedOdds = getFilledOdds(betAmount, expectedPayout);
+
+    const tradeRef = db.collection("trades").doc();
+    transaction.set(tradeRef, {
+      userId: uid,
+      eventId,
+      market,
+      ...(typeof sideMarket.line === "number" && { line: sideMarket.line }),
+      amount: betAmount,
+      expectedPayout,
+      selectedTeam,
+      selectedOdds,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      status: "Pending",
+    });
+
+    const userUpdates: any = {
+      walletBalance: walletBalance - betAmount,
+      trades: admin.firestore.FieldValue.arrayUnion(tradeRef.id),
+    };
+    if (userData.lifetimePnl === undefined) {
+      userUpdates.lifetimePnl = 0;
+    }
+    transaction.update(userRef, userUpdates);
+    recordWalletTransaction(transaction, {
+      userId: uid,
+      type: "stake",
+      amount: -betAmount,
+      tradeId: tradeRef.id,
+      eventId,
+    });
+
+    const oddsBySelection: { [selection: string]: number } = {};
+    const pools: { [selection: string]: number } = {};
+    const shares: { [selection: string]: number } = {};
+    config.selections.forEach((selection, i) => {
+      oddsBySelection[selection] = result.odds[i];
+      pools[selection] = result.pools[i];
+      if (result.shares) shares[selection] = result.shares[i];
+    });
+
+    transaction.update(eventRef, {
+      trades: admin.firestore.FieldValue.arrayUnion(tradeRef.id),
+      [`markets.${market}.odds`]: oddsBySelection,
+      [`markets.${market}.pools`]: pools,
+      ...(result.shares && { [`markets.${market}.shares`]: shares }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return {
+      tradeId: tradeRef.id,
+      expectedPayout,
+      selectedOdds,
+      ...(typeof sideMarket.line === "number" && { line: sideMarket.line }),
+    };
+  });
+}
+
+// --- End Pricing & Side Market Logic ---
+
+// --- House Margin Logic ---
+
+// Margin added to the fair odds of new events, as a fraction of the fair
+// price. Override per sport with HOUSE_MARGIN_<SPORT>, e.g. HOUSE_MARGIN_SOCCER=0.06
+const DEFAULT_HOUSE_MARGINS: { [sport in Sport]: number } = {
+  basketball: 0.045,
+  football: 0.045,
+  baseball: 0.04,
+  hockey: 0.05,
+  soccer: 0.06,
+};
+const MAX_HOUSE_MARGIN = 0.25;
+
+// Events the hold report covers when no date range is given
+const HOLD_REPORT_DAYS_BEFORE = 7;
+const HOLD_REPORT_DAYS_AFTER = 14;
+
+/**
+ * House margin new events of a sport open with
+ */
+function getSportMargin(sport: Sport): number {
+  const configured = process.env[`HOUSE_MARGIN_${sport.toUpperCase()}`];
+  const margin = configured === undefined ? NaN : Number(configured);
+  return margin >= 0 && margin <= MAX_HOUSE_MARGIN ? margin : DEFAULT_HOUSE_MARGINS[sport];
+}
+
+/**
+ * Admin only: sets the house margin on one event, overriding its sport's
+ * default. Bets already placed keep the price they were filled at.
+ */
+export const setEventMargin = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  if (!isAdmin(request.auth)) {
+    throw new HttpsError("permission-denied", "Only admins can set margins.");
+  }
+
+  const { eventId, margin } = request.data;
+  if (!eventId || typeof margin !== "number" || margin < 0 || margin > MAX_HOUSE_MARGIN) {
+    throw new HttpsError(
+      "invalid-argument",
+      `An event ID and a margin between 0 and ${MAX_HOUSE_MARGIN} are required.`
+    );
+  }
+
+  const eventRef = db.collection("events").doc(String(eventId));
+  const eventDoc = await eventRef.get();
+  if (!eventDoc.exists) {
+    throw new HttpsError("not-found", "Event not found.");
+  }
+  await eventRef.update({
+    margin,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return { success: true, margin };
+});
+
+/**
+ * Admin only: theoretical hold of every event in a date range (by default
+ * the last week and the next two weeks), with the handle and expected hold
+ * of each market
+ */
+export const getHoldReport = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  if (!isAdmin(request.auth)) {
+    throw new HttpsError("permission-denied", "Only admins can view the hold report.");
+  }
+
+  const defaultRange = getDateRange(HOLD_REPORT_DAYS_BEFORE, HOLD_REPORT_DAYS_AFTER);
+  const { sport, from = defaultRange.from, to = defaultRange.to } = request.data || {};
+
+  let eventsQuery: admin.firestore.Query = db.collection("events")
+    .where("date", ">=", from)
+    .where("date", "<=", to);
+  if (sport && sport !== "basketball") {
+    eventsQuery = eventsQuery.where("sport", "==", sport);
+  }
+  const snapshot = await eventsQuery.get();
+
+  // NBA events stored before other sports were added have no sport
+  const events = snapshot.docs
+    .filter((doc) => !sport || getEventSport(doc.data()) === sport)
+    .map((doc) => ({ id: doc.id, data: doc.data() }));
+
+  return { from, to, ...buildHoldReport(events) };
+});
+
+// --- End House Margin Logic ---
+
+// --- Odds Candles Logic ---
+
+// Most candles returned per request; older candles are dropped
+const MAX_CANDLES = 500;
+
+/**
+ * Returns an event's odds history aggregated into open/high/low/close
+ * candles per outcome, with the amount bet in each bucket, so clients
+ * don't have to download every oddsHistory entry
+ */
+export const getOddsCandles = onCall({
+  region: "us-central1"
+}, async (request) => {
+  const { eventId, interval = "1h" } = request.data || {};
+  if (!eventId) {
+    throw new HttpsError("invalid-argument", "An event ID is required.");
+  }
+  if (!CANDLE_INTERVALS.hasOwnProperty(interval)) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Interval must be one of: ${Object.keys(CANDLE_INTERVALS).join(", ")}.`
+    );
+  }
+
+  const eventRef = db.collection("events").doc(String(eventId));
+  const [eventDoc, historySnapshot] = await Promise.all([
+    eventRef.get(),
+    eventRef.collection("oddsHistory").orderBy("timestamp", "asc").get(),
+  ]);
+  if (!eventDoc.exists) {
+    throw new HttpsError("not-found", "Event not found.");
+  }
+
+  const candles = aggregateOddsCandles(
+    historySnapshot.docs.map((doc) => doc.data()),
+    interval as CandleInterval,
+    eventDoc.data()?.sport === "soccer"
+  );
+  return {
+    interval,
+    candles: candles.slice(-MAX_CANDLES),
+    truncated: candles.length > MAX_CANDLES,
+  };
+});
+
+// --- End Odds Candles Logic ---
+
+// --- Quote Logic ---
+
+// How long a quote can be used to place a bet
+const QUOTE_TTL_MS = 15 * 1000;
+
+const quoteSigningSecret = process.env.QUOTE_SIGNING_SECRET || "";
+
+interface QuotePayload {
+  uid: string;
+  eventId: string;
+  market: string;
+  selectedTeam: string;
+  odds: number;
+  expiresAt: number;
+}
+
+/**
+ * Signs a quote so placeBet can trust it without storing it
+ */
+function signQuote(payload: QuotePayload) {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", quoteSigningSecret).update(body).digest("base64url");
+  return `${body}.${signature}`;
+}
+
+/**
+ * Checks a quote's signature, owner, selection and expiry, and returns its payload
+ */
+function verifyQuote(
+  quoteId: any,
+  expected: { uid: string; eventId: string; market: string; selectedTeam: string }
+): QuotePayload {
+  if (typeof quoteId !== "string" || !quoteId.includes(".")) {
+    throw new HttpsError("invalid-argument", "A valid quote is required to place a bet.");
+  }
+  const [body, signature] = quoteId.split(".");
+  const expectedSignature = createHmac("sha256", quoteSigningSecret).update(body).digest();
+  const givenSignature = Buffer.from(signature, "base64url");
+  if (
+    !quoteSigningSecret ||
+    givenSignature.length !== expectedSignature.length ||
+    !timingSafeEqual(givenSignature, expectedSignature)
+  ) {
+    throw new HttpsError("invalid-argument", "Invalid quote.");
+  }
+
+  const quote: QuotePayload = JSON.parse(Buffer.from(body, "base64url").toString());
+  if (
+    quote.uid !== expected.uid ||
+    quote.eventId !== String(expected.eventId) ||
+    quote.market !== expected.market ||
+    quote.selectedTeam !== expected.selectedTeam
+  ) {
+    throw new HttpsError("invalid-argument", "Quote does not match this bet.");
+  }
+  if (quote.expiresAt < Date.now()) {
+    throw new HttpsError("aborted", "Price moved: your quote expired. Please review the new odds.");
+  }
+  return quote;
+}
+
+/**
+ * Rejects the bet if the odds have moved since the quote was issued
+ */
+function assertQuotedPrice(quote: QuotePayload, currentOdds: number) {
+  if (quote.odds !== currentOdds) {
+    throw new HttpsError("aborted", "Price moved: the odds changed since your quote. Please review the new odds.");
+  }
+}
+
+/**
+ * Returns a short-lived signed quote for the server's current offered odds
+ * (including the house margin) on a selection. placeBet only accepts bets backed by a valid quote.
+ */
+export const getQuote = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  if (!quoteSigningSecret) {
+    console.error("QUOTE_SIGNING_SECRET not configured");
+    throw new HttpsError("failed-precondition", "Betting is temporarily unavailable.");
+  }
+
+  const { eventId, selectedTeam, market = "moneyline" } = request.data;
+  if (!eventId || !selectedTeam) {
+    throw new HttpsError("invalid-argument", "Missing required fields.");
+  }
+
+  const eventDoc = await db.collection("events").doc(String(eventId)).get();
+  const eventData: any = eventDoc.data();
+  if (!eventData) {
+    throw new HttpsError("not-found", "Event not found.");
+  }
+
+  if (market === "moneyline") {
+    if (!["home", "visitor", "draw"].includes(selectedTeam) ||
+        (selectedTeam === "draw" && eventData.sport !== "soccer")) {
+      throw new HttpsError("invalid-argument", "Invalid selection for this event.");
+    }
+  } else if (!SIDE_MARKETS.hasOwnProperty(market) ||
+             !eventData.markets?.[market] ||
+             !SIDE_MARKETS[market].selections.includes(selectedTeam)) {
+    throw new HttpsError("invalid-argument", "Invalid selection for this event.");
+  }
+
+  const odds = getOfferedOdds(eventData, selectedTeam, market);
+  const expiresAt = Date.now() + QUOTE_TTL_MS;
+  const quoteId = signQuote({
+    uid: request.auth.uid,
+    eventId: String(eventId),
+    market,
+    selectedTeam,
+    odds,
+    expiresAt,
+  });
+
+  return { quoteId, odds, expiresAt };
+});
+
+// --- End Quote Logic ---
+
+// --- Wallet Logic ---
+
+const MAX_DEPOSIT_AMOUNT = 1000;
+const MAX_WALLET_BALANCE = 10000;
+
+type WalletTransactionType =
+  | "deposit"
+  | "stake" // Bets, parlays and limit order reservations
+  | "payout" // Winning trades
+  | "refund" // Pushes, voids and closed limit orders
+  | "sale" // Selling to the house or on the marketplace
+  | "purchase" // Buying a trade on the marketplace
+  | "adjustment" // Reversals when an event is re-settled
+  | "opening"; // Balance and P&L from before the ledger, backfilled by migrate-opening-balances.js
+
+interface WalletTransaction {
+  userId: string;
+  type: WalletTransactionType;
+  amount: number; // Signed change to walletBalance
+  tradeId?: string;
+  orderId?: string;
+  eventId?: string;
+}
+
+/**
+ * Records a wallet balance change in walletTransactions, in the same
+ * transaction as the change itself
+ */
+function recordWalletTransaction(
+  transaction: admin.firestore.Transaction,
+  entry: WalletTransaction
+) {
+  const data: any = { createdAt: admin.firestore.FieldValue.serverTimestamp() };
+  Object.entries(entry).forEach(([key, value]) => {
+    if (value !== undefined) data[key] = value;
+  });
+  transaction.set(db.collection("walletTransactions").doc(), data);
+}
+
+/**
+ * Adds funds to the user's wallet. Deposits are capped at $1,000 each and
+ * the balance at $10,000.
+ */
+export const depositFunds = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  const uid = request.auth.uid;
+
+  const { amount } = request.data;
+  if (typeof amount !== "number" || !isFinite(amount) || amount <= 0) {
+    throw new HttpsError("invalid-argument", "Please enter a valid amount.");
+  }
+  if (amount > MAX_DEPOSIT_AMOUNT) {
+    throw new HttpsError("invalid-argument", "Maximum amount allowed is $1,000.");
+  }
+  const depositAmount = Math.round(amount * 100) / 100;
+
+  const userRef = db.collection("users").doc(uid);
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new HttpsError("not-found", "User document not found.");
+    }
+    const walletBalance = (userDoc.data()?.walletBalance || 0) + depositAmount;
+    if (walletBalance > MAX_WALLET_BALANCE) {
+      throw new HttpsError("failed-precondition", "Total balance cannot exceed $10,000.");
+    }
+    await enforceResponsibleGaming(transaction, uid, userDoc.data(), { deposit: depositAmount });
+
+    transaction.update(userRef, { walletBalance });
+    recordWalletTransaction(transaction, { userId: uid, type: "deposit", amount: depositAmount });
+
+    return { walletBalance };
+  });
+});
+
+/**
+ * Returns the user's wallet transactions, newest first
+ */
+export const getWalletTransactions = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+
+  const { pageSize, lastCreatedAt } = request.data || {};
+  const effectivePageSize =
+    typeof pageSize === "number" && pageSize > 0 ? Math.min(pageSize, 50) : 20;
+
+  let transactionsQuery = db
+    .collection("walletTransactions")
+    .where("userId", "==", request.auth.uid)
+    .orderBy("createdAt", "desc")
+    .limit(effectivePageSize);
+  if (lastCreatedAt) {
+    transactionsQuery = transactionsQuery.startAfter(
+      admin.firestore.Timestamp.fromMillis(lastCreatedAt)
+    );
+  }
+
+  const snapshot = await transactionsQuery.get();
+  const transactions = snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      ...data,
+      createdAt: data.createdAt?.toMillis?.() ?? null,
+    };
+  });
+
+  return { transactions, hasMore: snapshot.size === effectivePageSize };
+});
+
+// --- End Wallet Logic ---
+
+// --- Responsible Gaming Logic ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Raising or removing a limit only takes effect after this waiting period;
+// lowering one applies straight away
+const LIMIT_INCREASE_DELAY_MS = DAY_MS;
+
+type GamingLimitKey = "dailyDeposit" | "weeklyDeposit" | "monthlyDeposit" | "netLoss" | "maxStake";
+
+const GAMING_LIMIT_KEYS: GamingLimitKey[] = [
+  "dailyDeposit",
+  "weeklyDeposit",
+  "monthlyDeposit",
+  "netLoss",
+  "maxStake",
+];
+
+// Rolling windows for the deposit and net loss limits
+const DEPOSIT_LIMIT_WINDOWS: { key: GamingLimitKey; label: string; windowMs: number }[] = [
+  { key: "dailyDeposit", label: "daily", windowMs: DAY_MS },
+  { key: "weeklyDeposit", label: "weekly", windowMs: 7 * DAY_MS },
+  { key: "monthlyDeposit", label: "monthly", windowMs: 30 * DAY_MS },
+];
+const NET_LOSS_WINDOW_MS = 30 * DAY_MS;
+
+const COOL_OFF_DAYS = [1, 7, 30];
+const SELF_EXCLUSION_MONTHS = [6, 12, 60];
+
+interface PendingLimit {
+  value: number | null; // null removes the limit
+  effectiveAt: admin.firestore.Timestamp;
+}
+
+function formatDollars(amount: number) {
+  return `$${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * A user's limits as they apply right now. Pending raises whose waiting
+ * period has passed count as applied; the rest are returned separately.
+ */
+function getEffectiveLimits(userData: any, now = Date.now()) {
+  const settings = userData?.responsibleGaming || {};
+  const limits: { [key: string]: number | null } = {};
+  const pendingLimits: { [key: string]: PendingLimit } = {};
+  GAMING_LIMIT_KEYS.forEach((key) => {
+    const pending: PendingLimit | undefined = settings.pendingLimits?.[key];
+    if (pending && pending.effectiveAt.toMillis() <= now) {
+      limits[key] = pending.value;
+      return;
+    }
+    limits[key] = typeof settings.limits?.[key] === "number" ? settings.limits[key] : null;
+    if (pending) pendingLimits[key] = pending;
+  });
+  return { limits, pendingLimits };
+}
+
+/**
+ * Enforces the user's responsible gaming settings before money moves, and
+ * throws failed-precondition while on a break or when a limit would be
+ * exceeded. Reads the wallet ledger, so call it before the transaction's
+ * first write.
+ * @param action The stake about to be placed or the amount about to be deposited
+ */
+async function enforceResponsibleGaming(
+  transaction: admin.firestore.Transaction,
+  uid: string,
+  userData: any,
+  action: { stake?: number; deposit?: number }
+) {
+  const now = Date.now();
+  const settings = userData?.responsibleGaming || {};
+
+  const selfExcludedUntil = settings.selfExcludedUntil?.toMillis?.();
+  if (selfExcludedUntil && selfExcludedUntil > now) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Your account is self-excluded until ${new Date(selfExcludedUntil).toLocaleDateString("en-US")}.`
+    );
+  }
+  const coolOffUntil = settings.coolOffUntil?.toMillis?.();
+  if (coolOffUntil && coolOffUntil > now) {
+    throw new HttpsError(
+      "failed-precondition",
+      `You are taking a break until ${new Date(coolOffUntil).toLocaleString("en-US")}.`
+    );
+  }
+
+  const { limits } = getEffectiveLimits(userData, now);
+  if (typeof action.stake === "number" && limits.maxStake !== null && action.stake > limits.maxStake) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Your maximum stake per bet is ${formatDollars(limits.maxStake)}.`
+    );
+  }
+
+  const checkDeposits = typeof action.deposit === "number" &&
+    DEPOSIT_LIMIT_WINDOWS.some(({ key }) => limits[key] !== null);
+  const checkNetLoss = typeof action.stake === "number" && limits.netLoss !== null;
+  if (!checkDeposits && !checkNetLoss) return;
+
+  // Every window is at most 30 days, so one ledger read covers them all
+  const ledgerSnapshot = await transaction.get(
+    db.collection("walletTransactions")
+      .where("userId", "==", uid)
+      .where("createdAt", ">=", admin.firestore.Timestamp.fromMillis(now - 30 * DAY_MS))
+      .orderBy("createdAt", "desc")
+  );
+  const entries = ledgerSnapshot.docs.map((doc) => ({
+    type: doc.data().type,
+    amount: doc.data().amount || 0,
+    createdAt: doc.data().createdAt?.toMillis?.() ?? now,
+  }));
+
+  if (checkDeposits) {
+    DEPOSIT_LIMIT_WINDOWS.forEach(({ key, label, windowMs }) => {
+      const limit = limits[key];
+      if (limit === null) return;
+      const deposited = entries
+        .filter((entry) => entry.type === "deposit" && entry.createdAt >= now - windowMs)
+        .reduce((sum, entry) => sum + entry.amount, 0);
+      if (deposited + action.deposit! > limit) {
+        throw new HttpsError(
+          "failed-precondition",
+          `This deposit would exceed your ${label} deposit limit of ${formatDollars(limit)}.`
+        );
+      }
+    });
+  }
+
+  if (checkNetLoss) {
+    // Stakes count as losses until they come back as payouts, refunds or sales
+    const netLoss = -entries
+      .filter((entry) => entry.type !== "deposit" && entry.createdAt >= now - NET_LOSS_WINDOW_MS)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    if (netLoss + action.stake! > limits.netLoss!) {
+      throw new HttpsError(
+        "failed-precondition",
+        `This bet would exceed your net loss limit of ${formatDollars(limits.netLoss!)} over 30 days.`
+      );
+    }
+  }
+}
+
+/**
+ * Responsible gaming settings as returned to the client, with times in milliseconds
+ */
+function serializeResponsibleGaming(userData: any) {
+  const settings = userData?.responsibleGaming || {};
+  const { limits, pendingLimits } = getEffectiveLimits(userData);
+  const pending: { [key: string]: { value: number | null; effectiveAt: number } } = {};
+  Object.keys(pendingLimits).forEach((key) => {
+    pending[key] = {
+      value: pendingLimits[key].value,
+      effectiveAt: pendingLimits[key].effectiveAt.toMillis(),
+    };
+  });
+  return {
+    limits,
+    pendingLimits: pending,
+    coolOffUntil: settings.coolOffUntil?.toMillis?.() ?? null,
+    selfExcludedUntil: settings.selfExcludedUntil?.toMillis?.() ?? null,
+  };
+}
+
+/**
+ * Returns the user's responsible gaming limits and any active break
+ */
+export const getResponsibleGaming = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  const userDoc = await db.collection("users").doc(request.auth.uid).get();
+  return serializeResponsibleGaming(userDoc.data());
+});
+
+/**
+ * Updates the user's limits. Pass a number to set a limit or null to remove
+ * it. Lower limits apply immediately; raising or removing a limit waits
+ * LIMIT_INCREASE_DELAY_MS.
+ */
+export const setResponsibleGamingLimits = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  const requested = request.data?.limits;
+  if (!requested || typeof requested !== "object") {
+    throw new HttpsError("invalid-argument", "Limits are required.");
+  }
+  for (const key of Object.keys(requested)) {
+    const value = requested[key];
+    if (!GAMING_LIMIT_KEYS.includes(key as GamingLimitKey)) {
+      throw new HttpsError("invalid-argument", `Unknown limit: ${key}.`);
+    }
+    if (value !== null && (typeof value !== "number" || !isFinite(value) || value <= 0)) {
+      throw new HttpsError("invalid-argument", "Limits must be positive amounts.");
+    }
+  }
+
+  const userRef = db.collection("users").doc(request.auth.uid);
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new HttpsError("not-found", "User document not found.");
+    }
+    const { limits, pendingLimits } = getEffectiveLimits(userDoc.data());
+
+    Object.keys(requested).forEach((key) => {
+      const value: number | null = requested[key] === null ? null : Math.round(requested[key] * 100) / 100;
+      const current = limits[key];
+      const isRaise = current !== null && (value === null || value > current);
+      if (isRaise) {
+        pendingLimits[key] = {
+          value,
+          effectiveAt: admin.firestore.Timestamp.fromMillis(Date.now() + LIMIT_INCREASE_DELAY_MS),
+        };
+      } else {
+        limits[key] = value;
+        delete pendingLimits[key];
+      }
+    });
+
+    transaction.update(userRef, {
+      "responsibleGaming.limits": limits,
+      "responsibleGaming.pendingLimits": pendingLimits,
+    });
+
+    return serializeResponsibleGaming({
+      ...userDoc.data(),
+      responsibleGaming: { ...userDoc.data()?.responsibleGaming, limits, pendingLimits },
+    });
+  });
+});
+
+/**
+ * Starts a cool-off (in days) or self-exclusion (in months). Neither can be
+ * shortened once started; starting a longer one extends it. The user's open
+ * limit orders are cancelled and refunded so none fill during the break.
+ */
+export const startGamingBreak = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  const { type, duration } = request.data || {};
+  let until: Date;
+  if (type === "coolOff" && COOL_OFF_DAYS.includes(duration)) {
+    until = new Date(Date.now() + duration * DAY_MS);
+  } else if (type === "selfExclusion" && SELF_EXCLUSION_MONTHS.includes(duration)) {
+    until = new Date();
+    until.setMonth(until.getMonth() + duration);
+  } else {
+    throw new HttpsError("invalid-argument", "Invalid break type or duration.");
+  }
+
+  const field = type === "coolOff" ? "coolOffUntil" : "selfExcludedUntil";
+  const userRef = db.collection("users").doc(request.auth.uid);
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new HttpsError("not-found", "User document not found.");
+    }
+    const ordersSnapshot = await transaction.get(
+      db.collection("pendingOrders")
+        .where("userId", "==", request.auth!.uid)
+        .where("status", "==", "Open")
+    );
+    const settings = userDoc.data()?.responsibleGaming || {};
+    const currentUntil = settings[field]?.toMillis?.() || 0;
+    const untilTimestamp = admin.firestore.Timestamp.fromMillis(Math.max(currentUntil, until.getTime()));
+
+    transaction.update(userRef, { [`responsibleGaming.${field}`]: untilTimestamp });
+    ordersSnapshot.docs.forEach((orderDoc) => {
+      closeLimitOrder(transaction, orderDoc.ref, orderDoc.data(), "Cancelled");
+    });
+
+    return serializeResponsibleGaming({
+      ...userDoc.data(),
+      responsibleGaming: { ...settings, [field]: untilTimestamp },
+    });
+  });
+});
+
+// --- End Responsible Gaming Logic ---
+
+// --- Parlay Logic ---
+
+const MIN_PARLAY_LEGS = 2;
+const MAX_PARLAY_LEGS = 10;
+
+/**
+ * Returns the current odds an event offers for the given selection,
+ * looking in the side market when one is given
+ */
+function getSelectionOdds(eventData: any, selectedTeam: string, market?: string): number {
+  if (market && market !== "moneyline") return eventData.markets?.[market]?.odds?.[selectedTeam];
+  if (selectedTeam === "home") return eventData.homeTeamCurrentOdds;
+  if (selectedTeam === "visitor") return eventData.visitorTeamCurrentOdds;
+  return eventData.drawOdds || 20;
+}
+
+/**
+ * Odds offered to bettors on a selection: its current odds plus the event's
+ * house margin. Bets, quotes and cash-out values are priced from these.
+ */
+function getOfferedOdds(eventData: any, selectedTeam: string, market?: string): number {
+  return applyMargin(getSelectionOdds(eventData, selectedTeam, market), getEventMargin(eventData));
+}
+
+/**
+ * Places a parlay (multi-leg) trade. Each leg must be on a different event,
+ * and the payout is the stake multiplied by every leg's decimal odds.
+ * Parlays don't feed the single-event pools, so they leave odds untouched.
+ * Each leg needs a quote from getQuote, and the parlay is rejected if any
+ * leg's odds moved since.
+ */
+async function placeParlayBet(uid: string, legs: any[], betAmount: any) {
+  if (typeof betAmount !== "number" || betAmount <= 0) {
+    throw new HttpsError("invalid-argument", "Bet amount must be a positive number.");
+  }
+  if (legs.length < MIN_PARLAY_LEGS || legs.length > MAX_PARLAY_LEGS) {
+    throw new HttpsError(
+      "invalid-argument",
+      `A parlay must have between ${MIN_PARLAY_LEGS} and ${MAX_PARLAY_LEGS} legs.`
+    );
+  }
+
+  const eventIds: string[] = legs.map((leg) => (leg?.eventId ? String(leg.eventId) : ""));
+  if (eventIds.some((id) => !id)) {
+    throw new HttpsError("invalid-argument", "Every parlay leg needs an event ID.");
+  }
+  if (new Set(eventIds).size !== eventIds.length) {
+    throw new HttpsError("invalid-argument", "Each parlay leg must be on a different event.");
+  }
+  if (legs.some((leg) => !["home", "visitor", "draw"].includes(leg.selectedTeam))) {
+    throw new HttpsError(
+      "invalid-argument",
+      "Selected team must be 'home', 'visitor', or 'draw'."
+    );
+  }
+  // Every leg is priced against its own quote, as a single bet is
+  const quotes = legs.map((leg, i) =>
+    verifyQuote(leg.quoteId, { uid, eventId: eventIds[i], market: "moneyline", selectedTeam: leg.selectedTeam })
+  );
+
+  const userRef = db.collection("users").doc(uid);
+  const eventRefs = eventIds.map((id) => db.collection("events").doc(id));
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new HttpsError("not-found", "User document not found.");
+    }
+    const userData: any = userDoc.data();
+    const walletBalance = userData.walletBalance || 0;
+    if (betAmount > walletBalance) {
+      throw new HttpsError("failed-precondition", "Insufficient balance.");
+    }
+    await enforceResponsibleGaming(transaction, uid, userData, { stake: betAmount });
+
+    const eventDocs = await transaction.getAll(...eventRefs);
+    const parlayLegs: ParlayLeg[] = eventDocs.map((eventDoc, i) => {
+      if (!eventDoc.exists) {
+        throw new HttpsError("not-found", `Event ${eventIds[i]} not found.`);
+      }
+      const eventData: any = eventDoc.data();
+      assertEventOpen(eventData, `Event ${eventIds[i]}`);
+      const selectedTeam = legs[i].selectedTeam;
+      if (selectedTeam === "draw" && eventData.sport !== "soccer") {
+        throw new HttpsError("invalid-argument", "Draw is only available for soccer events.");
+      }
+      const selectedOdds = getOfferedOdds(eventData, selectedTeam);
+      assertQuotedPrice(quotes[i], selectedOdds);
+      return {
+        eventId: eventIds[i],
+        selectedTeam,
+        selectedOdds,
+        status: "Pending",
+      };
+    });
+
+    // Compound payout: product of each leg's decimal odds
+    const payoutMultiplier = parlayLegs.reduce(
+      (multiplier, leg) => multiplier * (100 / leg.selectedOdds),
+      1
+    );
+    const expectedPayout = betAmount * payoutMultiplier;
+
+    const tradeRef = db.collection("trades").doc();
+    transaction.set(tradeRef, {
+      userId: uid,
+      type: "parlay",
+      eventIds,
+      legs: parlayLegs,
+      amount: betAmount,
+      expectedPayout,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      status: "Pending",
+    });
+
+    const userUpdates: any = {
+      walletBalance: walletBalance - betAmount,
+      trades: admin.firestore.FieldValue.arrayUnion(tradeRef.id),
+    };
+    if (userData.lifetimePnl === undefined) {
+      userUpdates.lifetimePnl = 0;
+    }
+    transaction.update(userRef, userUpdates);
+    recordWalletTransaction(transaction, {
+      userId: uid,
+      type: "stake",
+      amount: -betAmount,
+      tradeId: tradeRef.id,
+    });
+
+    for (const eventRef of eventRefs) {
+      transaction.update(eventRef, {
+        trades: admin.firestore.FieldValue.arrayUnion(tradeRef.id),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    return {
+      tradeId: tradeRef.id,
+      expectedPayout,
+      legs: parlayLegs,
+    };
+  });
+}
+
+// --- End Parlay Logic ---
+
+// --- Limit Order Logic ---
+
+type LimitOrderStatus = "Open" | "Filled" | "Cancelled" | "Expired";
+
+/**
+ * Returns when an event starts, or null if the event has no usable date
+ */
+function getEventStartTime(eventData: any): Date | null {
+  const start = new Date(eventData.datetime || eventData.date);
+  return isNaN(start.getTime()) ? null : start;
+}
+
+/**
+ * Whether an event has started or finished, after which orders can't fill
+ */
+function hasEventStarted(eventData: any) {
+  if (isFinishedEvent(eventData) || eventData.state === "live") return true;
+  const start = getEventStartTime(eventData);
+  return !!start && start.getTime() <= Date.now();
+}
+
+/**
+ * Rejects bets on an event that has started, finished or won't be played
+ * @param label How the event is named in the error
+ */
+function assertEventOpen(eventData: any, label = "This event") {
+  if (eventData.state === "void") {
+    throw new HttpsError("failed-precondition", `${label} won't be played.`);
+  }
+  if (hasEventStarted(eventData)) {
+    throw new HttpsError("failed-precondition", `${label} has already started.`);
+  }
+}
+
+/**
+ * Closes an open order without filling it and refunds its reserved stake
+ */
+function closeLimitOrder(
+  transaction: admin.firestore.Transaction,
+  orderRef: admin.firestore.DocumentReference,
+  orderData: any,
+  status: LimitOrderStatus
+) {
+  transaction.update(orderRef, {
+    status,
+    closedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  transaction.update(db.collection("users").doc(orderData.userId), {
+    walletBalance: admin.firestore.FieldValue.increment(orderData.amount),
+  });
+  recordWalletTransaction(transaction, {
+    userId: orderData.userId,
+    type: "refund",
+    amount: orderData.amount,
+    orderId: orderRef.id,
+    eventId: orderData.eventId,
+  });
+}
+
+/**
+ * Fills an open limit order if the current odds have reached its target.
+ * Orders whose event has started are expired instead.
+ * @returns Whether the order was filled (and so moved the odds)
+ */
+async function fillLimitOrder(orderRef: admin.firestore.DocumentReference): Promise<boolean> {
+  return db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    const orderData: any = orderDoc.data();
+    if (!orderData || orderData.status !== "Open") return false;
+
+    const eventRef = db.collection("events").doc(orderData.eventId);
+    const eventDoc = await transaction.get(eventRef);
+    const eventData: any = eventDoc.data();
+    if (!eventData || hasEventStarted(eventData)) {
+      closeLimitOrder(transaction, orderRef, orderData, "Expired");
+      return false;
+    }
+
+    const currentOdds = getOfferedOdds(eventData, orderData.selectedTeam);
+    if (!(currentOdds <= orderData.targetOdds)) return false;
+
+    // The stake was reserved when the order was placed, so only record the trade
+    const tradeRef = db.collection("trades").doc();
+    const expectedPayout = applyMoneylineBet(
+      transaction,
+      eventRef,
+      eventData,
+      orderData.selectedTeam,
+      orderData.amount,
+      tradeRef.id,
+      "limitOrder"
+    );
+    transaction.set(tradeRef, {
+      userId: orderData.userId,
+      eventId: orderData.eventId,
+      amount: orderData.amount,
+      expectedPayout,
+      selectedTeam: orderData.selectedTeam,
+      selectedOdds: getFilledOdds(orderData.amount, expectedPayout),
+      limitOrderId: orderRef.id,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      status: "Pending",
+    });
+    transaction.update(db.collection("users").doc(orderData.userId), {
+      trades: admin.firestore.FieldValue.arrayUnion(tradeRef.id),
+    });
+    transaction.update(orderRef, {
+      status: "Filled",
+      tradeId: tradeRef.id,
+      filledOdds: currentOdds,
+      filledAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return true;
+  });
+}
+
+/**
+ * Fills every open limit order on an event whose target has been reached,
+ * oldest first. Each fill moves the odds, so the open orders are re-checked
+ * after every fill until none are left to fill.
+ */
+async function executeLimitOrders(eventId: string) {
+  try {
+    let filledOrder = true;
+    while (filledOrder) {
+      filledOrder = false;
+      const ordersSnapshot = await db
+        .collection("pendingOrders")
+        .where("eventId", "==", eventId)
+        .where("status", "==", "Open")
+        .get();
+
+      const orders = ordersSnapshot.docs.sort(
+        (a, b) => (a.data().createdAt?.toMillis() || 0) - (b.data().createdAt?.toMillis() || 0)
+      );
+      for (const orderDoc of orders) {
+        if (await fillLimitOrder(orderDoc.ref)) {
+          filledOrder = true;
+          break;
+        }
+      }
+    }
+  } catch (error) {
+    // A failed fill must not fail the bet that moved the odds
+    console.error(`Error executing limit orders for event ${eventId}:`, error);
+  }
+}
+
+/**
+ * Places a limit order: bet the amount on a moneyline selection once its
+ * odds drop to the target or below. The stake is reserved from the wallet
+ * until the order fills, is cancelled, or expires at event start.
+ */
+export const placeLimitOrder = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  const uid = request.auth.uid;
+  const { eventId, selectedTeam, betAmount, targetOdds } = request.data;
+
+  if (!eventId || !selectedTeam) {
+    throw new HttpsError("invalid-argument", "Missing required fields.");
+  }
+  if (typeof betAmount !== "number" || betAmount <= 0) {
+    throw new HttpsError("invalid-argument", "Bet amount must be a positive number.");
+  }
+  if (typeof targetOdds !== "number" || targetOdds < 1 || targetOdds > 99) {
+    throw new HttpsError("invalid-argument", "Target odds must be between 1 and 99.");
+  }
+  if (!["home", "visitor", "draw"].includes(selectedTeam)) {
+    throw new HttpsError(
+      "invalid-argument",
+      "Selected team must be 'home', 'visitor', or 'draw'."
+    );
+  }
+
+  const userRef = db.collection("users").doc(uid);
+  const eventRef = db.collection("events").doc(eventId);
+  const orderRef = db.collection("pendingOrders").doc();
+
+  await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new HttpsError("not-found", "User document not found.");
+    }
+    const walletBalance = userDoc.data()?.walletBalance || 0;
+    if (betAmount > walletBalance) {
+      throw new HttpsError("failed-precondition", "Insufficient balance.");
+    }
+    await enforceResponsibleGaming(transaction, uid, userDoc.data(), { stake: betAmount });
+
+    const eventDoc = await transaction.get(eventRef);
+    if (!eventDoc.exists) {
+      throw new HttpsError("not-found", "Event not found.");
+    }
+    const eventData: any = eventDoc.data();
+    const eventStart = getEventStartTime(eventData);
+    if (!eventStart || hasEventStarted(eventData)) {
+      throw new HttpsError("failed-precondition", "Limit orders can only be placed before the event starts.");
+    }
+    if (selectedTeam === "draw" && eventData.sport !== "soccer") {
+      throw new HttpsError("invalid-argument", "Draw is only available for soccer matches.");
+    }
+
+    transaction.set(orderRef, {
+      userId: uid,
+      eventId,
+      selectedTeam,
+      amount: betAmount,
+      targetOdds,
+      status: "Open",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt: admin.firestore.Timestamp.fromDate(eventStart),
+    });
+    transaction.update(userRef, { walletBalance: walletBalance - betAmount });
+    recordWalletTransaction(transaction, {
+      userId: uid,
+      type: "stake",
+      amount: -betAmount,
+      orderId: orderRef.id,
+      eventId,
+    });
+  });
+
+  // The target may already be met at the current odds
+  await executeLimitOrders(eventId);
+
+  const orderDoc = await orderRef.get();
+  return { orderId: orderRef.id, status: orderDoc.data()?.status };
+});
+
+/**
+ * Cancels one of the user's open limit orders and refunds the stake
+ */
+export const cancelLimitOrder = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  const { orderId } = request.data;
+  if (!orderId) throw new HttpsError("invalid-argument", "Order ID is required");
+
+  const orderRef = db.collection("pendingOrders").doc(orderId);
+  await db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    if (!orderDoc.exists) {
+      throw new HttpsError("not-found", "Order not found");
+    }
+    const orderData: any = orderDoc.data();
+    if (orderData.userId !== request.auth!.uid) {
+      throw new HttpsError("permission-denied", "You do not own this order");
+    }
+    if (orderData.status !== "Open") {
+      throw new HttpsError("failed-precondition", "Only open orders can be cancelled");
+    }
+    closeLimitOrder(transaction, orderRef, orderData, "Cancelled");
+  });
+
+  return { success: true };
+});
+
+/**
+ * Returns the user's open limit orders with their events, newest first
+ */
+export const getLimitOrders = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+
+  const ordersSnapshot = await db
+    .collection("pendingOrders")
+    .where("userId", "==", request.auth.uid)
+    .where("status", "==", "Open")
+    .get();
+
+  const eventIds = Array.from(new Set(ordersSnapshot.docs.map((doc) => doc.data().eventId)));
+  const eventDocs = eventIds.length > 0
+    ? await db.getAll(...eventIds.map((id) => db.collection("events").doc(id)))
+    : [];
+  const eventsMap = new Map(eventDocs.map((doc) => [doc.id, doc.data()]));
+
+  const orders = ordersSnapshot.docs.map((doc) => {
+    const order = doc.data();
     return {
-      homeTeamOdds: odds["home-win"],
-      drawOdds: odds["draw"],
-      awayTeamOdds: odds["away-win"]
+      ...order,
+      id: doc.id,
+      createdAt: order.createdAt ? order.createdAt.toMillis() : null,
+      expiresAt: order.expiresAt ? order.expiresAt.toMillis() : null,
+      event: eventsMap.get(order.eventId) || null,
     };
+  });
+  orders.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
+
+  return { orders };
+});
+
+/**
+ * Expires open limit orders whose event has started and refunds their stakes
+ */
+export const expireLimitOrders = onSchedule("every 15 minutes", async () => {
+  try {
+    const ordersSnapshot = await db
+      .collection("pendingOrders")
+      .where("status", "==", "Open")
+      .where("expiresAt", "<=", admin.firestore.Timestamp.now())
+      .get();
+
+    for (const orderDoc of ordersSnapshot.docs) {
+      await db.runTransaction(async (transaction) => {
+        const freshDoc = await transaction.get(orderDoc.ref);
+        if (freshDoc.data()?.status !== "Open") return;
+        closeLimitOrder(transaction, orderDoc.ref, freshDoc.data(), "Expired");
+      });
+    }
+
+    console.log(`Expired ${ordersSnapshot.size} limit orders`);
   } catch (error) {
-    console.error("Error getting predicted soccer odds from Gemini:", error);
-    return { homeTeamOdds: 40, drawOdds: 20, awayTeamOdds: 40 };
+    console.error("Error expiring limit orders:", error);
   }
-}
+});
 
-export const getFutureNbaGames = onSchedule({
-  schedule: "every 1 hours",
-  timeoutSeconds: 3600 ,
-  memory: "1GiB" // Increase memory allocation
-}, async (event) => {
-  try {
-    const today = new Date().toISOString().split("T")[0];
-    const endDate = new Date();
-    endDate.setDate(endDate.getDate() + 31);
-    const endDateString = endDate.toISOString().split("T")[0];
-
-    let allGames: any[] = [];
-    let cursor: string | null = null;
-    let hasMore = true;
-
-    // Fetch all games with pagination
-    while (hasMore) {
-      const params: any = {
-        start_date: today,
-        end_date: endDateString,
-        per_page: 100,
-      };
+// --- End Limit Order Logic ---
 
-      if (cursor) params.cursor = cursor;
+// --- Notification Logic ---
 
-      const response = await api.nba.getGames(params);
-      allGames = [...allGames, ...response.data];
-      hasMore = !!response.meta?.next_cursor;
-      cursor = response.meta?.next_cursor?.toString() || null;
-    }
+// Users notified per batch; each can take two writes and batches hold at most 500
+const NOTIFICATION_BATCH_SIZE = 200;
 
-    // Batch write to Firestore with chunking
-    const batchSize = 500; // Firestore batch limit
-    const batches = [];
+/**
+ * A write batch or transaction
+ */
+interface NotificationWriter {
+  create(documentRef: admin.firestore.DocumentReference, data: admin.firestore.DocumentData): unknown;
+}
 
-    for (let i = 0; i < allGames.length; i += batchSize) {
-      const batch = db.batch();
-      const chunk = allGames.slice(i, i + batchSize);
+/**
+ * Adds a notification to the user's notifications/{userId}/items feed, in
+ * the same batch or transaction as the change it reports
+ */
+function addNotification(
+  writer: NotificationWriter,
+  userId: string,
+  notification: NotificationContent
+) {
+  const ref = db.collection("notifications").doc(userId).collection("items").doc();
+  const data = createNotification({ ...notification, createdAt: admin.firestore.FieldValue.serverTimestamp() });
+  writer.create(ref, data);
+}
 
-      // Process each game in the chunk, getting AI predictions for odds
-      for (const game of chunk) {
-        // Get AI-predicted odds for this game
-        const predictedOdds = await getPredictedOdds(game.home_team, game.visitor_team);
-        
-        const docRef = db.collection("events").doc(game.id.toString());
-        // Set with merge: true to update existing documents
-        batch.set(
-          docRef,
-          {
-            ...game,
-            // Convert nested objects to Firestore-friendly format if needed
-            home_team: { ...game.home_team },
-            visitor_team: { ...game.visitor_team },
-            // Use AI-predicted odds instead of default 50-50
-            homeTeamCurrentOdds: predictedOdds.homeTeamOdds,
-            visitorTeamCurrentOdds: predictedOdds.visitorTeamOdds,
-            // Add timestamps if desired
-            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-          },
-          { merge: true }
-        );
+/**
+ * Applies one group of writes per user, committing them in batches
+ */
+async function commitPerUser(
+  userIds: string[],
+  write: (batch: admin.firestore.WriteBatch, userId: string) => void
+) {
+  for (let i = 0; i < userIds.length; i += NOTIFICATION_BATCH_SIZE) {
+    const batch = db.batch();
+    userIds.slice(i, i + NOTIFICATION_BATCH_SIZE).forEach((userId) => write(batch, userId));
+    await batch.commit();
+  }
+}
 
-        // Create the oddsHistory subcollection with initial odds
-        const oddsHistoryRef = docRef.collection("oddsHistory").doc();
-        batch.set(oddsHistoryRef, {
-          timestamp: admin.firestore.FieldValue.serverTimestamp(),
-          homeTeamOdds: predictedOdds.homeTeamOdds,
-          visitorTeamOdds: predictedOdds.visitorTeamOdds,
-          source: "gemini-ai"
-        });
-      }
+// --- End Notification Logic ---
 
-      batches.push(batch.commit());
-    }
+// --- Settlement Logic ---
 
-    // Execute all batches
-    await Promise.all(batches);
+// A baseball game called before the fifth inning isn't official and has no action
+const MLB_OFFICIAL_GAME_INNINGS = 5;
 
-    console.log(`${allGames.length} games processed successfully with AI-predicted odds`);
-  } catch (error) {
-    console.error("Error processing games:", error);
+/**
+ * The result to settle a game with, or null while it is still to be decided
+ */
+function getEventResult(game: Game): EventResult | null {
+  const shortened =
+    game.sport === "baseball" &&
+    game.state === "final" &&
+    typeof game.innings === "number" &&
+    game.innings < MLB_OFFICIAL_GAME_INNINGS;
+  if (shortened) {
+    return {
+      sport: game.sport,
+      homeScore: 0,
+      visitorScore: 0,
+      winningTeam: null,
+      voidReason: `Called after ${game.innings} innings`,
+    };
   }
-});
 
-export const updateRecentNbaGames = onSchedule("every 1 hours", async (event) => {
-  try {
-    const today = new Date();
-    const startDate = new Date(today);
-    startDate.setDate(today.getDate() - 1); // Get games from 1 day ago
-    const startDateString = startDate.toISOString().split("T")[0];
-    const endDateString = today.toISOString().split("T")[0];
-
-    let allGames: any[] = [];
-    let cursor: string | null = null;
-    let hasMore = true;
-
-    // Fetch all recent games with pagination
-    while (hasMore) {
-      const params: any = {
-        start_date: startDateString,
-        end_date: endDateString,
-        per_page: 100,
-      };
+  if (game.state === "void") {
+    // Postponed and cancelled games refund every bet
+    return {
+      sport: game.sport,
+      homeScore: 0,
+      visitorScore: 0,
+      winningTeam: null,
+      voidReason: game.status,
+    };
+  }
+  if (game.state !== "final") return null;
+
+  // Soccer feeds report the winner; otherwise go by the score
+  let winningTeam: EventResult["winningTeam"] = null;
+  const winner = game.score?.winner;
+  if (winner === "HOME_TEAM" || (!winner && game.homeScore > game.visitorScore)) {
+    winningTeam = "home";
+  } else if (winner === "AWAY_TEAM" || (!winner && game.visitorScore > game.homeScore)) {
+    winningTeam = "visitor";
+  } else if (game.sport === "soccer") {
+    winningTeam = "draw";
+  }
 
-      if (cursor) params.cursor = cursor;
+  return {
+    sport: game.sport,
+    homeScore: game.homeScore,
+    visitorScore: game.visitorScore,
+    winningTeam,
+    // Side markets settle from the full-time/half-time score
+    ...(game.score && { score: game.score }),
+  };
+}
 
-      const response = await api.nba.getGames(params);
-      allGames = [...allGames, ...response.data];
-      hasMore = !!response.meta?.next_cursor;
-      cursor = response.meta?.next_cursor?.toString() || null;
-    }
+/**
+ * Admins are users with the admin custom claim
+ */
+function isAdmin(auth: any) {
+  return auth?.token?.admin === true;
+}
 
-    // Batch update Firestore event documents
-    const batchSize = 500;
-    const batches = [];
+/**
+ * Settles every pending trade and parlay leg on an event in one transaction
+ * and records each outcome in settlements/{eventId}. Trades already in the
+ * ledger are skipped, so a crashed or repeated run is safe to retry.
+ * @param options.resettle Reverse every recorded outcome and grade the event
+ * again, for when a score is corrected
+ * @returns Number of trades settled
+ */
+async function settleEvent(
+  eventId: string,
+  result: EventResult,
+  options: { resettle?: boolean; settledBy?: string } = {}
+): Promise<number> {
+  const settlementRef = db.collection("settlements").doc(eventId);
+
+  return db.runTransaction(async (transaction) => {
+    // --- Reads ---
+    const settlementDoc = await transaction.get(settlementRef);
+    // Names the teams in the notifications sent to each trade's owner
+    const eventDoc = await transaction.get(db.collection("events").doc(eventId));
+    const previousLedger: SettlementLedger = settlementDoc.data()?.trades || {};
+
+    const tradeRefs: { [tradeId: string]: admin.firestore.DocumentReference } = {};
+    const trades: { [tradeId: string]: any } = {};
+    const addTrades = (docs: admin.firestore.DocumentSnapshot[]) => {
+      docs.forEach((doc) => {
+        if (!doc.exists) return;
+        tradeRefs[doc.id] = doc.ref;
+        trades[doc.id] = doc.data();
+      });
+    };
+    const singlesSnapshot = await transaction.get(
+      db.collection("trades").where("eventId", "==", eventId).where("status", "==", "Pending")
+    );
+    addTrades(singlesSnapshot.docs);
+    const parlaysSnapshot = await transaction.get(
+      db.collection("trades").where("eventIds", "array-contains", eventId)
+    );
+    addTrades(parlaysSnapshot.docs);
+    if (options.resettle) {
+      const settledRefs = Object.keys(previousLedger)
+        .filter((tradeId) => !trades[tradeId])
+        .map((tradeId) => db.collection("trades").doc(tradeId));
+      if (settledRefs.length > 0) addTrades(await transaction.getAll(...settledRefs));
+    }
 
-    for (let i = 0; i < allGames.length; i += batchSize) {
-      const batch = db.batch();
-      const chunk = allGames.slice(i, i + batchSize);
-
-      chunk.forEach((game) => {
-        const docRef = db.collection("events").doc(game.id.toString());
-        batch.set(
-          docRef,
-          {
-            ...game,
-            home_team: { ...game.home_team },
-            visitor_team: { ...game.visitor_team },
-            // Preserve current odds values by not overwriting them (using merge: true)
-            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-          },
-          { merge: true }
-        );
+    // A parlay decided when one of its other events settled has that decision
+    // in the other event's ledger, where re-settling this one has to undo it
+    const otherLedgerRefs: { [otherEventId: string]: admin.firestore.DocumentReference } = {};
+    const otherLedgers: { [otherEventId: string]: SettlementLedger } = {};
+    const otherEventIds = options.resettle ? getOtherLedgerIds(eventId, previousLedger, trades) : [];
+    if (otherEventIds.length > 0) {
+      const otherDocs = await transaction.getAll(
+        ...otherEventIds.map((otherEventId) => db.collection("settlements").doc(otherEventId))
+      );
+      otherDocs.forEach((otherDoc) => {
+        if (!otherDoc.exists) return;
+        otherLedgerRefs[otherDoc.id] = otherDoc.ref;
+        otherLedgers[otherDoc.id] = otherDoc.data()?.trades || {};
       });
+    }
 
-      batches.push(batch.commit());
+    const userIds = Array.from(
+      new Set(Object.values(trades).map((data) => data.userId).filter(Boolean))
+    );
+    const users: { [userId: string]: { walletBalance: number; lifetimePnl: number } } = {};
+    if (userIds.length > 0) {
+      const userDocs = await transaction.getAll(
+        ...userIds.map((userId) => db.collection("users").doc(userId))
+      );
+      userDocs.forEach((userDoc) => {
+        if (!userDoc.exists) return;
+        users[userDoc.id] = {
+          walletBalance: userDoc.data()?.walletBalance || 0,
+          lifetimePnl: userDoc.data()?.lifetimePnl || 0,
+        };
+      });
     }
 
-    await Promise.all(batches);
-    console.log(`Updated ${allGames.length} recent games successfully`);
-
-    // Process games that have now become Final
-    // (We assume that if there are pending trades for an event, they have not been processed yet.)
-    for (const game of allGames) {
-      if (game.status === "Final") {
-        // Query for pending trades associated with this event.
-        const tradesSnapshot = await db
-          .collection("trades")
-          .where("eventId", "==", game.id.toString())
-          .where("status", "==", "Pending")
-          .get();
-
-        if (tradesSnapshot.empty) continue;
-
-        // Determine which team won.
-        // (Assumes no ties; if needed you can adjust the logic for ties.)
-        let winningTeam: "home" | "visitor" | null = null;
-        if (game.home_team_score > game.visitor_team_score) {
-          winningTeam = "home";
-        } else if (game.visitor_team_score > game.home_team_score) {
-          winningTeam = "visitor";
-        }
+    const outcome = computeSettlement({
+      eventId,
+      result,
+      resettle: options.resettle,
+      previousLedger,
+      trades,
+      users,
+      otherLedgers,
+    });
+    if (outcome.changedTrades.length === 0 && !options.resettle) return 0;
+
+    // --- Writes ---
+    outcome.changedTrades.forEach((tradeId) => {
+      const data = outcome.trades[tradeId];
+      transaction.update(tradeRefs[tradeId], {
+        status: data.status,
+        ...(data.type === "parlay" && { legs: data.legs, expectedPayout: data.expectedPayout }),
+        // A settled trade can no longer be sold on the marketplace
+        ...(data.status !== "Pending" && { listing: admin.firestore.FieldValue.delete() }),
+      });
+    });
+    outcome.changedUsers.forEach((userId) => {
+      transaction.update(db.collection("users").doc(userId), outcome.users[userId]);
+    });
+    outcome.changedLedgers.forEach((otherEventId) => {
+      transaction.update(otherLedgerRefs[otherEventId], { trades: outcome.otherLedgers[otherEventId] });
+    });
+    outcome.walletEntries.forEach((entry) => recordWalletTransaction(transaction, entry));
+    outcome.changedTrades.forEach((tradeId) => {
+      const entry = outcome.ledger[tradeId];
+      if (!entry?.decided || entry.status === "Pending") return;
+      addNotification(
+        transaction,
+        entry.userId,
+        describeSettledTrade(outcome.trades[tradeId], entry.status, eventDoc.data(), options.resettle)
+      );
+    });
+    transaction.set(settlementRef, {
+      eventId,
+      result,
+      settledAt: admin.firestore.FieldValue.serverTimestamp(),
+      ...(options.resettle && {
+        resettledBy: options.settledBy || null,
+        resettleCount: admin.firestore.FieldValue.increment(1),
+      }),
+    }, { merge: true });
+    // Merging would deep-merge the map and keep entries that were reversed
+    // but not graded again, so later runs would skip them as settled
+    transaction.update(settlementRef, { trades: outcome.ledger });
+
+    return outcome.settledCount;
+  });
+}
 
-        // Prepare a batch for updating trades
-        const tradeBatch = db.batch();
-        // Create a map to track P&L updates for each user
-        const userUpdates: { [userId: string]: { walletIncrement: number, pnlIncrement: number } } = {};
+/**
+ * Settles an event from the scheduler, logging instead of throwing so one
+ * bad event doesn't stop the rest of the run
+ */
+async function settleEventSafely(eventId: string, result: EventResult) {
+  try {
+    const settledCount = await settleEvent(eventId, result);
+    if (settledCount > 0) console.log(`Settled ${settledCount} trades for event ${eventId}`);
+  } catch (error) {
+    console.error(`Error settling event ${eventId}:`, error);
+  }
+}
 
-        tradesSnapshot.docs.forEach((tradeDoc) => {
-          const trade = tradeDoc.data();
-          let newStatus = "Lost";
-          let pnlChange = -trade.amount; // Default to losing the bet amount
-          
-          if (winningTeam && trade.selectedTeam === winningTeam) {
-            newStatus = "Won";
-            // Calculate the net profit (payout - bet amount)
-            const profit = (trade.expectedPayout || 0) - trade.amount;
-            pnlChange = profit;
-            
-            // Track wallet and P&L increments for this user
-            if (trade.userId) {
-              if (!userUpdates[trade.userId]) {
-                userUpdates[trade.userId] = { walletIncrement: 0, pnlIncrement: 0 };
-              }
-              userUpdates[trade.userId].walletIncrement += trade.expectedPayout || 0;
-              userUpdates[trade.userId].pnlIncrement += pnlChange;
-            }
-          } else {
-            // For losses, only update P&L (wallet was already decreased when bet was placed)
-            if (trade.userId) {
-              if (!userUpdates[trade.userId]) {
-                userUpdates[trade.userId] = { walletIncrement: 0, pnlIncrement: 0 };
-              }
-              userUpdates[trade.userId].pnlIncrement += pnlChange;
-            }
-          }
-          
-          tradeBatch.update(tradeDoc.ref, { status: newStatus });
-        });
+/**
+ * Settles every game from a feed that has finished or won't be played
+ */
+async function settleGames(games: Game[]) {
+  for (const game of games) {
+    const result = getEventResult(game);
+    if (result) await settleEventSafely(game.id, result);
+  }
+}
 
-        await tradeBatch.commit();
+/**
+ * Admin only: re-settles an event after its score is corrected. Every
+ * recorded outcome is reversed and the event is graded again with the
+ * corrected score, which is also saved on the event.
+ */
+export const resettleEvent = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  if (!isAdmin(request.auth)) {
+    throw new HttpsError("permission-denied", "Only admins can re-settle events.");
+  }
 
-        // Update each user's walletBalance and lifetimePnl
-        const userBatch = db.batch();
-        for (const [userId, updates] of Object.entries(userUpdates)) {
-          const userRef = db.collection("users").doc(userId);
-          
-          // Update wallet balance for winners (or could be zero for losers)
-          if (updates.walletIncrement > 0) {
-            userBatch.update(userRef, {
-              walletBalance: admin.firestore.FieldValue.increment(updates.walletIncrement),
-            });
-          }
-          
-          // Always update the lifetimePnl field
-          userBatch.update(userRef, {
-            lifetimePnl: admin.firestore.FieldValue.increment(updates.pnlIncrement),
-          });
-        }
-        
-        await userBatch.commit();
-      }
-    }
-  } catch (error) {
-    console.error("Error updating recent games:", error);
+  const { eventId, homeScore, visitorScore, halfTime } = request.data;
+  if (!eventId || typeof homeScore !== "number" || typeof visitorScore !== "number" ||
+      homeScore < 0 || visitorScore < 0) {
+    throw new HttpsError("invalid-argument", "An event ID and both final scores are required.");
+  }
+
+  const eventRef = db.collection("events").doc(String(eventId));
+  const eventDoc = await eventRef.get();
+  const eventData: any = eventDoc.data();
+  if (!eventData) {
+    throw new HttpsError("not-found", "Event not found.");
+  }
+
+  const isSoccer = eventData.sport === "soccer";
+  let winningTeam: "home" | "visitor" | "draw" | null = null;
+  if (homeScore > visitorScore) winningTeam = "home";
+  else if (visitorScore > homeScore) winningTeam = "visitor";
+  else if (isSoccer) winningTeam = "draw";
+
+  const eventUpdates: any = {
+    home_team_score: homeScore,
+    visitor_team_score: visitorScore,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  let score: any;
+  if (isSoccer) {
+    score = {
+      ...eventData.score,
+      fullTime: { home: homeScore, away: visitorScore },
+      ...(halfTime && { halfTime: { home: halfTime.home, away: halfTime.away } }),
+      winner: winningTeam === "home" ? "HOME_TEAM" : winningTeam === "visitor" ? "AWAY_TEAM" : "DRAW",
+    };
+    eventUpdates.score = score;
   }
+  await eventRef.update(eventUpdates);
+
+  const settledCount = await settleEvent(
+    String(eventId),
+    {
+      sport: getEventSport(eventData),
+      homeScore,
+      visitorScore,
+      winningTeam,
+      ...(score && { score }),
+    },
+    { resettle: true, settledBy: request.auth.uid }
+  );
+
+  return { success: true, settledCount };
 });
 
+// --- End Settlement Logic ---
+
+/**
+ * Tells the followers of a user about a bet they just placed. Bets by users
+ * with private profiles aren't shared, and a failure here never fails the bet.
+ */
+async function notifyFollowers(uid: string, tradeId: string) {
+  try {
+    const [userDoc, tradeDoc] = await Promise.all([
+      db.collection("users").doc(uid).get(),
+      db.collection("trades").doc(tradeId).get(),
+    ]);
+    const userData = userDoc.data();
+    const trade = tradeDoc.data();
+    if (!userData || userData.private || !trade) return;
+
+    const [followers, eventDoc] = await Promise.all([
+      db.collection("users").where("following", "array-contains", uid).get(),
+      trade.eventId ? db.collection("events").doc(trade.eventId).get() : null,
+    ]);
+    const notification = describeFollowedBet(uid, userData.username || "someone", trade, eventDoc?.data());
+    await commitPerUser(followers.docs.map((doc) => doc.id), (batch, followerId) => {
+      addNotification(batch, followerId, notification);
+    });
+  } catch (error) {
+    console.error(`Error notifying followers of trade ${tradeId}:`, error);
+  }
+}
+
 export const placeBet = onCall(
   {
     region: "us-central1",
@@ -388,7 +2620,29 @@ export const placeBet = onCall(
       throw new HttpsError("unauthenticated", "User must be authenticated.");
     }
     const uid = request.auth.uid;
-    const { eventId, betAmount, selectedTeam, odds } = request.data;
+    const { eventId, betAmount, selectedTeam, quoteId, legs, market } = request.data;
+
+    // Parlay mode: several legs combined into one trade
+    if (Array.isArray(legs)) {
+      const parlay = await placeParlayBet(uid, legs, betAmount);
+      await notifyFollowers(uid, parlay.tradeId);
+      return parlay;
+    }
+
+    // Side markets (spreads, totals, soccer props) have their own pools and odds
+    if (market && market !== "moneyline") {
+      if (!SIDE_MARKETS.hasOwnProperty(market)) {
+        throw new HttpsError("invalid-argument", `Unknown market: ${market}.`);
+      }
+      if (!eventId || typeof betAmount !== "number" || betAmount <= 0 || !selectedTeam) {
+        throw new HttpsError("invalid-argument", "Missing required fields.");
+      }
+      const quote = verifyQuote(quoteId, { uid, eventId, market, selectedTeam });
+      const sideBet = await placeSideMarketBet(uid, eventId, market, selectedTeam, betAmount, quote);
+      await notifyFollowers(uid, sideBet.tradeId);
+      return sideBet;
+    }
+
     if (!eventId || betAmount == null || !selectedTeam) {
       throw new HttpsError("invalid-argument", "Missing required fields.");
     }
@@ -401,12 +2655,13 @@ export const placeBet = onCall(
         "Selected team must be 'home', 'visitor', or 'draw'."
       );
     }
+    const quote = verifyQuote(quoteId, { uid, eventId, market: "moneyline", selectedTeam });
 
     const db = admin.firestore();
     const userRef = db.collection("users").doc(uid);
     const eventRef = db.collection("events").doc(eventId);
 
-    return db.runTransaction(async (transaction) => {
+    const result = await db.runTransaction(async (transaction) => {
       // --- User wallet & trade creation ---
       const userDoc = await transaction.get(userRef);
       if (!userDoc.exists) {
@@ -417,6 +2672,7 @@ export const placeBet = onCall(
       if (betAmount > walletBalance) {
         throw new HttpsError("failed-precondition", "Insufficient balance.");
       }
+      await enforceResponsibleGaming(transaction, uid, userData, { stake: betAmount });
 
       // Deduct balance; init lifetimePnl if needed
       const userUpdates: any = { walletBalance: walletBalance - betAmount };
@@ -430,20 +2686,17 @@ export const placeBet = onCall(
         throw new HttpsError("not-found", "Event not found.");
       }
       const eventData: any = eventDoc.data()!;
-      const isSoccer = eventData.sport === "soccer";
-
-      // Determine which odds to use for expected payout
-      let selectedOdds = odds;
-      if (!selectedOdds) {
-        if (selectedTeam === "home") selectedOdds = eventData.homeTeamCurrentOdds;
-        else if (selectedTeam === "visitor")
-          selectedOdds = eventData.visitorTeamCurrentOdds;
-        else if (selectedTeam === "draw" && isSoccer) selectedOdds = eventData.drawOdds || 20;
-      }
-      const expectedPayout = betAmount * (100 / selectedOdds);
+      assertEventOpen(eventData);
+
+      // Price at the server's current odds, which must still match the quote
+      assertQuotedPrice(quote, getOfferedOdds(eventData, selectedTeam));
 
-      // Create the trade
+      // Move the market and create the trade
       const tradeRef = db.collection("trades").doc();
+      const expectedPayout = applyMoneylineBet(
+        transaction, eventRef, eventData, selectedTeam, betAmount, tradeRef.id, "placedBet"
+      );
+      const selectedOdds = getFilledOdds(betAmount, expectedPayout);
       transaction.set(tradeRef, {
         userId: uid,
         eventId,
@@ -456,132 +2709,12 @@ export const placeBet = onCall(
       });
       userUpdates.trades = admin.firestore.FieldValue.arrayUnion(tradeRef.id);
       transaction.update(userRef, userUpdates);
-
-      // --- DYNAMIC ODDS LOGIC ---
-      // 1) Load and increment total pools
-      let homeBetAmount =
-        typeof eventData.homeBetAmount === "number" ? eventData.homeBetAmount : 0;
-      let visitorBetAmount =
-        typeof eventData.visitorBetAmount === "number"
-          ? eventData.visitorBetAmount
-          : 0;
-      let drawBetAmount =
-        isSoccer && typeof eventData.drawBetAmount === "number"
-          ? eventData.drawBetAmount
-          : 0;
-
-      if (selectedTeam === "home") homeBetAmount += betAmount;
-      else if (selectedTeam === "visitor") visitorBetAmount += betAmount;
-      else if (selectedTeam === "draw") drawBetAmount += betAmount;
-
-      const totalBet =
-        homeBetAmount + visitorBetAmount + (isSoccer ? drawBetAmount : 0);
-
-      // 2) Previous (seed) probabilities
-      const prevHomeProb = (eventData.homeTeamCurrentOdds as number) / 100;
-      const prevVisitorProb = (eventData.visitorTeamCurrentOdds as number) / 100;
-      const prevDrawProb = isSoccer
-        ? (eventData.drawOdds as number) / 100
-        : 0;
-
-      // 3) Market probabilities
-      const marketHomeProb =
-        totalBet > 0 ? homeBetAmount / totalBet : prevHomeProb;
-      const marketVisitorProb =
-        totalBet > 0 ? visitorBetAmount / totalBet : prevVisitorProb;
-      const marketDrawProb =
-        isSoccer && totalBet > 0 ? drawBetAmount / totalBet : prevDrawProb;
-
-      // 4) Combine via α
-      const alpha =
-        typeof eventData.oddsAlpha === "number" ? eventData.oddsAlpha : 0.5;
-      let rawHomeProb = alpha * prevHomeProb + (1 - alpha) * marketHomeProb;
-      let rawVisitorProb =
-        alpha * prevVisitorProb + (1 - alpha) * marketVisitorProb;
-      let rawDrawProb = isSoccer
-        ? alpha * prevDrawProb + (1 - alpha) * marketDrawProb
-        : 0;
-
-      // Normalize to sum to 1
-      const sumRaw =
-        rawHomeProb + rawVisitorProb + (isSoccer ? rawDrawProb : 0);
-      rawHomeProb /= sumRaw;
-      rawVisitorProb /= sumRaw;
-      if (isSoccer) rawDrawProb /= sumRaw;
-
-      // 5) Smooth by β
-      const beta = 0.1;
-      const smooth = (newP: number, oldP: number) => {
-        const diff = newP - oldP;
-        if (Math.abs(diff) <= beta) return newP;
-        return oldP + Math.sign(diff) * beta;
-      };
-      let newHomeProb = smooth(rawHomeProb, prevHomeProb);
-      let newVisitorProb = smooth(rawVisitorProb, prevVisitorProb);
-      let newDrawProb = isSoccer
-        ? smooth(rawDrawProb, prevDrawProb)
-        : 0;
-
-      // Final re‐normalize
-      const sumNew =
-        newHomeProb + newVisitorProb + (isSoccer ? newDrawProb : 0);
-      newHomeProb /= sumNew;
-      newVisitorProb /= sumNew;
-      if (isSoccer) newDrawProb /= sumNew;
-
-      const floatOdds = isSoccer
-        ? [newHomeProb * 100, newVisitorProb * 100, newDrawProb * 100]
-        : [newHomeProb * 100, newVisitorProb * 100];
-
-      // 1) Floor each
-      const floors     = floatOdds.map(f => Math.floor(f));
-      // 2) Compute remainders
-      const remainders = floatOdds.map((f,i) => f - floors[i]);
-      // 3) Distribute leftover points
-      let leftover = 100 - floors.reduce((s,v) => s + v, 0);
-      const finalOdds = floors.slice();
-      while (leftover > 0) {
-        const idx = remainders
-          .map((r,i) => ({ r, i }))
-          .sort((a,b) => b.r - a.r)[0].i;
-        finalOdds[idx] += 1;
-        remainders[idx] = -1;
-        leftover--;
-      }
-
-      // 4) Pull back into your three odds
-      const newHomeOdds    = finalOdds[0];
-      const newVisitorOdds = finalOdds[1];
-      const newDrawOdds    = isSoccer ? finalOdds[2] : undefined;
-
-      // Persist updated event state
-      const eventUpdates: any = {
-        trades: admin.firestore.FieldValue.arrayUnion(tradeRef.id),
-        homeBetAmount,
-        visitorBetAmount,
-        homeTeamCurrentOdds: newHomeOdds,
-        visitorTeamCurrentOdds: newVisitorOdds,
-        oddsAlpha: alpha,
-        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      };
-      if (isSoccer) {
-        eventUpdates.drawBetAmount = drawBetAmount;
-        eventUpdates.drawOdds = newDrawOdds;
-      }
-      transaction.update(eventRef, eventUpdates);
-
-      // NOTE: no more recomputation of existing trades’ currentStakeValue
-      const oddsHistoryRef = db
-        .collection("events")
-        .doc(eventId)
-        .collection("oddsHistory")
-        .doc();  // auto‐ID
-
-      transaction.set(oddsHistoryRef, {
-        homeTeamOdds: newHomeOdds,
-        visitorTeamOdds: newVisitorOdds,
-        source: "placedBet",
-        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+      recordWalletTransaction(transaction, {
+        userId: uid,
+        type: "stake",
+        amount: -betAmount,
+        tradeId: tradeRef.id,
+        eventId,
       });
 
       return {
@@ -590,6 +2723,12 @@ export const placeBet = onCall(
         selectedOdds,
       };
     });
+
+    // The odds just moved, so some limit orders may now be fillable
+    await executeLimitOrders(eventId);
+    await notifyFollowers(uid, result.tradeId);
+
+    return result;
   }
 );
 
@@ -650,9 +2789,21 @@ export const getLatestActivity = onCall(
             eventData = eventDoc.exists ? eventDoc.data() : null;
           }
 
+          // Parlays carry one event per leg instead of a single eventId
+          let legs = tradeData.legs;
+          if (Array.isArray(legs)) {
+            legs = await Promise.all(
+              legs.map(async (leg: any) => {
+                const legEventDoc = await admin.firestore().collection("events").doc(leg.eventId).get();
+                return { ...leg, event: legEventDoc.exists ? legEventDoc.data() : null };
+              })
+            );
+          }
+
           return {
             id: doc.id,
             ...tradeData,
+            legs,
             event: eventData,
             user: userData
           };
@@ -810,7 +2961,11 @@ export const getUserProfileInfo = onCall(
         const validTradeDocs = tradeDocsSnapshots.filter((doc) => doc.exists);
 
         const eventIds = validTradeDocs
-          .map((doc) => doc.data()?.eventId)
+          .flatMap((doc) => {
+            const data = doc.data();
+            // Parlays reference one event per leg
+            return data?.type === "parlay" ? data.eventIds || [] : [data?.eventId];
+          })
           .filter((id): id is string => !!id);
 
         let eventsMap = new Map<string, any>();
@@ -839,10 +2994,7 @@ export const getUserProfileInfo = onCall(
 
           let currentOdds: number | undefined;
           if (event) {
-            currentOdds =
-              tradeData.selectedTeam === 'home'
-                ? event.homeTeamCurrentOdds
-                : event.visitorTeamCurrentOdds;
+            currentOdds = getOfferedOdds(event, tradeData.selectedTeam, tradeData.market);
           }
 
           const currentValue =
@@ -856,12 +3008,18 @@ export const getUserProfileInfo = onCall(
             nanoseconds: createdAtTimestamp.nanoseconds
           } : null;
 
+          // Attach each parlay leg's event so the profile can render a grouped card
+          const legs = Array.isArray(tradeData.legs)
+            ? tradeData.legs.map((leg: any) => ({ ...leg, event: eventsMap.get(leg.eventId) }))
+            : undefined;
+
           return {
             ...tradeData,
             id: tradeDoc.id,
             createdAt: serializedCreatedAt,
             event: event,
             currentValue,
+            ...(legs && { legs }),
           };
         }).filter((trade): trade is any => trade !== null);
 
@@ -981,42 +3139,16 @@ export const getFutureSoccerMatches = onSchedule({
   memory: "1GiB"
 }, async (event) => {
   try {
-    if (!footballApiKey) {
+    if (!footballApiKey && !sportsDataFixtures) {
       console.error("FOOTBALL_DATA_API_KEY not configured");
       return;
     }
 
-    // Get today's date and date 30 days from now
-    const today = new Date();
-    const todayStr = today.toISOString().split('T')[0];
-    const endDate = new Date();
-    endDate.setDate(endDate.getDate() + 30);
-    const endDateStr = endDate.toISOString().split('T')[0];
-
-    // Define major competitions to fetch
-    const competitions = ['PL', 'BL1', 'SA', 'PD', 'FL1', 'CL']; // Premier League, Bundesliga, Serie A, La Liga, Ligue 1, Champions League
-    let allMatches: any[] = [];
-
-    // Fetch matches for each competition
-    for (const competitionCode of competitions) {
-      try {
-        const response = await footballApi.getMatchesByCompetition(
-          competitionCode, 
-          { dateFrom: todayStr, dateTo: endDateStr }
-        );
-        
-        if (response && response.matches) {
-          allMatches = [...allMatches, ...response.matches];
-        }
-      } catch (err) {
-        console.error(`Error fetching matches for competition ${competitionCode}:`, err);
-      }
-      
-      // Add a small delay between API calls to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
+    // Matches from today to 30 days from now
+    const allMatches = await soccerProvider.getUpcomingGames(getDateRange(0, 30));
 
     console.log(`Found ${allMatches.length} upcoming soccer matches`);
+    const poisson = await getPoissonModel();
 
     // Batch write to Firestore with chunking
     const batchSize = 500; // Firestore batch limit
@@ -1029,65 +3161,60 @@ export const getFutureSoccerMatches = onSchedule({
       // Process each match in the chunk
       for (const match of chunk) {
         try {
-          // Get AI-predicted odds for this match
-          const predictedOdds = await getSoccerPredictedOdds(
-            match.homeTeam,
-            match.awayTeam,
-            match.competition
-          );
-          
-          // Transform soccer match to fit our Event schema
+          const predictedOdds = await getSoccerOpeningOdds(match, poisson);
+
           const transformedMatch = {
-            id: `soccer_${match.id}`,
-            date: match.utcDate,
-            datetime: match.utcDate,
-            sport: 'soccer',
-            home_team: {
-              id: match.homeTeam.id,
-              full_name: match.homeTeam.name,
-              abbreviation: match.homeTeam.tla || match.homeTeam.shortName,
-              city: match.homeTeam.address || null,
-              logo: match.homeTeam.crest
-            },
-            visitor_team: {
-              id: match.awayTeam.id,
-              full_name: match.awayTeam.name,
-              abbreviation: match.awayTeam.tla || match.awayTeam.shortName,
-              city: match.awayTeam.address || null,
-              logo: match.awayTeam.crest
-            },
-            home_team_score: match.score.fullTime?.home || 0,
-            visitor_team_score: match.score.fullTime?.away || 0,
-            period: 0,
-            status: match.status,
-            time: null,
-            season: new Date().getFullYear(),
-            postseason: match.stage !== 'REGULAR_SEASON',
-            competition: {
-              id: match.competition.id,
-              name: match.competition.name,
-              logo: match.competition.emblem
-            },
-            // Use AI-predicted odds
-            homeTeamCurrentOdds: predictedOdds.homeTeamOdds,
-            visitorTeamCurrentOdds: predictedOdds.awayTeamOdds,
-            drawOdds: predictedOdds.drawOdds,
+            ...toEventDocument(match),
             updatedAt: admin.firestore.FieldValue.serverTimestamp()
           };
           
           const docRef = db.collection("events").doc(transformedMatch.id);
+
+          // Open the side markets only once so existing pools aren't reset
+          const existingDoc = await docRef.get();
+          const existingData = existingDoc.exists ? existingDoc.data() : undefined;
+          const hasSideMarkets = !!existingData?.markets;
+          const hasMargin = typeof existingData?.margin === "number";
+          const seedOdds = !hasMoneylineBets(existingData);
+
           // Set with merge: true to update existing documents
-          batch.set(docRef, transformedMatch, { merge: true });
+          batch.set(
+            docRef,
+            {
+              ...transformedMatch,
+              // Matches with bets keep the odds and shares their bets moved them to
+              ...(seedOdds && {
+                homeTeamCurrentOdds: predictedOdds.homeTeamOdds,
+                visitorTeamCurrentOdds: predictedOdds.awayTeamOdds,
+                drawOdds: predictedOdds.drawOdds,
+                // LMSR events seed their shares from the new odds on the first bet
+                lmsrShares: admin.firestore.FieldValue.delete(),
+              }),
+              ...(!hasSideMarkets && { markets: openSoccerSideMarkets(predictedOdds) }),
+              ...(!hasMargin && { margin: getSportMargin("soccer") }),
+            },
+            { merge: true }
+          );
 
           // Create the oddsHistory subcollection with initial odds
-          const oddsHistoryRef = docRef.collection("oddsHistory").doc();
-          batch.set(oddsHistoryRef, {
-            timestamp: admin.firestore.FieldValue.serverTimestamp(),
-            homeTeamOdds: predictedOdds.homeTeamOdds,
-            drawOdds: predictedOdds.drawOdds,
-            awayTeamOdds: predictedOdds.awayTeamOdds,
-            source: "gemini-ai"
-          });
+          if (seedOdds) {
+            const oddsHistoryRef = docRef.collection("oddsHistory").doc();
+            batch.set(oddsHistoryRef, createOddsHistoryEntry({
+              source: predictedOdds.source,
+              odds: {
+                home: predictedOdds.homeTeamOdds,
+                visitor: predictedOdds.awayTeamOdds,
+                draw: predictedOdds.drawOdds,
+              },
+              pools: {
+                home: existingData?.homeBetAmount,
+                visitor: existingData?.visitorBetAmount,
+                draw: existingData?.drawBetAmount,
+              },
+              isSoccer: true,
+              timestamp: admin.firestore.FieldValue.serverTimestamp(),
+            }));
+          }
         } catch (err) {
           console.error(`Error processing soccer match ${match.id}:`, err);
         }
@@ -1107,180 +3234,13 @@ export const getFutureSoccerMatches = onSchedule({
 
 export const updateRecentSoccerMatches = onSchedule("every 1 hours", async (event) => {
   try {
-    if (!footballApiKey) {
+    if (!footballApiKey && !sportsDataFixtures) {
       console.error("FOOTBALL_DATA_API_KEY not configured");
-      return;
-    }
-    // Get matches from 3 days ago to today
-    const today = new Date();
-    
-    // Create start date (3 days ago)
-    const startDate = new Date();
-    startDate.setDate(today.getDate() - 3);
-    
-    // Create end date (today)
-    const endDate = new Date(today);
-    
-    // Format dates as YYYY-MM-DD
-    const startDateStr = startDate.toISOString().split('T')[0];
-    const endDateStr = endDate.toISOString().split('T')[0];
-    
-    console.log(`Fetching soccer matches from ${startDateStr} to ${endDateStr}`);
-
-    // Using proper comma-separated format for status param
-    const response = await footballApi.getMatches({
-      dateFrom: startDateStr,
-      dateTo: endDateStr,
-      status: 'FINISHED,IN_PLAY,PAUSED'
-    });
-
-    if (!response || !response.matches) {
-      console.log("No recent soccer matches to update");
-      return;
-    }
-
-    const allMatches = response.matches;
-    console.log(`Found ${allMatches.length} recent soccer matches to update`);
-
-    // Batch update Firestore event documents
-    const batchSize = 500;
-    const batches = [];
-
-    for (let i = 0; i < allMatches.length; i += batchSize) {
-      const batch = db.batch();
-      const chunk = allMatches.slice(i, i + batchSize);
-
-      for (const match of chunk) {
-        // Check if winner information exists from API
-        let winnerInfo = null;
-        if (match.score.fullTime) {
-          const homeScore = match.score.fullTime.home || 0;
-          const awayScore = match.score.fullTime.away || 0;
-          
-          if (homeScore > awayScore) {
-            winnerInfo = "HOME_TEAM";
-          } else if (awayScore > homeScore) {
-            winnerInfo = "AWAY_TEAM";
-          } else {
-            winnerInfo = "DRAW";
-          }
-        }
-
-        // Create more complete document
-        const transformedMatch = {
-          id: `soccer_${match.id}`,
-          home_team_score: match.score.fullTime?.home || 0,
-          visitor_team_score: match.score.fullTime?.away || 0,
-          status: match.status,
-          score: {
-            ...match.score,
-            winner: match.score.winner || winnerInfo
-          },
-          updatedAt: admin.firestore.FieldValue.serverTimestamp()
-        };
-        
-        const docRef = db.collection("events").doc(transformedMatch.id);
-        batch.set(docRef, transformedMatch, { merge: true });
-
-        console.log(`Match ${match.id} data sample: ${JSON.stringify(match.score)}`);
-      }
-
-      batches.push(batch.commit());
-    }
-
-    await Promise.all(batches);
-    console.log(`Updated ${allMatches.length} recent soccer matches successfully`);
-
-    // Process completed matches to settle bets, similar to NBA implementation
-    for (const match of allMatches) {
-      if (match.status === "FINISHED") {
-        // Query for pending trades associated with this event.
-        const transformedMatchId = `soccer_${match.id}`;
-        const tradesSnapshot = await db
-          .collection("trades")
-          .where("eventId", "==", transformedMatchId)
-          .where("status", "==", "Pending")
-          .get();
-
-        if (tradesSnapshot.empty) continue;
-
-        // Determine result - soccer has 3 possible outcomes (home, away, draw)
-        let winningTeam: "home" | "visitor" | "draw" | null = null;
-        if (match.score.winner === "HOME_TEAM") {
-          winningTeam = "home";
-        } else if (match.score.winner === "AWAY_TEAM") {
-          winningTeam = "visitor";
-        } else if (match.score.winner === "DRAW") {
-          winningTeam = "draw";
-        }
-
-        // Fallback to determine winner by scores if score.winner is missing
-        if (!winningTeam && match.home_team_score !== undefined && match.visitor_team_score !== undefined) {
-          if (match.home_team_score > match.visitor_team_score) {
-            winningTeam = "home";
-          } else if (match.visitor_team_score > match.home_team_score) {
-            winningTeam = "visitor";
-          } else {
-            winningTeam = "draw";
-          }
-        }
-
-        // Prepare a batch for updating trades
-        const tradeBatch = db.batch();
-        const userUpdates: { [userId: string]: { walletIncrement: number, pnlIncrement: number } } = {};
-
-        // Process each trade
-        for (const tradeDoc of tradesSnapshot.docs) {
-          const trade = tradeDoc.data();
-          const userId = trade.userId;
-          const betAmount = trade.amount;
-          // Use selectedOdds instead of odds
-          const selectedTeam = trade.selectedTeam;
-          
-          // Check if the user won the bet
-          const userWon = selectedTeam === winningTeam;
-          
-          // Update trade status
-          tradeBatch.update(tradeDoc.ref, { 
-            status: userWon ? "Won" : "Lost"
-          });
-          
-          // Track user updates
-          if (!userUpdates[userId]) {
-            userUpdates[userId] = {
-              walletIncrement: 0,
-              pnlIncrement: 0
-            };
-          }
-          
-          // PnL is payout - bet amount
-          const pnl = userWon ? (trade.expectedPayout || 0) - betAmount : -betAmount;
-          
-          // If user won, add the payout to their wallet
-          // If user lost, the bet amount was already deducted when placing the bet
-          if (userWon) {
-            userUpdates[userId].walletIncrement += trade.expectedPayout || 0;
-          }
-          
-          // Add the PnL to the user's total PnL
-          userUpdates[userId].pnlIncrement += pnl;
-        }
-        
-        // Update each user's data
-        for (const userId in userUpdates) {
-          const userRef = db.collection("users").doc(userId);
-          const update = userUpdates[userId];
-          
-          tradeBatch.update(userRef, {
-            walletBalance: admin.firestore.FieldValue.increment(update.walletIncrement),
-            lifetimePnl: admin.firestore.FieldValue.increment(update.pnlIncrement)
-          });
-        }
-        
-        // Commit the updates
-        await tradeBatch.commit();
-      }
+      return;
     }
+
+    // Matches from 3 days ago to today
+    await updateRecentGames(soccerProvider, 3);
   } catch (error) {
     console.error("Error updating recent soccer matches:", error);
   }
@@ -1538,7 +3498,7 @@ export const createPost = onCall(
   },
   async (request) => {
     console.log("createPost called by user:", request.auth?.uid, "data:", request.data);
-    const { content, taggedEvents, mediaUrl, mediaType } = request.data;
+    const { content, taggedEvents, mediaUrl, mediaType, replyToPostId } = request.data;
     const auth = request.auth;
 
     if (!auth) {
@@ -1563,12 +3523,26 @@ export const createPost = onCall(
       throw new HttpsError("invalid-argument", "Media type must be 'image' or 'video'");
     }
 
+    if (replyToPostId !== undefined && (typeof replyToPostId !== 'string' || replyToPostId === '')) {
+      throw new HttpsError("invalid-argument", "Reply must be to a post ID");
+    }
+
     try {
       // Get user data for username
       const userDoc = await db.collection("users").doc(auth.uid).get();
       if (!userDoc.exists) {
         throw new HttpsError("not-found", "User not found");
       }
+
+      // Replies keep who they're replying to, for display and for notifying them
+      let parentPost: any = null;
+      if (replyToPostId) {
+        const parentDoc = await db.collection("posts").doc(replyToPostId).get();
+        if (!parentDoc.exists) {
+          throw new HttpsError("not-found", "The post being replied to no longer exists");
+        }
+        parentPost = parentDoc.data();
+      }
       
       const userData = userDoc.data();
       const username = userData?.username || auth.token.name || auth.token.email?.split('@')[0] || 'User';
@@ -1586,9 +3560,22 @@ export const createPost = onCall(
       // Add media fields if they are provided
       if (mediaUrl) postData.mediaUrl = mediaUrl;
       if (mediaType) postData.mediaType = mediaType;
+      if (parentPost) {
+        postData.replyTo = {
+          postId: replyToPostId,
+          userId: parentPost.userId,
+          username: parentPost.username,
+        };
+      }
       
-      // Add the post to Firestore
-      const docRef = await db.collection("posts").add(postData);
+      // Add the post to Firestore, notifying the author of the post replied to
+      const docRef = db.collection("posts").doc();
+      const postBatch = db.batch();
+      postBatch.set(docRef, postData);
+      if (parentPost && parentPost.userId !== auth.uid) {
+        addNotification(postBatch, parentPost.userId, describeReply(auth.uid, username, postData.content));
+      }
+      await postBatch.commit();
       
       // For each tagged event, update its posts array
       if (taggedEvents && taggedEvents.length > 0) {
@@ -1745,96 +3732,879 @@ export const editPost = onCall(
 // --- Marketplace Logic: buyBet & sellBet ---
 
 /**
- * Sells a pending bet and credits the user's wallet with the current value
+ * Loads a trade and checks that it can be listed by the given user
  */
-export const sellBet = onCall({
+async function getListableTrade(tradeId: string, uid: string) {
+  const tradeRef = db.collection("trades").doc(tradeId);
+  const tradeSnap = await tradeRef.get();
+  if (!tradeSnap.exists) {
+    throw new HttpsError("not-found", "Trade not found");
+  }
+  const tradeData = tradeSnap.data()!;
+  if (tradeData.userId !== uid) {
+    throw new HttpsError("permission-denied", "You do not own this trade");
+  }
+  if (tradeData.status !== "Pending") {
+    throw new HttpsError("failed-precondition", "Only pending trades can be listed");
+  }
+  if (tradeData.type === "parlay") {
+    throw new HttpsError("failed-precondition", "Parlays cannot be listed");
+  }
+  return { tradeRef, tradeData };
+}
+
+/**
+ * Lists a pending trade on the marketplace at an asking price,
+ * replacing any existing listing for it
+ */
+export const listBet = onCall({
   region: "us-central1"
 }, async (request) => {
-  // Authentication check
   const auth = request.auth;
   if (!auth) throw new HttpsError("unauthenticated", "User must be authenticated");
-  
+
+  const { tradeId, askingPrice } = request.data;
+  if (!tradeId) throw new HttpsError("invalid-argument", "Trade ID is required");
+  if (typeof askingPrice !== "number" || !(askingPrice > 0)) {
+    throw new HttpsError("invalid-argument", "Asking price must be a positive number");
+  }
+
+  const { tradeRef } = await getListableTrade(tradeId, auth.uid);
+  const listing = {
+    askingPrice: Math.round(askingPrice * 100) / 100,
+    listedAt: admin.firestore.Timestamp.now(),
+  };
+  await tradeRef.update({ listing });
+
+  return { success: true, listing };
+});
+
+/**
+ * Removes a trade's marketplace listing
+ */
+export const cancelListing = onCall({
+  region: "us-central1"
+}, async (request) => {
+  const auth = request.auth;
+  if (!auth) throw new HttpsError("unauthenticated", "User must be authenticated");
+
   const { tradeId } = request.data;
   if (!tradeId) throw new HttpsError("invalid-argument", "Trade ID is required");
-  
-  try {
-    // Get the trade document
-    const tradeRef = db.collection("trades").doc(tradeId);
-    const tradeSnap = await tradeRef.get();
-    
+
+  const { tradeRef } = await getListableTrade(tradeId, auth.uid);
+  await tradeRef.update({ listing: admin.firestore.FieldValue.delete() });
+
+  return { success: true };
+});
+
+/**
+ * Returns the pending trades listed for sale on an event, cheapest first
+ */
+export const getEventListings = onCall({
+  region: "us-central1"
+}, async (request) => {
+  const { eventId } = request.data;
+  if (!eventId) throw new HttpsError("invalid-argument", "Event ID is required");
+
+  const tradesSnapshot = await db
+    .collection("trades")
+    .where("eventId", "==", String(eventId))
+    .where("status", "==", "Pending")
+    .get();
+
+  const listedTrades = tradesSnapshot.docs.filter((doc) => doc.data().listing);
+
+  // Look up seller usernames for display
+  const sellerIds = Array.from(new Set(listedTrades.map((doc) => doc.data().userId)));
+  const sellerDocs = sellerIds.length > 0
+    ? await db.getAll(...sellerIds.map((id) => db.collection("users").doc(id)))
+    : [];
+  const usernames = new Map(sellerDocs.map((doc) => [doc.id, doc.data()?.username || null]));
+
+  const listings = listedTrades.map((doc) => {
+    const trade = doc.data();
+    return {
+      tradeId: doc.id,
+      sellerId: trade.userId,
+      sellerUsername: usernames.get(trade.userId) || null,
+      askingPrice: trade.listing.askingPrice,
+      selectedTeam: trade.selectedTeam,
+      market: trade.market || "moneyline",
+      ...(typeof trade.line === "number" && { line: trade.line }),
+      selectedOdds: trade.selectedOdds,
+      amount: trade.amount,
+      expectedPayout: trade.expectedPayout,
+    };
+  });
+  listings.sort((a, b) => a.askingPrice - b.askingPrice);
+
+  return { listings };
+});
+
+/**
+ * Buys a listed trade from another user. Ownership moves to the buyer in one
+ * transaction, so settlement pays whoever owns the trade when the event ends.
+ * The seller realises the price less what they paid as P&L, and the price
+ * becomes the buyer's cost basis, which their P&L is measured against.
+ * The buyer sends the price they agreed to, and the purchase is rejected if
+ * the listing no longer asks that.
+ */
+export const buyBet = onCall({
+  region: "us-central1"
+}, async (request) => {
+  const auth = request.auth;
+  if (!auth) throw new HttpsError("unauthenticated", "User must be authenticated");
+
+  const { tradeId, expectedPrice } = request.data;
+  if (!tradeId) throw new HttpsError("invalid-argument", "Trade ID is required");
+  if (typeof expectedPrice !== "number") {
+    throw new HttpsError("invalid-argument", "Expected price is required");
+  }
+
+  const tradeRef = db.collection("trades").doc(tradeId);
+  const buyerRef = db.collection("users").doc(auth.uid);
+
+  return db.runTransaction(async (transaction) => {
+    const tradeSnap = await transaction.get(tradeRef);
     if (!tradeSnap.exists) {
       throw new HttpsError("not-found", "Trade not found");
     }
-    
-    const tradeData = tradeSnap.data();
-    if (!tradeData) {
-      throw new HttpsError("not-found", "Trade data is missing");
+    const tradeData = tradeSnap.data()!;
+    if (tradeData.status !== "Pending" || !tradeData.listing) {
+      throw new HttpsError("failed-precondition", "This trade is no longer for sale");
     }
-    
-    // Verify the user owns this trade
-    if (tradeData.userId !== auth.uid) {
-      throw new HttpsError("permission-denied", "You do not own this trade");
+    if (tradeData.userId === auth.uid) {
+      throw new HttpsError("failed-precondition", "You cannot buy your own trade");
     }
-    
-    // Check if trade is in a valid state to be sold
-    if (tradeData.status !== "Pending") {
-      throw new HttpsError("failed-precondition", "Only pending trades can be sold");
+
+    const eventSnap = await transaction.get(db.collection("events").doc(tradeData.eventId));
+    if (eventSnap.exists && (isFinishedEvent(eventSnap.data()) || eventSnap.data()?.state === "void")) {
+      throw new HttpsError("failed-precondition", "This event has already finished");
     }
-    
-    // Calculate the current value of the trade
-    let currentValue = tradeData.amount; // Default to original amount
-    
-    // If we have event data, get the current odds to calculate value
-    if (tradeData.eventId) {
-      const eventRef = db.collection("events").doc(tradeData.eventId);
-      const eventSnap = await eventRef.get();
-      
-      if (eventSnap.exists) {
-        const eventData = eventSnap.data();
+
+    const buyerSnap = await transaction.get(buyerRef);
+    if (!buyerSnap.exists) {
+      throw new HttpsError("not-found", "User document not found.");
+    }
+    // The seller can relist at another price after the buyer saw this one
+    const askingPrice = tradeData.listing.askingPrice;
+    if (askingPrice !== expectedPrice) {
+      throw new HttpsError(
+        "failed-precondition",
+        `The asking price changed to ${formatDollars(askingPrice)}. Please review it and try again.`
+      );
+    }
+    if ((buyerSnap.data()?.walletBalance || 0) < askingPrice) {
+      throw new HttpsError("failed-precondition", "Insufficient balance.");
+    }
+    await enforceResponsibleGaming(transaction, auth.uid, buyerSnap.data(), { stake: askingPrice });
+
+    const sellerId = tradeData.userId;
+    const { sellerCostBasis, sellerPnlChange, buyerCostBasis } = getTransferAmounts(tradeData, askingPrice);
+    transaction.update(tradeRef, {
+      userId: auth.uid,
+      costBasis: buyerCostBasis,
+      listing: admin.firestore.FieldValue.delete(),
+      transfers: admin.firestore.FieldValue.arrayUnion({
+        from: sellerId,
+        to: auth.uid,
+        price: askingPrice,
+        sellerCostBasis,
+        transferredAt: admin.firestore.Timestamp.now(),
+      }),
+    });
+    transaction.update(db.collection("users").doc(sellerId), {
+      walletBalance: admin.firestore.FieldValue.increment(askingPrice),
+      lifetimePnl: admin.firestore.FieldValue.increment(sellerPnlChange),
+      trades: admin.firestore.FieldValue.arrayRemove(tradeId),
+    });
+    transaction.update(buyerRef, {
+      walletBalance: admin.firestore.FieldValue.increment(-askingPrice),
+      trades: admin.firestore.FieldValue.arrayUnion(tradeId),
+    });
+    recordWalletTransaction(transaction, {
+      userId: sellerId,
+      type: "sale",
+      amount: askingPrice,
+      tradeId,
+      eventId: tradeData.eventId,
+    });
+    recordWalletTransaction(transaction, {
+      userId: auth.uid,
+      type: "purchase",
+      amount: -askingPrice,
+      tradeId,
+      eventId: tradeData.eventId,
+    });
+    addNotification(transaction, sellerId, describeBoughtListing(tradeData, eventSnap.data(), askingPrice));
+
+    return { success: true, tradeId, price: askingPrice };
+  });
+});
+
+/**
+ * Sells all or part of a pending bet and credits the user's wallet with the
+ * current value of the part sold. A partial sale shrinks the original trade
+ * to the remaining stake and records the sold part as a child "Sold" trade.
+ */
+export const sellBet = onCall({
+  region: "us-central1"
+}, async (request) => {
+  // Authentication check
+  const auth = request.auth;
+  if (!auth) throw new HttpsError("unauthenticated", "User must be authenticated");
+  
+  const { tradeId, fraction = 1 } = request.data;
+  if (!tradeId) throw new HttpsError("invalid-argument", "Trade ID is required");
+  if (typeof fraction !== "number" || !(fraction > 0) || fraction > 1) {
+    throw new HttpsError("invalid-argument", "Fraction must be greater than 0 and at most 1");
+  }
+  
+  try {
+    const tradeRef = db.collection("trades").doc(tradeId);
+
+    // Everything is read inside the transaction, so a marketplace purchase or
+    // another sale that commits first makes this one retry against the new
+    // owner, stake and listing instead of paying out on stale data
+    return await db.runTransaction(async (transaction) => {
+      const tradeSnap = await transaction.get(tradeRef);
+      if (!tradeSnap.exists) {
+        throw new HttpsError("not-found", "Trade not found");
+      }
+      const tradeData = tradeSnap.data()!;
+
+      // Verify the user owns this trade
+      if (tradeData.userId !== auth.uid) {
+        throw new HttpsError("permission-denied", "You do not own this trade");
+      }
+
+      // Check if trade is in a valid state to be sold
+      if (tradeData.status !== "Pending") {
+        throw new HttpsError("failed-precondition", "Only pending trades can be sold");
+      }
+
+      // Parlays have no single market price to sell back at
+      if (tradeData.type === "parlay") {
+        throw new HttpsError("failed-precondition", "Parlays cannot be sold");
+      }
+
+      // Value the trade at the event's current odds, or its stake without them
+      let currentValue = tradeData.amount;
+      let eventData: any;
+      if (tradeData.eventId) {
+        const eventSnap = await transaction.get(db.collection("events").doc(tradeData.eventId));
+        eventData = eventSnap.data();
+        // Once the result is in, the trade waits for settlement instead
+        if (eventData && (isFinishedEvent(eventData) || eventData.state === "void")) {
+          throw new HttpsError("failed-precondition", "This event has already finished");
+        }
         if (eventData) {
           const initialOdds = tradeData.selectedOdds;
-          let currentOdds;
-          
-          if (tradeData.selectedTeam === 'home') {
-            currentOdds = eventData.homeTeamCurrentOdds;
-          } else if (tradeData.selectedTeam === 'visitor') {
-            currentOdds = eventData.visitorTeamCurrentOdds;
-          } else if (tradeData.selectedTeam === 'draw') {
-            currentOdds = eventData.drawOdds;
-          }
-          
+          const currentOdds = getOfferedOdds(eventData, tradeData.selectedTeam, tradeData.market);
+
           // Calculate current value using the same formula as in getUserProfileInfo
           if (typeof initialOdds === 'number' && typeof currentOdds === 'number') {
             currentValue = tradeData.amount * (initialOdds / currentOdds);
           }
         }
       }
-    }
-    
-    // Run as a transaction to ensure atomic updates
-    await db.runTransaction(async (transaction) => {
-      // Update the trade status
-      transaction.update(tradeRef, { 
-        status: "Sold",
-        soldAt: admin.firestore.FieldValue.serverTimestamp(),
-        soldValue: currentValue
-      });
-      
-      // Update the user's wallet balance
+
       const userRef = db.collection("users").doc(auth.uid);
-      transaction.update(userRef, {
-        walletBalance: admin.firestore.FieldValue.increment(currentValue)
+      const { soldValue, pnlChange, sold, remaining } = getPartialSale(tradeData, fraction, currentValue);
+
+      // Credit the proceeds and realise the P&L on the part sold
+      const userUpdates: any = {
+        walletBalance: admin.firestore.FieldValue.increment(soldValue),
+        lifetimePnl: admin.firestore.FieldValue.increment(pnlChange)
+      };
+      let childTradeId: string | null = null;
+
+      if (fraction === 1) {
+        // Update the trade status
+        transaction.update(tradeRef, { 
+          status: "Sold",
+          soldAt: admin.firestore.FieldValue.serverTimestamp(),
+          soldValue,
+          // Selling to the house takes the trade off the marketplace
+          listing: admin.firestore.FieldValue.delete()
+        });
+      } else {
+        // Keep the unsold part open on the original trade
+        transaction.update(tradeRef, {
+          ...remaining,
+          listing: admin.firestore.FieldValue.delete()
+        });
+
+        // Record the sold part as its own trade. It keeps the parent's
+        // transfers, so reconciliation charges its stake to whoever placed it.
+        const { listing, ...soldTradeData } = tradeData;
+        const childTradeRef = db.collection("trades").doc();
+        transaction.set(childTradeRef, {
+          ...soldTradeData,
+          ...sold,
+          status: "Sold",
+          soldAt: admin.firestore.FieldValue.serverTimestamp(),
+          soldValue,
+          parentTradeId: tradeId,
+        });
+        userUpdates.trades = admin.firestore.FieldValue.arrayUnion(childTradeRef.id);
+        childTradeId = childTradeRef.id;
+      }
+
+      transaction.update(userRef, userUpdates);
+      recordWalletTransaction(transaction, {
+        userId: auth.uid,
+        type: "sale",
+        amount: soldValue,
+        tradeId: childTradeId || tradeId,
+        eventId: tradeData.eventId,
       });
+      addNotification(transaction, auth.uid, describeSoldTrade(tradeData, eventData, sold.amount, soldValue));
+
+      return {
+        success: true,
+        soldValue,
+        soldAmount: sold.amount,
+        pnlChange,
+        remainingAmount: remaining.amount,
+        childTradeId,
+      };
     });
-    
-    return { 
-      success: true,
-      soldValue: currentValue
-    };
   } catch (error) {
+    if (error instanceof HttpsError) throw error;
     console.error("Error selling trade:", error);
     throw new HttpsError("internal", "Failed to sell trade: " + error);
   }
 });
 
 // --- End Marketplace Logic ---
+
+// --- Watchlist Logic ---
+
+// Most events and teams one user can watch
+const MAX_WATCHES = 50;
+
+/**
+ * Users watching an event or either of its teams
+ */
+async function getEventWatchers(eventId: string, eventData: any) {
+  const snapshot = await db.collection("users")
+    .where("watchKeys", "array-contains-any", getEventWatchKeys(eventId, eventData))
+    .get();
+  return snapshot.docs;
+}
+
+/**
+ * Watches an event, or one of its teams when team is "home" or "visitor".
+ * Watching something already on the watchlist updates its threshold.
+ */
+export const addToWatchlist = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  const uid = request.auth.uid;
+
+  const { eventId, team, threshold = DEFAULT_ODDS_ALERT_THRESHOLD } = request.data || {};
+  if (!eventId || (team !== undefined && team !== "home" && team !== "visitor")) {
+    throw new HttpsError("invalid-argument", "An event ID is required, and team must be home or visitor.");
+  }
+  if (typeof threshold !== "number" || threshold < MIN_ODDS_ALERT_THRESHOLD ||
+      threshold > MAX_ODDS_ALERT_THRESHOLD) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Threshold must be between ${MIN_ODDS_ALERT_THRESHOLD} and ${MAX_ODDS_ALERT_THRESHOLD} points.`
+    );
+  }
+
+  const eventDoc = await db.collection("events").doc(String(eventId)).get();
+  const eventData: any = eventDoc.data();
+  if (!eventData) {
+    throw new HttpsError("not-found", "Event not found.");
+  }
+
+  const teamData = team === "home" ? eventData.home_team : team === "visitor" ? eventData.visitor_team : null;
+  const watch: Watch = {
+    type: teamData ? "team" : "event",
+    eventId: teamData ? null : String(eventId),
+    sport: getEventSport(eventData),
+    teamId: teamData ? teamData.id : null,
+    label: teamData
+      ? teamData.full_name
+      : `${eventData.home_team?.full_name} vs ${eventData.visitor_team?.full_name}`,
+    threshold,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  const key = getWatchKey(watch);
+
+  const userRef = db.collection("users").doc(uid);
+  await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new HttpsError("not-found", "User not found.");
+    }
+    const watchlist: { [key: string]: Watch } = { ...userDoc.data()?.watchlist };
+    if (watchlist[key]) {
+      watch.createdAt = watchlist[key].createdAt;
+    } else if (Object.keys(watchlist).length >= MAX_WATCHES) {
+      throw new HttpsError("failed-precondition", `You can watch at most ${MAX_WATCHES} events and teams.`);
+    }
+    watchlist[key] = watch;
+    transaction.update(userRef, {
+      watchlist,
+      watchKeys: Object.keys(watchlist),
+    });
+  });
+
+  return { success: true, key, threshold };
+});
+
+export const removeFromWatchlist = onCall({
+  region: "us-central1"
+}, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "User must be authenticated.");
+  }
+  const { key } = request.data || {};
+  if (!key || typeof key !== "string") {
+    throw new HttpsError("invalid-argument", "A watchlist key is required.");
+  }
+
+  const userRef = db.collection("users").doc(request.auth.uid);
+  await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const watchlist: { [key: string]: Watch } = { ...userDoc.data()?.watchlist };
+    if (!watchlist[key]) return;
+    delete watchlist[key];
+    transaction.update(userRef, {
+      watchlist,
+      watchKeys: Object.keys(watchlist),
+    });
+  });
+
+  return { success: true };
+});
+
+/**
+ * Alerts watchers when a new oddsHistory entry moves an event's odds past
+ * their threshold. Moves are measured from the odds at the watcher's last
+ * alert for the event, kept in notifications/{userId}/oddsAlerts/{eventId},
+ * or from the opening line before their first alert.
+ */
+export const checkOddsAlerts = onDocumentCreated("events/{eventId}/oddsHistory/{entryId}", async (event) => {
+  const eventId = event.params.eventId;
+  const eventRef = db.collection("events").doc(eventId);
+  const eventDoc = await eventRef.get();
+  const eventData: any = eventDoc.data();
+  if (!eventData || isFinishedEvent(eventData) || eventData.state === "void") return;
+
+  const isSoccer = eventData.sport === "soccer";
+  const entry = readOddsHistoryEntry(event.data?.data(), isSoccer);
+  if (!entry) return;
+
+  const watchers = await getEventWatchers(eventId, eventData);
+  if (watchers.length === 0) return;
+
+  const margin = getEventMargin(eventData);
+  const current = getOfferedSnapshot(entry, margin);
+  const openingSnapshot = await eventRef.collection("oddsHistory").orderBy("timestamp", "asc").limit(1).get();
+  const openingEntry = openingSnapshot.empty
+    ? null
+    : readOddsHistoryEntry(openingSnapshot.docs[0].data(), isSoccer);
+  const opening = openingEntry ? getOfferedSnapshot(openingEntry, margin) : null;
+
+  const keys = getEventWatchKeys(eventId, eventData);
+  const alertRefs = watchers.map((userDoc) =>
+    db.collection("notifications").doc(userDoc.id).collection("oddsAlerts").doc(eventId)
+  );
+  const alertDocs = await db.getAll(...alertRefs);
+
+  const alerts: { [userId: string]: OddsMove } = {};
+  watchers.forEach((userDoc, i) => {
+    const watch = findEventWatch(userDoc.data().watchlist, keys);
+    const baseline: OddsSnapshot | null = alertDocs[i].data()?.odds || opening;
+    if (!watch || !baseline) return;
+    const move = getLargestOddsMove(baseline, current);
+    if (Math.abs(move.change) >= watch.threshold) alerts[userDoc.id] = move;
+  });
+
+  await commitPerUser(Object.keys(alerts), (batch, userId) => {
+    addNotification(batch, userId, { ...describeOddsMove(eventData, alerts[userId]), eventId });
+    batch.set(db.collection("notifications").doc(userId).collection("oddsAlerts").doc(eventId), {
+      odds: current,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+  if (Object.keys(alerts).length > 0) {
+    console.log(`Sent ${Object.keys(alerts).length} odds alerts for event ${eventId}`);
+  }
+});
+
+/**
+ * Alerts watchers when an event goes live and when it is settled
+ */
+export const notifyEventWatchers = onDocumentUpdated("events/{eventId}", async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (!before || !after) return;
+
+  // Most updates are bets moving the odds, which don't change the state
+  const alert = getEventStateAlert(before, after);
+  if (!alert) return;
+
+  const eventId = event.params.eventId;
+  const watchers = await getEventWatchers(eventId, after);
+  await commitPerUser(watchers.map((userDoc) => userDoc.id), (batch, userId) => {
+    addNotification(batch, userId, { ...alert, eventId });
+  });
+});
+
+// --- End Watchlist Logic ---
+
+// --- Weekly Digest Logic ---
+
+// Where digests are emailed; null when MAIL_TRANSPORT isn't set, which
+// turns them off. See createMailTransport for the options.
+const mailTransport = createMailTransport(process.env);
+const mailFrom = process.env.MAIL_FROM || "MeiYunDong <digest@localhost>";
+const appUrl = process.env.APP_URL || "http://localhost:3000";
+// A digest sent within this long is not sent again, so a rerun is safe
+const DIGEST_RESEND_MS = 6 * 24 * 60 * 60 * 1000;
+// Firestore "in" filters take at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+/**
+ * Trades each user had decided in this week's and last week's settlements,
+ * and the events they were on. Re-settled trades count once, in the week of
+ * their latest settlement.
+ */
+function groupSettlementsByUser(settlementDocs: admin.firestore.QueryDocumentSnapshot[], weekStart: number) {
+  const byUser = new Map<string, {
+    thisWeek: Map<string, DigestSettlement>;
+    priorWeek: Map<string, DigestSettlement>;
+    eventIds: Set<string>;
+  }>();
+  for (const settlementDoc of settlementDocs) {
+    const settlement = settlementDoc.data();
+    const inThisWeek = (settlement.settledAt?.toMillis() || 0) >= weekStart;
+    const ledger: { [tradeId: string]: TradeSettlement } = settlement.trades || {};
+    for (const [tradeId, entry] of Object.entries(ledger)) {
+      if (!entry.decided || entry.status === "Pending") continue;
+      if (!byUser.has(entry.userId)) {
+        byUser.set(entry.userId, { thisWeek: new Map(), priorWeek: new Map(), eventIds: new Set() });
+      }
+      const user = byUser.get(entry.userId)!;
+      const digestSettlement = { tradeId, status: entry.status, pnlChange: entry.pnlChange };
+      if (inThisWeek) {
+        user.thisWeek.set(tradeId, digestSettlement);
+        user.priorWeek.delete(tradeId);
+      } else if (!user.thisWeek.has(tradeId)) {
+        user.priorWeek.set(tradeId, digestSettlement);
+      }
+      user.eventIds.add(settlementDoc.id);
+    }
+  }
+  return byUser;
+}
+
+/**
+ * Posts, not replies, tagging the given events, with how many replies each has
+ */
+async function getEventPosts(events: Map<string, any>): Promise<DigestPost[]> {
+  const postIds = Array.from(new Set(Array.from(events.values()).flatMap((event) => event.posts || [])));
+  if (postIds.length === 0) return [];
+
+  const postDocs = await db.getAll(...postIds.map((id: string) => db.collection("posts").doc(id)));
+  const posts = postDocs.filter((postDoc) => postDoc.exists && !postDoc.data()?.replyTo);
+  const replyCounts = new Map<string, number>();
+  for (let i = 0; i < posts.length; i += IN_QUERY_LIMIT) {
+    const ids = posts.slice(i, i + IN_QUERY_LIMIT).map((postDoc) => postDoc.id);
+    const replies = await db.collection("posts").where("replyTo.postId", "in", ids).get();
+    replies.docs.forEach((reply) => {
+      const parentId = reply.data().replyTo.postId;
+      replyCounts.set(parentId, (replyCounts.get(parentId) || 0) + 1);
+    });
+  }
+
+  return posts.map((postDoc) => {
+    const post = postDoc.data()!;
+    return {
+      postId: postDoc.id,
+      username: post.username || "anonymous",
+      content: post.content || "",
+      replyCount: replyCounts.get(postDoc.id) || 0,
+      createdAt: post.createdAt?.toDate() || new Date(0),
+      taggedEvents: post.taggedEvents || [],
+    };
+  });
+}
+
+/**
+ * Emails each user who turned on weekly summaries their trades settled in
+ * the past week, net P&L and win rate against the week before, upcoming
+ * games for the teams they bet on and the top posts on those games
+ */
+export const sendWeeklyDigests = onSchedule("every monday 09:00", async () => {
+  if (!mailTransport) {
+    console.log("MAIL_TRANSPORT is not set, skipping weekly digests");
+    return;
+  }
+
+  try {
+    const now = Date.now();
+    const weekStart = now - DIGEST_WEEK_MS;
+    const usersSnapshot = await db.collection("users").where("weeklyDigest", "==", true).get();
+    if (usersSnapshot.empty) return;
+
+    const { from, to } = getDateRange(0, 7);
+    const [settlementsSnapshot, upcomingSnapshot] = await Promise.all([
+      db.collection("settlements")
+        .where("settledAt", ">=", admin.firestore.Timestamp.fromMillis(now - 2 * DIGEST_WEEK_MS))
+        .get(),
+      db.collection("events").where("date", ">=", from).where("date", "<=", to).get(),
+    ]);
+    const settlementsByUser = groupSettlementsByUser(settlementsSnapshot.docs, weekStart);
+    const upcomingEvents = new Map(
+      upcomingSnapshot.docs
+        .filter((eventDoc) => !isFinishedEvent(eventDoc.data()) && eventDoc.data().state !== "void")
+        .map((eventDoc) => [eventDoc.id, eventDoc.data()])
+    );
+
+    // Teams come from the settled events, which only the opted-in users' bets need
+    const betEventIds = new Set<string>();
+    usersSnapshot.docs.forEach((userDoc) => {
+      settlementsByUser.get(userDoc.id)?.eventIds.forEach((eventId) => betEventIds.add(eventId));
+    });
+    const betEventDocs = betEventIds.size > 0
+      ? await db.getAll(...Array.from(betEventIds).map((id) => db.collection("events").doc(id)))
+      : [];
+    const betEvents = new Map(betEventDocs.map((eventDoc) => [eventDoc.id, eventDoc.data()]));
+
+    // Upcoming games and their posts for each user, then the posts all users need in one read
+    const upcomingByUser = new Map<string, DigestGame[]>();
+    const digestEvents = new Map<string, any>();
+    usersSnapshot.docs.forEach((userDoc) => {
+      const teamKeys = new Set<string>();
+      settlementsByUser.get(userDoc.id)?.eventIds.forEach((eventId) => {
+        const betEvent = betEvents.get(eventId);
+        if (betEvent) getEventTeamKeys(eventId, betEvent).forEach((key) => teamKeys.add(key));
+      });
+      const games = findUpcomingGames(teamKeys, upcomingEvents);
+      games.forEach((game) => digestEvents.set(game.eventId, upcomingEvents.get(game.eventId)));
+      upcomingByUser.set(userDoc.id, games);
+    });
+    const posts = await getEventPosts(digestEvents);
+
+    let sentCount = 0;
+    let skippedCount = 0;
+    let failedCount = 0;
+    for (const userDoc of usersSnapshot.docs) {
+      const userData = userDoc.data();
+      const lastSentAt = userData.lastDigestSentAt?.toMillis() || 0;
+      if (now - lastSentAt < DIGEST_RESEND_MS) {
+        skippedCount++;
+        continue;
+      }
+
+      const settlements = settlementsByUser.get(userDoc.id);
+      const upcomingGames = upcomingByUser.get(userDoc.id) || [];
+      const digest: WeeklyDigest = {
+        username: userData.username || userData.displayName || "there",
+        thisWeek: summarizeWeek(Array.from(settlements?.thisWeek.values() || [])),
+        priorWeek: summarizeWeek(Array.from(settlements?.priorWeek.values() || [])),
+        upcomingGames,
+        topPosts: rankTopPosts(posts, new Set(upcomingGames.map((game) => game.eventId))),
+      };
+      if (!hasDigestContent(digest)) {
+        skippedCount++;
+        continue;
+      }
+
+      try {
+        // The address comes from Firebase Auth; users can write their own document's email
+        const { email } = await admin.auth().getUser(userDoc.id);
+        if (!email) {
+          skippedCount++;
+          continue;
+        }
+        await mailTransport.send({ from: mailFrom, to: email, ...renderWeeklyDigest(digest, appUrl) });
+        await userDoc.ref.update({ lastDigestSentAt: admin.firestore.FieldValue.serverTimestamp() });
+        sentCount++;
+      } catch (error) {
+        console.error(`Error sending weekly digest to user ${userDoc.id}:`, error);
+        failedCount++;
+      }
+    }
+    console.log(
+      `Sent ${sentCount} weekly digests via ${mailTransport.name} ` +
+      `(${skippedCount} skipped, ${failedCount} failed)`
+    );
+  } catch (error) {
+    console.error("Error in sendWeeklyDigests:", error);
+  }
+});
+
+// --- End Weekly Digest Logic ---
+
+// --- Reconciliation Logic ---
+
+// Drift below a cent is floating point noise
+const RECONCILIATION_TOLERANCE = 0.01;
+
+// Set RECONCILIATION_AUTO_CORRECT=true to overwrite drifted wallets with the recomputed values
+const reconciliationAutoCorrect = process.env.RECONCILIATION_AUTO_CORRECT === "true";
+// Written by migrate-opening-balances.js once every user has an opening entry.
+// Until then wallets funded before the ledger look drifted, so none are corrected.
+const OPENING_BALANCES_MIGRATION = "migrations/openingBalances";
+
+/**
+ * A user whose stored wallet doesn't match the one recomputed from their
+ * deposits, trades and open orders
+ */
+interface WalletDiscrepancy {
+  userId: string;
+  walletBalance: number;
+  expectedBalance: number;
+  balanceDrift: number;
+  lifetimePnl: number;
+  expectedPnl: number;
+  pnlDrift: number;
+  corrected: boolean;
+}
+
+/**
+ * Overwrites a drifted wallet with the recomputed values and records the
+ * balance change in the ledger. Skipped if the wallet moved since the
+ * reconciliation run started, since the recomputed values may be stale:
+ * a ledger entry since then, or a change to the user's trades, which catches
+ * losses that settle without one.
+ * @param tradesById The trades the expected wallet was computed from
+ * @returns Whether the wallet was corrected
+ */
+async function correctWallet(
+  userId: string,
+  expected: ExpectedWallet,
+  startedAt: admin.firestore.Timestamp,
+  tradesById: Map<string, any>
+): Promise<boolean> {
+  const userRef = db.collection("users").doc(userId);
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    const recentSnapshot = await transaction.get(
+      db.collection("walletTransactions")
+        .where("userId", "==", userId)
+        .where("createdAt", ">=", startedAt)
+        .orderBy("createdAt", "desc")
+        .limit(1)
+    );
+    if (!userDoc.exists || !recentSnapshot.empty) return false;
+    const tradesSnapshot = await transaction.get(db.collection("trades").where("userId", "==", userId));
+    const currentTrades = new Map(tradesSnapshot.docs.map((doc) => [doc.id, doc.data()] as [string, any]));
+    if (haveTradesChanged(userId, tradesById, currentTrades)) return false;
+
+    const balanceChange = roundToCents(expected.walletBalance - (userDoc.data()?.walletBalance || 0));
+    transaction.update(userRef, {
+      walletBalance: expected.walletBalance,
+      lifetimePnl: expected.lifetimePnl,
+    });
+    if (Math.abs(balanceChange) >= RECONCILIATION_TOLERANCE) {
+      recordWalletTransaction(transaction, { userId, type: "adjustment", amount: balanceChange });
+    }
+    return true;
+  });
+}
+
+/**
+ * Recomputes every user's walletBalance and lifetimePnl and writes any drift
+ * to reconciliationReports. Users whose wallet changed during the run are
+ * left for the next run.
+ */
+export const reconcileWallets = onSchedule("every 24 hours", async () => {
+  const startedAt = admin.firestore.Timestamp.now();
+
+  try {
+    const [usersSnapshot, tradesSnapshot, ordersSnapshot, seedsSnapshot, migrationDoc] = await Promise.all([
+      db.collection("users").get(),
+      db.collection("trades").get(),
+      db.collection("pendingOrders").where("status", "==", "Open").get(),
+      db.collection("walletTransactions").where("type", "in", ["deposit", "opening"]).get(),
+      db.doc(OPENING_BALANCES_MIGRATION).get(),
+    ]);
+    const tradesById = new Map(tradesSnapshot.docs.map((doc) => [doc.id, doc.data()] as [string, any]));
+    const expectedWallets = computeExpectedWallets(
+      tradesById,
+      ordersSnapshot.docs.map((doc) => doc.data()),
+      seedsSnapshot.docs.map((doc) => doc.data() as WalletSeed)
+    );
+    const autoCorrect = reconciliationAutoCorrect && migrationDoc.exists;
+    if (reconciliationAutoCorrect && !autoCorrect) {
+      console.warn("Opening balances have not been backfilled, so wallets will not be auto-corrected");
+    }
+
+    // Anything that touched a wallet after the snapshot was taken
+    const activeSnapshot = await db
+      .collection("walletTransactions")
+      .where("createdAt", ">=", startedAt)
+      .get();
+    const activeUserIds = new Set(activeSnapshot.docs.map((doc) => doc.data().userId));
+
+    const discrepancies: WalletDiscrepancy[] = [];
+    let skippedCount = 0;
+    for (const userDoc of usersSnapshot.docs) {
+      if (activeUserIds.has(userDoc.id)) {
+        skippedCount++;
+        continue;
+      }
+      const userData = userDoc.data();
+      const expected = expectedWallets.get(userDoc.id) || { walletBalance: 0, lifetimePnl: 0 };
+      const walletBalance = userData.walletBalance || 0;
+      const lifetimePnl = userData.lifetimePnl || 0;
+      const balanceDrift = roundToCents(walletBalance - expected.walletBalance);
+      const pnlDrift = roundToCents(lifetimePnl - expected.lifetimePnl);
+      if (
+        Math.abs(balanceDrift) < RECONCILIATION_TOLERANCE &&
+        Math.abs(pnlDrift) < RECONCILIATION_TOLERANCE
+      ) {
+        continue;
+      }
+
+      let corrected = false;
+      if (autoCorrect) {
+        try {
+          corrected = await correctWallet(userDoc.id, expected, startedAt, tradesById);
+        } catch (error) {
+          console.error(`Error correcting wallet for user ${userDoc.id}:`, error);
+        }
+      }
+      discrepancies.push({
+        userId: userDoc.id,
+        walletBalance,
+        expectedBalance: expected.walletBalance,
+        balanceDrift,
+        lifetimePnl,
+        expectedPnl: expected.lifetimePnl,
+        pnlDrift,
+        corrected,
+      });
+    }
+
+    await db.collection("reconciliationReports").add({
+      startedAt,
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+      autoCorrect,
+      usersChecked: usersSnapshot.size - skippedCount,
+      usersSkipped: skippedCount,
+      discrepancyCount: discrepancies.length,
+      correctedCount: discrepancies.filter((d) => d.corrected).length,
+      discrepancies,
+    });
+    console.log(
+      `Wallet reconciliation found ${discrepancies.length} discrepancies across ${usersSnapshot.size} users`
+    );
+  } catch (error) {
+    console.error("Error in reconcileWallets:", error);
+  }
+});
+
+// --- End Reconciliation Logic ---
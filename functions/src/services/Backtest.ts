@@ -0,0 +1,246 @@
+import { readOddsHistoryEntry } from './OddsHistory';
+import { isFinishedEvent } from './SportsDataProvider';
+
+export type Outcome = 'home' | 'visitor' | 'draw';
+
+/**
+ * One source's probabilities for an event's result, summing to 1
+ */
+export interface Forecast {
+  source: string;
+  probabilities: { [outcome in Outcome]?: number };
+}
+
+/**
+ * A finished event with its result and every source's forecast
+ */
+export interface BacktestEvent {
+  id: string;
+  sport: string;
+  outcome: Outcome;
+  forecasts: Forecast[];
+}
+
+export interface CalibrationBucket {
+  from: number; // Lower bound of the forecast probability, inclusive
+  to: number;
+  forecasts: number;
+  meanForecast: number | null;
+  observedFrequency: number | null; // Share of these forecasts whose outcome happened
+}
+
+export interface SourceScore {
+  source: string;
+  events: number;
+  brierScore: number; // Mean over events of the summed squared error across outcomes; 0 is perfect
+  logLoss: number; // Mean negative log probability of the actual outcome; 0 is perfect
+  calibration: CalibrationBucket[];
+}
+
+export interface BacktestReport {
+  generatedAt: string;
+  events: number;
+  sports: { [sport: string]: number };
+  sources: SourceScore[];
+}
+
+// Source name for the odds on the event document when the game started
+export const CLOSING_SOURCE = 'closing';
+
+// Odds of 0% would make the log loss infinite
+const MIN_PROBABILITY = 0.001;
+
+const CALIBRATION_BUCKETS = 10;
+
+/**
+ * Milliseconds since epoch from a Firestore Timestamp, its JSON export,
+ * an ISO string or a number
+ */
+export function toMillis(value: any): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const millis = Date.parse(value);
+    return Number.isNaN(millis) ? null : millis;
+  }
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  const seconds = value.seconds ?? value._seconds;
+  if (typeof seconds === 'number') {
+    return seconds * 1000 + Math.round((value.nanoseconds ?? value._nanoseconds ?? 0) / 1e6);
+  }
+  return null;
+}
+
+/**
+ * Result of a finished event, or null if it isn't finished or had no winner
+ * (two-way ties push, so they can't be scored)
+ */
+export function getOutcome(event: any): Outcome | null {
+  if (!isFinishedEvent(event)) return null;
+  const home = event.home_team_score;
+  const visitor = event.visitor_team_score;
+  if (typeof home !== 'number' || typeof visitor !== 'number') return null;
+
+  const winner = event.score?.winner;
+  if (winner === 'HOME_TEAM' || (!winner && home > visitor)) return 'home';
+  if (winner === 'AWAY_TEAM' || (!winner && visitor > home)) return 'visitor';
+  return event.sport === 'soccer' ? 'draw' : null;
+}
+
+// Normalizes whole-percentage odds into probabilities, or null if unusable
+function toProbabilities(home: any, visitor: any, draw: any, isSoccer: boolean): Forecast['probabilities'] | null {
+  const odds = isSoccer ? [home, visitor, draw] : [home, visitor];
+  if (!odds.every((o) => typeof o === 'number' && o >= 0)) return null;
+  const total = odds.reduce((sum, o) => sum + o, 0);
+  if (total <= 0) return null;
+  return {
+    home: home / total,
+    visitor: visitor / total,
+    ...(isSoccer && { draw: draw / total }),
+  };
+}
+
+/**
+ * Builds a backtest event from an events document and its oddsHistory.
+ * Each source is scored on its last odds before the game started, and the
+ * event's current odds are scored as the closing line.
+ * @returns null if the event isn't finished or has no forecasts
+ */
+export function toBacktestEvent(event: any, oddsHistory: any[]): BacktestEvent | null {
+  const outcome = getOutcome(event);
+  if (!outcome) return null;
+
+  const isSoccer = event.sport === 'soccer';
+  const startsAt = toMillis(event.datetime) ?? toMillis(event.status) ?? toMillis(event.date);
+
+  const latest: { [source: string]: { at: number; entry: any } } = {};
+  oddsHistory.forEach((raw) => {
+    const entry = readOddsHistoryEntry(raw, isSoccer);
+    const at = entry && toMillis(entry.timestamp);
+    if (!entry || at === null || (startsAt !== null && at > startsAt)) return;
+    const source = entry.source;
+    if (!latest[source] || at >= latest[source].at) latest[source] = { at, entry };
+  });
+
+  const forecasts: Forecast[] = [];
+  Object.keys(latest).sort().forEach((source) => {
+    const { entry } = latest[source];
+    const probabilities = toProbabilities(entry.homeTeamOdds, entry.visitorTeamOdds, entry.drawOdds, isSoccer);
+    if (probabilities) forecasts.push({ source, probabilities });
+  });
+
+  const closing = toProbabilities(
+    event.homeTeamCurrentOdds,
+    event.visitorTeamCurrentOdds,
+    event.drawOdds,
+    isSoccer
+  );
+  if (closing) forecasts.push({ source: CLOSING_SOURCE, probabilities: closing });
+
+  if (forecasts.length === 0) return null;
+  return { id: String(event.id), sport: event.sport || 'basketball', outcome, forecasts };
+}
+
+/**
+ * Scores every forecast from one source
+ */
+export function scoreSource(source: string, events: BacktestEvent[]): SourceScore {
+  const buckets = Array.from({ length: CALIBRATION_BUCKETS }, () => ({ forecasts: 0, forecastSum: 0, hits: 0 }));
+  let brierTotal = 0;
+  let logLossTotal = 0;
+  let scored = 0;
+
+  events.forEach((event) => {
+    const forecast = event.forecasts.find((f) => f.source === source);
+    if (!forecast) return;
+    scored++;
+
+    (Object.keys(forecast.probabilities) as Outcome[]).forEach((outcome) => {
+      const p = forecast.probabilities[outcome] as number;
+      const happened = outcome === event.outcome ? 1 : 0;
+      brierTotal += (p - happened) ** 2;
+
+      const bucket = buckets[Math.min(Math.floor(p * CALIBRATION_BUCKETS), CALIBRATION_BUCKETS - 1)];
+      bucket.forecasts++;
+      bucket.forecastSum += p;
+      bucket.hits += happened;
+    });
+    const actual = forecast.probabilities[event.outcome] ?? 0;
+    logLossTotal += -Math.log(Math.max(actual, MIN_PROBABILITY));
+  });
+
+  return {
+    source,
+    events: scored,
+    brierScore: scored > 0 ? brierTotal / scored : 0,
+    logLoss: scored > 0 ? logLossTotal / scored : 0,
+    calibration: buckets.map((bucket, i) => ({
+      from: i / CALIBRATION_BUCKETS,
+      to: (i + 1) / CALIBRATION_BUCKETS,
+      forecasts: bucket.forecasts,
+      meanForecast: bucket.forecasts > 0 ? bucket.forecastSum / bucket.forecasts : null,
+      observedFrequency: bucket.forecasts > 0 ? bucket.hits / bucket.forecasts : null,
+    })),
+  };
+}
+
+/**
+ * Scores every source that forecast any of the events, best Brier score first
+ */
+export function runBacktest(events: BacktestEvent[]): BacktestReport {
+  const sources = new Set<string>();
+  const sports: { [sport: string]: number } = {};
+  events.forEach((event) => {
+    event.forecasts.forEach((forecast) => sources.add(forecast.source));
+    sports[event.sport] = (sports[event.sport] || 0) + 1;
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    events: events.length,
+    sports,
+    sources: Array.from(sources)
+      .map((source) => scoreSource(source, events))
+      .sort((a, b) => a.brierScore - b.brierScore),
+  };
+}
+
+const formatNumber = (value: number | null, digits = 3) => (value === null ? '-' : value.toFixed(digits));
+
+/**
+ * Markdown version of a report
+ */
+export function formatReport(report: BacktestReport): string {
+  const lines = [
+    '# Odds Backtest',
+    '',
+    `Generated ${report.generatedAt} from ${report.events} finished events ` +
+      `(${Object.entries(report.sports).map(([sport, count]) => `${sport}: ${count}`).join(', ') || 'none'}).`,
+    '',
+    'Lower is better for both scores. Sources are only scored on the events they forecast, so compare them on similar event counts.',
+    '',
+    '| Source | Events | Brier score | Log loss |',
+    '| --- | ---: | ---: | ---: |',
+    ...report.sources.map((s) =>
+      `| ${s.source} | ${s.events} | ${formatNumber(s.brierScore, 4)} | ${formatNumber(s.logLoss, 4)} |`
+    ),
+  ];
+
+  report.sources.forEach((s) => {
+    lines.push(
+      '',
+      `## Calibration: ${s.source}`,
+      '',
+      '| Forecast | Forecasts | Mean forecast | Observed |',
+      '| --- | ---: | ---: | ---: |',
+      ...s.calibration
+        .filter((bucket) => bucket.forecasts > 0)
+        .map((bucket) =>
+          `| ${Math.round(bucket.from * 100)}-${Math.round(bucket.to * 100)}% | ${bucket.forecasts} | ` +
+          `${formatNumber(bucket.meanForecast)} | ${formatNumber(bucket.observedFrequency)} |`
+        )
+    );
+  });
+
+  return lines.join('\n') + '\n';
+}
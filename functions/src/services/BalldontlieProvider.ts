@@ -0,0 +1,281 @@
+import { BalldontlieAPI, MLBGame, MLBTeam, NBAGame, NBATeam, NFLGame, NFLTeam } from '@balldontlie/sdk';
+import { DateRange, Game, GameState, SportsDataProvider, Team } from './SportsDataProvider';
+
+// Statuses of games that won't be completed; every bet on them is voided
+const NBA_VOID_STATUSES = ['Postponed', 'Cancelled', 'Canceled'];
+const NFL_VOID_STATUSES = ['Postponed', 'Cancelled', 'Canceled'];
+const MLB_VOID_STATUSES = ['STATUS_POSTPONED', 'STATUS_CANCELED'];
+
+const MLB_REGULATION_INNINGS = 9;
+
+/**
+ * Every date in the range, for the endpoints that take a list of dates
+ */
+function getDatesInRange(range: DateRange): string[] {
+  const dates: string[] = [];
+  const date = new Date(`${range.from}T00:00:00Z`);
+  const end = new Date(`${range.to}T00:00:00Z`);
+  while (date <= end) {
+    dates.push(date.toISOString().split('T')[0]);
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Fetches every page of a balldontlie list endpoint, following the cursor
+ */
+async function getAllPages<T>(
+  getPage: (cursor?: number) => Promise<{ data: T[]; meta?: { next_cursor: number } }>
+): Promise<T[]> {
+  let all: T[] = [];
+  let cursor: number | undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response = await getPage(cursor);
+    all = [...all, ...response.data];
+    cursor = response.meta?.next_cursor;
+    hasMore = !!cursor;
+  }
+  return all;
+}
+
+/**
+ * Shared by the balldontlie leagues: fetches games once per call and splits
+ * them into upcoming games and results
+ */
+abstract class BalldontlieLeagueProvider implements SportsDataProvider {
+  abstract readonly sport: Game['sport'];
+  protected api: BalldontlieAPI;
+
+  constructor(api: BalldontlieAPI) {
+    this.api = api;
+  }
+
+  protected abstract getGames(range: DateRange): Promise<Game[]>;
+
+  protected abstract fetchTeam(teamId: number): Promise<Team | null>;
+
+  async getUpcomingGames(range: DateRange): Promise<Game[]> {
+    const games = await this.getGames(range);
+    return games.filter((game) => game.state === 'scheduled');
+  }
+
+  async getRecentResults(range: DateRange): Promise<Game[]> {
+    const games = await this.getGames(range);
+    return games.filter((game) => game.state !== 'scheduled');
+  }
+
+  async getTeam(teamId: number): Promise<Team | null> {
+    try {
+      return await this.fetchTeam(teamId);
+    } catch (error) {
+      console.error(`Error fetching ${this.sport} team ${teamId}:`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * NBA games from the balldontlie API
+ */
+export class BalldontlieNbaProvider extends BalldontlieLeagueProvider {
+  readonly sport = 'basketball';
+
+  protected async getGames(range: DateRange): Promise<Game[]> {
+    const games = await getAllPages((cursor) =>
+      this.api.nba.getGames({
+        start_date: range.from,
+        end_date: range.to,
+        per_page: 100,
+        ...(cursor && { cursor }),
+      })
+    );
+    return games.map(toNbaGame);
+  }
+
+  protected async fetchTeam(teamId: number): Promise<Team | null> {
+    const response = await this.api.nba.getTeam(teamId);
+    return response.data ? toNbaTeam(response.data) : null;
+  }
+}
+
+/**
+ * NFL games from the balldontlie API
+ */
+export class BalldontlieNflProvider extends BalldontlieLeagueProvider {
+  readonly sport = 'football';
+
+  protected async getGames(range: DateRange): Promise<Game[]> {
+    const games = await getAllPages((cursor) =>
+      this.api.nfl.getGames({
+        dates: getDatesInRange(range),
+        per_page: 100,
+        ...(cursor && { cursor }),
+      })
+    );
+    return games.map(toNflGame);
+  }
+
+  protected async fetchTeam(teamId: number): Promise<Team | null> {
+    const response = await this.api.nfl.getTeam(teamId);
+    return response.data ? toNflTeam(response.data) : null;
+  }
+}
+
+/**
+ * MLB games from the balldontlie API
+ */
+export class BalldontlieMlbProvider extends BalldontlieLeagueProvider {
+  readonly sport = 'baseball';
+
+  protected async getGames(range: DateRange): Promise<Game[]> {
+    const games = await getAllPages((cursor) =>
+      this.api.mlb.getGames({
+        dates: getDatesInRange(range),
+        per_page: 100,
+        ...(cursor && { cursor }),
+      })
+    );
+    return games.map(toMlbGame);
+  }
+
+  protected async fetchTeam(teamId: number): Promise<Team | null> {
+    const response = await this.api.mlb.getTeam(teamId);
+    return response.data ? toMlbTeam(response.data) : null;
+  }
+}
+
+function getNbaGameState(game: NBAGame): GameState {
+  if (game.status === 'Final') return 'final';
+  if (NBA_VOID_STATUSES.includes(game.status)) return 'void';
+  // Scheduled games report their start time as the status
+  return game.period > 0 ? 'live' : 'scheduled';
+}
+
+function toNbaTeam(team: NBATeam): Team {
+  return {
+    id: team.id,
+    full_name: team.full_name,
+    abbreviation: team.abbreviation,
+    city: team.city,
+    name: team.name,
+    conference: team.conference,
+    division: team.division,
+  };
+}
+
+function toNbaGame(game: NBAGame): Game {
+  return {
+    id: game.id.toString(),
+    sport: 'basketball',
+    date: game.date,
+    // Returned by the API but missing from the SDK's types
+    datetime: (game as any).datetime || game.date,
+    status: game.status,
+    state: getNbaGameState(game),
+    homeTeam: toNbaTeam(game.home_team),
+    visitorTeam: toNbaTeam(game.visitor_team),
+    homeScore: game.home_team_score,
+    visitorScore: game.visitor_team_score,
+    period: game.period,
+    time: game.time || null,
+    season: game.season,
+    postseason: game.postseason,
+    ...(game.period > 4 && game.status === 'Final' && { decidedIn: 'overtime' as const }),
+  };
+}
+
+function getNflGameState(game: NFLGame): GameState {
+  // Games that went to overtime finish as "Final/OT"
+  if (game.status.startsWith('Final')) return 'final';
+  if (NFL_VOID_STATUSES.includes(game.status)) return 'void';
+  if (game.status === 'Scheduled' || new Date(game.date).getTime() > Date.now()) return 'scheduled';
+  return 'live';
+}
+
+function toNflTeam(team: NFLTeam): Team {
+  return {
+    id: team.id,
+    full_name: team.full_name,
+    abbreviation: team.abbreviation,
+    city: team.location,
+    name: team.name,
+    conference: team.conference,
+    division: team.division,
+  };
+}
+
+function toNflGame(game: NFLGame): Game {
+  const state = getNflGameState(game);
+  return {
+    id: `nfl_${game.id}`,
+    sport: 'football',
+    date: game.date.split('T')[0],
+    datetime: game.date,
+    status: game.status,
+    state,
+    homeTeam: toNflTeam(game.home_team),
+    visitorTeam: toNflTeam(game.visitor_team),
+    homeScore: game.home_team_score || 0,
+    visitorScore: game.visitor_team_score || 0,
+    period: 0,
+    time: null,
+    season: game.season,
+    postseason: game.postseason,
+    week: game.week,
+    ...(state === 'final' && {
+      decidedIn: game.status.includes('OT') ? 'overtime' as const : 'regulation' as const,
+    }),
+  };
+}
+
+function getMlbGameState(status: string): GameState {
+  if (status === 'STATUS_FINAL') return 'final';
+  if (MLB_VOID_STATUSES.includes(status)) return 'void';
+  if (status === 'STATUS_SCHEDULED') return 'scheduled';
+  return 'live';
+}
+
+function toMlbTeam(team: MLBTeam): Team {
+  return {
+    id: team.id,
+    full_name: team.display_name,
+    abbreviation: team.abbreviation,
+    city: team.location,
+    name: team.name,
+    conference: team.league,
+    division: team.division,
+  };
+}
+
+function toMlbGame(game: MLBGame): Game {
+  const state = getMlbGameState(game.status);
+  // The home team skips the bottom of the last inning when already ahead,
+  // so the visitors' line score is the longer one
+  const innings = Math.max(
+    game.home_team_data?.inning_scores?.length || 0,
+    game.away_team_data?.inning_scores?.length || 0
+  );
+  return {
+    id: `mlb_${game.id}`,
+    sport: 'baseball',
+    date: game.date.split('T')[0],
+    datetime: game.date,
+    status: game.status,
+    state,
+    homeTeam: toMlbTeam(game.home_team),
+    visitorTeam: toMlbTeam(game.away_team),
+    homeScore: game.home_team_data?.runs || 0,
+    visitorScore: game.away_team_data?.runs || 0,
+    period: innings,
+    time: null,
+    season: game.season,
+    postseason: game.postseason,
+    innings,
+    ...(state === 'final' && {
+      decidedIn: innings > MLB_REGULATION_INNINGS ? 'overtime' as const : 'regulation' as const,
+    }),
+  };
+}
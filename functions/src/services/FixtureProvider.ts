@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DateRange, Game, Sport, SportsDataProvider, Team, toDateString } from './SportsDataProvider';
+
+/**
+ * A game in a fixtures file. Instead of a fixed date, a fixture can give its
+ * start time relative to when it is read, so upcoming fixtures don't go stale.
+ */
+interface FixtureGame extends Partial<Pick<Game, 'date' | 'datetime'>>, Omit<Game, 'date' | 'datetime'> {
+  startsInHours?: number;
+}
+
+interface FixtureFile {
+  [sport: string]: {
+    games?: FixtureGame[];
+    teams?: Team[];
+  };
+}
+
+/**
+ * Games and teams read from a JSON file, for running ingestion and settlement
+ * against the Firestore emulator without network access. The file is re-read
+ * on every call, so editing a fixture's state to "final" and waiting for the
+ * next scheduler run settles it. Date ranges are ignored.
+ */
+export class FixtureProvider implements SportsDataProvider {
+  readonly sport: Sport;
+  private filePath: string;
+
+  constructor(sport: Sport, filePath: string) {
+    this.sport = sport;
+    this.filePath = path.resolve(filePath);
+  }
+
+  async getUpcomingGames(_range: DateRange): Promise<Game[]> {
+    return this.readGames().filter((game) => game.state === 'scheduled');
+  }
+
+  async getRecentResults(_range: DateRange): Promise<Game[]> {
+    return this.readGames().filter((game) => game.state !== 'scheduled');
+  }
+
+  async getTeam(teamId: number): Promise<Team | null> {
+    const teams = this.readFixtures().teams || [];
+    return teams.find((team) => team.id === teamId) || null;
+  }
+
+  private readFixtures() {
+    const fixtures: FixtureFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    return fixtures[this.sport] || {};
+  }
+
+  private readGames(): Game[] {
+    return (this.readFixtures().games || []).map(({ startsInHours, ...fixture }) => {
+      if (startsInHours === undefined) return fixture as Game;
+      const start = new Date(Date.now() + startsInHours * 60 * 60 * 1000);
+      return {
+        ...fixture,
+        date: fixture.sport === 'soccer' ? start.toISOString() : toDateString(start),
+        datetime: start.toISOString(),
+      };
+    });
+  }
+}
@@ -1,25 +1,132 @@
 import axios from 'axios';
+import {
+  CompetitionsResponse,
+  MatchesResponse,
+  MatchFilters,
+  SoccerMatch,
+  SoccerTeam,
+} from '../types/soccer';
 
+// football-data.org's free tier allows 10 requests a minute
+const DEFAULT_REQUESTS_PER_MINUTE = 10;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Rate limiter holding up to `capacity` tokens, refilled evenly over
+ * `intervalMs`. Each request takes one token, waiting for it if needed.
+ */
+export class TokenBucket {
+  private capacity: number;
+  private intervalMs: number;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(capacity: number, intervalMs: number) {
+    this.capacity = capacity;
+    this.intervalMs = intervalMs;
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  private refill() {
+    const now = Date.now();
+    const refilled = ((now - this.lastRefill) / this.intervalMs) * this.capacity;
+    this.tokens = Math.min(this.capacity, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Waits until a token is available and takes it
+   */
+  async take(): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      await sleep(((1 - this.tokens) * this.intervalMs) / this.capacity);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  /**
+   * Caps the available tokens, e.g. at the quota the server says is left
+   * after other clients used some of it
+   */
+  limit(available: number) {
+    this.refill();
+    this.tokens = Math.min(this.tokens, Math.max(available, 0));
+  }
+}
+
+export interface FootballDataAPIOptions {
+  requestsPerMinute?: number;
+  maxRetries?: number;
+  retryDelayMs?: number; // First backoff delay, doubled on each retry
+}
+
+/**
+ * football-data.org v4 client. Requests are rate limited to the per-minute
+ * quota and retried with exponential backoff on 429 and 5xx responses. The
+ * limiter lives in each function instance, so it also follows the quota the
+ * server reports as left, which counts every instance's requests.
+ */
 export class FootballDataAPI {
   private baseUrl = 'https://api.football-data.org/v4';
   private apiKey: string;
+  private bucket: TokenBucket;
+  private maxRetries: number;
+  private retryDelayMs: number;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: FootballDataAPIOptions = {}) {
     this.apiKey = apiKey;
+    this.bucket = new TokenBucket(options.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE, 60 * 1000);
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
   }
 
-  private async request(endpoint: string, params: any = {}) {
-    try {
-      const response = await axios.get(`${this.baseUrl}${endpoint}`, {
-        headers: {
-          'X-Auth-Token': this.apiKey
-        },
-        params
-      });
-      return response.data;
-    } catch (error) {
-      console.error('Football Data API Error:', error);
-      throw error;
+  private async request<T>(endpoint: string, params: object = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+      try {
+        const response = await axios.get(`${this.baseUrl}${endpoint}`, {
+          headers: {
+            'X-Auth-Token': this.apiKey
+          },
+          params
+        });
+        this.syncQuota(response.headers);
+        return response.data;
+      } catch (error: any) {
+        const status = error.response?.status;
+        if (error.response) this.syncQuota(error.response.headers);
+        const retryable = status === 429 || (status >= 500 && status < 600);
+        if (!retryable || attempt >= this.maxRetries) {
+          console.error('Football Data API Error:', status || error.message);
+          throw error;
+        }
+
+        // Wait at least until the quota resets when the server says when
+        const resetSeconds = Number(error.response.headers?.['x-requestcounter-reset']);
+        const backoffMs = this.retryDelayMs * 2 ** attempt;
+        const delayMs = status === 429 && resetSeconds > 0
+          ? Math.max(backoffMs, resetSeconds * 1000)
+          : backoffMs;
+        console.warn(`Football Data API returned ${status}; retrying in ${delayMs}ms`);
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Keeps the rate limiter in line with the quota other instances and jobs
+   * have already used, as reported by the server
+   */
+  private syncQuota(headers: any) {
+    const available = Number(headers?.['x-requests-available-minute']);
+    if (headers?.['x-requests-available-minute'] !== undefined && !isNaN(available)) {
+      this.bucket.limit(available);
     }
   }
 
@@ -28,16 +135,16 @@ export class FootballDataAPI {
    * @param competitionCode - The code for the competition (e.g., 'PL' for Premier League)
    * @param options - Additional options like dateFrom, dateTo, status
    */
-  async getMatchesByCompetition(competitionCode: string, options: any = {}) {
-    return this.request(`/competitions/${competitionCode}/matches`, options);
+  async getMatchesByCompetition(competitionCode: string, options: MatchFilters = {}) {
+    return this.request<MatchesResponse>(`/competitions/${competitionCode}/matches`, options);
   }
 
   /**
    * Get matches for a date range
    * @param options - Options like dateFrom, dateTo, status
    */
-  async getMatches(options: any = {}) {
-    return this.request('/matches', options);
+  async getMatches(options: MatchFilters = {}) {
+    return this.request<MatchesResponse>('/matches', options);
   }
 
   /**
@@ -45,7 +152,7 @@ export class FootballDataAPI {
    * @param matchId - The ID of the match
    */
   async getMatch(matchId: number) {
-    return this.request(`/matches/${matchId}`);
+    return this.request<SoccerMatch>(`/matches/${matchId}`);
   }
 
   /**
@@ -53,13 +160,13 @@ export class FootballDataAPI {
    * @param teamId - The ID of the team
    */
   async getTeam(teamId: number) {
-    return this.request(`/teams/${teamId}`);
+    return this.request<SoccerTeam>(`/teams/${teamId}`);
   }
 
   /**
    * Get a list of all available competitions
    */
   async getCompetitions() {
-    return this.request('/competitions');
+    return this.request<CompetitionsResponse>('/competitions');
   }
-} 
\ No newline at end of file
+}
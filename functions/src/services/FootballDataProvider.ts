@@ -0,0 +1,123 @@
+import { FootballDataAPI } from './FootballDataAPI';
+import { SoccerMatch, SoccerTeam } from '../types/soccer';
+import { DateRange, Game, GameState, SportsDataProvider, Team } from './SportsDataProvider';
+
+// Premier League, Bundesliga, Serie A, La Liga, Ligue 1, Champions League
+const DEFAULT_COMPETITIONS = ['PL', 'BL1', 'SA', 'PD', 'FL1', 'CL'];
+
+const LIVE_STATUSES = ['IN_PLAY', 'PAUSED'];
+
+// Statuses of matches that won't be completed; every bet on them is voided
+const VOID_STATUSES = ['POSTPONED', 'CANCELLED', 'SUSPENDED'];
+
+/**
+ * Soccer matches from football-data.org
+ */
+export class FootballDataProvider implements SportsDataProvider {
+  readonly sport = 'soccer';
+  private api: FootballDataAPI;
+  private competitions: string[];
+
+  constructor(api: FootballDataAPI, competitions: string[] = DEFAULT_COMPETITIONS) {
+    this.api = api;
+    this.competitions = competitions;
+  }
+
+  async getUpcomingGames(range: DateRange): Promise<Game[]> {
+    let allMatches: SoccerMatch[] = [];
+
+    for (const competitionCode of this.competitions) {
+      try {
+        const response = await this.api.getMatchesByCompetition(
+          competitionCode,
+          { dateFrom: range.from, dateTo: range.to }
+        );
+        if (response && response.matches) {
+          allMatches = [...allMatches, ...response.matches];
+        }
+      } catch (err) {
+        console.error(`Error fetching matches for competition ${competitionCode}:`, err);
+      }
+    }
+
+    return allMatches.map(toGame).filter((game) => game.state === 'scheduled');
+  }
+
+  async getRecentResults(range: DateRange): Promise<Game[]> {
+    const response = await this.api.getMatches({
+      dateFrom: range.from,
+      dateTo: range.to,
+      status: ['FINISHED', ...LIVE_STATUSES, ...VOID_STATUSES].join(','),
+    });
+    return (response?.matches || []).map(toGame);
+  }
+
+  async getTeam(teamId: number): Promise<Team | null> {
+    try {
+      const team = await this.api.getTeam(teamId);
+      return team ? toTeam(team) : null;
+    } catch (error) {
+      console.error(`Error fetching soccer team ${teamId}:`, error);
+      return null;
+    }
+  }
+}
+
+function getGameState(status: string): GameState {
+  if (status === 'FINISHED') return 'final';
+  if (VOID_STATUSES.includes(status)) return 'void';
+  if (LIVE_STATUSES.includes(status)) return 'live';
+  return 'scheduled';
+}
+
+function toTeam(team: SoccerTeam): Team {
+  return {
+    id: team.id,
+    full_name: team.name,
+    abbreviation: team.tla || team.shortName,
+    city: team.address || null,
+    name: team.shortName,
+    logo: team.crest,
+  };
+}
+
+/**
+ * The match result, worked out from the full-time score when the feed
+ * leaves it out
+ */
+function getWinner(match: SoccerMatch): string | null {
+  if (match.score?.winner) return match.score.winner;
+  if (!match.score?.fullTime) return null;
+  const homeScore = match.score.fullTime.home || 0;
+  const awayScore = match.score.fullTime.away || 0;
+  if (homeScore > awayScore) return 'HOME_TEAM';
+  if (awayScore > homeScore) return 'AWAY_TEAM';
+  return 'DRAW';
+}
+
+function toGame(match: SoccerMatch): Game {
+  return {
+    id: `soccer_${match.id}`,
+    sport: 'soccer',
+    date: match.utcDate,
+    datetime: match.utcDate,
+    status: match.status,
+    state: getGameState(match.status),
+    homeTeam: toTeam(match.homeTeam),
+    visitorTeam: toTeam(match.awayTeam),
+    homeScore: match.score?.fullTime?.home || 0,
+    visitorScore: match.score?.fullTime?.away || 0,
+    period: 0,
+    time: null,
+    season: match.season?.startDate
+      ? new Date(match.season.startDate).getFullYear()
+      : new Date().getFullYear(),
+    postseason: match.stage !== 'REGULAR_SEASON',
+    competition: match.competition && {
+      id: match.competition.id,
+      name: match.competition.name,
+      logo: match.competition.emblem,
+    },
+    score: match.score && { ...match.score, winner: getWinner(match) },
+  };
+}
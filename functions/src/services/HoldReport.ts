@@ -0,0 +1,126 @@
+import { applyMargin } from './MarketMaker';
+
+/**
+ * Theoretical hold of one market on an event
+ */
+export interface MarketHold {
+  market: string;
+  offeredOdds: { [selection: string]: number };
+  overround: number; // How far the offered odds sum past the fair total, e.g. 0.05
+  theoreticalHold: number; // Share of a balanced book the house keeps
+  handle: number; // Amount staked on the market
+}
+
+export interface EventHold {
+  eventId: string;
+  sport: string;
+  date: string | null;
+  homeTeam: string | null;
+  visitorTeam: string | null;
+  margin: number;
+  markets: MarketHold[];
+  handle: number;
+  theoreticalHold: number; // Handle-weighted across markets, or the moneyline's without handle
+  expectedHold: number; // handle * theoreticalHold
+}
+
+export interface HoldReport {
+  generatedAt: string;
+  events: EventHold[];
+  handle: number;
+  expectedHold: number;
+  theoreticalHold: number;
+}
+
+/**
+ * House margin stored on an event. Events opened before margins existed have none.
+ */
+export function getEventMargin(event: any): number {
+  return typeof event.margin === 'number' && event.margin > 0 ? event.margin : 0;
+}
+
+// Theoretical hold of a market from its fair odds, which sum to the
+// market's odds total (100, or 200 for double chance)
+function getMarketHold(
+  market: string,
+  fairOdds: { [selection: string]: number },
+  pools: { [selection: string]: number },
+  margin: number
+): MarketHold {
+  const offeredOdds: { [selection: string]: number } = {};
+  let fairTotal = 0;
+  let offeredTotal = 0;
+  let handle = 0;
+  Object.keys(fairOdds).forEach((selection) => {
+    offeredOdds[selection] = applyMargin(fairOdds[selection], margin);
+    fairTotal += fairOdds[selection];
+    offeredTotal += offeredOdds[selection];
+    handle += pools[selection] || 0;
+  });
+  return {
+    market,
+    offeredOdds,
+    overround: fairTotal > 0 ? offeredTotal / fairTotal - 1 : 0,
+    theoreticalHold: offeredTotal > 0 ? 1 - fairTotal / offeredTotal : 0,
+    handle,
+  };
+}
+
+/**
+ * Theoretical hold of every priced market on an events document
+ */
+export function getEventHold(eventId: string, event: any): EventHold {
+  const margin = getEventMargin(event);
+  const isSoccer = event.sport === 'soccer';
+  const moneylineOdds: { [selection: string]: number } = {
+    home: event.homeTeamCurrentOdds,
+    visitor: event.visitorTeamCurrentOdds,
+    ...(isSoccer && { draw: event.drawOdds }),
+  };
+
+  const markets: MarketHold[] = [];
+  if (Object.values(moneylineOdds).every((odds) => typeof odds === 'number')) {
+    markets.push(getMarketHold('moneyline', moneylineOdds, {
+      home: event.homeBetAmount,
+      visitor: event.visitorBetAmount,
+      draw: event.drawBetAmount,
+    }, margin));
+  }
+  Object.keys(event.markets || {}).sort().forEach((market) => {
+    const { odds, pools } = event.markets[market];
+    if (odds) markets.push(getMarketHold(market, odds, pools || {}, margin));
+  });
+
+  const handle = markets.reduce((sum, m) => sum + m.handle, 0);
+  const expectedHold = markets.reduce((sum, m) => sum + m.handle * m.theoreticalHold, 0);
+  return {
+    eventId,
+    sport: event.sport || 'basketball',
+    date: event.date || null,
+    homeTeam: event.home_team?.full_name || null,
+    visitorTeam: event.visitor_team?.full_name || null,
+    margin,
+    markets,
+    handle,
+    theoreticalHold: handle > 0 ? expectedHold / handle : markets[0]?.theoreticalHold || 0,
+    expectedHold,
+  };
+}
+
+/**
+ * Hold report over a set of events, busiest first
+ */
+export function buildHoldReport(events: { id: string; data: any }[]): HoldReport {
+  const holds = events
+    .map(({ id, data }) => getEventHold(id, data))
+    .sort((a, b) => b.handle - a.handle);
+  const handle = holds.reduce((sum, e) => sum + e.handle, 0);
+  const expectedHold = holds.reduce((sum, e) => sum + e.expectedHold, 0);
+  return {
+    generatedAt: new Date().toISOString(),
+    events: holds,
+    handle,
+    expectedHold,
+    theoreticalHold: handle > 0 ? expectedHold / handle : 0,
+  };
+}
@@ -0,0 +1,170 @@
+import { promises as fs } from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import * as tls from 'tls';
+
+/**
+ * An email with a plain text and an HTML body
+ */
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Somewhere emails are delivered to
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // Connect over TLS, e.g. port 465
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+// Boundary between the text and HTML parts
+const BOUNDARY = 'digest-alternative-part';
+
+/**
+ * Formats a message as an RFC 5322 email with text and HTML alternatives
+ */
+export function formatMessage(message: MailMessage, date = new Date()): string {
+  const lines = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${BOUNDARY}"`,
+    '',
+    `--${BOUNDARY}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+    `--${BOUNDARY}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    message.html,
+    `--${BOUNDARY}--`,
+    '',
+  ];
+  return lines.join('\r\n').replace(/\r?\n/g, '\r\n');
+}
+
+// Address inside "Name <address>", or the whole string
+function getAddress(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return match ? match[1] : mailbox.trim();
+}
+
+/**
+ * Writes each email to an .eml file, for development without a mail server
+ */
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const recipient = getAddress(message.to).replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.directory, `${Date.now()}-${recipient}.eml`);
+    await fs.writeFile(file, formatMessage(message));
+  }
+}
+
+/**
+ * Minimal SMTP client: enough for a local catcher such as Mailpit or
+ * MailHog, or a relay that takes AUTH PLAIN over TLS
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  send(message: MailMessage): Promise<void> {
+    const { host, port, secure, user, pass, timeoutMs = 10000 } = this.options;
+    // Lines starting with a dot are escaped so they don't end the DATA section
+    const data = formatMessage(message).replace(/^\./gm, '..');
+    const commands: { command: string | null; expect: number }[] = [
+      { command: null, expect: 220 }, // Greeting
+      { command: 'EHLO localhost', expect: 250 },
+      ...(user
+        ? [{ command: `AUTH PLAIN ${Buffer.from(`\0${user}\0${pass || ''}`).toString('base64')}`, expect: 235 }]
+        : []),
+      { command: `MAIL FROM:<${getAddress(message.from)}>`, expect: 250 },
+      { command: `RCPT TO:<${getAddress(message.to)}>`, expect: 250 },
+      { command: 'DATA', expect: 354 },
+      { command: `${data}\r\n.`, expect: 250 },
+      { command: 'QUIT', expect: 221 },
+    ];
+
+    return new Promise((resolve, reject) => {
+      const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+      let buffer = '';
+      let step = 0;
+      let settled = false;
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        if (error) reject(error);
+        else resolve();
+      };
+
+      socket.setTimeout(timeoutMs, () => finish(new Error(`SMTP timed out after ${timeoutMs}ms`)));
+      socket.on('error', (error) => finish(error));
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        // A reply is complete at a line with a space after the code; "250-" lines continue it
+        const lines = buffer.split('\r\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (!/^\d{3} /.test(line) && !/^\d{3}$/.test(line)) continue;
+          const code = Number(line.slice(0, 3));
+          if (code !== commands[step].expect) {
+            finish(new Error(`SMTP server replied "${line}" to ${commands[step].command || 'connect'}`));
+            return;
+          }
+          step++;
+          if (step === commands.length) {
+            finish();
+            return;
+          }
+          socket.write(`${commands[step].command}\r\n`);
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Transport chosen by MAIL_TRANSPORT, or null when email isn't set up:
+ *   smtp: SMTP_HOST (default localhost), SMTP_PORT (default 1025, the usual
+ *         catcher port), SMTP_SECURE=true, SMTP_USER and SMTP_PASS
+ *   file: MAIL_OUTBOX_DIR (default ./mail-outbox)
+ */
+export function createMailTransport(env: { [key: string]: string | undefined }): MailTransport | null {
+  if (env.MAIL_TRANSPORT === 'smtp') {
+    return new SmtpTransport({
+      host: env.SMTP_HOST || 'localhost',
+      port: Number(env.SMTP_PORT) || 1025,
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+    });
+  }
+  if (env.MAIL_TRANSPORT === 'file') {
+    return new FileTransport(env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'mail-outbox'));
+  }
+  return null;
+}
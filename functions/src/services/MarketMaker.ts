@@ -0,0 +1,200 @@
+export type PricingModel = 'poolBlend' | 'lmsr';
+
+/**
+ * A market's pricing state, with one entry per outcome in each array
+ */
+export interface MarketState {
+  odds: number[]; // Whole percentages summing to oddsTotal
+  pools: number[]; // Amount staked per outcome
+  shares?: number[]; // Outstanding LMSR shares, one dollar payout each
+}
+
+export interface BetResult extends MarketState {
+  payout: number; // What the bet pays if its outcome wins
+}
+
+/**
+ * Prices a market and moves it as bets come in
+ */
+export interface MarketMaker {
+  readonly model: PricingModel;
+
+  /**
+   * Prices a bet on one outcome and returns the market after the bet
+   * @param state Market before the bet
+   * @param outcome Index of the outcome bet on
+   * @param amount Stake
+   * @param oddsTotal What the odds add up to; 200 for markets where each
+   * outcome covers two of three results (double chance)
+   */
+  placeBet(state: MarketState, outcome: number, amount: number, oddsTotal?: number): BetResult;
+}
+
+/**
+ * Rounds probabilities to whole percentages summing to oddsTotal by flooring
+ * each and handing leftover points to the largest remainders
+ */
+export function roundOdds(probs: number[], oddsTotal = 100): number[] {
+  const floatOdds = probs.map((p) => p * oddsTotal);
+  const floors = floatOdds.map((f) => Math.floor(f));
+  const remainders = floatOdds.map((f, i) => f - floors[i]);
+  let leftover = oddsTotal - floors.reduce((sum, v) => sum + v, 0);
+  const finalOdds = floors.slice();
+  while (leftover > 0) {
+    const idx = remainders
+      .map((r, i) => ({ r, i }))
+      .sort((a, b) => b.r - a.r)[0].i;
+    finalOdds[idx] += 1;
+    remainders[idx] = -1;
+    leftover--;
+  }
+  return finalOdds;
+}
+
+// A margin never prices an outcome above this, so a winning bet always
+// returns more than its stake
+const MAX_MARGINED_ODDS = 99;
+
+/**
+ * Odds offered to bettors once the house margin is added. Fair odds are
+ * scaled up by 1 + margin, so a market's offered odds sum to
+ * oddsTotal * (1 + margin) and the house holds margin / (1 + margin) of a
+ * balanced book.
+ * @param margin Fraction of the fair price, e.g. 0.05 for 5%
+ */
+export function applyMargin(odds: number, margin = 0): number {
+  if (!(margin > 0)) return odds;
+  const offered = Math.round(odds * (1 + margin) * 100) / 100;
+  return Math.min(offered, Math.max(odds, MAX_MARGINED_ODDS));
+}
+
+/**
+ * The original pricing: each outcome's new probability blends its previous
+ * odds (weight alpha) with its share of the betting pools and moves at most
+ * beta per bet. Bets pay out at the odds before the bet.
+ */
+export class PoolBlendMarketMaker implements MarketMaker {
+  readonly model = 'poolBlend';
+  private alpha: number;
+  private beta: number;
+
+  constructor(alpha = 0.5, beta = 0.1) {
+    this.alpha = alpha;
+    this.beta = beta;
+  }
+
+  /**
+   * Reprices from the previous odds and the pools, which already include the new bet
+   */
+  reprice(prevOdds: number[], pools: number[], oddsTotal = 100): number[] {
+    const totalBet = pools.reduce((sum, pool) => sum + pool, 0);
+
+    // 1) Previous (seed) probabilities
+    const prevProbs = prevOdds.map((odds) => odds / oddsTotal);
+
+    // 2) Market probabilities
+    const marketProbs = pools.map((pool, i) =>
+      totalBet > 0 ? pool / totalBet : prevProbs[i]
+    );
+
+    // 3) Combine via α and normalize to sum to 1
+    const rawProbs = prevProbs.map((prev, i) => this.alpha * prev + (1 - this.alpha) * marketProbs[i]);
+    const sumRaw = rawProbs.reduce((sum, p) => sum + p, 0);
+    const normalizedProbs = rawProbs.map((p) => p / sumRaw);
+
+    // 4) Smooth by β, then re-normalize
+    const smooth = (newP: number, oldP: number) => {
+      const diff = newP - oldP;
+      if (Math.abs(diff) <= this.beta) return newP;
+      return oldP + Math.sign(diff) * this.beta;
+    };
+    const smoothedProbs = normalizedProbs.map((p, i) => smooth(p, prevProbs[i]));
+    const sumNew = smoothedProbs.reduce((sum, p) => sum + p, 0);
+
+    // 5) Back to whole percentages
+    return roundOdds(smoothedProbs.map((p) => p / sumNew), oddsTotal);
+  }
+
+  placeBet(state: MarketState, outcome: number, amount: number, oddsTotal = 100): BetResult {
+    const pools = state.pools.slice();
+    pools[outcome] += amount;
+    return {
+      odds: this.reprice(state.odds, pools, oddsTotal),
+      pools,
+      payout: amount * (100 / state.odds[outcome]),
+    };
+  }
+}
+
+/**
+ * Hanson's logarithmic market scoring rule. A bet buys shares in its outcome
+ * at the cost-function price, so large bets pay slippage, and the house can
+ * never lose more than liquidity * ln(1 / opening probability of the outcome
+ * that wins). Only for mutually exclusive outcomes (odds summing to 100).
+ */
+export class LmsrMarketMaker implements MarketMaker {
+  readonly model = 'lmsr';
+  private liquidity: number;
+
+  constructor(liquidity = 1000) {
+    this.liquidity = liquidity;
+  }
+
+  /**
+   * Shares that price the market at the given odds. Starting here makes the
+   * cost function zero, so the house's subsidy is bounded as described above.
+   */
+  initialShares(odds: number[]): number[] {
+    const total = odds.reduce((sum, o) => sum + o, 0);
+    return odds.map((o) => this.liquidity * Math.log(Math.max(o, 0.5) / total));
+  }
+
+  /**
+   * Instantaneous probabilities for the given shares, summing to 1
+   */
+  prices(shares: number[]): number[] {
+    // Shift by the max exponent so large share counts don't overflow
+    const max = Math.max(...shares);
+    const weights = shares.map((q) => Math.exp((q - max) / this.liquidity));
+    const sum = weights.reduce((total, w) => total + w, 0);
+    return weights.map((w) => w / sum);
+  }
+
+  /**
+   * Cost function C(q) = b ln Σ exp(q_i / b)
+   */
+  cost(shares: number[]): number {
+    const max = Math.max(...shares);
+    const sum = shares.reduce((total, q) => total + Math.exp((q - max) / this.liquidity), 0);
+    return max + this.liquidity * Math.log(sum);
+  }
+
+  placeBet(state: MarketState, outcome: number, amount: number, oddsTotal = 100): BetResult {
+    const shares = (state.shares || this.initialShares(state.odds)).slice();
+
+    // Solve C(q + Δ e_i) - C(q) = amount for Δ in closed form
+    const price = this.prices(shares)[outcome];
+    const bought = this.liquidity * Math.log(1 + (Math.exp(amount / this.liquidity) - 1) / price);
+    shares[outcome] += bought;
+
+    const pools = state.pools.slice();
+    pools[outcome] += amount;
+    return {
+      odds: roundOdds(this.prices(shares), oddsTotal),
+      pools,
+      shares,
+      payout: bought,
+    };
+  }
+}
+
+/**
+ * Builds the market maker for an event's pricing model
+ */
+export function createMarketMaker(
+  model: PricingModel,
+  options: { alpha?: number; liquidity?: number } = {}
+): MarketMaker {
+  if (model === 'lmsr') return new LmsrMarketMaker(options.liquidity);
+  return new PoolBlendMarketMaker(options.alpha);
+}
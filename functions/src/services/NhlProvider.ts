@@ -0,0 +1,119 @@
+import axios from 'axios';
+import { DateRange, DecidedIn, Game, GameState, SportsDataProvider, Team, toDateString } from './SportsDataProvider';
+
+const SCHEDULE_URL = 'https://api-web.nhle.com/v1/schedule';
+const TEAMS_URL = 'https://api.nhle.com/stats/rest/en/team/id';
+
+// gameType 3 is the playoffs; 1 and 2 are the preseason and regular season
+const PLAYOFF_GAME_TYPE = 3;
+
+const FINAL_STATES = ['FINAL', 'OFF'];
+const LIVE_STATES = ['LIVE', 'CRIT'];
+
+// gameScheduleState of games that won't be completed; every bet on them is voided
+const VOID_SCHEDULE_STATES = ['PPD', 'CNCL', 'SUSP'];
+
+const DECIDED_IN: { [periodType: string]: DecidedIn } = {
+  REG: 'regulation',
+  OT: 'overtime',
+  SO: 'shootout',
+};
+
+/**
+ * NHL games from the NHL's public web API, which needs no key
+ */
+export class NhlProvider implements SportsDataProvider {
+  readonly sport = 'hockey';
+
+  async getUpcomingGames(range: DateRange): Promise<Game[]> {
+    const games = await this.getGames(range);
+    return games.filter((game) => game.state === 'scheduled');
+  }
+
+  async getRecentResults(range: DateRange): Promise<Game[]> {
+    const games = await this.getGames(range);
+    return games.filter((game) => game.state !== 'scheduled');
+  }
+
+  async getTeam(teamId: number): Promise<Team | null> {
+    try {
+      const response = await axios.get(`${TEAMS_URL}/${teamId}`);
+      const team = response.data?.data?.[0];
+      if (!team) return null;
+      return {
+        id: team.id,
+        full_name: team.fullName,
+        abbreviation: team.triCode,
+        city: null,
+      };
+    } catch (error) {
+      console.error(`Error fetching NHL team ${teamId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * The schedule endpoint returns a week at a time, starting on the given date
+   */
+  private async getGames(range: DateRange): Promise<Game[]> {
+    const games: Game[] = [];
+    const weekStart = new Date(`${range.from}T00:00:00Z`);
+    const end = new Date(`${range.to}T00:00:00Z`);
+
+    while (weekStart <= end) {
+      const response = await axios.get(`${SCHEDULE_URL}/${toDateString(weekStart)}`);
+      for (const day of response.data?.gameWeek || []) {
+        if (day.date < range.from || day.date > range.to) continue;
+        games.push(...(day.games || []).map((game: any) => toGame(game, day.date)));
+      }
+      weekStart.setUTCDate(weekStart.getUTCDate() + 7);
+    }
+    return games;
+  }
+}
+
+function getGameState(game: any): GameState {
+  if (VOID_SCHEDULE_STATES.includes(game.gameScheduleState)) return 'void';
+  if (FINAL_STATES.includes(game.gameState)) return 'final';
+  if (LIVE_STATES.includes(game.gameState)) return 'live';
+  return 'scheduled';
+}
+
+function toTeam(team: any): Team {
+  const city = team.placeName?.default || null;
+  const name = team.commonName?.default;
+  return {
+    id: team.id,
+    full_name: name ? `${city} ${name}` : city || team.abbrev,
+    abbreviation: team.abbrev,
+    city,
+    name,
+    logo: team.logo,
+  };
+}
+
+function toGame(game: any, date: string): Game {
+  const state = getGameState(game);
+  const lastPeriodType = game.gameOutcome?.lastPeriodType;
+  return {
+    id: `nhl_${game.id}`,
+    sport: 'hockey',
+    date,
+    datetime: game.startTimeUTC,
+    status: game.gameScheduleState !== 'OK' ? game.gameScheduleState : game.gameState,
+    state,
+    homeTeam: toTeam(game.homeTeam),
+    visitorTeam: toTeam(game.awayTeam),
+    // Shootout winners are credited with one extra goal, as in the standings
+    homeScore: game.homeTeam?.score || 0,
+    visitorScore: game.awayTeam?.score || 0,
+    period: game.periodDescriptor?.number || 0,
+    time: null,
+    // Seasons are reported as e.g. 20242025
+    season: Math.floor((game.season || 0) / 10000),
+    postseason: game.gameType === PLAYOFF_GAME_TYPE,
+    ...(state === 'final' && lastPeriodType && DECIDED_IN[lastPeriodType] && {
+      decidedIn: DECIDED_IN[lastPeriodType],
+    }),
+  };
+}
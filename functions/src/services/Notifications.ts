@@ -0,0 +1,172 @@
+/**
+ * What a notification is about
+ */
+export type NotificationType =
+  | 'oddsMove'
+  | 'eventLive'
+  | 'eventSettled'
+  | 'tradeSettled'
+  | 'tradeSold'
+  | 'postReply'
+  | 'followedBet';
+
+/**
+ * What a notification says and where it leads
+ */
+export interface NotificationContent {
+  type: NotificationType;
+  title: string;
+  body: string;
+  eventId?: string;
+  link?: string; // App path to open, e.g. a profile
+}
+
+/**
+ * One entry of a user's notifications/{userId}/items feed
+ */
+export interface AppNotification {
+  type: NotificationType;
+  title: string;
+  body: string;
+  eventId: string | null; // Event the notification is about, if any
+  link: string | null;
+  read: boolean;
+  createdAt: any;
+}
+
+// Longest excerpt of a post quoted in a notification
+const MAX_EXCERPT_LENGTH = 100;
+
+/**
+ * Builds an unread notification. Every writer goes through here so the
+ * feed's entries all have the same fields.
+ */
+export function createNotification(input: NotificationContent & { createdAt: any }): AppNotification {
+  return {
+    type: input.type,
+    title: input.title,
+    body: input.body,
+    eventId: input.eventId ?? null,
+    link: input.link ?? null,
+    read: false,
+    createdAt: input.createdAt,
+  };
+}
+
+function formatAmount(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * The event's teams, e.g. "Los Angeles Lakers vs Boston Celtics"
+ */
+export function getMatchLabel(event: any): string {
+  return `${event?.home_team?.full_name || 'Home'} vs ${event?.visitor_team?.full_name || 'Away'}`;
+}
+
+function getProfileLink(userId: string): string {
+  return `/profile?userId=${userId}`;
+}
+
+// "a 3-leg parlay", or the selection and event of a single bet
+function describeBet(trade: any, event: any): string {
+  if (trade.type === 'parlay') return `a ${(trade.legs || []).length}-leg parlay`;
+
+  const selection = trade.selectedTeam;
+  let name = selection ? selection.charAt(0).toUpperCase() + selection.slice(1) : 'Unknown';
+  if (selection === 'home') name = event?.home_team?.full_name || 'Home';
+  else if (selection === 'visitor') name = event?.visitor_team?.full_name || 'Away';
+  else if (selection === 'draw') name = 'the draw';
+  return event ? `${name} (${getMatchLabel(event)})` : name;
+}
+
+/**
+ * Notification for a trade settled by the scheduler or re-settled by an admin
+ * @param event The settled event; for parlays, the event that decided the parlay
+ */
+export function describeSettledTrade(
+  trade: any,
+  status: string,
+  event: any,
+  corrected = false
+): NotificationContent {
+  const kind = trade.type === 'parlay' ? 'parlay' : 'bet';
+  const stake = `Your ${formatAmount(trade.amount || 0)} bet on ${describeBet(trade, event)}`;
+  let title: string;
+  let body: string;
+  if (status === 'Won') {
+    title = `Your ${kind} won`;
+    body = `${stake} paid out ${formatAmount(trade.expectedPayout || 0)}.`;
+  } else if (status === 'Lost') {
+    title = `Your ${kind} lost`;
+    body = `${stake} lost.`;
+  } else if (status === 'Push') {
+    title = `Your ${kind} pushed`;
+    body = `${stake} was a push. Your stake was refunded.`;
+  } else {
+    title = `Your ${kind} was voided`;
+    body = `${stake} was voided. Your stake was refunded.`;
+  }
+  return {
+    type: 'tradeSettled',
+    title: corrected ? `Corrected: ${title}` : title,
+    body,
+    ...(trade.eventId && { eventId: trade.eventId }),
+    link: getProfileLink(trade.userId),
+  };
+}
+
+/**
+ * Notification for a bet sold back to the house, in full or in part
+ */
+export function describeSoldTrade(trade: any, event: any, soldAmount: number, soldValue: number): NotificationContent {
+  return {
+    type: 'tradeSold',
+    title: 'Bet sold',
+    body: `You sold ${formatAmount(soldAmount)} of your bet on ${describeBet(trade, event)} ` +
+      `for ${formatAmount(soldValue)}.`,
+    ...(trade.eventId && { eventId: trade.eventId }),
+    link: getProfileLink(trade.userId),
+  };
+}
+
+/**
+ * Notification for the seller of a bet bought on the marketplace
+ */
+export function describeBoughtListing(trade: any, event: any, price: number): NotificationContent {
+  return {
+    type: 'tradeSold',
+    title: 'Your listing sold',
+    body: `Your bet on ${describeBet(trade, event)} was bought for ${formatAmount(price)}.`,
+    ...(trade.eventId && { eventId: trade.eventId }),
+    link: getProfileLink(trade.userId),
+  };
+}
+
+/**
+ * Notification for the author of a post that was replied to
+ */
+export function describeReply(replierId: string, replierUsername: string, content: string): NotificationContent {
+  const excerpt = content.length > MAX_EXCERPT_LENGTH
+    ? `${content.slice(0, MAX_EXCERPT_LENGTH - 1).trimEnd()}…`
+    : content;
+  return {
+    type: 'postReply',
+    title: `@${replierUsername} replied to your post`,
+    body: excerpt,
+    link: getProfileLink(replierId),
+  };
+}
+
+/**
+ * Notification for the followers of a user who placed a bet
+ */
+export function describeFollowedBet(bettorId: string, bettorUsername: string, trade: any, event: any): NotificationContent {
+  return {
+    type: 'followedBet',
+    title: `@${bettorUsername} placed a bet`,
+    body: `${formatAmount(trade.amount || 0)} on ${describeBet(trade, event)}`,
+    ...(trade.eventId && { eventId: trade.eventId }),
+    link: getProfileLink(bettorId),
+  };
+}
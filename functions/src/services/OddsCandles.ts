@@ -0,0 +1,122 @@
+import { toMillis } from './Backtest';
+import { readOddsHistoryEntry } from './OddsHistory';
+
+export type CandleInterval = '5m' | '15m' | '1h' | '4h' | '1d';
+
+/**
+ * Length of each candle interval in milliseconds
+ */
+export const CANDLE_INTERVALS: { [interval in CandleInterval]: number } = {
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export type CandleOutcome = 'home' | 'visitor' | 'draw';
+
+/**
+ * One oddsHistory entry, reduced to what the candles need
+ */
+export interface OddsPoint {
+  at: number; // Milliseconds since epoch
+  odds: { [outcome in CandleOutcome]?: number };
+  volume: number; // Amount staked by the bet that moved the odds, 0 for model updates
+  isBet: boolean;
+}
+
+export interface Ohlc {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface Candle {
+  start: number; // Bucket start, milliseconds since epoch
+  odds: { [outcome in CandleOutcome]?: Ohlc };
+  volume: number;
+  bets: number;
+}
+
+// Sources written when a bet moves the odds, as opposed to model updates
+const BET_SOURCES = ['placedBet', 'limitOrder'];
+
+/**
+ * Reads an oddsHistory entry of any schema version, or null if it has no
+ * usable timestamp or odds
+ */
+export function toOddsPoint(entry: any, isSoccer = false): OddsPoint | null {
+  const record = readOddsHistoryEntry(entry, isSoccer);
+  const at = record && toMillis(record.timestamp);
+  if (!record || at === null) return null;
+
+  return {
+    at,
+    odds: {
+      home: record.homeTeamOdds,
+      visitor: record.visitorTeamOdds,
+      ...(record.drawOdds !== null && { draw: record.drawOdds }),
+    },
+    volume: record.bet?.amount || 0,
+    // Bets recorded before bet amounts were stored still count as bets
+    isBet: !!record.bet || BET_SOURCES.includes(record.source),
+  };
+}
+
+/**
+ * Aggregates odds points into fixed-interval candles, oldest first. Each
+ * candle opens at the previous candle's close, so a move between buckets
+ * shows up in the candle it happened in. Buckets without points are skipped.
+ */
+export function buildCandles(points: OddsPoint[], intervalMs: number): Candle[] {
+  const candles: Candle[] = [];
+  const lastClose: OddsPoint['odds'] = {};
+
+  points
+    .slice()
+    .sort((a, b) => a.at - b.at)
+    .forEach((point) => {
+      const start = Math.floor(point.at / intervalMs) * intervalMs;
+      let candle = candles[candles.length - 1];
+      if (!candle || candle.start !== start) {
+        candle = { start, odds: {}, volume: 0, bets: 0 };
+        candles.push(candle);
+      }
+
+      (Object.keys(point.odds) as CandleOutcome[]).forEach((outcome) => {
+        const value = point.odds[outcome] as number;
+        const ohlc = candle.odds[outcome];
+        if (ohlc) {
+          ohlc.high = Math.max(ohlc.high, value);
+          ohlc.low = Math.min(ohlc.low, value);
+          ohlc.close = value;
+        } else {
+          const open = lastClose[outcome] ?? value;
+          candle.odds[outcome] = {
+            open,
+            high: Math.max(open, value),
+            low: Math.min(open, value),
+            close: value,
+          };
+        }
+        lastClose[outcome] = value;
+      });
+
+      candle.volume += point.volume;
+      if (point.isBet) candle.bets++;
+    });
+
+  return candles;
+}
+
+/**
+ * Candles for an event's oddsHistory entries
+ */
+export function aggregateOddsCandles(entries: any[], interval: CandleInterval, isSoccer = false): Candle[] {
+  const points = entries
+    .map((entry) => toOddsPoint(entry, isSoccer))
+    .filter((point): point is OddsPoint => point !== null);
+  return buildCandles(points, CANDLE_INTERVALS[interval]);
+}
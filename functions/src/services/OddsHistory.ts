@@ -0,0 +1,100 @@
+/**
+ * Version of the oddsHistory entries written by createOddsHistoryEntry.
+ * Version 1 entries (no schemaVersion) recorded only the odds, with soccer
+ * openers using awayTeamOdds and soccer bets missing the draw.
+ */
+export const ODDS_HISTORY_SCHEMA_VERSION = 2;
+
+export type OddsHistoryOutcome = 'home' | 'visitor' | 'draw';
+
+/**
+ * The bet that moved the odds
+ */
+export interface OddsHistoryBet {
+  tradeId: string | null; // Null on entries migrated from version 1
+  selection: OddsHistoryOutcome | null; // Null on entries migrated from version 1
+  amount: number;
+}
+
+/**
+ * Amount staked on each outcome after the entry's odds were set
+ */
+export interface OddsHistoryPools {
+  home: number;
+  visitor: number;
+  draw: number | null; // Null for sports without a draw
+}
+
+/**
+ * One entry of an event's oddsHistory subcollection
+ */
+export interface OddsHistoryEntry {
+  schemaVersion: number;
+  source: string; // Model or action behind the odds, e.g. gemini-ai, elo, placedBet, limitOrder
+  homeTeamOdds: number;
+  visitorTeamOdds: number;
+  drawOdds: number | null; // Null for sports without a draw
+  bet: OddsHistoryBet | null; // Null when the odds weren't moved by a bet
+  pools: OddsHistoryPools | null; // Null on entries migrated from version 1
+  timestamp: any;
+}
+
+/**
+ * Builds an oddsHistory entry in the current schema. Every writer goes
+ * through here so entries always carry all of the event's outcomes.
+ */
+export function createOddsHistoryEntry(input: {
+  source: string;
+  odds: { home: number; visitor: number; draw?: number };
+  bet?: OddsHistoryBet;
+  pools?: { home?: number; visitor?: number; draw?: number };
+  isSoccer: boolean;
+  timestamp: any;
+}): OddsHistoryEntry {
+  const { source, odds, bet, pools, isSoccer, timestamp } = input;
+  return {
+    schemaVersion: ODDS_HISTORY_SCHEMA_VERSION,
+    source,
+    homeTeamOdds: odds.home,
+    visitorTeamOdds: odds.visitor,
+    drawOdds: isSoccer ? odds.draw ?? null : null,
+    bet: bet || null,
+    pools: {
+      home: pools?.home || 0,
+      visitor: pools?.visitor || 0,
+      draw: isSoccer ? pools?.draw || 0 : null,
+    },
+    timestamp,
+  };
+}
+
+/**
+ * Reads an oddsHistory entry of any version in the current schema, or null
+ * if it has no usable odds. Soccer entries without a draw get it from the
+ * other two outcomes, since moneyline odds sum to 100.
+ */
+export function readOddsHistoryEntry(entry: any, isSoccer: boolean): OddsHistoryEntry | null {
+  if (entry.schemaVersion === ODDS_HISTORY_SCHEMA_VERSION) return entry as OddsHistoryEntry;
+
+  const home = entry.homeTeamOdds;
+  const visitor = entry.visitorTeamOdds ?? entry.awayTeamOdds;
+  if (typeof home !== 'number' || typeof visitor !== 'number') return null;
+
+  let drawOdds: number | null = null;
+  if (isSoccer) {
+    drawOdds = typeof entry.drawOdds === 'number' ? entry.drawOdds : Math.max(100 - home - visitor, 0);
+  }
+  return {
+    schemaVersion: ODDS_HISTORY_SCHEMA_VERSION,
+    source: entry.source || 'unknown',
+    homeTeamOdds: home,
+    visitorTeamOdds: visitor,
+    drawOdds,
+    // Version 1 entries recorded at most the amount bet, and never the pools
+    bet: typeof entry.betAmount === 'number'
+      ? { tradeId: null, selection: null, amount: entry.betAmount }
+      : null,
+    pools: null,
+    timestamp: entry.timestamp ?? null,
+  };
+}
@@ -0,0 +1,323 @@
+/**
+ * A finished game, as the rating models read it from events
+ */
+export interface RatedResult {
+  date: string; // YYYY-MM-DD, for replaying games in order
+  homeTeam: string;
+  visitorTeam: string;
+  homeScore: number;
+  visitorScore: number;
+}
+
+/**
+ * Opening prediction for a two-way game
+ */
+export interface TwoWayPrediction {
+  homeWinProbability: number;
+  expectedTotal: number | null; // Null until both teams have played enough games
+}
+
+/**
+ * Opening prediction for a soccer match
+ */
+export interface SoccerPrediction {
+  homeWinProbability: number;
+  drawProbability: number;
+  awayWinProbability: number;
+  bothTeamsScoreProbability: number;
+  overGoalsProbability: number; // Over 2.5 goals
+}
+
+export interface EloOptions {
+  initialRating?: number;
+  kFactor?: number; // Rating points moved by an even game at a one-point margin
+  homeAdvantage?: number; // Rating points added to the home team
+  minGames?: number; // Games each team needs before it is rated
+}
+
+/**
+ * An EloModel's learned state, as cached in Firestore
+ */
+export interface EloSnapshot {
+  ratings: { [team: string]: number };
+  games: { [team: string]: number };
+  gameTotals: { [team: string]: number };
+}
+
+/**
+ * A PoissonGoalModel's learned state, as cached in Firestore
+ */
+export interface PoissonSnapshot {
+  teams: { [team: string]: TeamGoals };
+  homeGoals: number;
+  awayGoals: number;
+  matches: number;
+}
+
+// Replays games oldest first so ratings reflect the latest results
+function sortByDate(results: RatedResult[]): RatedResult[] {
+  return results.slice().sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Elo ratings for a two-way league. Each result moves the ratings by the
+ * surprise of the result, scaled up for larger winning margins and down
+ * when a heavy favorite wins, as in FiveThirtyEight's NBA and NFL models.
+ */
+export class EloModel {
+  private initialRating: number;
+  private kFactor: number;
+  private homeAdvantage: number;
+  private minGames: number;
+  private ratings = new Map<string, number>();
+  private games = new Map<string, number>();
+  private gameTotals = new Map<string, number>(); // Sum of combined scores in each team's games
+
+  constructor(options: EloOptions = {}) {
+    this.initialRating = options.initialRating ?? 1500;
+    this.kFactor = options.kFactor ?? 20;
+    this.homeAdvantage = options.homeAdvantage ?? 100;
+    this.minGames = options.minGames ?? 5;
+  }
+
+  /**
+   * Rates a league from its finished games
+   */
+  static fromResults(results: RatedResult[], options: EloOptions = {}): EloModel {
+    const model = new EloModel(options);
+    sortByDate(results).forEach((result) => model.update(result));
+    return model;
+  }
+
+  /**
+   * Restores a model saved with toSnapshot
+   */
+  static fromSnapshot(snapshot: EloSnapshot, options: EloOptions = {}): EloModel {
+    const model = new EloModel(options);
+    model.ratings = new Map(Object.entries(snapshot.ratings));
+    model.games = new Map(Object.entries(snapshot.games));
+    model.gameTotals = new Map(Object.entries(snapshot.gameTotals));
+    return model;
+  }
+
+  toSnapshot(): EloSnapshot {
+    return {
+      ratings: Object.fromEntries(this.ratings),
+      games: Object.fromEntries(this.games),
+      gameTotals: Object.fromEntries(this.gameTotals),
+    };
+  }
+
+  getRating(team: string): number {
+    return this.ratings.get(team) ?? this.initialRating;
+  }
+
+  gamesPlayed(team: string): number {
+    return this.games.get(team) || 0;
+  }
+
+  /**
+   * Chance the home team wins, from the rating difference plus home advantage
+   */
+  winProbability(homeTeam: string, visitorTeam: string): number {
+    const diff = this.getRating(homeTeam) + this.homeAdvantage - this.getRating(visitorTeam);
+    return 1 / (1 + Math.pow(10, -diff / 400));
+  }
+
+  update(result: RatedResult) {
+    const { homeTeam, visitorTeam, homeScore, visitorScore } = result;
+    const expected = this.winProbability(homeTeam, visitorTeam);
+    const actual = homeScore > visitorScore ? 1 : homeScore < visitorScore ? 0 : 0.5;
+
+    // Bigger wins say more, but less so when the favorite was expected to win big
+    const margin = Math.abs(homeScore - visitorScore);
+    const winnerEloDiff = (actual === 1 ? 1 : -1) *
+      (this.getRating(homeTeam) + this.homeAdvantage - this.getRating(visitorTeam));
+    const marginMultiplier = actual === 0.5
+      ? 1
+      : Math.log(margin + 1) * (2.2 / (Math.max(winnerEloDiff, -400) * 0.001 + 2.2));
+
+    const change = this.kFactor * marginMultiplier * (actual - expected);
+    this.ratings.set(homeTeam, this.getRating(homeTeam) + change);
+    this.ratings.set(visitorTeam, this.getRating(visitorTeam) - change);
+
+    [homeTeam, visitorTeam].forEach((team) => {
+      this.games.set(team, this.gamesPlayed(team) + 1);
+      this.gameTotals.set(team, (this.gameTotals.get(team) || 0) + homeScore + visitorScore);
+    });
+  }
+
+  /**
+   * Prediction for a game, or null when either team hasn't played enough
+   * games to be rated
+   */
+  predict(homeTeam: string, visitorTeam: string): TwoWayPrediction | null {
+    if (this.gamesPlayed(homeTeam) < this.minGames || this.gamesPlayed(visitorTeam) < this.minGames) {
+      return null;
+    }
+    const averageTotal = (team: string) => (this.gameTotals.get(team) || 0) / this.gamesPlayed(team);
+    return {
+      homeWinProbability: this.winProbability(homeTeam, visitorTeam),
+      expectedTotal: (averageTotal(homeTeam) + averageTotal(visitorTeam)) / 2,
+    };
+  }
+}
+
+export interface PoissonOptions {
+  priorGames?: number; // League-average games blended into each team's record
+  minGames?: number; // Games each team needs before it is rated
+  maxGoals?: number; // Scores above this are treated as impossible
+}
+
+interface TeamGoals {
+  games: number;
+  scored: number;
+  conceded: number;
+}
+
+/**
+ * Poisson goal model for soccer. Each team gets an attack and a defence
+ * strength relative to the league average, and the two teams' goals are
+ * independent Poisson draws with rates from those strengths.
+ */
+export class PoissonGoalModel {
+  private priorGames: number;
+  private minGames: number;
+  private maxGoals: number;
+  private teams = new Map<string, TeamGoals>();
+  private homeGoals = 0;
+  private awayGoals = 0;
+  private matches = 0;
+
+  constructor(options: PoissonOptions = {}) {
+    this.priorGames = options.priorGames ?? 5;
+    this.minGames = options.minGames ?? 5;
+    this.maxGoals = options.maxGoals ?? 10;
+  }
+
+  /**
+   * Fits team strengths from finished matches
+   */
+  static fromResults(results: RatedResult[], options: PoissonOptions = {}): PoissonGoalModel {
+    const model = new PoissonGoalModel(options);
+    results.forEach((result) => model.add(result));
+    return model;
+  }
+
+  /**
+   * Restores a model saved with toSnapshot
+   */
+  static fromSnapshot(snapshot: PoissonSnapshot, options: PoissonOptions = {}): PoissonGoalModel {
+    const model = new PoissonGoalModel(options);
+    model.teams = new Map(Object.entries(snapshot.teams));
+    model.homeGoals = snapshot.homeGoals;
+    model.awayGoals = snapshot.awayGoals;
+    model.matches = snapshot.matches;
+    return model;
+  }
+
+  toSnapshot(): PoissonSnapshot {
+    return {
+      teams: Object.fromEntries(this.teams),
+      homeGoals: this.homeGoals,
+      awayGoals: this.awayGoals,
+      matches: this.matches,
+    };
+  }
+
+  add(result: RatedResult) {
+    const record = (team: string, scored: number, conceded: number) => {
+      const goals = this.teams.get(team) || { games: 0, scored: 0, conceded: 0 };
+      this.teams.set(team, {
+        games: goals.games + 1,
+        scored: goals.scored + scored,
+        conceded: goals.conceded + conceded,
+      });
+    };
+    record(result.homeTeam, result.homeScore, result.visitorScore);
+    record(result.visitorTeam, result.visitorScore, result.homeScore);
+    this.homeGoals += result.homeScore;
+    this.awayGoals += result.visitorScore;
+    this.matches++;
+  }
+
+  gamesPlayed(team: string): number {
+    return this.teams.get(team)?.games || 0;
+  }
+
+  /**
+   * Expected goals for each side, or null when either team hasn't played
+   * enough matches
+   */
+  expectedGoals(homeTeam: string, awayTeam: string): { home: number; away: number } | null {
+    if (this.gamesPlayed(homeTeam) < this.minGames || this.gamesPlayed(awayTeam) < this.minGames) {
+      return null;
+    }
+    const averageHome = this.homeGoals / this.matches;
+    const averageAway = this.awayGoals / this.matches;
+    const averagePerTeam = (averageHome + averageAway) / 2;
+    if (averagePerTeam === 0) return null;
+
+    // Shrink small samples toward the league average
+    const strength = (goals: number, games: number) =>
+      (goals + this.priorGames * averagePerTeam) / ((games + this.priorGames) * averagePerTeam);
+    const home = this.teams.get(homeTeam) as TeamGoals;
+    const away = this.teams.get(awayTeam) as TeamGoals;
+
+    return {
+      home: averageHome * strength(home.scored, home.games) * strength(away.conceded, away.games),
+      away: averageAway * strength(away.scored, away.games) * strength(home.conceded, home.games),
+    };
+  }
+
+  /**
+   * Prediction for a match, or null when either team hasn't played enough
+   * matches
+   */
+  predict(homeTeam: string, awayTeam: string): SoccerPrediction | null {
+    const expected = this.expectedGoals(homeTeam, awayTeam);
+    if (!expected) return null;
+
+    const homeGoals = poissonProbabilities(expected.home, this.maxGoals);
+    const awayGoals = poissonProbabilities(expected.away, this.maxGoals);
+    const prediction = {
+      homeWinProbability: 0,
+      drawProbability: 0,
+      awayWinProbability: 0,
+      bothTeamsScoreProbability: 0,
+      overGoalsProbability: 0,
+    };
+    let covered = 0;
+    homeGoals.forEach((pHome, home) => {
+      awayGoals.forEach((pAway, away) => {
+        const p = pHome * pAway;
+        covered += p;
+        if (home > away) prediction.homeWinProbability += p;
+        else if (home === away) prediction.drawProbability += p;
+        else prediction.awayWinProbability += p;
+        if (home > 0 && away > 0) prediction.bothTeamsScoreProbability += p;
+        if (home + away > 2) prediction.overGoalsProbability += p;
+      });
+    });
+
+    // Spread the chance of scores past maxGoals proportionally
+    return {
+      homeWinProbability: prediction.homeWinProbability / covered,
+      drawProbability: prediction.drawProbability / covered,
+      awayWinProbability: prediction.awayWinProbability / covered,
+      bothTeamsScoreProbability: prediction.bothTeamsScoreProbability / covered,
+      overGoalsProbability: prediction.overGoalsProbability / covered,
+    };
+  }
+}
+
+/**
+ * P(X = k) for k = 0..maxGoals where X ~ Poisson(rate)
+ */
+export function poissonProbabilities(rate: number, maxGoals: number): number[] {
+  const probabilities = [Math.exp(-rate)];
+  for (let k = 1; k <= maxGoals; k++) {
+    probabilities.push(probabilities[k - 1] * rate / k);
+  }
+  return probabilities;
+}
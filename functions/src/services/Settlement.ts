@@ -0,0 +1,343 @@
+import { Sport } from './SportsDataProvider';
+import { getSettlementAmounts } from './WalletReconciliation';
+
+/**
+ * Final result of an event, as reported by its data feed or corrected by an admin
+ */
+export interface EventResult {
+  sport: Sport;
+  homeScore: number;
+  visitorScore: number;
+  winningTeam: 'home' | 'visitor' | 'draw' | null;
+  score?: any; // Soccer full-time and half-time score, for side markets
+  voidReason?: string; // Set when the event was postponed, cancelled or abandoned
+}
+
+export type ParlayLegStatus = 'Pending' | 'Won' | 'Lost' | 'Void';
+
+export interface ParlayLeg {
+  eventId: string;
+  selectedTeam: 'home' | 'visitor' | 'draw';
+  selectedOdds: number;
+  status: ParlayLegStatus;
+}
+
+/**
+ * What settling one trade did, as recorded in settlements/{eventId} so it can
+ * be reversed if the event is re-settled
+ */
+export interface TradeSettlement {
+  userId: string;
+  status: string; // Trade status after settlement; parlays with open legs stay Pending
+  legStatus?: string; // Parlays only: this event's leg
+  payoutBefore?: number; // Parlays only: payout before a void leg was dropped
+  decided: boolean; // Whether this settlement decided the trade's status
+  walletCredit: number;
+  pnlChange: number;
+}
+
+export type SettlementLedger = { [tradeId: string]: TradeSettlement };
+
+/**
+ * A wallet balance change settlement makes, for walletTransactions
+ */
+export interface SettlementWalletEntry {
+  userId: string;
+  type: 'payout' | 'refund' | 'adjustment';
+  amount: number;
+  tradeId: string;
+  eventId: string;
+}
+
+/**
+ * Everything settleEvent read, keyed by document ID. Trades and users are
+ * copied, so the caller's data isn't changed.
+ */
+export interface SettlementInput {
+  eventId: string;
+  result: EventResult;
+  resettle?: boolean;
+  previousLedger: SettlementLedger;
+  trades: { [tradeId: string]: any };
+  users: { [userId: string]: { walletBalance: number; lifetimePnl: number } };
+  otherLedgers?: { [otherEventId: string]: SettlementLedger }; // Re-settles only, see getOtherLedgerIds
+}
+
+/**
+ * What settleEvent has to write
+ */
+export interface SettlementOutcome {
+  ledger: SettlementLedger;
+  trades: { [tradeId: string]: any };
+  changedTrades: string[];
+  users: { [userId: string]: { walletBalance: number; lifetimePnl: number } };
+  changedUsers: string[];
+  otherLedgers: { [otherEventId: string]: SettlementLedger };
+  changedLedgers: string[];
+  walletEntries: SettlementWalletEntry[];
+  settledCount: number;
+}
+
+/**
+ * Grades a basketball, football, baseball or hockey trade against the final
+ * score, including overtime, extra innings and shootouts. Spread and total
+ * trades push when the adjusted score lands exactly on the line.
+ */
+export function gradeTwoWayTrade(
+  trade: any,
+  homeScore: number,
+  visitorScore: number
+): 'Won' | 'Lost' | 'Push' {
+  if (trade.market === 'spread') {
+    const coverMargin = homeScore + trade.line - visitorScore;
+    if (coverMargin === 0) return 'Push';
+    return trade.selectedTeam === (coverMargin > 0 ? 'home' : 'visitor') ? 'Won' : 'Lost';
+  }
+  if (trade.market === 'total') {
+    const totalPoints = homeScore + visitorScore;
+    if (totalPoints === trade.line) return 'Push';
+    return trade.selectedTeam === (totalPoints > trade.line ? 'over' : 'under') ? 'Won' : 'Lost';
+  }
+  // Moneyline; a tie (possible in football) refunds both sides
+  if (homeScore === visitorScore) return 'Push';
+  return trade.selectedTeam === (homeScore > visitorScore ? 'home' : 'visitor') ? 'Won' : 'Lost';
+}
+
+/**
+ * Grades a soccer trade from the stored score. Returns null when the score
+ * needed for the trade's market (e.g. the half-time score) is missing.
+ * @param winningTeam Full-time result, as used for the three-way market
+ */
+export function gradeSoccerTrade(
+  trade: any,
+  winningTeam: 'home' | 'visitor' | 'draw' | null,
+  score: any
+): 'Won' | 'Lost' | 'Push' | null {
+  const resultOf = (home: number, away: number) =>
+    home > away ? 'home' : away > home ? 'visitor' : 'draw';
+  const fullTime = score?.fullTime;
+  const hasFullTime = typeof fullTime?.home === 'number' && typeof fullTime?.away === 'number';
+  const outcome = (won: boolean) => (won ? 'Won' : 'Lost');
+
+  if (trade.market === 'doubleChance') {
+    if (!winningTeam) return null;
+    const covered: { [selection: string]: string[] } = {
+      homeOrDraw: ['home', 'draw'],
+      homeOrAway: ['home', 'visitor'],
+      drawOrAway: ['draw', 'visitor'],
+    };
+    return outcome((covered[trade.selectedTeam] || []).includes(winningTeam));
+  }
+  if (trade.market === 'bothTeamsToScore') {
+    if (!hasFullTime) return null;
+    const bothScored = fullTime.home > 0 && fullTime.away > 0;
+    return outcome(trade.selectedTeam === (bothScored ? 'yes' : 'no'));
+  }
+  if (trade.market === 'totalGoals') {
+    if (!hasFullTime) return null;
+    const goals = fullTime.home + fullTime.away;
+    if (goals === trade.line) return 'Push';
+    return outcome(trade.selectedTeam === (goals > trade.line ? 'over' : 'under'));
+  }
+  if (trade.market === 'halfTimeResult') {
+    const halfTime = score?.halfTime;
+    if (typeof halfTime?.home !== 'number' || typeof halfTime?.away !== 'number') return null;
+    return outcome(trade.selectedTeam === resultOf(halfTime.home, halfTime.away));
+  }
+  // Three-way result (moneyline)
+  return outcome(trade.selectedTeam === winningTeam);
+}
+
+/**
+ * Grades a single trade, or returns null while the score it needs is missing
+ */
+export function gradeTrade(trade: any, result: EventResult): 'Won' | 'Lost' | 'Push' | 'Void' | null {
+  if (result.voidReason) return 'Void';
+  if (result.sport === 'soccer') return gradeSoccerTrade(trade, result.winningTeam, result.score);
+  return gradeTwoWayTrade(trade, result.homeScore, result.visitorScore);
+}
+
+/**
+ * A parlay's status from its legs: Lost once any leg loses, Void when every
+ * leg is void, Won when every leg won or dropped out, otherwise Pending
+ */
+export function getParlayStatus(legs: ParlayLeg[]): 'Pending' | 'Won' | 'Lost' | 'Void' {
+  if (legs.some((leg) => leg.status === 'Lost')) return 'Lost';
+  if (legs.every((leg) => leg.status === 'Void')) return 'Void';
+  if (legs.every((leg) => leg.status === 'Won' || leg.status === 'Void')) return 'Won';
+  return 'Pending';
+}
+
+/**
+ * Events whose ledgers a re-settle has to read: those of parlays in the
+ * previous ledger that another of their events decided
+ */
+export function getOtherLedgerIds(
+  eventId: string,
+  previousLedger: SettlementLedger,
+  trades: { [tradeId: string]: any }
+): string[] {
+  const otherEventIds = new Set<string>();
+  Object.entries(previousLedger).forEach(([tradeId, entry]) => {
+    const trade = trades[tradeId];
+    if (trade?.type !== 'parlay' || entry.decided || trade.status === 'Pending') return;
+    (trade.legs || []).forEach((leg: ParlayLeg) => {
+      if (leg.eventId !== eventId) otherEventIds.add(leg.eventId);
+    });
+  });
+  return Array.from(otherEventIds);
+}
+
+/**
+ * Settles every pending trade and parlay leg on an event against its result
+ * and returns the ledger, trades, wallets and ledger entries to write.
+ * Trades already in the previous ledger are skipped, so settling twice
+ * changes nothing. When re-settling, every recorded outcome is reversed
+ * first, including decisions another event's ledger holds for parlays whose
+ * leg on this event changes.
+ */
+export function computeSettlement(input: SettlementInput): SettlementOutcome {
+  const { eventId, result, resettle = false, previousLedger } = input;
+  const trades: { [tradeId: string]: any } = {};
+  Object.entries(input.trades).forEach(([tradeId, data]) => {
+    trades[tradeId] = { ...data };
+  });
+  const users: SettlementOutcome['users'] = {};
+  Object.entries(input.users).forEach(([userId, wallet]) => {
+    users[userId] = { ...wallet };
+  });
+  const otherLedgers: SettlementOutcome['otherLedgers'] = {};
+  Object.entries(input.otherLedgers || {}).forEach(([otherEventId, ledger]) => {
+    otherLedgers[otherEventId] = { ...ledger };
+  });
+
+  const changedTrades = new Set<string>();
+  const changedUsers = new Set<string>();
+  const changedLedgers = new Set<string>();
+  const walletEntries: SettlementWalletEntry[] = [];
+  const applyAmounts = (
+    userId: string,
+    walletCredit: number,
+    pnlChange: number,
+    ledgerEntry: { type: SettlementWalletEntry['type']; tradeId: string }
+  ) => {
+    if (!users[userId] || (walletCredit === 0 && pnlChange === 0)) return;
+    users[userId].walletBalance += walletCredit;
+    users[userId].lifetimePnl += pnlChange;
+    changedUsers.add(userId);
+    if (walletCredit !== 0) {
+      walletEntries.push({ userId, amount: walletCredit, eventId, ...ledgerEntry });
+    }
+  };
+
+  // --- Reverse previous outcomes when re-settling ---
+  let ledger: SettlementLedger = { ...previousLedger };
+  if (resettle) {
+    for (const [tradeId, entry] of Object.entries(previousLedger)) {
+      applyAmounts(entry.userId, -entry.walletCredit, -entry.pnlChange, { type: 'adjustment', tradeId });
+      const trade = trades[tradeId];
+      if (!trade) continue;
+      if (trade.type === 'parlay') {
+        trade.legs = (trade.legs || []).map((leg: ParlayLeg) =>
+          leg.eventId === eventId ? { ...leg, status: 'Pending' } : leg
+        );
+        if (typeof entry.payoutBefore === 'number') trade.expectedPayout = entry.payoutBefore;
+        let reversed = entry.decided;
+        if (!entry.decided && trade.status !== 'Pending') {
+          // Reverse the decision where it was recorded, so grading this leg again decides the parlay anew
+          for (const [otherEventId, other] of Object.entries(otherLedgers)) {
+            const decision = other[tradeId];
+            if (!decision?.decided) continue;
+            applyAmounts(decision.userId, -decision.walletCredit, -decision.pnlChange, {
+              type: 'adjustment',
+              tradeId,
+            });
+            other[tradeId] = { ...decision, status: 'Pending', decided: false, walletCredit: 0, pnlChange: 0 };
+            changedLedgers.add(otherEventId);
+            reversed = true;
+          }
+          if (!reversed) console.warn(`Parlay ${tradeId} has no recorded decision to reverse; keeping its status`);
+        }
+        if (reversed) trade.status = 'Pending';
+      } else {
+        trade.status = 'Pending';
+      }
+      changedTrades.add(tradeId);
+    }
+    ledger = {};
+  }
+
+  // --- Grade ---
+  let settledCount = 0;
+  for (const [tradeId, trade] of Object.entries(trades)) {
+    if (ledger[tradeId]) continue;
+
+    if (trade.type === 'parlay') {
+      const leg = (trade.legs || []).find((l: ParlayLeg) => l.eventId === eventId);
+      if (!leg || leg.status !== 'Pending') continue;
+      // A tie pushes the leg, as it does a single bet, so it drops out like a void one
+      const legPushed = Boolean(result.voidReason) || result.winningTeam === null;
+      const legStatus: ParlayLegStatus = legPushed
+        ? 'Void'
+        : leg.selectedTeam === result.winningTeam ? 'Won' : 'Lost';
+      trade.legs = trade.legs.map((l: ParlayLeg) =>
+        l.eventId === eventId ? { ...l, status: legStatus } : l
+      );
+
+      // A void leg drops out of the parlay, taking its odds with it
+      const payoutBefore = trade.expectedPayout || 0;
+      if (legStatus === 'Void') {
+        trade.expectedPayout = payoutBefore * (leg.selectedOdds / 100);
+      }
+
+      let decided = false;
+      if (trade.status === 'Pending') {
+        trade.status = getParlayStatus(trade.legs);
+        decided = trade.status !== 'Pending';
+      }
+      const amounts = decided
+        ? getSettlementAmounts(trade, trade.status)
+        : { walletCredit: 0, pnlChange: 0 };
+      applyAmounts(trade.userId, amounts.walletCredit, amounts.pnlChange, {
+        type: trade.status === 'Won' ? 'payout' : 'refund',
+        tradeId,
+      });
+      ledger[tradeId] = {
+        userId: trade.userId,
+        status: trade.status,
+        legStatus,
+        ...(legStatus === 'Void' && { payoutBefore }),
+        decided,
+        ...amounts,
+      };
+    } else {
+      if (trade.status !== 'Pending') continue;
+      const status = gradeTrade(trade, result);
+      if (!status) {
+        console.warn(`Trade ${tradeId} cannot be settled yet: score incomplete`);
+        continue;
+      }
+      trade.status = status;
+      const amounts = getSettlementAmounts(trade, status);
+      applyAmounts(trade.userId, amounts.walletCredit, amounts.pnlChange, {
+        type: status === 'Won' ? 'payout' : 'refund',
+        tradeId,
+      });
+      ledger[tradeId] = { userId: trade.userId, status, decided: true, ...amounts };
+    }
+    changedTrades.add(tradeId);
+    settledCount++;
+  }
+
+  return {
+    ledger,
+    trades,
+    changedTrades: Array.from(changedTrades),
+    users,
+    changedUsers: Array.from(changedUsers),
+    otherLedgers,
+    changedLedgers: Array.from(changedLedgers),
+    walletEntries,
+    settledCount,
+  };
+}
@@ -0,0 +1,148 @@
+// Football is American football; soccer is association football
+export type Sport = 'basketball' | 'soccer' | 'football' | 'baseball' | 'hockey';
+
+/**
+ * Where a game is in its lifecycle, whatever status strings its feed uses
+ */
+export type GameState = 'scheduled' | 'live' | 'final' | 'void';
+
+/**
+ * How a finished game was decided. Overtime covers NFL overtime and MLB
+ * extra innings.
+ */
+export type DecidedIn = 'regulation' | 'overtime' | 'shootout';
+
+export interface Team {
+  id: number;
+  full_name: string;
+  abbreviation: string;
+  city: string | null;
+  name?: string;
+  conference?: string;
+  division?: string;
+  logo?: string;
+}
+
+export interface Competition {
+  id: number;
+  name: string;
+  logo?: string;
+}
+
+/**
+ * A game as reported by a sports data feed, normalized across feeds
+ */
+export interface Game {
+  id: string; // Event document ID
+  sport: Sport;
+  date: string;
+  datetime: string; // Start time, ISO 8601
+  status: string; // The feed's own status, shown as is by the app
+  state: GameState;
+  homeTeam: Team;
+  visitorTeam: Team;
+  homeScore: number;
+  visitorScore: number;
+  period: number;
+  time: string | null;
+  season: number;
+  postseason: boolean;
+  decidedIn?: DecidedIn; // Finished games, where the feed reports it
+  innings?: number; // Baseball only: innings played, including extra innings
+  week?: number; // Football only
+  competition?: Competition; // Soccer only
+  score?: any; // Soccer full-time and half-time score, for side markets
+}
+
+/**
+ * Inclusive range of dates, formatted YYYY-MM-DD
+ */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * A source of games and teams for one sport
+ */
+export interface SportsDataProvider {
+  readonly sport: Sport;
+
+  /**
+   * Games that haven't started yet
+   */
+  getUpcomingGames(range: DateRange): Promise<Game[]>;
+
+  /**
+   * Games that are live, finished, postponed or cancelled, for updating
+   * scores and settling bets
+   */
+  getRecentResults(range: DateRange): Promise<Game[]>;
+
+  getTeam(teamId: number): Promise<Team | null>;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD
+ */
+export function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Date range from daysBefore days ago to daysAfter days from now
+ */
+export function getDateRange(daysBefore: number, daysAfter: number): DateRange {
+  const from = new Date();
+  from.setDate(from.getDate() - daysBefore);
+  const to = new Date();
+  to.setDate(to.getDate() + daysAfter);
+  return { from: toDateString(from), to: toDateString(to) };
+}
+
+// Final statuses of events stored before events recorded their state
+const LEGACY_FINAL_STATUSES = ['Final', 'FINISHED'];
+
+/**
+ * Whether an events document is a finished game
+ */
+export function isFinishedEvent(event: any): boolean {
+  return event.state ? event.state === 'final' : LEGACY_FINAL_STATUSES.includes(event.status);
+}
+
+// Firestore rejects undefined fields
+function withoutUndefined<T extends object>(value: T): T {
+  const result: any = {};
+  Object.entries(value).forEach(([key, field]) => {
+    if (field !== undefined) result[key] = field;
+  });
+  return result;
+}
+
+/**
+ * Transforms a game into the fields of its events document. This is the only
+ * place games from any feed are mapped to the Event shape the app reads.
+ */
+export function toEventDocument(game: Game) {
+  return withoutUndefined({
+    id: game.id,
+    sport: game.sport,
+    date: game.date,
+    datetime: game.datetime,
+    status: game.status,
+    state: game.state,
+    home_team: withoutUndefined({ ...game.homeTeam }),
+    visitor_team: withoutUndefined({ ...game.visitorTeam }),
+    home_team_score: game.homeScore,
+    visitor_team_score: game.visitorScore,
+    period: game.period,
+    time: game.time,
+    season: game.season,
+    postseason: game.postseason,
+    decidedIn: game.decidedIn,
+    innings: game.innings,
+    week: game.week,
+    competition: game.competition && withoutUndefined({ ...game.competition }),
+    score: game.score,
+  });
+}
@@ -0,0 +1,198 @@
+/**
+ * A user's wallet balance and lifetime P&L
+ */
+export interface ExpectedWallet {
+  walletBalance: number;
+  lifetimePnl: number;
+}
+
+/**
+ * A walletTransactions entry that seeds a wallet: a deposit, or the opening
+ * balance a user had before the ledger existed
+ */
+export interface WalletSeed {
+  userId: string;
+  amount: number;
+  pnlChange?: number; // Opening entries only: P&L from before the ledger
+}
+
+export function roundToCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * What the trade's owner paid for it: the stake, or the price if they bought
+ * it on the marketplace
+ */
+export function getCostBasis(trade: any): number {
+  return typeof trade.costBasis === 'number' ? trade.costBasis : trade.amount || 0;
+}
+
+/**
+ * Wallet credit and P&L change for a trade settling with the given status.
+ * The cost was taken when the bet was placed or bought, so a loss only moves
+ * P&L, and pushes and voids refund the stake, which only moves P&L for a
+ * trade bought at another price.
+ */
+export function getSettlementAmounts(trade: any, status: string): { walletCredit: number; pnlChange: number } {
+  const payout = trade.expectedPayout || 0;
+  const cost = getCostBasis(trade);
+  if (status === 'Won') return { walletCredit: payout, pnlChange: payout - cost };
+  if (status === 'Push' || status === 'Void') return { walletCredit: trade.amount, pnlChange: trade.amount - cost };
+  if (status === 'Lost') return { walletCredit: 0, pnlChange: -cost };
+  return { walletCredit: 0, pnlChange: 0 };
+}
+
+/**
+ * What a marketplace purchase at the given price moves. The seller is
+ * credited the price and realises it less what they paid, and the price
+ * becomes the buyer's cost basis.
+ */
+export function getTransferAmounts(
+  trade: any,
+  price: number
+): { sellerCostBasis: number; sellerPnlChange: number; buyerCostBasis: number } {
+  const sellerCostBasis = getCostBasis(trade);
+  return { sellerCostBasis, sellerPnlChange: price - sellerCostBasis, buyerCostBasis: price };
+}
+
+/**
+ * How selling a fraction of a trade back at its current value splits it. The
+ * stake, expected payout and any cost basis are split by the fraction, and
+ * the sale realises its value less the cost of the part sold.
+ * @param currentValue What the whole trade is worth at the current odds
+ */
+export function getPartialSale(
+  trade: any,
+  fraction: number,
+  currentValue: number
+): {
+  soldValue: number;
+  pnlChange: number;
+  sold: { amount: number; expectedPayout: number; costBasis?: number };
+  remaining: { amount: number; expectedPayout: number; costBasis?: number };
+} {
+  const soldValue = currentValue * fraction;
+  const soldAmount = (trade.amount || 0) * fraction;
+  const soldCost = getCostBasis(trade) * fraction;
+  const payout = trade.expectedPayout || 0;
+  // Bought trades carry what the buyer paid, which is split like the stake
+  const hasCostBasis = typeof trade.costBasis === 'number';
+  return {
+    soldValue,
+    pnlChange: soldValue - soldCost,
+    sold: {
+      amount: soldAmount,
+      expectedPayout: payout * fraction,
+      ...(hasCostBasis && { costBasis: soldCost }),
+    },
+    remaining: {
+      amount: (trade.amount || 0) - soldAmount,
+      expectedPayout: payout * (1 - fraction),
+      ...(hasCostBasis && { costBasis: trade.costBasis - soldCost }),
+    },
+  };
+}
+
+/**
+ * The user who paid a trade's stake. Marketplace transfers record the
+ * original owner, and the sold part of a partial cash-out was paid for by
+ * whoever placed the trade it was split from.
+ */
+export function getTradePlacer(trade: any, tradesById: Map<string, any>): string {
+  if (trade.transfers?.length) return trade.transfers[0].from;
+  // Sold parts split off before they kept their parent's transfers
+  const parent = trade.parentTradeId ? tradesById.get(trade.parentTradeId) : null;
+  if (parent) return getTradePlacer(parent, tradesById);
+  return trade.userId;
+}
+
+/**
+ * Recomputes every user's wallet from first principles: deposits and opening
+ * balances, minus the stakes they placed and open limit order reservations,
+ * plus what their trades returned and what they made on the marketplace.
+ * P&L follows the rules settlement, sellBet and buyBet use: each owner's P&L
+ * is measured against what they paid for the trade.
+ * @param tradesById Every trade, keyed by ID
+ * @param openOrders Limit orders still reserving funds
+ * @param seeds Deposit and opening entries from walletTransactions
+ */
+export function computeExpectedWallets(
+  tradesById: Map<string, any>,
+  openOrders: any[],
+  seeds: WalletSeed[]
+): Map<string, ExpectedWallet> {
+  const wallets = new Map<string, ExpectedWallet>();
+  const apply = (userId: string, balanceChange: number, pnlChange = 0) => {
+    if (!userId) return;
+    const wallet = wallets.get(userId) || { walletBalance: 0, lifetimePnl: 0 };
+    wallet.walletBalance += balanceChange;
+    wallet.lifetimePnl += pnlChange;
+    wallets.set(userId, wallet);
+  };
+
+  seeds.forEach((seed) => apply(seed.userId, seed.amount || 0, seed.pnlChange || 0));
+  openOrders.forEach((order) => apply(order.userId, -(order.amount || 0)));
+
+  tradesById.forEach((trade) => {
+    apply(getTradePlacer(trade, tradesById), -(trade.amount || 0));
+    // A sold part carries its parent's transfers as history; the price changed hands once, on the parent
+    if (!trade.parentTradeId) {
+      (trade.transfers || []).forEach((transfer: any) => {
+        // Transfers from before sellers realised P&L have no sellerCostBasis
+        const sellerPnl = typeof transfer.sellerCostBasis === 'number'
+          ? (transfer.price || 0) - transfer.sellerCostBasis
+          : 0;
+        apply(transfer.from, transfer.price || 0, sellerPnl);
+        apply(transfer.to, -(transfer.price || 0));
+      });
+    }
+
+    if (trade.status === 'Sold') {
+      apply(trade.userId, trade.soldValue || 0, (trade.soldValue || 0) - getCostBasis(trade));
+    } else {
+      const { walletCredit, pnlChange } = getSettlementAmounts(trade, trade.status);
+      apply(trade.userId, walletCredit, pnlChange);
+    }
+  });
+
+  wallets.forEach((wallet) => {
+    wallet.walletBalance = roundToCents(wallet.walletBalance);
+    wallet.lifetimePnl = roundToCents(wallet.lifetimePnl);
+  });
+  return wallets;
+}
+
+/**
+ * Opening entry that makes the recomputed wallet match the stored one, for
+ * funds and P&L from before the ledger existed
+ * @param stored The user document's walletBalance and lifetimePnl
+ * @param expected The wallet recomputed without an opening entry
+ */
+export function getOpeningBalance(stored: ExpectedWallet, expected: ExpectedWallet): ExpectedWallet {
+  return {
+    walletBalance: roundToCents(stored.walletBalance - expected.walletBalance),
+    lifetimePnl: roundToCents(stored.lifetimePnl - expected.lifetimePnl),
+  };
+}
+
+// Trade fields that move a wallet when they change
+const WALLET_TRADE_FIELDS = ['status', 'amount', 'expectedPayout', 'costBasis', 'soldValue'];
+
+/**
+ * Whether a user's trades changed since the snapshot their expected wallet
+ * was computed from: settled, sold, split or bought. Settling a loss credits
+ * nothing, so it leaves no ledger entry to spot the change by.
+ * @param snapshot Every trade when the run started, keyed by ID
+ * @param current The trades the user owns now, keyed by ID
+ */
+export function haveTradesChanged(userId: string, snapshot: Map<string, any>, current: Map<string, any>): boolean {
+  let ownedInSnapshot = 0;
+  for (const [tradeId, trade] of snapshot) {
+    if (trade.userId !== userId) continue;
+    ownedInSnapshot++;
+    const now = current.get(tradeId);
+    if (!now || WALLET_TRADE_FIELDS.some((field) => now[field] !== trade[field])) return true;
+  }
+  return ownedInSnapshot !== current.size;
+}
@@ -0,0 +1,158 @@
+import { applyMargin } from './MarketMaker';
+import { getMatchLabel, NotificationContent } from './Notifications';
+import { OddsHistoryEntry, OddsHistoryOutcome } from './OddsHistory';
+import { isFinishedEvent } from './SportsDataProvider';
+
+export type WatchType = 'event' | 'team';
+
+// Percentage points the odds have to move before a watcher is alerted
+export const DEFAULT_ODDS_ALERT_THRESHOLD = 5;
+export const MIN_ODDS_ALERT_THRESHOLD = 1;
+export const MAX_ODDS_ALERT_THRESHOLD = 50;
+
+/**
+ * An event or team on a user's watchlist, stored in the user document's
+ * watchlist map under its key
+ */
+export interface Watch {
+  type: WatchType;
+  eventId: string | null; // Event watches only
+  sport: string;
+  teamId: number | string | null; // Team watches only
+  label: string; // The event's teams, or the team's name
+  threshold: number; // Percentage points of odds movement to alert on
+  createdAt: any;
+}
+
+/**
+ * Offered odds of each outcome at one point in time
+ */
+export interface OddsSnapshot {
+  home: number;
+  visitor: number;
+  draw: number | null; // Null for sports without a draw
+}
+
+export interface OddsMove {
+  outcome: OddsHistoryOutcome;
+  from: number;
+  to: number;
+  change: number; // to - from, in percentage points
+}
+
+/**
+ * Key of a watch in the watchlist map and the user's watchKeys array.
+ * Team keys include the sport since team IDs are only unique per feed.
+ */
+export function getWatchKey(watch: Pick<Watch, 'type' | 'eventId' | 'sport' | 'teamId'>): string {
+  return watch.type === 'event' ? `event:${watch.eventId}` : `team:${watch.sport}:${watch.teamId}`;
+}
+
+/**
+ * Keys of every watch that covers an event: the event's own, then its teams'
+ */
+export function getEventWatchKeys(eventId: string, event: any): string[] {
+  const sport = event.sport || 'basketball';
+  const keys = [`event:${eventId}`];
+  [event.home_team?.id, event.visitor_team?.id].forEach((teamId) => {
+    if (teamId !== undefined && teamId !== null) keys.push(`team:${sport}:${teamId}`);
+  });
+  return keys;
+}
+
+/**
+ * The watch that applies to an event: the event's own if the user has one,
+ * otherwise the team watch with the tightest threshold
+ * @param keys The event's keys from getEventWatchKeys
+ */
+export function findEventWatch(
+  watchlist: { [key: string]: Watch } | undefined,
+  keys: string[]
+): Watch | null {
+  if (!watchlist) return null;
+  const [eventKey, ...teamKeys] = keys;
+  if (watchlist[eventKey]) return watchlist[eventKey];
+
+  const teamWatches = teamKeys.map((key) => watchlist[key]).filter(Boolean);
+  if (teamWatches.length === 0) return null;
+  return teamWatches.reduce((tightest, watch) => (watch.threshold < tightest.threshold ? watch : tightest));
+}
+
+/**
+ * Odds users were offered at an oddsHistory entry, which records fair odds
+ */
+export function getOfferedSnapshot(entry: OddsHistoryEntry, margin: number): OddsSnapshot {
+  return {
+    home: applyMargin(entry.homeTeamOdds, margin),
+    visitor: applyMargin(entry.visitorTeamOdds, margin),
+    draw: entry.drawOdds === null ? null : applyMargin(entry.drawOdds, margin),
+  };
+}
+
+/**
+ * The outcome whose odds moved furthest between two snapshots
+ */
+export function getLargestOddsMove(from: OddsSnapshot, to: OddsSnapshot): OddsMove {
+  const outcomes: OddsHistoryOutcome[] = ['home', 'visitor', 'draw'];
+  let largest: OddsMove = { outcome: 'home', from: from.home, to: to.home, change: 0 };
+  outcomes.forEach((outcome) => {
+    const before = from[outcome];
+    const after = to[outcome];
+    if (before === null || after === null) return;
+    const change = Math.round((after - before) * 100) / 100;
+    if (Math.abs(change) > Math.abs(largest.change)) {
+      largest = { outcome, from: before, to: after, change };
+    }
+  });
+  return largest;
+}
+
+function getOutcomeLabel(event: any, outcome: OddsHistoryOutcome): string {
+  if (outcome === 'draw') return 'The draw';
+  const team = outcome === 'home' ? event.home_team : event.visitor_team;
+  return team?.full_name || (outcome === 'home' ? 'Home' : 'Away');
+}
+
+/**
+ * Alert for odds that moved past a watcher's threshold
+ */
+export function describeOddsMove(event: any, move: OddsMove): NotificationContent {
+  const sign = move.change > 0 ? '+' : '';
+  return {
+    type: 'oddsMove',
+    title: `Odds moved on ${getMatchLabel(event)}`,
+    body: `${getOutcomeLabel(event, move.outcome)} went from ${move.from}% to ${move.to}% ` +
+      `(${sign}${move.change} pts)`,
+  };
+}
+
+function isSettledEvent(event: any): boolean {
+  return isFinishedEvent(event) || event.state === 'void';
+}
+
+/**
+ * Alert for an event that went live or was settled between two versions
+ * of its document, or null if neither happened
+ */
+export function getEventStateAlert(before: any, after: any): NotificationContent | null {
+  const match = getMatchLabel(after);
+  if (after.state === 'live' && before.state !== 'live') {
+    return { type: 'eventLive', title: `${match} is live`, body: 'The game has started.' };
+  }
+  if (isSettledEvent(after) && !isSettledEvent(before)) {
+    if (after.state === 'void') {
+      return {
+        type: 'eventSettled',
+        title: `${match} won't be played`,
+        body: `${after.status || 'Cancelled'}. Bets on the game are refunded.`,
+      };
+    }
+    return {
+      type: 'eventSettled',
+      title: `${match} is final`,
+      body: `Final score: ${after.home_team?.full_name || 'Home'} ${after.home_team_score ?? 0} - ` +
+        `${after.visitor_team_score ?? 0} ${after.visitor_team?.full_name || 'Away'}`,
+    };
+  }
+  return null;
+}
@@ -0,0 +1,200 @@
+import { getMatchLabel } from './Notifications';
+import { getEventWatchKeys } from './Watchlist';
+
+// A digest covers the seven days before it is sent
+export const DIGEST_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+export const MAX_DIGEST_GAMES = 10;
+export const MAX_DIGEST_POSTS = 3;
+// Longest excerpt of a post quoted in a digest
+const MAX_EXCERPT_LENGTH = 140;
+
+/**
+ * One trade decided by a settlement, from a settlements/{eventId} ledger
+ */
+export interface DigestSettlement {
+  tradeId: string;
+  status: string; // Won, Lost, Push or Void
+  pnlChange: number;
+}
+
+export interface WeekSummary {
+  settled: number;
+  won: number;
+  lost: number;
+  refunded: number; // Pushes and voids
+  netPnl: number;
+  winRate: number | null; // Percentage of won and lost trades that won; null without any
+}
+
+export interface DigestGame {
+  eventId: string;
+  label: string; // The event's teams
+  date: string; // YYYY-MM-DD
+}
+
+export interface DigestPost {
+  postId: string;
+  username: string;
+  content: string;
+  replyCount: number;
+  createdAt: Date;
+  taggedEvents: string[];
+}
+
+export interface WeeklyDigest {
+  username: string;
+  thisWeek: WeekSummary;
+  priorWeek: WeekSummary;
+  upcomingGames: DigestGame[];
+  topPosts: DigestPost[];
+}
+
+export interface DigestEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Tallies the trades settled in one week
+ */
+export function summarizeWeek(settlements: DigestSettlement[]): WeekSummary {
+  const won = settlements.filter((s) => s.status === 'Won').length;
+  const lost = settlements.filter((s) => s.status === 'Lost').length;
+  const netPnl = settlements.reduce((sum, s) => sum + (s.pnlChange || 0), 0);
+  return {
+    settled: settlements.length,
+    won,
+    lost,
+    refunded: settlements.length - won - lost,
+    netPnl: Math.round(netPnl * 100) / 100,
+    winRate: won + lost > 0 ? Math.round((won / (won + lost)) * 100) : null,
+  };
+}
+
+/**
+ * Keys of the teams playing an event, the same keys team watches use
+ */
+export function getEventTeamKeys(eventId: string, event: any): string[] {
+  return getEventWatchKeys(eventId, event).slice(1);
+}
+
+/**
+ * Upcoming events featuring any of the given teams, soonest first
+ * @param events Upcoming events keyed by ID
+ */
+export function findUpcomingGames(teamKeys: Set<string>, events: Map<string, any>): DigestGame[] {
+  const games: DigestGame[] = [];
+  events.forEach((event, eventId) => {
+    if (!getEventTeamKeys(eventId, event).some((key) => teamKeys.has(key))) return;
+    games.push({ eventId, label: getMatchLabel(event), date: event.date || '' });
+  });
+  return games
+    .sort((a, b) => a.date.localeCompare(b.date) || a.label.localeCompare(b.label))
+    .slice(0, MAX_DIGEST_GAMES);
+}
+
+/**
+ * Posts tagging any of the given events, most replied to first and newest
+ * first among ties
+ */
+export function rankTopPosts(posts: DigestPost[], eventIds: Set<string>): DigestPost[] {
+  return posts
+    .filter((post) => post.taggedEvents.some((eventId) => eventIds.has(eventId)))
+    .sort((a, b) => b.replyCount - a.replyCount || b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, MAX_DIGEST_POSTS);
+}
+
+/**
+ * Whether a digest has anything worth sending
+ */
+export function hasDigestContent(digest: WeeklyDigest): boolean {
+  return digest.thisWeek.settled > 0 || digest.upcomingGames.length > 0;
+}
+
+function formatPnl(amount: number): string {
+  const sign = amount > 0 ? '+' : amount < 0 ? '-' : '';
+  return `${sign}$${Math.abs(amount).toFixed(2)}`;
+}
+
+// "60% (up from 40% last week)"
+function describeWinRate(thisWeek: WeekSummary, priorWeek: WeekSummary): string {
+  if (thisWeek.winRate === null) return 'No bets won or lost this week';
+  const rate = `${thisWeek.winRate}%`;
+  if (priorWeek.winRate === null) return `${rate} (no decided bets last week)`;
+  if (thisWeek.winRate === priorWeek.winRate) return `${rate} (same as last week)`;
+  const direction = thisWeek.winRate > priorWeek.winRate ? 'up' : 'down';
+  return `${rate} (${direction} from ${priorWeek.winRate}% last week)`;
+}
+
+function getExcerpt(content: string): string {
+  return content.length > MAX_EXCERPT_LENGTH
+    ? `${content.slice(0, MAX_EXCERPT_LENGTH - 1).trimEnd()}…`
+    : content;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Subject and text and HTML bodies of a weekly digest email
+ * @param appUrl Base URL of the app, for links back to it
+ */
+export function renderWeeklyDigest(digest: WeeklyDigest, appUrl: string): DigestEmail {
+  const { thisWeek, priorWeek } = digest;
+  const profileUrl = `${appUrl}/profile`;
+  const record = `${thisWeek.won} won, ${thisWeek.lost} lost, ${thisWeek.refunded} pushed or voided`;
+  const stats = [
+    `Trades settled: ${thisWeek.settled} (${record})`,
+    `Net P&L: ${formatPnl(thisWeek.netPnl)} (last week ${formatPnl(priorWeek.netPnl)})`,
+    `Win rate: ${describeWinRate(thisWeek, priorWeek)}`,
+  ];
+  const games = digest.upcomingGames.map((game) => `${game.date}: ${game.label}`);
+  const posts = digest.topPosts.map((post) => {
+    const replies = `${post.replyCount} ${post.replyCount === 1 ? 'reply' : 'replies'}`;
+    return { author: `@${post.username} (${replies})`, excerpt: getExcerpt(post.content) };
+  });
+  const footer = 'You get this email because weekly summaries are turned on in your profile. ' +
+    `Turn them off at ${profileUrl}`;
+
+  const text = [
+    `Hi ${digest.username},`,
+    '',
+    'Your week in review:',
+    ...stats.map((line) => `- ${line}`),
+    ...(games.length > 0 ? ['', 'Upcoming games for teams you bet on:', ...games.map((line) => `- ${line}`)] : []),
+    ...(posts.length > 0
+      ? ['', 'Top posts on those games:', ...posts.map((post) => `- ${post.author}: ${post.excerpt}`)]
+      : []),
+    '',
+    footer,
+  ].join('\n');
+
+  const list = (items: string[]) => `<ul>${items.map((item) => `<li>${item}</li>`).join('')}</ul>`;
+  const html = [
+    `<p>Hi ${escapeHtml(digest.username)},</p>`,
+    '<h2>Your week in review</h2>',
+    list(stats.map(escapeHtml)),
+    ...(games.length > 0 ? ['<h3>Upcoming games for teams you bet on</h3>', list(games.map(escapeHtml))] : []),
+    ...(posts.length > 0
+      ? [
+        '<h3>Top posts on those games</h3>',
+        list(posts.map((post) => `<strong>${escapeHtml(post.author)}</strong>: ${escapeHtml(post.excerpt)}`)),
+      ]
+      : []),
+    `<p style="color:#6b7280;font-size:12px">You get this email because weekly summaries are turned on in ` +
+      `your profile. <a href="${escapeHtml(profileUrl)}">Turn them off</a>.</p>`,
+  ].join('\n');
+
+  return {
+    subject: `Your week: ${formatPnl(thisWeek.netPnl)} across ${thisWeek.settled} settled ` +
+      `${thisWeek.settled === 1 ? 'trade' : 'trades'}`,
+    text,
+    html,
+  };
+}
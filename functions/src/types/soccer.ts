@@ -0,0 +1,95 @@
+// Types for football-data.org API, matching sports-betting/src/types/soccer.ts
+export interface SoccerTeam {
+  id: number;
+  name: string;
+  shortName: string;
+  tla: string;
+  crest: string;
+  address?: string;
+  website?: string;
+  founded?: number;
+  clubColors?: string;
+  venue?: string;
+  coach?: Coach;
+}
+
+export interface Coach {
+  id: number;
+  name: string;
+  dateOfBirth?: string;
+  nationality?: string;
+}
+
+export interface Competition {
+  id: number;
+  name: string;
+  code: string;
+  type: string;
+  emblem: string;
+}
+
+export interface Season {
+  id: number;
+  startDate: string;
+  endDate: string;
+  currentMatchday?: number | null;
+}
+
+export interface Score {
+  winner?: 'HOME_TEAM' | 'AWAY_TEAM' | 'DRAW' | null;
+  duration?: string;
+  fullTime?: {
+    home?: number | null;
+    away?: number | null;
+  };
+  halfTime?: {
+    home?: number | null;
+    away?: number | null;
+  };
+}
+
+export interface SoccerMatch {
+  id: number;
+  competition: Competition;
+  season?: Season;
+  utcDate: string;
+  status: string;
+  matchday: number;
+  stage: string;
+  group?: string;
+  homeTeam: SoccerTeam;
+  awayTeam: SoccerTeam;
+  score: Score;
+  odds?: {
+    homeWin?: number;
+    draw?: number;
+    awayWin?: number;
+  };
+}
+
+/**
+ * Filters accepted by the match list endpoints. Status takes a
+ * comma-separated list.
+ */
+export interface MatchFilters {
+  dateFrom?: string;
+  dateTo?: string;
+  status?: string;
+  competitions?: string;
+}
+
+export interface MatchesResponse {
+  filters?: MatchFilters;
+  resultSet?: {
+    count: number;
+    first?: string;
+    last?: string;
+  };
+  competition?: Competition; // Per-competition requests only
+  matches: SoccerMatch[];
+}
+
+export interface CompetitionsResponse {
+  count: number;
+  competitions: Competition[];
+}
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for the odds backtest scoring
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const {
+  formatReport,
+  getOutcome,
+  runBacktest,
+  scoreSource,
+  toBacktestEvent,
+  toMillis,
+} = require('./lib/services/Backtest');
+
+const finishedGame = {
+  id: '101',
+  sport: 'basketball',
+  state: 'final',
+  datetime: '2025-01-10T00:30:00Z',
+  home_team_score: 110,
+  visitor_team_score: 102,
+  homeTeamCurrentOdds: 70,
+  visitorTeamCurrentOdds: 30,
+};
+
+const history = [
+  { source: 'gemini-ai', homeTeamOdds: 55, visitorTeamOdds: 45, timestamp: { _seconds: Date.parse('2025-01-08T00:00:00Z') / 1000, _nanoseconds: 0 } },
+  { source: 'gemini-ai', homeTeamOdds: 60, visitorTeamOdds: 40, timestamp: '2025-01-09T00:00:00Z' },
+  { source: 'placedBet', homeTeamOdds: 65, visitorTeamOdds: 35, timestamp: '2025-01-09T12:00:00Z' },
+  // Live bets after the start aren't forecasts
+  { source: 'placedBet', homeTeamOdds: 95, visitorTeamOdds: 5, timestamp: '2025-01-10T02:00:00Z' },
+];
+
+const near = (actual, expected) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+test('toMillis reads Timestamps, their JSON export and ISO strings', () => {
+  const millis = Date.parse('2025-01-09T00:00:00Z');
+  assert.strictEqual(toMillis('2025-01-09T00:00:00Z'), millis);
+  assert.strictEqual(toMillis({ _seconds: millis / 1000, _nanoseconds: 5e6 }), millis + 5);
+  assert.strictEqual(toMillis({ toMillis: () => millis }), millis);
+  assert.strictEqual(toMillis('Final'), null);
+});
+
+test('outcomes come from the final score', () => {
+  assert.strictEqual(getOutcome(finishedGame), 'home');
+  assert.strictEqual(getOutcome({ ...finishedGame, home_team_score: 90 }), 'visitor');
+  assert.strictEqual(getOutcome({ ...finishedGame, state: 'scheduled' }), null);
+  // Two-way ties push and can't be scored; soccer ties are draws
+  assert.strictEqual(getOutcome({ ...finishedGame, visitor_team_score: 110 }), null);
+  assert.strictEqual(getOutcome({ ...finishedGame, sport: 'soccer', visitor_team_score: 110 }), 'draw');
+  // Events stored before state was recorded
+  assert.strictEqual(getOutcome({ ...finishedGame, state: undefined, status: 'Final' }), 'home');
+});
+
+test('each source is scored on its last odds before the start', () => {
+  const event = toBacktestEvent(finishedGame, history);
+  const bySource = Object.fromEntries(event.forecasts.map((f) => [f.source, f.probabilities]));
+  assert.deepStrictEqual(Object.keys(bySource).sort(), ['closing', 'gemini-ai', 'placedBet']);
+  near(bySource['gemini-ai'].home, 0.6);
+  near(bySource.placedBet.home, 0.65);
+  near(bySource.closing.home, 0.7);
+});
+
+test('soccer forecasts include the draw', () => {
+  const match = {
+    ...finishedGame,
+    sport: 'soccer',
+    home_team_score: 1,
+    visitor_team_score: 1,
+    score: { winner: 'DRAW' },
+    drawOdds: 30,
+    homeTeamCurrentOdds: 40,
+    visitorTeamCurrentOdds: 30,
+  };
+  const event = toBacktestEvent(match, [
+    { source: 'poisson', homeTeamOdds: 50, drawOdds: 25, awayTeamOdds: 25, timestamp: '2025-01-09T00:00:00Z' },
+    // Soccer bets used to be recorded without the draw
+    { source: 'placedBet', homeTeamOdds: 45, visitorTeamOdds: 25, timestamp: '2025-01-09T06:00:00Z' },
+  ]);
+  assert.strictEqual(event.outcome, 'draw');
+  near(event.forecasts.find((f) => f.source === 'poisson').probabilities.draw, 0.25);
+  near(event.forecasts.find((f) => f.source === 'placedBet').probabilities.draw, 0.3);
+  near(event.forecasts.find((f) => f.source === 'closing').probabilities.draw, 0.3);
+});
+
+test('Brier score and log loss', () => {
+  const events = [
+    { id: '1', sport: 'basketball', outcome: 'home', forecasts: [{ source: 'a', probabilities: { home: 0.8, visitor: 0.2 } }] },
+    { id: '2', sport: 'basketball', outcome: 'visitor', forecasts: [{ source: 'a', probabilities: { home: 0.6, visitor: 0.4 } }] },
+  ];
+  const score = scoreSource('a', events);
+  assert.strictEqual(score.events, 2);
+  // (0.04 + 0.04 + 0.36 + 0.36) / 2
+  near(score.brierScore, 0.4);
+  near(score.logLoss, (-Math.log(0.8) - Math.log(0.4)) / 2);
+});
+
+test('a forecast of 0% for the result has a finite log loss', () => {
+  const events = [{ id: '1', sport: 'basketball', outcome: 'visitor', forecasts: [{ source: 'a', probabilities: { home: 1, visitor: 0 } }] }];
+  assert.ok(Number.isFinite(scoreSource('a', events).logLoss));
+});
+
+test('calibration buckets count every outcome probability', () => {
+  const events = [0, 1, 2, 3].map((i) => ({
+    id: String(i),
+    sport: 'basketball',
+    outcome: i === 0 ? 'visitor' : 'home',
+    forecasts: [{ source: 'a', probabilities: { home: 0.75, visitor: 0.25 } }],
+  }));
+  const { calibration } = scoreSource('a', events);
+  assert.strictEqual(calibration.length, 10);
+  const high = calibration[7];
+  assert.strictEqual(high.forecasts, 4);
+  near(high.meanForecast, 0.75);
+  near(high.observedFrequency, 0.75);
+  assert.strictEqual(calibration[2].forecasts, 4);
+  near(calibration[2].observedFrequency, 0.25);
+  assert.strictEqual(calibration[5].meanForecast, null);
+});
+
+test('report ranks sources by Brier score', () => {
+  const events = [toBacktestEvent(finishedGame, history)];
+  const report = runBacktest(events);
+  assert.deepStrictEqual(report.sources.map((s) => s.source), ['closing', 'placedBet', 'gemini-ai']);
+  assert.deepStrictEqual(report.sports, { basketball: 1 });
+  const markdown = formatReport(report);
+  assert.ok(markdown.includes('| gemini-ai | 1 |'));
+  assert.ok(markdown.includes('## Calibration: placedBet'));
+});
+
+run();
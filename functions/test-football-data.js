@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the football-data.org client's rate limiting and retries
+ *
+ * axios.get is stubbed, so no requests reach the API.
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const axios = require('axios');
+const { FootballDataAPI, TokenBucket } = require('./lib/services/FootballDataAPI');
+
+const matches = { matches: [{ id: 1 }] };
+
+/**
+ * Stubs axios.get with responses returned in order, or errors with the given
+ * HTTP status, and records every call
+ */
+function stubAxios(responses) {
+  const calls = [];
+  axios.get = async (url, config) => {
+    calls.push({ url, params: config.params });
+    const next = responses.length > 1 ? responses.shift() : responses[0];
+    if (next.status >= 400) {
+      const error = new Error(`Request failed with status code ${next.status}`);
+      error.response = { status: next.status, headers: next.headers || {} };
+      throw error;
+    }
+    return { data: next.data, headers: next.headers || {} };
+  };
+  return calls;
+}
+
+const fastOptions = { retryDelayMs: 5, requestsPerMinute: 600 };
+
+test('retries 429 and 5xx responses with backoff', async () => {
+  const calls = stubAxios([{ status: 429 }, { status: 503 }, { data: matches }]);
+  const api = new FootballDataAPI('key', fastOptions);
+  const response = await api.getMatches({ dateFrom: '2025-01-01' });
+  assert.deepStrictEqual(response, matches);
+  assert.strictEqual(calls.length, 3);
+});
+
+test('gives up after the maximum number of retries', async () => {
+  const calls = stubAxios([{ status: 500 }]);
+  const api = new FootballDataAPI('key', { ...fastOptions, maxRetries: 2 });
+  await assert.rejects(api.getMatches(), /500/);
+  assert.strictEqual(calls.length, 3);
+});
+
+test('does not retry other client errors', async () => {
+  const calls = stubAxios([{ status: 404 }]);
+  const api = new FootballDataAPI('key', fastOptions);
+  await assert.rejects(api.getTeam(1), /404/);
+  assert.strictEqual(calls.length, 1);
+});
+
+test('repeated requests each reach the API', async () => {
+  const calls = stubAxios([{ data: matches }]);
+  const api = new FootballDataAPI('key', fastOptions);
+  await api.getMatchesByCompetition('PL', { dateFrom: '2025-01-01' });
+  await api.getMatchesByCompetition('PL', { dateFrom: '2025-01-01' });
+  assert.strictEqual(calls.length, 2);
+});
+
+test('token bucket spaces out requests beyond its capacity', async () => {
+  const bucket = new TokenBucket(2, 200);
+  const start = Date.now();
+  await bucket.take();
+  await bucket.take();
+  assert.ok(Date.now() - start < 50, 'the first two tokens are available at once');
+  await bucket.take();
+  assert.ok(Date.now() - start >= 90, 'the third token waits for a refill');
+});
+
+test('rate limiter follows the quota the server reports', async () => {
+  stubAxios([{ data: matches, headers: { 'x-requests-available-minute': '0' } }]);
+  const api = new FootballDataAPI('key', { requestsPerMinute: 6000 });
+  await api.getMatches({ dateFrom: '2025-01-01' });
+  const start = Date.now();
+  await api.getMatches({ dateFrom: '2025-01-02' });
+  assert.ok(Date.now() - start >= 5, 'must wait for a token after the quota ran out');
+});
+
+run();
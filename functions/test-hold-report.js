@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the house margin hold report
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const { buildHoldReport, getEventHold, getEventMargin } = require('./lib/services/HoldReport');
+
+const nbaGame = {
+  date: '2025-01-10',
+  margin: 0.05,
+  home_team: { full_name: 'Boston Celtics' },
+  visitor_team: { full_name: 'Miami Heat' },
+  homeTeamCurrentOdds: 60,
+  visitorTeamCurrentOdds: 40,
+  homeBetAmount: 300,
+  visitorBetAmount: 100,
+  markets: {
+    spread: { line: -4.5, odds: { home: 50, visitor: 50 }, pools: { home: 100, visitor: 0 } },
+  },
+};
+
+const soccerMatch = {
+  sport: 'soccer',
+  date: '2025-01-11',
+  margin: 0.08,
+  homeTeamCurrentOdds: 45,
+  visitorTeamCurrentOdds: 30,
+  drawOdds: 25,
+  markets: {
+    doubleChance: { odds: { homeOrDraw: 70, homeOrAway: 75, drawOrAway: 55 }, pools: {} },
+  },
+};
+
+const near = (actual, expected) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+test('getEventMargin treats events without a margin as fair', () => {
+  assert.strictEqual(getEventMargin({}), 0);
+  assert.strictEqual(getEventMargin({ margin: -0.1 }), 0);
+  assert.strictEqual(getEventMargin({ margin: 0.05 }), 0.05);
+});
+
+test('the moneyline overround and hold follow from the margin', () => {
+  const hold = getEventHold('101', nbaGame);
+  const moneyline = hold.markets.find((m) => m.market === 'moneyline');
+  assert.deepStrictEqual(moneyline.offeredOdds, { home: 63, visitor: 42 });
+  near(moneyline.overround, 0.05);
+  near(moneyline.theoreticalHold, 0.05 / 1.05);
+  assert.strictEqual(moneyline.handle, 400);
+});
+
+test('side markets are held against their own odds total', () => {
+  const hold = getEventHold('201', soccerMatch);
+  assert.deepStrictEqual(hold.markets.map((m) => m.market), ['moneyline', 'doubleChance']);
+  hold.markets.forEach((m) => near(m.overround, 0.08));
+  assert.strictEqual(hold.sport, 'soccer');
+});
+
+test('event hold is weighted by each market\'s handle', () => {
+  const hold = getEventHold('101', nbaGame);
+  assert.strictEqual(hold.handle, 500);
+  assert.strictEqual(hold.sport, 'basketball');
+  assert.strictEqual(hold.homeTeam, 'Boston Celtics');
+  near(hold.expectedHold, 500 * 0.05 / 1.05);
+  near(hold.theoreticalHold, 0.05 / 1.05);
+});
+
+test('events without bets report the moneyline hold', () => {
+  const hold = getEventHold('201', soccerMatch);
+  assert.strictEqual(hold.handle, 0);
+  assert.strictEqual(hold.expectedHold, 0);
+  near(hold.theoreticalHold, 0.08 / 1.08);
+});
+
+test('events opened before margins existed hold nothing', () => {
+  const { margin, ...legacyGame } = nbaGame;
+  const hold = getEventHold('100', legacyGame);
+  assert.strictEqual(hold.margin, 0);
+  assert.strictEqual(hold.expectedHold, 0);
+  hold.markets.forEach((m) => assert.strictEqual(m.theoreticalHold, 0));
+});
+
+test('buildHoldReport lists the busiest events first with overall totals', () => {
+  const report = buildHoldReport([
+    { id: '201', data: soccerMatch },
+    { id: '101', data: nbaGame },
+  ]);
+  assert.deepStrictEqual(report.events.map((e) => e.eventId), ['101', '201']);
+  assert.strictEqual(report.handle, 500);
+  near(report.expectedHold, 500 * 0.05 / 1.05);
+  near(report.theoreticalHold, 0.05 / 1.05);
+});
+
+run();
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for the market makers that move event odds
+ *
+ * Replays seeded random sequences of bets through each market maker and
+ * checks that the odds stay normalized and that the house's worst-case loss
+ * under LMSR never exceeds its theoretical bound.
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const {
+  PoolBlendMarketMaker,
+  LmsrMarketMaker,
+  applyMargin,
+  createMarketMaker,
+  roundOdds
+} = require('./lib/services/MarketMaker');
+
+// Small seeded PRNG (mulberry32) so failures are reproducible
+function createRandom(seed) {
+  return function () {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Places random bets and tracks stakes taken and payouts owed per outcome
+ */
+function replayBets(marketMaker, openingOdds, { seed, bets, maxStake, oddsTotal = 100, skew }) {
+  const random = createRandom(seed);
+  let state = { odds: openingOdds.slice(), pools: openingOdds.map(() => 0) };
+  const book = { staked: 0, owed: openingOdds.map(() => 0) };
+
+  for (let i = 0; i < bets; i++) {
+    // Optionally pile onto one outcome to push the market to an extreme
+    const outcome = skew !== undefined && random() < 0.8
+      ? skew
+      : Math.floor(random() * openingOdds.length);
+    const amount = Math.round(1 + random() * maxStake);
+    const result = marketMaker.placeBet(state, outcome, amount, oddsTotal);
+
+    book.staked += amount;
+    book.owed[outcome] += result.payout;
+    state = result;
+
+    assertNormalized(state.odds, oddsTotal);
+    if (state.shares) {
+      const probs = marketMaker.prices(state.shares);
+      assert.ok(Math.abs(probs.reduce((sum, p) => sum + p, 0) - 1) < 1e-9, 'LMSR prices must sum to 1');
+    }
+  }
+  return { state, book };
+}
+
+function assertNormalized(odds, oddsTotal) {
+  assert.strictEqual(odds.reduce((sum, o) => sum + o, 0), oddsTotal, `odds ${odds} must sum to ${oddsTotal}`);
+  odds.forEach((o) => {
+    assert.ok(Number.isInteger(o), `odds ${o} must be whole percentages`);
+    assert.ok(o >= 0 && o <= oddsTotal, `odds ${o} out of range`);
+  });
+}
+
+// Worst case over outcomes of what the house pays out minus what it took in
+function worstCaseLoss(book) {
+  return Math.max(...book.owed.map((owed) => owed - book.staked));
+}
+
+test('roundOdds sums to the odds total', () => {
+  assert.deepStrictEqual(roundOdds([1 / 3, 1 / 3, 1 / 3]), [34, 33, 33]);
+  assert.deepStrictEqual(roundOdds([0.555, 0.445]), [56, 44]);
+  assertNormalized(roundOdds([0.7, 0.65, 0.65].map((p) => p / 2), 200), 200);
+});
+
+test('pool blend keeps two-way and three-way odds normalized', () => {
+  const marketMaker = new PoolBlendMarketMaker(0.5);
+  for (let seed = 1; seed <= 20; seed++) {
+    replayBets(marketMaker, [62, 38], { seed, bets: 200, maxStake: 500 });
+    replayBets(marketMaker, [45, 30, 25], { seed, bets: 200, maxStake: 500 });
+  }
+});
+
+test('pool blend keeps double chance odds summing to 200', () => {
+  const marketMaker = new PoolBlendMarketMaker(0.5);
+  for (let seed = 1; seed <= 20; seed++) {
+    replayBets(marketMaker, [75, 70, 55], { seed, bets: 200, maxStake: 500, oddsTotal: 200 });
+  }
+});
+
+test('pool blend moves each outcome at most beta per bet', () => {
+  const marketMaker = new PoolBlendMarketMaker(0.5, 0.1);
+  const result = marketMaker.placeBet({ odds: [50, 50], pools: [0, 0] }, 0, 100000);
+  // 10 points of smoothing, plus at most one point of rounding
+  assert.ok(result.odds[0] <= 61, `moved to ${result.odds[0]}`);
+});
+
+test('pool blend pays out at the odds before the bet', () => {
+  const marketMaker = new PoolBlendMarketMaker(0.5);
+  const result = marketMaker.placeBet({ odds: [40, 60], pools: [100, 100] }, 0, 50);
+  assert.strictEqual(result.payout, 125);
+  assert.deepStrictEqual(result.pools, [150, 100]);
+});
+
+test('LMSR opens at the given odds', () => {
+  const marketMaker = new LmsrMarketMaker(1000);
+  const shares = marketMaker.initialShares([62, 38]);
+  assert.deepStrictEqual(roundOdds(marketMaker.prices(shares)), [62, 38]);
+  assert.ok(Math.abs(marketMaker.cost(shares)) < 1e-9, 'opening cost must be zero');
+});
+
+test('LMSR charges exactly the cost function difference', () => {
+  const marketMaker = new LmsrMarketMaker(500);
+  const before = marketMaker.initialShares([50, 30, 20]);
+  const result = marketMaker.placeBet({ odds: [50, 30, 20], pools: [0, 0, 0], shares: before }, 1, 250);
+  const charged = marketMaker.cost(result.shares) - marketMaker.cost(before);
+  assert.ok(Math.abs(charged - 250) < 1e-6, `charged ${charged}`);
+  // Slippage: a large bet pays out less than at the opening price
+  assert.ok(result.payout < 250 * (100 / 30));
+});
+
+test('LMSR keeps odds normalized', () => {
+  const marketMaker = new LmsrMarketMaker(1000);
+  for (let seed = 1; seed <= 20; seed++) {
+    replayBets(marketMaker, [62, 38], { seed, bets: 200, maxStake: 500 });
+    replayBets(marketMaker, [45, 30, 25], { seed, bets: 200, maxStake: 500 });
+  }
+});
+
+test('LMSR worst-case loss stays within liquidity * ln(1 / opening probability)', () => {
+  const liquidity = 1000;
+  const marketMaker = new LmsrMarketMaker(liquidity);
+  const markets = [[62, 38], [45, 30, 25], [90, 10]];
+
+  markets.forEach((openingOdds) => {
+    const bound = Math.max(...openingOdds.map((o) => liquidity * Math.log(100 / o)));
+    for (let seed = 1; seed <= 20; seed++) {
+      // Balanced flow, and one-sided flow onto each outcome
+      const runs = [undefined, ...openingOdds.map((_, i) => i)].map((skew) =>
+        replayBets(marketMaker, openingOdds, { seed, bets: 300, maxStake: 2000, skew })
+      );
+      runs.forEach(({ book }) => {
+        const loss = worstCaseLoss(book);
+        assert.ok(loss <= bound + 1e-6, `loss ${loss.toFixed(2)} exceeds bound ${bound.toFixed(2)} for ${openingOdds}`);
+      });
+    }
+  });
+});
+
+test('createMarketMaker picks the strategy by pricing model', () => {
+  assert.strictEqual(createMarketMaker('lmsr').model, 'lmsr');
+  assert.strictEqual(createMarketMaker('poolBlend').model, 'poolBlend');
+});
+
+test('applyMargin scales the fair odds and leaves a zero margin untouched', () => {
+  assert.strictEqual(applyMargin(50, 0), 50);
+  assert.strictEqual(applyMargin(50), 50);
+  assert.strictEqual(applyMargin(40, 0.05), 42);
+  assert.strictEqual(applyMargin(33.33, 0.05), 35);
+  const offered = [60, 40].map((odds) => applyMargin(odds, 0.05));
+  assert.strictEqual(offered.reduce((sum, o) => sum + o, 0), 105);
+});
+
+test('applyMargin never prices a winning bet below its stake', () => {
+  assert.strictEqual(applyMargin(97, 0.05), 99);
+  assert.strictEqual(applyMargin(99.5, 0.05), 99.5);
+});
+
+run();
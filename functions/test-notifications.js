@@ -0,0 +1,97 @@
+/**
+ * Unit tests for the notification feed entries
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const {
+  createNotification,
+  describeBoughtListing,
+  describeFollowedBet,
+  describeReply,
+  describeSettledTrade,
+  describeSoldTrade,
+} = require('./lib/services/Notifications');
+
+const event = {
+  home_team: { id: 14, full_name: 'Los Angeles Lakers' },
+  visitor_team: { id: 2, full_name: 'Boston Celtics' },
+};
+const trade = {
+  userId: 'user1',
+  eventId: '123',
+  amount: 50,
+  expectedPayout: 95.24,
+  selectedTeam: 'home',
+};
+
+test('new notifications are unread and fill in missing links', () => {
+  const notification = createNotification({ type: 'eventLive', title: 'Live', body: 'Started', createdAt: 1 });
+  assert.deepStrictEqual(notification, {
+    type: 'eventLive',
+    title: 'Live',
+    body: 'Started',
+    eventId: null,
+    link: null,
+    read: false,
+    createdAt: 1,
+  });
+});
+
+test('won trades report the payout and link to the owner', () => {
+  const notification = describeSettledTrade(trade, 'Won', event);
+  assert.strictEqual(notification.type, 'tradeSettled');
+  assert.strictEqual(notification.title, 'Your bet won');
+  assert.strictEqual(
+    notification.body,
+    'Your $50.00 bet on Los Angeles Lakers (Los Angeles Lakers vs Boston Celtics) paid out $95.24.'
+  );
+  assert.strictEqual(notification.eventId, '123');
+  assert.strictEqual(notification.link, '/profile?userId=user1');
+});
+
+test('lost, pushed and voided trades each say what happened', () => {
+  assert.strictEqual(describeSettledTrade({ ...trade, selectedTeam: 'draw' }, 'Lost', event).body,
+    'Your $50.00 bet on the draw (Los Angeles Lakers vs Boston Celtics) lost.');
+  assert.strictEqual(describeSettledTrade(trade, 'Push', event).title, 'Your bet pushed');
+  assert.match(describeSettledTrade(trade, 'Void', event).body, /was voided\. Your stake was refunded\.$/);
+});
+
+test('parlays and corrected settlements are labelled as such', () => {
+  const parlay = { userId: 'user1', type: 'parlay', amount: 10, expectedPayout: 60, legs: [{}, {}, {}] };
+  const notification = describeSettledTrade(parlay, 'Won', event, true);
+  assert.strictEqual(notification.title, 'Corrected: Your parlay won');
+  assert.strictEqual(notification.body, 'Your $10.00 bet on a 3-leg parlay paid out $60.00.');
+  assert.strictEqual(notification.eventId, undefined);
+});
+
+test('side market selections are named without an event', () => {
+  const notification = describeSettledTrade({ ...trade, selectedTeam: 'over', market: 'total' }, 'Lost', undefined);
+  assert.strictEqual(notification.body, 'Your $50.00 bet on Over lost.');
+});
+
+test('sales report the part sold and the price', () => {
+  assert.strictEqual(describeSoldTrade(trade, event, 25, 27.1).body,
+    'You sold $25.00 of your bet on Los Angeles Lakers (Los Angeles Lakers vs Boston Celtics) for $27.10.');
+  const bought = describeBoughtListing(trade, event, 30);
+  assert.strictEqual(bought.type, 'tradeSold');
+  assert.match(bought.body, /was bought for \$30\.00\.$/);
+});
+
+test('replies quote a shortened excerpt and link to the replier', () => {
+  const notification = describeReply('user2', 'bob', 'x'.repeat(150));
+  assert.strictEqual(notification.title, '@bob replied to your post');
+  assert.strictEqual(notification.body.length, 100);
+  assert.ok(notification.body.endsWith('…'));
+  assert.strictEqual(notification.link, '/profile?userId=user2');
+  assert.strictEqual(describeReply('user2', 'bob', 'Nice pick').body, 'Nice pick');
+});
+
+test('followed bets name the bettor and the bet', () => {
+  const notification = describeFollowedBet('user1', 'alice', trade, event);
+  assert.strictEqual(notification.title, '@alice placed a bet');
+  assert.strictEqual(notification.body, '$50.00 on Los Angeles Lakers (Los Angeles Lakers vs Boston Celtics)');
+  assert.strictEqual(notification.link, '/profile?userId=user1');
+});
+
+run();
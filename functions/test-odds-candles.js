@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the odds history candles
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const {
+  aggregateOddsCandles,
+  buildCandles,
+  CANDLE_INTERVALS,
+  toOddsPoint,
+} = require('./lib/services/OddsCandles');
+
+const at = (time) => ({ _seconds: Date.parse(`2025-01-10T${time}Z`) / 1000, _nanoseconds: 0 });
+
+const history = [
+  { source: 'gemini-ai', homeTeamOdds: 55, visitorTeamOdds: 45, timestamp: at('10:00:00') },
+  { source: 'placedBet', homeTeamOdds: 58, visitorTeamOdds: 42, betAmount: 100, timestamp: at('10:10:00') },
+  { source: 'placedBet', homeTeamOdds: 53, visitorTeamOdds: 47, betAmount: 250, timestamp: at('10:40:00') },
+  { source: 'limitOrder', homeTeamOdds: 56, visitorTeamOdds: 44, betAmount: 50, timestamp: at('12:05:00') },
+];
+
+test('toOddsPoint reads soccer entries written with awayTeamOdds', () => {
+  const point = toOddsPoint({ source: 'gemini-ai', homeTeamOdds: 40, awayTeamOdds: 35, drawOdds: 25, timestamp: at('10:00:00') }, true);
+  assert.deepStrictEqual(point.odds, { home: 40, visitor: 35, draw: 25 });
+  assert.strictEqual(point.volume, 0);
+  assert.strictEqual(point.isBet, false);
+});
+
+test('toOddsPoint skips entries without a timestamp or odds', () => {
+  assert.strictEqual(toOddsPoint({ homeTeamOdds: 50, visitorTeamOdds: 50 }), null);
+  assert.strictEqual(toOddsPoint({ timestamp: at('10:00:00') }), null);
+});
+
+test('hourly candles track open, high, low and close per outcome', () => {
+  const candles = aggregateOddsCandles(history, '1h');
+  assert.strictEqual(candles.length, 2);
+  assert.strictEqual(candles[0].start, Date.parse('2025-01-10T10:00:00Z'));
+  assert.deepStrictEqual(candles[0].odds.home, { open: 55, high: 58, low: 53, close: 53 });
+  assert.deepStrictEqual(candles[0].odds.visitor, { open: 45, high: 47, low: 42, close: 47 });
+  assert.strictEqual(candles[0].odds.draw, undefined);
+});
+
+test('candles sum the amount bet and count the bets in each bucket', () => {
+  const candles = aggregateOddsCandles(history, '1h');
+  assert.strictEqual(candles[0].volume, 350);
+  assert.strictEqual(candles[0].bets, 2);
+  assert.strictEqual(candles[1].volume, 50);
+  assert.strictEqual(candles[1].bets, 1);
+});
+
+test('each candle opens at the previous close and empty buckets are skipped', () => {
+  const candles = aggregateOddsCandles(history, '1h');
+  assert.strictEqual(candles[1].start, Date.parse('2025-01-10T12:00:00Z'));
+  assert.deepStrictEqual(candles[1].odds.home, { open: 53, high: 56, low: 53, close: 56 });
+});
+
+test('shorter intervals split the same history into more candles', () => {
+  assert.strictEqual(aggregateOddsCandles(history, '15m').length, 3);
+  assert.strictEqual(aggregateOddsCandles(history, '1d').length, 1);
+});
+
+test('buildCandles orders points before bucketing them', () => {
+  const points = history.map((entry) => toOddsPoint(entry)).reverse();
+  const candles = buildCandles(points, CANDLE_INTERVALS['1d']);
+  assert.deepStrictEqual(candles[0].odds.home, { open: 55, high: 58, low: 53, close: 56 });
+});
+
+test('bets recorded before bet amounts were stored count without volume', () => {
+  const candles = aggregateOddsCandles([
+    { source: 'placedBet', homeTeamOdds: 60, visitorTeamOdds: 40, timestamp: at('10:00:00') },
+  ], '1h');
+  assert.strictEqual(candles[0].bets, 1);
+  assert.strictEqual(candles[0].volume, 0);
+});
+
+run();
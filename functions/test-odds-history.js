@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the versioned oddsHistory schema
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const {
+  createOddsHistoryEntry,
+  ODDS_HISTORY_SCHEMA_VERSION,
+  readOddsHistoryEntry,
+} = require('./lib/services/OddsHistory');
+
+const timestamp = '2025-01-09T00:00:00Z';
+
+test('soccer entries carry all three outcomes and pools', () => {
+  const entry = createOddsHistoryEntry({
+    source: 'placedBet',
+    odds: { home: 45, visitor: 30, draw: 25 },
+    bet: { tradeId: 't1', selection: 'draw', amount: 50 },
+    pools: { home: 100, visitor: 0, draw: 50 },
+    isSoccer: true,
+    timestamp,
+  });
+  assert.deepStrictEqual(entry, {
+    schemaVersion: ODDS_HISTORY_SCHEMA_VERSION,
+    source: 'placedBet',
+    homeTeamOdds: 45,
+    visitorTeamOdds: 30,
+    drawOdds: 25,
+    bet: { tradeId: 't1', selection: 'draw', amount: 50 },
+    pools: { home: 100, visitor: 0, draw: 50 },
+    timestamp,
+  });
+});
+
+test('two-way entries have no draw and empty pools default to zero', () => {
+  const entry = createOddsHistoryEntry({
+    source: 'elo',
+    odds: { home: 60, visitor: 40 },
+    isSoccer: false,
+    timestamp,
+  });
+  assert.strictEqual(entry.drawOdds, null);
+  assert.strictEqual(entry.bet, null);
+  assert.deepStrictEqual(entry.pools, { home: 0, visitor: 0, draw: null });
+});
+
+test('current entries are read as they are', () => {
+  const entry = createOddsHistoryEntry({ source: 'elo', odds: { home: 60, visitor: 40 }, isSoccer: false, timestamp });
+  assert.strictEqual(readOddsHistoryEntry(entry, false), entry);
+});
+
+test('version 1 soccer openers move awayTeamOdds to visitorTeamOdds', () => {
+  const entry = readOddsHistoryEntry(
+    { source: 'gemini-ai', homeTeamOdds: 40, drawOdds: 25, awayTeamOdds: 35, timestamp },
+    true
+  );
+  assert.strictEqual(entry.schemaVersion, ODDS_HISTORY_SCHEMA_VERSION);
+  assert.strictEqual(entry.visitorTeamOdds, 35);
+  assert.strictEqual(entry.drawOdds, 25);
+  assert.strictEqual(entry.awayTeamOdds, undefined);
+  assert.strictEqual(entry.pools, null);
+});
+
+test('version 1 soccer bets get the draw from the other outcomes', () => {
+  const entry = readOddsHistoryEntry({ source: 'placedBet', homeTeamOdds: 48, visitorTeamOdds: 30, timestamp }, true);
+  assert.strictEqual(entry.drawOdds, 22);
+  assert.strictEqual(entry.bet, null);
+});
+
+test('version 1 entries keep a recorded bet amount', () => {
+  const entry = readOddsHistoryEntry(
+    { source: 'placedBet', homeTeamOdds: 58, visitorTeamOdds: 42, betAmount: 100, timestamp },
+    false
+  );
+  assert.deepStrictEqual(entry.bet, { tradeId: null, selection: null, amount: 100 });
+  assert.strictEqual(entry.drawOdds, null);
+});
+
+test('entries without odds are unreadable', () => {
+  assert.strictEqual(readOddsHistoryEntry({ source: 'elo', timestamp }, false), null);
+});
+
+run();
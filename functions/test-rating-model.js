@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the Elo and Poisson rating models behind opening odds
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const { EloModel, PoissonGoalModel, poissonProbabilities } = require('./lib/services/RatingModel');
+
+// A season in which every team plays every other team home and away,
+// with the stronger team (lower index) winning by `margin` per place
+function roundRobin(teams, { rounds = 2, margin = 3, base = 100 } = {}) {
+  const results = [];
+  let day = 1;
+  for (let round = 0; round < rounds; round++) {
+    teams.forEach((home, i) => {
+      teams.forEach((visitor, j) => {
+        if (i === j) return;
+        const gap = (j - i) * margin;
+        results.push({
+          date: `2025-01-${String(day++ % 28 + 1).padStart(2, '0')}`,
+          homeTeam: home,
+          visitorTeam: visitor,
+          homeScore: base + Math.max(gap, 0),
+          visitorScore: base + Math.max(-gap, 0),
+        });
+      });
+    });
+  }
+  return results;
+}
+
+test('Elo gives even teams the home advantage only', () => {
+  const elo = new EloModel({ homeAdvantage: 0 });
+  assert.strictEqual(elo.winProbability('a', 'b'), 0.5);
+  const withHome = new EloModel({ homeAdvantage: 100 });
+  assert.ok(Math.abs(withHome.winProbability('a', 'b') - 0.64) < 0.01);
+});
+
+test('Elo rating changes are zero-sum', () => {
+  const elo = EloModel.fromResults(roundRobin(['a', 'b', 'c', 'd']));
+  const total = ['a', 'b', 'c', 'd'].reduce((sum, team) => sum + elo.getRating(team), 0);
+  assert.ok(Math.abs(total - 4 * 1500) < 1e-6, `ratings sum to ${total}`);
+});
+
+test('Elo ranks teams by results', () => {
+  const teams = ['a', 'b', 'c', 'd', 'e'];
+  const elo = EloModel.fromResults(roundRobin(teams), { kFactor: 8 });
+  for (let i = 1; i < teams.length; i++) {
+    assert.ok(elo.getRating(teams[i - 1]) > elo.getRating(teams[i]), `${teams[i - 1]} should outrank ${teams[i]}`);
+  }
+  const prediction = elo.predict('a', 'e');
+  assert.ok(prediction.homeWinProbability > 0.75, `got ${prediction.homeWinProbability}`);
+  assert.ok(elo.predict('e', 'a').homeWinProbability < 0.5);
+});
+
+test('Elo predicts the average game total of both teams', () => {
+  const elo = EloModel.fromResults(roundRobin(['a', 'b'], { rounds: 5, margin: 4, base: 50 }));
+  // Every game finishes 54-50
+  assert.strictEqual(elo.predict('a', 'b').expectedTotal, 104);
+});
+
+test('Elo needs minGames per team before predicting', () => {
+  const results = roundRobin(['a', 'b'], { rounds: 2 }); // 4 games each
+  assert.strictEqual(EloModel.fromResults(results).predict('a', 'b'), null);
+  assert.ok(EloModel.fromResults(results, { minGames: 4 }).predict('a', 'b'));
+  assert.strictEqual(EloModel.fromResults(results, { minGames: 4 }).predict('a', 'new'), null);
+});
+
+test('Elo replays results in date order', () => {
+  const results = roundRobin(['a', 'b', 'c'], { rounds: 3 });
+  const inOrder = EloModel.fromResults(results);
+  const shuffled = EloModel.fromResults(results.slice().reverse());
+  ['a', 'b', 'c'].forEach((team) => {
+    assert.ok(Math.abs(inOrder.getRating(team) - shuffled.getRating(team)) < 1e-9);
+  });
+});
+
+test('Poisson probabilities sum to 1', () => {
+  const probabilities = poissonProbabilities(1.4, 20);
+  assert.ok(Math.abs(probabilities.reduce((sum, p) => sum + p, 0) - 1) < 1e-9);
+  assert.ok(Math.abs(probabilities[0] - Math.exp(-1.4)) < 1e-12);
+});
+
+test('Poisson outcome probabilities are normalized', () => {
+  const model = PoissonGoalModel.fromResults(roundRobin(['a', 'b', 'c', 'd'], { margin: 1, base: 1 }));
+  const prediction = model.predict('a', 'd');
+  const total = prediction.homeWinProbability + prediction.drawProbability + prediction.awayWinProbability;
+  assert.ok(Math.abs(total - 1) < 1e-9, `outcomes sum to ${total}`);
+  [prediction.bothTeamsScoreProbability, prediction.overGoalsProbability].forEach((p) => {
+    assert.ok(p > 0 && p < 1);
+  });
+});
+
+test('Poisson favours the team that scores more and concedes less', () => {
+  const model = PoissonGoalModel.fromResults(roundRobin(['a', 'b', 'c', 'd'], { margin: 1, base: 1 }));
+  const expected = model.expectedGoals('a', 'd');
+  assert.ok(expected.home > expected.away, `expected ${expected.home} vs ${expected.away}`);
+  const prediction = model.predict('a', 'd');
+  assert.ok(prediction.homeWinProbability > prediction.awayWinProbability);
+  assert.ok(model.predict('d', 'a').homeWinProbability < prediction.homeWinProbability);
+});
+
+test('Poisson shrinks small samples toward the league average', () => {
+  const results = roundRobin(['a', 'b', 'c', 'd'], { margin: 1, base: 1 });
+  const strong = PoissonGoalModel.fromResults(results, { priorGames: 0 }).expectedGoals('a', 'd');
+  const shrunk = PoissonGoalModel.fromResults(results, { priorGames: 50 }).expectedGoals('a', 'd');
+  assert.ok(shrunk.home - shrunk.away < strong.home - strong.away);
+});
+
+test('Poisson needs minGames per team before predicting', () => {
+  const results = roundRobin(['a', 'b', 'c', 'd'], { margin: 1, base: 1 }); // 12 matches each
+  assert.ok(PoissonGoalModel.fromResults(results).predict('a', 'b'));
+  assert.strictEqual(PoissonGoalModel.fromResults(results).predict('a', 'new'), null);
+  assert.strictEqual(PoissonGoalModel.fromResults(results, { minGames: 13 }).predict('a', 'b'), null);
+});
+
+test('Elo models restored from a JSON snapshot predict the same', () => {
+  const model = EloModel.fromResults(roundRobin(['a', 'b', 'c', 'd']), { homeAdvantage: 50 });
+  const snapshot = JSON.parse(JSON.stringify(model.toSnapshot()));
+  const restored = EloModel.fromSnapshot(snapshot, { homeAdvantage: 50 });
+  assert.deepStrictEqual(restored.predict('a', 'd'), model.predict('a', 'd'));
+  assert.strictEqual(restored.gamesPlayed('b'), model.gamesPlayed('b'));
+});
+
+test('Poisson models restored from a JSON snapshot predict the same', () => {
+  const model = PoissonGoalModel.fromResults(roundRobin(['a', 'b', 'c', 'd'], { margin: 1, base: 1 }));
+  const snapshot = JSON.parse(JSON.stringify(model.toSnapshot()));
+  assert.deepStrictEqual(PoissonGoalModel.fromSnapshot(snapshot).predict('a', 'd'), model.predict('a', 'd'));
+});
+
+run();
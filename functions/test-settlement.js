@@ -0,0 +1,266 @@
+/**
+ * Unit tests for event settlement: grading, the settlement ledger and
+ * re-settling after a score correction
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const {
+  computeSettlement,
+  getOtherLedgerIds,
+  getParlayStatus,
+  gradeSoccerTrade,
+  gradeTrade,
+  gradeTwoWayTrade,
+} = require('./lib/services/Settlement');
+
+const HOME_WIN = { sport: 'basketball', homeScore: 110, visitorScore: 100, winningTeam: 'home' };
+const VISITOR_WIN = { sport: 'basketball', homeScore: 100, visitorScore: 110, winningTeam: 'visitor' };
+
+function wallets(...userIds) {
+  const users = {};
+  userIds.forEach((userId) => {
+    users[userId] = { walletBalance: 100, lifetimePnl: 0 };
+  });
+  return users;
+}
+
+test('spreads and totals push on the line', () => {
+  assert.strictEqual(gradeTwoWayTrade({ market: 'spread', line: -10, selectedTeam: 'home' }, 110, 100), 'Push');
+  assert.strictEqual(gradeTwoWayTrade({ market: 'spread', line: -9.5, selectedTeam: 'home' }, 110, 100), 'Won');
+  assert.strictEqual(gradeTwoWayTrade({ market: 'total', line: 210, selectedTeam: 'over' }, 110, 100), 'Push');
+  assert.strictEqual(gradeTwoWayTrade({ market: 'total', line: 209.5, selectedTeam: 'under' }, 110, 100), 'Lost');
+  assert.strictEqual(gradeTwoWayTrade({ selectedTeam: 'visitor' }, 20, 20), 'Push');
+});
+
+test('soccer side markets wait for the score they need', () => {
+  const trade = { market: 'halfTimeResult', selectedTeam: 'draw' };
+  assert.strictEqual(gradeSoccerTrade(trade, 'home', { fullTime: { home: 1, away: 0 } }), null);
+  assert.strictEqual(
+    gradeSoccerTrade(trade, 'home', { fullTime: { home: 1, away: 0 }, halfTime: { home: 0, away: 0 } }),
+    'Won'
+  );
+  assert.strictEqual(gradeSoccerTrade({ market: 'doubleChance', selectedTeam: 'drawOrAway' }, 'home', {}), 'Lost');
+});
+
+test('void results void every trade', () => {
+  assert.strictEqual(gradeTrade({ selectedTeam: 'home' }, { ...HOME_WIN, voidReason: 'Postponed' }), 'Void');
+});
+
+test('settling credits winners and records every outcome in the ledger', () => {
+  const outcome = computeSettlement({
+    eventId: 'e1',
+    result: HOME_WIN,
+    previousLedger: {},
+    trades: {
+      won: { userId: 'alice', eventId: 'e1', selectedTeam: 'home', amount: 10, expectedPayout: 25, status: 'Pending' },
+      lost: { userId: 'bob', eventId: 'e1', selectedTeam: 'visitor', amount: 10, expectedPayout: 18, status: 'Pending' },
+    },
+    users: wallets('alice', 'bob'),
+  });
+
+  assert.strictEqual(outcome.settledCount, 2);
+  assert.deepStrictEqual(outcome.users.alice, { walletBalance: 125, lifetimePnl: 15 });
+  assert.deepStrictEqual(outcome.users.bob, { walletBalance: 100, lifetimePnl: -10 });
+  assert.deepStrictEqual(outcome.ledger.won, { userId: 'alice', status: 'Won', decided: true, walletCredit: 25, pnlChange: 15 });
+  assert.deepStrictEqual(outcome.ledger.lost, { userId: 'bob', status: 'Lost', decided: true, walletCredit: 0, pnlChange: -10 });
+  // A loss credits nothing, so only the win is in walletTransactions
+  assert.deepStrictEqual(outcome.walletEntries, [
+    { userId: 'alice', amount: 25, eventId: 'e1', type: 'payout', tradeId: 'won' },
+  ]);
+});
+
+test('settling again with the ledger changes nothing', () => {
+  const input = {
+    eventId: 'e1',
+    result: HOME_WIN,
+    previousLedger: {},
+    trades: { t1: { userId: 'alice', eventId: 'e1', selectedTeam: 'home', amount: 10, expectedPayout: 25, status: 'Pending' } },
+    users: wallets('alice'),
+  };
+  const first = computeSettlement(input);
+  // A crash after the first run committed leaves the trade Pending in a stale read
+  const second = computeSettlement({ ...input, previousLedger: first.ledger, users: first.users });
+  assert.strictEqual(second.settledCount, 0);
+  assert.deepStrictEqual(second.changedTrades, []);
+  assert.deepStrictEqual(second.walletEntries, []);
+  assert.deepStrictEqual(second.users.alice, first.users.alice);
+});
+
+test('the caller\'s trades and wallets are left untouched', () => {
+  const trades = { t1: { userId: 'alice', eventId: 'e1', selectedTeam: 'home', amount: 10, expectedPayout: 25, status: 'Pending' } };
+  const users = wallets('alice');
+  computeSettlement({ eventId: 'e1', result: HOME_WIN, previousLedger: {}, trades, users });
+  assert.strictEqual(trades.t1.status, 'Pending');
+  assert.strictEqual(users.alice.walletBalance, 100);
+});
+
+test('re-settling reverses the recorded payout and grades again', () => {
+  const trade = { userId: 'alice', eventId: 'e1', selectedTeam: 'home', amount: 10, expectedPayout: 25, status: 'Pending' };
+  const first = computeSettlement({
+    eventId: 'e1', result: HOME_WIN, previousLedger: {}, trades: { t1: trade }, users: wallets('alice'),
+  });
+  const corrected = computeSettlement({
+    eventId: 'e1',
+    result: VISITOR_WIN,
+    resettle: true,
+    previousLedger: first.ledger,
+    trades: first.trades,
+    users: first.users,
+  });
+
+  assert.strictEqual(corrected.trades.t1.status, 'Lost');
+  assert.deepStrictEqual(corrected.users.alice, { walletBalance: 100, lifetimePnl: -10 });
+  assert.deepStrictEqual(corrected.walletEntries, [
+    { userId: 'alice', amount: -25, eventId: 'e1', type: 'adjustment', tradeId: 't1' },
+  ]);
+  assert.deepStrictEqual(Object.keys(corrected.ledger), ['t1']);
+});
+
+test('re-settling drops trades that can\'t be graded again from the ledger', () => {
+  const previousLedger = {
+    t1: { userId: 'alice', status: 'Won', decided: true, walletCredit: 25, pnlChange: 15 },
+  };
+  const soccerResult = { sport: 'soccer', homeScore: 1, visitorScore: 0, winningTeam: 'home', score: { fullTime: { home: 1, away: 0 } } };
+  const outcome = computeSettlement({
+    eventId: 'e1',
+    result: soccerResult,
+    resettle: true,
+    previousLedger,
+    trades: { t1: { userId: 'alice', eventId: 'e1', market: 'halfTimeResult', selectedTeam: 'home', amount: 10, expectedPayout: 25, status: 'Won' } },
+    users: { alice: { walletBalance: 125, lifetimePnl: 15 } },
+  });
+
+  // Without a half-time score the trade goes back to Pending for a later run to settle
+  assert.strictEqual(outcome.trades.t1.status, 'Pending');
+  assert.deepStrictEqual(outcome.ledger, {});
+  assert.deepStrictEqual(outcome.users.alice, { walletBalance: 100, lifetimePnl: 0 });
+});
+
+test('re-settling a leg reverses the parlay decision another event recorded', () => {
+  const parlay = {
+    userId: 'alice',
+    type: 'parlay',
+    eventIds: ['e1', 'e2'],
+    amount: 10,
+    expectedPayout: 40,
+    status: 'Won',
+    legs: [
+      { eventId: 'e1', selectedTeam: 'home', selectedOdds: 50, status: 'Won' },
+      { eventId: 'e2', selectedTeam: 'home', selectedOdds: 50, status: 'Won' },
+    ],
+  };
+  const previousLedger = { p1: { userId: 'alice', status: 'Pending', legStatus: 'Won', decided: false, walletCredit: 0, pnlChange: 0 } };
+  const e2Ledger = { p1: { userId: 'alice', status: 'Won', legStatus: 'Won', decided: true, walletCredit: 40, pnlChange: 30 } };
+  assert.deepStrictEqual(getOtherLedgerIds('e1', previousLedger, { p1: parlay }), ['e2']);
+
+  const outcome = computeSettlement({
+    eventId: 'e1',
+    result: VISITOR_WIN,
+    resettle: true,
+    previousLedger,
+    trades: { p1: parlay },
+    users: { alice: { walletBalance: 140, lifetimePnl: 30 } },
+    otherLedgers: { e2: e2Ledger },
+  });
+
+  assert.strictEqual(outcome.trades.p1.status, 'Lost');
+  assert.deepStrictEqual(outcome.users.alice, { walletBalance: 100, lifetimePnl: -10 });
+  assert.deepStrictEqual(outcome.changedLedgers, ['e2']);
+  assert.deepStrictEqual(outcome.otherLedgers.e2.p1, {
+    userId: 'alice', status: 'Pending', legStatus: 'Won', decided: false, walletCredit: 0, pnlChange: 0,
+  });
+  assert.deepStrictEqual(outcome.ledger.p1, {
+    userId: 'alice', status: 'Lost', legStatus: 'Lost', decided: true, walletCredit: 0, pnlChange: -10,
+  });
+  // The other event's ledger object is the caller's; only the outcome's copy changes
+  assert.strictEqual(e2Ledger.p1.decided, true);
+});
+
+function parlay(legStatuses, fields = {}) {
+  return {
+    userId: 'alice',
+    type: 'parlay',
+    eventIds: legStatuses.map((_, i) => `e${i + 1}`),
+    amount: 10,
+    expectedPayout: 40,
+    status: 'Pending',
+    legs: legStatuses.map((status, i) => ({ eventId: `e${i + 1}`, selectedTeam: 'home', selectedOdds: 50, status })),
+    ...fields,
+  };
+}
+
+test('a parlay is decided by its legs', () => {
+  const legs = (...statuses) => statuses.map((status) => ({ status }));
+  assert.strictEqual(getParlayStatus(legs('Won', 'Pending')), 'Pending');
+  assert.strictEqual(getParlayStatus(legs('Lost', 'Pending')), 'Lost');
+  assert.strictEqual(getParlayStatus(legs('Won', 'Void')), 'Won');
+  assert.strictEqual(getParlayStatus(legs('Void', 'Void')), 'Void');
+});
+
+test('a winning leg leaves the parlay pending until its last leg', () => {
+  const outcome = computeSettlement({
+    eventId: 'e1', result: HOME_WIN, previousLedger: {}, trades: { p1: parlay(['Pending', 'Pending']) }, users: wallets('alice'),
+  });
+  assert.strictEqual(outcome.trades.p1.status, 'Pending');
+  assert.strictEqual(outcome.trades.p1.legs[0].status, 'Won');
+  assert.deepStrictEqual(outcome.ledger.p1, {
+    userId: 'alice', status: 'Pending', legStatus: 'Won', decided: false, walletCredit: 0, pnlChange: 0,
+  });
+  assert.deepStrictEqual(outcome.walletEntries, []);
+  assert.deepStrictEqual(outcome.users.alice, { walletBalance: 100, lifetimePnl: 0 });
+});
+
+test('the last winning leg pays the parlay out', () => {
+  const outcome = computeSettlement({
+    eventId: 'e2', result: HOME_WIN, previousLedger: {}, trades: { p1: parlay(['Won', 'Pending']) }, users: wallets('alice'),
+  });
+  assert.strictEqual(outcome.trades.p1.status, 'Won');
+  assert.deepStrictEqual(outcome.users.alice, { walletBalance: 140, lifetimePnl: 30 });
+  assert.deepStrictEqual(outcome.walletEntries, [
+    { userId: 'alice', amount: 40, eventId: 'e2', type: 'payout', tradeId: 'p1' },
+  ]);
+});
+
+test('a losing leg loses the parlay while other legs are still open', () => {
+  const outcome = computeSettlement({
+    eventId: 'e1', result: VISITOR_WIN, previousLedger: {}, trades: { p1: parlay(['Pending', 'Pending']) }, users: wallets('alice'),
+  });
+  assert.strictEqual(outcome.trades.p1.status, 'Lost');
+  assert.strictEqual(outcome.ledger.p1.decided, true);
+  assert.deepStrictEqual(outcome.users.alice, { walletBalance: 100, lifetimePnl: -10 });
+
+  // The parlay's remaining leg is graded later without deciding it again
+  const later = computeSettlement({
+    eventId: 'e2', result: HOME_WIN, previousLedger: {}, trades: outcome.trades, users: outcome.users,
+  });
+  assert.strictEqual(later.trades.p1.status, 'Lost');
+  assert.strictEqual(later.trades.p1.legs[1].status, 'Won');
+  assert.strictEqual(later.ledger.p1.decided, false);
+  assert.deepStrictEqual(later.users.alice, { walletBalance: 100, lifetimePnl: -10 });
+});
+
+test('a tied leg drops out of the parlay with its odds', () => {
+  const tie = { sport: 'basketball', homeScore: 100, visitorScore: 100, winningTeam: null };
+  const outcome = computeSettlement({
+    eventId: 'e1', result: tie, previousLedger: {}, trades: { p1: parlay(['Pending', 'Pending']) }, users: wallets('alice'),
+  });
+  assert.strictEqual(outcome.trades.p1.legs[0].status, 'Void');
+  assert.strictEqual(outcome.trades.p1.status, 'Pending');
+  assert.strictEqual(outcome.trades.p1.expectedPayout, 20);
+  assert.strictEqual(outcome.ledger.p1.payoutBefore, 40);
+});
+
+test('a parlay whose every leg is void is refunded', () => {
+  const voided = { ...HOME_WIN, voidReason: 'Postponed' };
+  const outcome = computeSettlement({
+    eventId: 'e2', result: voided, previousLedger: {}, trades: { p1: parlay(['Void', 'Pending'], { expectedPayout: 20 }) }, users: wallets('alice'),
+  });
+  assert.strictEqual(outcome.trades.p1.status, 'Void');
+  assert.deepStrictEqual(outcome.users.alice, { walletBalance: 110, lifetimePnl: 0 });
+  assert.deepStrictEqual(outcome.walletEntries, [
+    { userId: 'alice', amount: 10, eventId: 'e2', type: 'refund', tradeId: 'p1' },
+  ]);
+});
+
+run();
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for the sports data providers and the Event transform
+ *
+ * Runs entirely offline: the API adapters are given stub clients and the
+ * fixture provider reads fixtures/sports-data.json.
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const path = require('path');
+const { toEventDocument } = require('./lib/services/SportsDataProvider');
+const { FixtureProvider } = require('./lib/services/FixtureProvider');
+const { FootballDataProvider } = require('./lib/services/FootballDataProvider');
+const {
+  BalldontlieNbaProvider,
+  BalldontlieNflProvider,
+  BalldontlieMlbProvider,
+} = require('./lib/services/BalldontlieProvider');
+const { NhlProvider } = require('./lib/services/NhlProvider');
+const axios = require('axios');
+
+const fixturesPath = path.join(__dirname, 'fixtures', 'sports-data.json');
+const range = { from: '2025-01-01', to: '2025-01-31' };
+
+const nbaGame = {
+  id: 101,
+  date: '2025-01-10',
+  datetime: '2025-01-10T00:30:00Z',
+  season: 2024,
+  status: 'Final',
+  period: 4,
+  time: 'Final',
+  postseason: false,
+  home_team_score: 110,
+  visitor_team_score: 99,
+  home_team: { id: 14, conference: 'West', division: 'Pacific', city: 'Los Angeles', name: 'Lakers', full_name: 'Los Angeles Lakers', abbreviation: 'LAL' },
+  visitor_team: { id: 10, conference: 'West', division: 'Pacific', city: 'Golden State', name: 'Warriors', full_name: 'Golden State Warriors', abbreviation: 'GSW' },
+};
+
+const soccerMatch = {
+  id: 555,
+  utcDate: '2025-01-11T15:00:00Z',
+  status: 'FINISHED',
+  stage: 'REGULAR_SEASON',
+  season: { startDate: '2024-08-16' },
+  homeTeam: { id: 57, name: 'Arsenal FC', shortName: 'Arsenal', tla: 'ARS', crest: 'https://crests.example/57.png' },
+  awayTeam: { id: 61, name: 'Chelsea FC', shortName: 'Chelsea', tla: 'CHE', crest: 'https://crests.example/61.png' },
+  competition: { id: 2021, name: 'Premier League', emblem: 'https://crests.example/pl.png' },
+  score: { winner: null, fullTime: { home: 2, away: 1 }, halfTime: { home: 1, away: 1 } },
+};
+
+test('balldontlie games map to the Event shape', async () => {
+  const api = { nba: { getGames: async () => ({ data: [nbaGame], meta: {} }) } };
+  const [game] = await new BalldontlieNbaProvider(api).getRecentResults(range);
+  assert.strictEqual(game.state, 'final');
+
+  const event = toEventDocument(game);
+  assert.strictEqual(event.id, '101');
+  assert.strictEqual(event.sport, 'basketball');
+  assert.strictEqual(event.state, 'final');
+  assert.strictEqual(event.home_team.full_name, 'Los Angeles Lakers');
+  assert.strictEqual(event.home_team_score, 110);
+  assert.ok(!('logo' in event.home_team), 'undefined fields must be dropped');
+  assert.ok(!('competition' in event));
+});
+
+test('balldontlie pagination follows the cursor', async () => {
+  const pages = [
+    { data: [{ ...nbaGame, id: 1, status: '7:30 pm ET', period: 0 }], meta: { next_cursor: 2 } },
+    { data: [{ ...nbaGame, id: 2, status: '7:30 pm ET', period: 0 }], meta: {} },
+  ];
+  const cursors = [];
+  const api = { nba: { getGames: async (params) => { cursors.push(params.cursor); return pages.shift(); } } };
+  const games = await new BalldontlieNbaProvider(api).getUpcomingGames(range);
+  assert.deepStrictEqual(games.map((g) => g.id), ['1', '2']);
+  assert.deepStrictEqual(cursors, [undefined, 2]);
+});
+
+test('football-data matches map to the Event shape with a derived winner', async () => {
+  const api = { getMatches: async () => ({ matches: [soccerMatch] }) };
+  const [game] = await new FootballDataProvider(api).getRecentResults(range);
+  assert.strictEqual(game.state, 'final');
+  assert.strictEqual(game.score.winner, 'HOME_TEAM');
+
+  const event = toEventDocument(game);
+  assert.strictEqual(event.id, 'soccer_555');
+  assert.strictEqual(event.sport, 'soccer');
+  assert.strictEqual(event.visitor_team.abbreviation, 'CHE');
+  assert.strictEqual(event.visitor_team.logo, 'https://crests.example/61.png');
+  assert.strictEqual(event.competition.name, 'Premier League');
+  assert.strictEqual(event.season, 2024);
+});
+
+test('football-data void statuses map to the void state', async () => {
+  const api = { getMatches: async () => ({ matches: [{ ...soccerMatch, status: 'POSTPONED' }] }) };
+  const [game] = await new FootballDataProvider(api).getRecentResults(range);
+  assert.strictEqual(game.state, 'void');
+});
+
+test('NFL games record overtime and the week', async () => {
+  const team = (id, abbreviation) => ({ id, conference: 'AFC', division: 'EAST', location: 'City', name: 'Team', full_name: `City ${abbreviation}`, abbreviation });
+  const api = {
+    nfl: {
+      getGames: async (params) => {
+        assert.strictEqual(params.dates.length, 31, 'one entry per day in the range');
+        return {
+          data: [{ id: 7, date: '2025-01-12T18:00:00.000Z', season: 2024, week: 19, postseason: true, status: 'Final/OT', home_team: team(1, 'BUF'), visitor_team: team(2, 'MIA'), home_team_score: 27, visitor_team_score: 24 }],
+          meta: {},
+        };
+      },
+    },
+  };
+  const [game] = await new BalldontlieNflProvider(api).getRecentResults(range);
+  assert.strictEqual(game.id, 'nfl_7');
+  assert.strictEqual(game.sport, 'football');
+  assert.strictEqual(game.state, 'final');
+  assert.strictEqual(game.decidedIn, 'overtime');
+  assert.strictEqual(toEventDocument(game).week, 19);
+});
+
+test('MLB games count innings from the line score', async () => {
+  const team = (id, abbreviation) => ({ id, slug: abbreviation, abbreviation, display_name: `Club ${abbreviation}`, short_display_name: abbreviation, name: abbreviation, location: 'City', league: 'American', division: 'East' });
+  const api = {
+    mlb: {
+      getGames: async () => ({
+        data: [{
+          id: 9, date: '2025-01-10T23:05:00Z', season: 2025, postseason: false, status: 'STATUS_FINAL',
+          home_team: team(1, 'NYY'), away_team: team(2, 'BOS'),
+          home_team_data: { runs: 4, hits: 8, errors: 0, inning_scores: [0, 1, 0, 0, 2, 0, 0, 0, 0, 1] },
+          away_team_data: { runs: 3, hits: 7, errors: 1, inning_scores: [1, 0, 0, 2, 0, 0, 0, 0, 0, 0] },
+        }],
+        meta: {},
+      }),
+    },
+  };
+  const [game] = await new BalldontlieMlbProvider(api).getRecentResults(range);
+  assert.strictEqual(game.sport, 'baseball');
+  assert.strictEqual(game.homeScore, 4);
+  assert.strictEqual(game.innings, 10);
+  assert.strictEqual(game.decidedIn, 'overtime');
+  assert.strictEqual(game.visitorTeam.full_name, 'Club BOS');
+});
+
+test('NHL games record shootouts and postponements', async () => {
+  const team = (id, abbrev, score) => ({ id, abbrev, placeName: { default: 'City' }, commonName: { default: abbrev }, logo: `https://logos.example/${abbrev}.svg`, score });
+  const originalGet = axios.get;
+  axios.get = async () => ({
+    data: {
+      gameWeek: [{
+        date: '2025-01-05',
+        games: [
+          { id: 1, season: 20242025, gameType: 2, startTimeUTC: '2025-01-05T00:00:00Z', gameState: 'OFF', gameScheduleState: 'OK', homeTeam: team(10, 'TOR', 3), awayTeam: team(8, 'MTL', 2), periodDescriptor: { number: 5, periodType: 'SO' }, gameOutcome: { lastPeriodType: 'SO' } },
+          { id: 2, season: 20242025, gameType: 2, startTimeUTC: '2025-01-05T00:00:00Z', gameState: 'FUT', gameScheduleState: 'PPD', homeTeam: team(6, 'BOS'), awayTeam: team(3, 'NYR') },
+        ],
+      }],
+    },
+  });
+  try {
+    const games = await new NhlProvider().getRecentResults({ from: '2025-01-01', to: '2025-01-06' });
+    assert.deepStrictEqual(games.map((g) => g.state), ['final', 'void']);
+    assert.strictEqual(games[0].decidedIn, 'shootout');
+    assert.strictEqual(games[0].season, 2024);
+    assert.strictEqual(games[0].homeTeam.full_name, 'City TOR');
+    assert.strictEqual(toEventDocument(games[0]).home_team.logo, 'https://logos.example/TOR.svg');
+  } finally {
+    axios.get = originalGet;
+  }
+});
+
+test('fixture provider splits upcoming games from results', async () => {
+  const provider = new FixtureProvider('basketball', fixturesPath);
+  const upcoming = await provider.getUpcomingGames(range);
+  const results = await provider.getRecentResults(range);
+  assert.ok(upcoming.length > 0 && upcoming.every((g) => g.state === 'scheduled'));
+  assert.ok(results.length > 0 && results.every((g) => g.state !== 'scheduled'));
+});
+
+test('fixture provider dates games relative to now', async () => {
+  const [game] = await new FixtureProvider('soccer', fixturesPath).getUpcomingGames(range);
+  assert.ok(new Date(game.datetime).getTime() > Date.now(), 'upcoming fixtures must start in the future');
+  assert.ok(toEventDocument(game).date, 'date must be filled in');
+});
+
+test('fixture provider looks up teams', async () => {
+  const provider = new FixtureProvider('soccer', fixturesPath);
+  assert.strictEqual((await provider.getTeam(57)).full_name, 'Arsenal FC');
+  assert.strictEqual(await provider.getTeam(-1), null);
+});
+
+run();
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for wallet reconciliation
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const {
+  computeExpectedWallets,
+  getOpeningBalance,
+  getPartialSale,
+  getSettlementAmounts,
+  getTradePlacer,
+  getTransferAmounts,
+  haveTradesChanged,
+} = require('./lib/services/WalletReconciliation');
+
+function wallets(trades, orders = [], seeds = []) {
+  return computeExpectedWallets(new Map(Object.entries(trades)), orders, seeds);
+}
+
+test('deposits fund the wallet and settled trades move balance and P&L', () => {
+  const result = wallets(
+    {
+      won: { userId: 'alice', amount: 10, expectedPayout: 25, status: 'Won' },
+      lost: { userId: 'alice', amount: 20, status: 'Lost' },
+      pending: { userId: 'alice', amount: 5, status: 'Pending' },
+    },
+    [{ userId: 'alice', amount: 15 }],
+    [{ userId: 'alice', amount: 100 }]
+  );
+  assert.deepStrictEqual(result.get('alice'), { walletBalance: 75, lifetimePnl: -5 });
+});
+
+test('opening entries seed funds and P&L from before the ledger', () => {
+  const trades = { lost: { userId: 'bob', amount: 40, status: 'Lost' } };
+  const withoutOpening = wallets(trades).get('bob');
+  assert.deepStrictEqual(withoutOpening, { walletBalance: -40, lifetimePnl: -40 });
+
+  const opening = getOpeningBalance({ walletBalance: 60, lifetimePnl: -40 }, withoutOpening);
+  assert.deepStrictEqual(opening, { walletBalance: 100, lifetimePnl: 0 });
+  const seeds = [{ userId: 'bob', amount: opening.walletBalance, pnlChange: opening.lifetimePnl }];
+  assert.deepStrictEqual(wallets(trades, [], seeds).get('bob'), { walletBalance: 60, lifetimePnl: -40 });
+});
+
+test('the placer of a bought trade pays its stake and the buyer pays the price', () => {
+  const trades = {
+    t1: {
+      userId: 'carol',
+      amount: 50,
+      status: 'Pending',
+      transfers: [{ from: 'alice', to: 'carol', price: 60 }],
+    },
+  };
+  assert.strictEqual(getTradePlacer(trades.t1, new Map(Object.entries(trades))), 'alice');
+  const result = wallets(trades);
+  assert.strictEqual(result.get('alice').walletBalance, 10);
+  assert.strictEqual(result.get('carol').walletBalance, -60);
+});
+
+test('a sold part of a bought trade is charged to the original placer', () => {
+  const transfers = [{ from: 'alice', to: 'carol', price: 60 }];
+  const trades = {
+    parent: { userId: 'carol', amount: 25, status: 'Pending', transfers },
+    child: { userId: 'carol', amount: 25, status: 'Sold', soldValue: 30, parentTradeId: 'parent', transfers },
+  };
+  const tradesById = new Map(Object.entries(trades));
+  assert.strictEqual(getTradePlacer(trades.child, tradesById), 'alice');
+  const result = wallets(trades);
+  assert.strictEqual(result.get('alice').walletBalance, 10);
+  assert.strictEqual(result.get('carol').walletBalance, -30);
+
+  // Sold parts split off before they kept transfers fall back to their parent
+  const { transfers: _, ...legacyChild } = trades.child;
+  assert.strictEqual(getTradePlacer(legacyChild, tradesById), 'alice');
+});
+
+test('marketplace buyers and sellers are measured against what they paid', () => {
+  const bought = { userId: 'carol', amount: 50, costBasis: 60, expectedPayout: 100 };
+  assert.deepStrictEqual(getSettlementAmounts(bought, 'Won'), { walletCredit: 100, pnlChange: 40 });
+  assert.deepStrictEqual(getSettlementAmounts(bought, 'Lost'), { walletCredit: 0, pnlChange: -60 });
+  assert.deepStrictEqual(getSettlementAmounts(bought, 'Push'), { walletCredit: 50, pnlChange: -10 });
+
+  const result = wallets({
+    t1: {
+      ...bought,
+      status: 'Won',
+      transfers: [{ from: 'alice', to: 'carol', price: 60, sellerCostBasis: 50 }],
+    },
+  });
+  assert.deepStrictEqual(result.get('alice'), { walletBalance: 10, lifetimePnl: 10 });
+  assert.deepStrictEqual(result.get('carol'), { walletBalance: 40, lifetimePnl: 40 });
+});
+
+test('each marketplace resale realises the seller\'s margin over what they paid', () => {
+  const trade = { userId: 'alice', amount: 50, expectedPayout: 100, status: 'Pending', transfers: [] };
+  const live = { alice: { walletBalance: -50, lifetimePnl: 0 } };
+  const buy = (buyerId, price) => {
+    const { sellerCostBasis, sellerPnlChange, buyerCostBasis } = getTransferAmounts(trade, price);
+    live[trade.userId].walletBalance += price;
+    live[trade.userId].lifetimePnl += sellerPnlChange;
+    live[buyerId] = live[buyerId] || { walletBalance: 0, lifetimePnl: 0 };
+    live[buyerId].walletBalance -= price;
+    trade.transfers.push({ from: trade.userId, to: buyerId, price, sellerCostBasis });
+    trade.userId = buyerId;
+    trade.costBasis = buyerCostBasis;
+  };
+
+  buy('carol', 60);
+  assert.deepStrictEqual(getTransferAmounts(trade, 80), { sellerCostBasis: 60, sellerPnlChange: 20, buyerCostBasis: 80 });
+  buy('dave', 80);
+  trade.status = 'Won';
+  const { walletCredit, pnlChange } = getSettlementAmounts(trade, 'Won');
+  live.dave.walletBalance += walletCredit;
+  live.dave.lifetimePnl += pnlChange;
+
+  assert.deepStrictEqual(live, {
+    alice: { walletBalance: 10, lifetimePnl: 10 },
+    carol: { walletBalance: 20, lifetimePnl: 20 },
+    dave: { walletBalance: 20, lifetimePnl: 20 },
+  });
+  // Reconciliation recomputes the same wallets from the trade alone
+  const result = wallets({ t1: trade });
+  Object.entries(live).forEach(([userId, wallet]) => assert.deepStrictEqual(result.get(userId), wallet));
+});
+
+test('selling a bought trade realises the sale less its cost basis', () => {
+  const result = wallets({
+    t1: {
+      userId: 'carol',
+      amount: 50,
+      costBasis: 60,
+      status: 'Sold',
+      soldValue: 70,
+      transfers: [{ from: 'alice', to: 'carol', price: 60 }],
+    },
+  });
+  // Transfers from before sellers realised P&L don't move the seller's
+  assert.deepStrictEqual(result.get('alice'), { walletBalance: 10, lifetimePnl: 0 });
+  assert.deepStrictEqual(result.get('carol'), { walletBalance: 10, lifetimePnl: 10 });
+});
+
+test('a partial sale splits the stake, payout and cost basis', () => {
+  const bought = { userId: 'carol', amount: 50, costBasis: 60, expectedPayout: 100, status: 'Pending' };
+  const sale = getPartialSale(bought, 0.25, 80);
+  assert.strictEqual(sale.soldValue, 20);
+  assert.strictEqual(sale.pnlChange, 5);
+  assert.deepStrictEqual(sale.sold, { amount: 12.5, expectedPayout: 25, costBasis: 15 });
+  assert.deepStrictEqual(sale.remaining, { amount: 37.5, expectedPayout: 75, costBasis: 45 });
+  // Trades the owner placed have no cost basis to split
+  assert.deepStrictEqual(Object.keys(getPartialSale({ amount: 50, expectedPayout: 100 }, 0.5, 40).sold), ['amount', 'expectedPayout']);
+});
+
+test('settling what is left of a partly sold trade agrees with reconciliation', () => {
+  const transfers = [{ from: 'alice', to: 'carol', price: 60, sellerCostBasis: 50 }];
+  const parent = { userId: 'carol', amount: 50, costBasis: 60, expectedPayout: 100, status: 'Pending', transfers };
+  const { soldValue, pnlChange, sold, remaining } = getPartialSale(parent, 0.25, 80);
+  const child = { ...parent, ...sold, status: 'Sold', soldValue, parentTradeId: 'parent' };
+  const settled = { ...parent, ...remaining, status: 'Won' };
+  const payout = getSettlementAmounts(settled, 'Won');
+
+  // Carol paid 60, sold a quarter for 20 and collected the remaining 75
+  const carol = { walletBalance: -60 + soldValue + payout.walletCredit, lifetimePnl: pnlChange + payout.pnlChange };
+  assert.deepStrictEqual(carol, { walletBalance: 35, lifetimePnl: 35 });
+  assert.deepStrictEqual(wallets({ parent: settled, child }).get('carol'), carol);
+});
+
+test('a loss settled after the snapshot counts as a change', () => {
+  const snapshot = new Map([
+    ['t1', { userId: 'alice', amount: 10, status: 'Pending' }],
+    ['t2', { userId: 'bob', amount: 5, status: 'Pending' }],
+  ]);
+  const unchanged = new Map([['t1', { userId: 'alice', amount: 10, status: 'Pending' }]]);
+  const settled = new Map([['t1', { userId: 'alice', amount: 10, status: 'Lost' }]]);
+  assert.strictEqual(haveTradesChanged('alice', snapshot, unchanged), false);
+  assert.strictEqual(haveTradesChanged('alice', snapshot, settled), true);
+});
+
+test('trades bought, sold on or split off since the snapshot count as changes', () => {
+  const snapshot = new Map([['t1', { userId: 'alice', amount: 10, status: 'Pending' }]]);
+  assert.strictEqual(haveTradesChanged('alice', snapshot, new Map()), true);
+  assert.strictEqual(
+    haveTradesChanged('alice', snapshot, new Map([
+      ['t1', { userId: 'alice', amount: 10, status: 'Pending' }],
+      ['t2', { userId: 'alice', amount: 5, status: 'Pending', costBasis: 6 }],
+    ])),
+    true
+  );
+  assert.strictEqual(
+    haveTradesChanged('alice', snapshot, new Map([['t1', { userId: 'alice', amount: 4, status: 'Pending' }]])),
+    true
+  );
+});
+
+run();
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for watchlist alerts
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const {
+  describeOddsMove,
+  findEventWatch,
+  getEventStateAlert,
+  getEventWatchKeys,
+  getLargestOddsMove,
+  getOfferedSnapshot,
+  getWatchKey,
+} = require('./lib/services/Watchlist');
+const { createOddsHistoryEntry } = require('./lib/services/OddsHistory');
+
+const event = {
+  sport: 'basketball',
+  state: 'scheduled',
+  status: '2025-01-10T00:00:00Z',
+  home_team: { id: 14, full_name: 'Los Angeles Lakers' },
+  visitor_team: { id: 2, full_name: 'Boston Celtics' },
+  home_team_score: 0,
+  visitor_team_score: 0,
+};
+
+test('watch keys identify events and teams per sport', () => {
+  assert.strictEqual(getWatchKey({ type: 'event', eventId: '123', sport: 'basketball', teamId: null }), 'event:123');
+  assert.strictEqual(getWatchKey({ type: 'team', eventId: null, sport: 'hockey', teamId: 14 }), 'team:hockey:14');
+  assert.deepStrictEqual(getEventWatchKeys('123', event), ['event:123', 'team:basketball:14', 'team:basketball:2']);
+});
+
+test('events stored before sports were added are basketball', () => {
+  const { sport, ...legacyEvent } = event;
+  assert.strictEqual(getEventWatchKeys('123', legacyEvent)[1], 'team:basketball:14');
+});
+
+test('an event watch wins over team watches, otherwise the tightest team watch applies', () => {
+  const keys = getEventWatchKeys('123', event);
+  const watchlist = {
+    'team:basketball:14': { type: 'team', threshold: 10 },
+    'team:basketball:2': { type: 'team', threshold: 3 },
+  };
+  assert.strictEqual(findEventWatch(watchlist, keys).threshold, 3);
+  watchlist['event:123'] = { type: 'event', threshold: 8 };
+  assert.strictEqual(findEventWatch(watchlist, keys).threshold, 8);
+  assert.strictEqual(findEventWatch({ 'event:999': { threshold: 1 } }, keys), null);
+  assert.strictEqual(findEventWatch(undefined, keys), null);
+});
+
+test('offered snapshots apply the house margin to every outcome', () => {
+  const entry = createOddsHistoryEntry({
+    source: 'placedBet',
+    odds: { home: 50, visitor: 30, draw: 20 },
+    isSoccer: true,
+    timestamp: null,
+  });
+  assert.deepStrictEqual(getOfferedSnapshot(entry, 0.1), { home: 55, visitor: 33, draw: 22 });
+  const twoWay = createOddsHistoryEntry({ source: 'elo', odds: { home: 60, visitor: 40 }, isSoccer: false, timestamp: null });
+  assert.strictEqual(getOfferedSnapshot(twoWay, 0).draw, null);
+});
+
+test('the largest move is reported whichever way it went', () => {
+  const move = getLargestOddsMove({ home: 40, visitor: 35, draw: 25 }, { home: 43, visitor: 28, draw: 29 });
+  assert.deepStrictEqual(move, { outcome: 'visitor', from: 35, to: 28, change: -7 });
+  const flat = getLargestOddsMove({ home: 60, visitor: 40, draw: null }, { home: 60, visitor: 40, draw: null });
+  assert.strictEqual(flat.change, 0);
+});
+
+test('odds move alerts name the outcome and the change', () => {
+  const alert = describeOddsMove(event, { outcome: 'home', from: 55, to: 62.5, change: 7.5 });
+  assert.strictEqual(alert.type, 'oddsMove');
+  assert.strictEqual(alert.title, 'Odds moved on Los Angeles Lakers vs Boston Celtics');
+  assert.strictEqual(alert.body, 'Los Angeles Lakers went from 55% to 62.5% (+7.5 pts)');
+});
+
+test('games going live alert once', () => {
+  const live = { ...event, state: 'live' };
+  assert.strictEqual(getEventStateAlert(event, live).type, 'eventLive');
+  assert.strictEqual(getEventStateAlert(live, { ...live, home_team_score: 2 }), null);
+});
+
+test('finished games alert with the final score', () => {
+  const final = { ...event, state: 'final', home_team_score: 110, visitor_team_score: 104 };
+  const alert = getEventStateAlert({ ...event, state: 'live' }, final);
+  assert.strictEqual(alert.type, 'eventSettled');
+  assert.strictEqual(alert.body, 'Final score: Los Angeles Lakers 110 - 104 Boston Celtics');
+  assert.strictEqual(getEventStateAlert(final, { ...final, updatedAt: 1 }), null);
+});
+
+test('legacy finished games and cancelled games are handled', () => {
+  const legacyFinal = { ...event, state: undefined, status: 'Final' };
+  assert.strictEqual(getEventStateAlert(legacyFinal, { ...event, state: 'final' }), null);
+  const alert = getEventStateAlert(event, { ...event, state: 'void', status: 'Postponed' });
+  assert.strictEqual(alert.title, "Los Angeles Lakers vs Boston Celtics won't be played");
+  assert.strictEqual(alert.body, 'Postponed. Bets on the game are refunded.');
+});
+
+run();
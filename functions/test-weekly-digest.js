@@ -0,0 +1,219 @@
+/**
+ * Unit tests for the weekly digest email and the mail transports
+ */
+
+const assert = require('assert');
+const { run, test } = require('./harness');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+const {
+  findUpcomingGames,
+  hasDigestContent,
+  rankTopPosts,
+  renderWeeklyDigest,
+  summarizeWeek,
+} = require('./lib/services/WeeklyDigest');
+const {
+  createMailTransport,
+  FileTransport,
+  formatMessage,
+  SmtpTransport,
+} = require('./lib/services/MailTransport');
+
+const lakersCeltics = {
+  sport: 'basketball',
+  date: '2025-01-14',
+  home_team: { id: 14, full_name: 'Los Angeles Lakers' },
+  visitor_team: { id: 2, full_name: 'Boston Celtics' },
+};
+const knicksNets = {
+  sport: 'basketball',
+  date: '2025-01-12',
+  home_team: { id: 20, full_name: 'New York Knicks' },
+  visitor_team: { id: 3, full_name: 'Brooklyn Nets' },
+};
+const hockeyLakers = {
+  sport: 'hockey',
+  date: '2025-01-13',
+  home_team: { id: 14, full_name: 'Hockey Team 14' },
+  visitor_team: { id: 9, full_name: 'Hockey Team 9' },
+};
+
+const message = {
+  from: 'MeiYunDong <digest@localhost>',
+  to: 'Fan <fan@example.com>',
+  subject: 'Your week',
+  text: 'Hello\n.starts with a dot',
+  html: '<p>Hello</p>',
+};
+
+function post(postId, replyCount, createdAt, taggedEvents) {
+  return { postId, username: postId, content: `Post ${postId}`, replyCount, createdAt: new Date(createdAt), taggedEvents };
+}
+
+function digest(overrides = {}) {
+  return {
+    username: 'fan',
+    thisWeek: summarizeWeek([
+      { tradeId: 't1', status: 'Won', pnlChange: 45 },
+      { tradeId: 't2', status: 'Lost', pnlChange: -20 },
+      { tradeId: 't3', status: 'Won', pnlChange: 10.5 },
+      { tradeId: 't4', status: 'Push', pnlChange: 0 },
+    ]),
+    priorWeek: summarizeWeek([
+      { tradeId: 't5', status: 'Won', pnlChange: 10 },
+      { tradeId: 't6', status: 'Lost', pnlChange: -50 },
+    ]),
+    upcomingGames: [{ eventId: 'e1', label: 'Los Angeles Lakers vs Boston Celtics', date: '2025-01-14' }],
+    topPosts: [post('hooper', 2, '2025-01-08', ['e1'])],
+    ...overrides,
+  };
+}
+
+test('a week is summarized into P&L and a win rate over decided trades', () => {
+  const week = digest().thisWeek;
+  assert.deepStrictEqual(week, { settled: 4, won: 2, lost: 1, refunded: 1, netPnl: 35.5, winRate: 67 });
+  assert.strictEqual(summarizeWeek([{ tradeId: 't', status: 'Void', pnlChange: 0 }]).winRate, null);
+});
+
+test('upcoming games are found for teams bet on, per sport', () => {
+  const events = new Map([['e1', lakersCeltics], ['e2', knicksNets], ['e3', hockeyLakers]]);
+  const games = findUpcomingGames(new Set(['team:basketball:14', 'team:basketball:3']), events);
+  assert.deepStrictEqual(games.map((game) => game.eventId), ['e2', 'e1']);
+  assert.strictEqual(games[1].label, 'Los Angeles Lakers vs Boston Celtics');
+});
+
+test('top posts are the most replied to on the given events', () => {
+  const posts = [
+    post('old', 1, '2025-01-01', ['e1']),
+    post('new', 1, '2025-01-09', ['e1']),
+    post('popular', 5, '2025-01-02', ['e1', 'e2']),
+    post('elsewhere', 9, '2025-01-05', ['e9']),
+    post('quiet', 0, '2025-01-10', ['e1']),
+  ];
+  assert.deepStrictEqual(rankTopPosts(posts, new Set(['e1'])).map((p) => p.postId), ['popular', 'new', 'old']);
+});
+
+test('the digest email compares the week with the one before', () => {
+  const email = renderWeeklyDigest(digest(), 'https://example.com');
+  assert.strictEqual(email.subject, 'Your week: +$35.50 across 4 settled trades');
+  assert.ok(email.text.includes('- Trades settled: 4 (2 won, 1 lost, 1 pushed or voided)'));
+  assert.ok(email.text.includes('- Net P&L: +$35.50 (last week -$40.00)'));
+  assert.ok(email.text.includes('- Win rate: 67% (up from 50% last week)'));
+  assert.ok(email.text.includes('- 2025-01-14: Los Angeles Lakers vs Boston Celtics'));
+  assert.ok(email.text.includes('- @hooper (2 replies): Post hooper'));
+  assert.ok(email.text.includes('Turn them off at https://example.com/profile'));
+});
+
+test('the HTML body escapes user content', () => {
+  const email = renderWeeklyDigest(
+    digest({ username: '<b>fan</b>', topPosts: [{ ...post('x', 1, '2025-01-08', ['e1']), content: '<script>' }] }),
+    'https://example.com'
+  );
+  assert.ok(email.html.includes('Hi &lt;b&gt;fan&lt;/b&gt;'));
+  assert.ok(email.html.includes('&lt;script&gt;'));
+  assert.ok(!email.html.includes('<script>'));
+});
+
+test('digests with nothing settled or upcoming are not sent', () => {
+  const empty = digest({ thisWeek: summarizeWeek([]), upcomingGames: [], topPosts: [] });
+  assert.strictEqual(hasDigestContent(empty), false);
+  assert.strictEqual(hasDigestContent({ ...empty, upcomingGames: digest().upcomingGames }), true);
+  assert.ok(renderWeeklyDigest(empty, '').text.includes('Win rate: No bets won or lost this week'));
+});
+
+test('the transport is chosen from the environment', () => {
+  assert.strictEqual(createMailTransport({}), null);
+  assert.strictEqual(createMailTransport({ MAIL_TRANSPORT: 'file' }).name, 'file');
+  assert.strictEqual(createMailTransport({ MAIL_TRANSPORT: 'smtp' }).name, 'smtp');
+});
+
+test('messages are formatted with text and HTML parts', () => {
+  const raw = formatMessage(message, new Date('2025-01-13T09:00:00Z'));
+  assert.ok(raw.startsWith('From: MeiYunDong <digest@localhost>\r\nTo: Fan <fan@example.com>\r\n'));
+  assert.ok(raw.includes('Date: Mon, 13 Jan 2025 09:00:00 GMT'));
+  assert.ok(raw.includes('Content-Type: text/plain; charset=utf-8\r\n\r\nHello\r\n.starts with a dot'));
+  assert.ok(raw.includes('Content-Type: text/html; charset=utf-8\r\n\r\n<p>Hello</p>'));
+});
+
+test('the file transport writes an .eml file per message', async () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-outbox-'));
+  try {
+    await new FileTransport(directory).send(message);
+    const files = fs.readdirSync(directory);
+    assert.strictEqual(files.length, 1);
+    assert.ok(files[0].endsWith('-fan@example.com.eml'));
+    assert.ok(fs.readFileSync(path.join(directory, files[0]), 'utf8').includes('Subject: Your week'));
+  } finally {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+// Stand-in SMTP catcher that records the commands it receives
+function startSmtpServer(replies = {}) {
+  const received = [];
+  const server = net.createServer((socket) => {
+    let inData = false;
+    let buffer = '';
+    socket.write('220 catcher ready\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        received.push(line);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+          continue;
+        }
+        const verb = line.split(/[ :]/)[0];
+        if (replies[verb]) socket.write(`${replies[verb]}\r\n`);
+        else if (verb === 'EHLO') socket.write('250-catcher\r\n250 AUTH PLAIN\r\n');
+        else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'QUIT') socket.end('221 bye\r\n');
+        else if (verb === 'AUTH') socket.write('235 ok\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: server.address().port, received }));
+  });
+}
+
+test('the SMTP transport delivers to a local catcher', async () => {
+  const { server, port, received } = await startSmtpServer();
+  try {
+    await new SmtpTransport({ host: '127.0.0.1', port, user: 'dev', pass: 'secret' }).send(message);
+    assert.strictEqual(received[0], 'EHLO localhost');
+    assert.strictEqual(received[1], `AUTH PLAIN ${Buffer.from('\0dev\0secret').toString('base64')}`);
+    assert.strictEqual(received[2], 'MAIL FROM:<digest@localhost>');
+    assert.strictEqual(received[3], 'RCPT TO:<fan@example.com>');
+    assert.ok(received.includes('..starts with a dot'));
+    assert.strictEqual(received[received.length - 1], 'QUIT');
+  } finally {
+    server.close();
+  }
+});
+
+test('the SMTP transport rejects when the server refuses a recipient', async () => {
+  const { server, port } = await startSmtpServer({ RCPT: '550 no such user' });
+  try {
+    await assert.rejects(
+      new SmtpTransport({ host: '127.0.0.1', port }).send(message),
+      /SMTP server replied "550 no such user" to RCPT TO:<fan@example.com>/
+    );
+  } finally {
+    server.close();
+  }
+});
+
+run();
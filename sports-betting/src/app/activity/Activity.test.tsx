@@ -109,4 +109,136 @@ describe('<ActivityPage />', () => {
     expect(tradeCard).toHaveClass('border-yellow-400');
     expect(tradeCard).toHaveClass('animate-glow-border');
   });
-});
\ No newline at end of file
+
+  it('renders a parlay trade with one line per leg', async () => {
+    const mockParlay = {
+      id: 'p1',
+      type: 'parlay' as const,
+      amount: 20,
+      expectedPayout: 80,
+      status: 'Pending',
+      createdAt: { _seconds: 1700000000, _nanoseconds: 0 },
+      legs: [
+        {
+          eventId: 'e1',
+          selectedTeam: 'home' as const,
+          event: { home_team: { full_name: 'Lakers' }, visitor_team: { full_name: 'Celtics' } }
+        },
+        {
+          eventId: 'e2',
+          selectedTeam: 'draw' as const,
+          event: { home_team: { full_name: 'Arsenal' }, visitor_team: { full_name: 'Chelsea' } }
+        }
+      ]
+    };
+    const mockFn = jest.fn().mockResolvedValue({ data: { trades: [mockParlay] } });
+    (httpsCallable as jest.Mock).mockReturnValue(mockFn);
+
+    await act(async () => {
+      render(<ActivityPage />);
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('2-Leg Parlay')).toBeInTheDocument();
+      expect(screen.getByText('Lakers (vs Celtics)')).toBeInTheDocument();
+      expect(screen.getByText('Draw (Arsenal vs Chelsea)')).toBeInTheDocument();
+    });
+  });
+
+  it('shows the line for spread and total trades', async () => {
+    const event = { home_team: { full_name: 'Lakers' }, visitor_team: { full_name: 'Celtics' } };
+    const mockTrades = [
+      {
+        id: 's1',
+        market: 'spread' as const,
+        line: -4.5,
+        amount: 10,
+        expectedPayout: 20,
+        selectedTeam: 'visitor' as const,
+        status: 'Push',
+        createdAt: { _seconds: 1700000000, _nanoseconds: 0 },
+        event
+      },
+      {
+        id: 's2',
+        market: 'total' as const,
+        line: 221.5,
+        amount: 10,
+        expectedPayout: 20,
+        selectedTeam: 'over' as const,
+        status: 'Pending',
+        createdAt: { _seconds: 1700000000, _nanoseconds: 0 },
+        event
+      }
+    ];
+    const mockFn = jest.fn().mockResolvedValue({ data: { trades: mockTrades } });
+    (httpsCallable as jest.Mock).mockReturnValue(mockFn);
+
+    await act(async () => {
+      render(<ActivityPage />);
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('Celtics +4.5')).toBeInTheDocument();
+      expect(screen.getByText('Over 221.5')).toBeInTheDocument();
+      expect(screen.getByText('Lakers vs Celtics')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Push')).toHaveClass('bg-gray-100');
+  });
+
+  it('shows the refunded stake on voided trades', async () => {
+    const mockTrades = [
+      {
+        id: 'v1',
+        amount: 25,
+        expectedPayout: 50,
+        selectedTeam: 'home' as const,
+        status: 'Void',
+        createdAt: { _seconds: 1700000000, _nanoseconds: 0 },
+        event: { home_team: { full_name: 'Lakers' }, visitor_team: { full_name: 'Celtics' } }
+      }
+    ];
+    const mockFn = jest.fn().mockResolvedValue({ data: { trades: mockTrades } });
+    (httpsCallable as jest.Mock).mockReturnValue(mockFn);
+
+    await act(async () => {
+      render(<ActivityPage />);
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('Void')).toHaveClass('bg-gray-100');
+    });
+    expect(screen.getByText('Refunded: $25')).toBeInTheDocument();
+    expect(screen.queryByText(/Potential Payout/)).not.toBeInTheDocument();
+  });
+
+  it('describes soccer side market trades', async () => {
+    const event = { home_team: { full_name: 'Arsenal' }, visitor_team: { full_name: 'Chelsea' } };
+    const baseTrade = {
+      amount: 10,
+      expectedPayout: 20,
+      status: 'Pending',
+      createdAt: { _seconds: 1700000000, _nanoseconds: 0 },
+      event
+    };
+    const mockTrades = [
+      { ...baseTrade, id: 'd1', market: 'doubleChance' as const, selectedTeam: 'drawOrAway' as const },
+      { ...baseTrade, id: 'b1', market: 'bothTeamsToScore' as const, selectedTeam: 'yes' as const },
+      { ...baseTrade, id: 'g1', market: 'totalGoals' as const, line: 2.5, selectedTeam: 'under' as const },
+      { ...baseTrade, id: 'h1', market: 'halfTimeResult' as const, selectedTeam: 'home' as const }
+    ];
+    const mockFn = jest.fn().mockResolvedValue({ data: { trades: mockTrades } });
+    (httpsCallable as jest.Mock).mockReturnValue(mockFn);
+
+    await act(async () => {
+      render(<ActivityPage />);
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('Draw or Chelsea')).toBeInTheDocument();
+      expect(screen.getByText('Both Teams to Score: Yes')).toBeInTheDocument();
+      expect(screen.getByText('Under 2.5 Goals')).toBeInTheDocument();
+      expect(screen.getByText('Half-Time: Arsenal')).toBeInTheDocument();
+    });
+  });
+});
@@ -5,6 +5,8 @@ import { useEffect, useState, useRef, useCallback } from "react";
 import { httpsCallable } from "firebase/functions";
 import { functions } from "@/lib/firebase";
 import { Timestamp } from "firebase/firestore";
+import type { BetMarket, BetSelection } from "@/types/events";
+import { getSelectionLabel, isTeamMarket } from "@/utils/markets";
 
 // Define a type for serialized Firestore timestamp
 interface SerializedTimestamp {
@@ -12,21 +14,42 @@ interface SerializedTimestamp {
   _nanoseconds: number;
 }
 
+interface TradeEvent {
+  home_team: {
+    full_name: string;
+  };
+  visitor_team: {
+    full_name: string;
+  };
+}
+
 interface Trade {
   id: string;
   amount: number;
   expectedPayout: number;
-  selectedTeam: 'home' | 'visitor';
+  selectedTeam: BetSelection;
   status: string;
   createdAt: SerializedTimestamp;
-  event?: {
-    home_team: {
-      full_name: string;
-    };
-    visitor_team: {
-      full_name: string;
-    };
-  };
+  event?: TradeEvent;
+  type?: 'single' | 'parlay';
+  market?: BetMarket;
+  line?: number;
+  legs?: {
+    eventId: string;
+    selectedTeam: 'home' | 'visitor' | 'draw';
+    event?: TradeEvent | null;
+  }[];
+}
+
+// Short label for one parlay leg, e.g. "Lakers (vs Celtics)"
+function describeLeg(leg: NonNullable<Trade['legs']>[number]) {
+  if (!leg.event) return 'Unknown event';
+  if (leg.selectedTeam === 'draw') {
+    return `Draw (${leg.event.home_team.full_name} vs ${leg.event.visitor_team.full_name})`;
+  }
+  return leg.selectedTeam === 'home'
+    ? `${leg.event.home_team.full_name} (vs ${leg.event.visitor_team.full_name})`
+    : `${leg.event.visitor_team.full_name} (vs ${leg.event.home_team.full_name})`;
 }
 
 const PAGE_SIZE = 15;
@@ -168,16 +191,29 @@ export default function ActivityPage() {
               >
                 <div className="flex justify-between items-start mb-3">
                   <div>
-                    <h3 className="font-semibold">
-                      {trade.selectedTeam === 'home'
-                        ? trade.event?.home_team.full_name
-                        : trade.event?.visitor_team.full_name}
-                    </h3>
-                    <p className="text-sm text-gray-500 dark:text-gray-400">
-                      vs {trade.selectedTeam === 'home'
-                        ? trade.event?.visitor_team.full_name
-                        : trade.event?.home_team.full_name}
-                    </p>
+                    {trade.type === 'parlay' ? (
+                      <>
+                        <h3 className="font-semibold">{trade.legs?.length ?? 0}-Leg Parlay</h3>
+                        <ul className="text-sm text-gray-500 dark:text-gray-400">
+                          {trade.legs?.map(leg => (
+                            <li key={leg.eventId}>{describeLeg(leg)}</li>
+                          ))}
+                        </ul>
+                      </>
+                    ) : (
+                      <>
+                        <h3 className="font-semibold">
+                          {trade.event && getSelectionLabel(trade.event, trade.selectedTeam, trade.market, trade.line)}
+                        </h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {!isTeamMarket(trade.market)
+                            ? `${trade.event?.home_team.full_name} vs ${trade.event?.visitor_team.full_name}`
+                            : `vs ${trade.selectedTeam === 'home'
+                              ? trade.event?.visitor_team.full_name
+                              : trade.event?.home_team.full_name}`}
+                        </p>
+                      </>
+                    )}
                     <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
                       {formattedDate 
                         ? formattedDate.toLocaleDateString(undefined, {
@@ -197,6 +233,8 @@ export default function ActivityPage() {
                         ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-400'
                         : trade.status === 'Won'
                         ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-400'
+                        : trade.status === 'Push' || trade.status === 'Void'
+                        ? 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
                         : 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-400'
                     }`}>
                       {trade.status}
@@ -208,7 +246,9 @@ export default function ActivityPage() {
                     Bet Amount: ${trade.amount}
                   </span>
                   <span className="text-gray-500 dark:text-gray-400">
-                    Potential Payout: ${trade.expectedPayout.toFixed(2)}
+                    {trade.status === 'Void'
+                      ? `Refunded: $${trade.amount}`
+                      : `Potential Payout: $${trade.expectedPayout.toFixed(2)}`}
                   </span>
                 </div>
               </div>
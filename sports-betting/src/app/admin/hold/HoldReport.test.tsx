@@ -0,0 +1,81 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import HoldReportPage from './page';
+
+jest.mock('firebase/functions', () => ({
+  httpsCallable: jest.fn(),
+}));
+
+jest.mock('@/lib/firebase', () => ({
+  functions: {},
+}));
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+import { httpsCallable } from 'firebase/functions';
+import { useAuth } from '@/contexts/AuthContext';
+
+const mockReport = {
+  from: '2025-01-03',
+  to: '2025-01-24',
+  handle: 500,
+  expectedHold: 23.81,
+  theoreticalHold: 0.047619,
+  events: [
+    {
+      eventId: '101',
+      sport: 'basketball',
+      date: '2025-01-10',
+      homeTeam: 'Boston Celtics',
+      visitorTeam: 'Miami Heat',
+      margin: 0.05,
+      markets: [],
+      handle: 500,
+      theoreticalHold: 0.047619,
+      expectedHold: 23.81,
+    },
+  ],
+};
+
+describe('HoldReportPage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (useAuth as jest.Mock).mockReturnValue({ user: { uid: 'admin1' } });
+  });
+
+  test('shows the hold of each event and the totals', async () => {
+    const getHoldReport = jest.fn().mockResolvedValue({ data: mockReport });
+    (httpsCallable as jest.Mock).mockReturnValue(getHoldReport);
+
+    render(<HoldReportPage />);
+
+    expect(await screen.findByText('Boston Celtics vs Miami Heat')).toBeInTheDocument();
+    expect(screen.getByText('5.00%')).toBeInTheDocument();
+    expect(screen.getAllByText('4.76%')).toHaveLength(2);
+    expect(screen.getAllByText('$500.00')).toHaveLength(2);
+    expect(httpsCallable).toHaveBeenCalledWith({}, 'getHoldReport');
+  });
+
+  test('filters the report by sport', async () => {
+    const getHoldReport = jest.fn().mockResolvedValue({ data: mockReport });
+    (httpsCallable as jest.Mock).mockReturnValue(getHoldReport);
+
+    render(<HoldReportPage />);
+    await screen.findByText('Boston Celtics vs Miami Heat');
+    fireEvent.click(screen.getByRole('button', { name: 'Soccer' }));
+
+    await waitFor(() => expect(getHoldReport).toHaveBeenLastCalledWith({ sport: 'soccer' }));
+  });
+
+  test('tells non-admins they cannot view the report', async () => {
+    const getHoldReport = jest.fn().mockRejectedValue({ code: 'functions/permission-denied' });
+    (httpsCallable as jest.Mock).mockReturnValue(getHoldReport);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    render(<HoldReportPage />);
+
+    expect(await screen.findByText('Only admins can view the hold report.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Sport } from '@/types/events';
+import { SPORTS, getSportLabel } from '@/utils/sports';
+import { formatCurrency } from '@/utils/formatters';
+
+interface MarketHold {
+  market: string;
+  offeredOdds: { [selection: string]: number };
+  overround: number;
+  theoreticalHold: number;
+  handle: number;
+}
+
+interface EventHold {
+  eventId: string;
+  sport: Sport;
+  date: string | null;
+  homeTeam: string | null;
+  visitorTeam: string | null;
+  margin: number;
+  markets: MarketHold[];
+  handle: number;
+  theoreticalHold: number;
+  expectedHold: number;
+}
+
+interface HoldReport {
+  from: string;
+  to: string;
+  events: EventHold[];
+  handle: number;
+  expectedHold: number;
+  theoreticalHold: number;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+/**
+ * Admin report of the house's theoretical hold on each event, from the
+ * margin on its odds and the amount staked on each market
+ */
+export default function HoldReportPage() {
+  const { user } = useAuth();
+  const [sport, setSport] = useState<Sport | null>(null);
+  const [report, setReport] = useState<HoldReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const getHoldReport = httpsCallable(functions, 'getHoldReport');
+        const response = await getHoldReport(sport ? { sport } : {});
+        setReport(response.data as HoldReport);
+      } catch (error: any) {
+        console.error('Error fetching hold report:', error);
+        setError(
+          error?.code === 'functions/permission-denied'
+            ? 'Only admins can view the hold report.'
+            : 'Failed to load the hold report.'
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [user, sport]);
+
+  if (!user) {
+    return (
+      <div className="max-w-5xl mx-auto py-8 px-4">
+        <p className="text-gray-500 dark:text-gray-400">Please sign in to view the hold report.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto py-8 px-4">
+      <h2 className="text-2xl font-bold mb-2">House Hold</h2>
+      {report && (
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Events from {report.from} to {report.to}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        <button
+          onClick={() => setSport(null)}
+          className={`px-3 py-1.5 rounded-full text-sm ${
+            sport === null ? 'bg-blue-600 text-white' : 'bg-gray-200 dark:bg-gray-700'
+          }`}
+        >
+          All Sports
+        </button>
+        {SPORTS.map(config => (
+          <button
+            key={config.sport}
+            onClick={() => setSport(config.sport)}
+            className={`px-3 py-1.5 rounded-full text-sm ${
+              sport === config.sport ? 'bg-blue-600 text-white' : 'bg-gray-200 dark:bg-gray-700'
+            }`}
+          >
+            {config.label}
+          </button>
+        ))}
+      </div>
+
+      {error ? (
+        <p className="text-red-600 dark:text-red-400">{error}</p>
+      ) : loading || !report ? (
+        <div className="animate-pulse space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-12 bg-gray-200 dark:bg-gray-700 rounded-xl" />
+          ))}
+        </div>
+      ) : report.events.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400">No events in this range.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800">
+              <p className="text-sm text-gray-500 dark:text-gray-400">Handle</p>
+              <p className="text-xl font-semibold">{formatCurrency(report.handle)}</p>
+            </div>
+            <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800">
+              <p className="text-sm text-gray-500 dark:text-gray-400">Expected Hold</p>
+              <p className="text-xl font-semibold">{formatCurrency(report.expectedHold)}</p>
+            </div>
+            <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800">
+              <p className="text-sm text-gray-500 dark:text-gray-400">Hold %</p>
+              <p className="text-xl font-semibold">{formatPercent(report.theoreticalHold)}</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-400 border-b dark:border-gray-700">
+                  <th className="py-2 pr-4">Event</th>
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4 text-right">Margin</th>
+                  <th className="py-2 pr-4 text-right">Hold %</th>
+                  <th className="py-2 pr-4 text-right">Handle</th>
+                  <th className="py-2 text-right">Expected Hold</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.events.map(event => (
+                  <tr key={event.eventId} className="border-b dark:border-gray-800">
+                    <td className="py-2 pr-4">
+                      <p className="font-medium">
+                        {event.homeTeam && event.visitorTeam
+                          ? `${event.homeTeam} vs ${event.visitorTeam}`
+                          : event.eventId}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {getSportLabel(event.sport)} · {event.markets.length} markets
+                      </p>
+                    </td>
+                    <td className="py-2 pr-4">{event.date?.slice(0, 10) || '-'}</td>
+                    <td className="py-2 pr-4 text-right">{formatPercent(event.margin)}</td>
+                    <td className="py-2 pr-4 text-right">{formatPercent(event.theoreticalHold)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(event.handle)}</td>
+                    <td className="py-2 text-right">{formatCurrency(event.expectedHold)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
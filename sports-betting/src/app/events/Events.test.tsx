@@ -37,9 +37,8 @@ jest.mock('next/image', () => ({
 }));
 
 // Heavy child components
-jest.mock('@/components/TeamLogo', () => ({
-  __esModule: true,
-  default: ({ abbreviation }: { abbreviation: string }) => (
+jest.mock('@/components/common/TeamLogo', () => ({
+  TeamLogo: ({ abbreviation }: { abbreviation: string }) => (
     <div data-testid="team-logo">{abbreviation}</div>
   ),
 }));
@@ -102,6 +101,18 @@ const mockEvents = [
     homeTeamCurrentOdds: 55,
     visitorTeamCurrentOdds: 45,
   },
+  {
+    id: 'nhl_2025020001',
+    sport: 'hockey',
+    status: 'FUT',
+    date: '2025-05-06',
+    datetime: '2025-05-06T23:00:00Z',
+    trades: [],
+    home_team:    { abbreviation: 'BOS', full_name: 'Boston Bruins' },
+    visitor_team: { abbreviation: 'TOR', full_name: 'Toronto Maple Leafs' },
+    homeTeamCurrentOdds: 52,
+    visitorTeamCurrentOdds: 48,
+  },
 ];
 
 // Tests
@@ -162,4 +173,30 @@ describe('Events page', () => {
       ).toBeInTheDocument();
     });
   });
+
+  it('shows events from other sports and filters by sport', async () => {
+    (fetchEvents as jest.Mock).mockResolvedValue({
+      events:  mockEvents,
+      lastDoc: null,
+      hasMore: true,
+    });
+
+    await act(async () => render(<Events />));
+
+    // Hockey events start at datetime, not at their status
+    await waitFor(() => {
+      expect(screen.getAllByText('Boston Bruins').length).toBeGreaterThan(0);
+    });
+    expect(screen.getAllByText('Hockey').length).toBeGreaterThan(0);
+
+    // The first button opens the filters
+    fireEvent.click(screen.getAllByRole('button')[0]);
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Hockey' }));
+    });
+
+    expect(fetchEvents).toHaveBeenLastCalledWith(
+      expect.objectContaining({ sportFilter: 'hockey' }),
+    );
+  });
 });
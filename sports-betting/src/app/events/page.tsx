@@ -17,56 +17,20 @@ import {
   setDoc
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import type { Event } from '@/types/events';
-import Image from 'next/image';
+import type { Event, BetMarket, BetSelection, Sport } from '@/types/events';
 import { useAuth } from '@/contexts/AuthContext';
 import DateRangePicker from '@/components/DateRangePicker';
 import GameInfoModal from '@/components/GameInfoModal';
 import BettingModal from '@/components/BettingModal';
 import OddsHistoryChart from '@/components/OddsHistoryChart';
+import { TeamLogo } from '@/components/common/TeamLogo';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 // Import the shared event fetching utility
 import { fetchEvents, fetchEventById, formatEventDate } from '@/utils/eventFetching';
-
-// Import the TeamLogo component from the main page
-function TeamLogo({ 
-  abbreviation, 
-  teamName, 
-  sport, 
-  teamId 
-}: { 
-  abbreviation: string; 
-  teamName: string; 
-  sport?: string; 
-  teamId?: number | string 
-}) {
-  const [imageExists, setImageExists] = useState(true);
-  
-  // For soccer teams, use the football-data.org API
-  let logoUrl = `/logos/${abbreviation}.png`; // Default logo
-  
-  if (sport === 'soccer' && teamId !== undefined) {
-    // Use the football-data.org API for soccer team logos
-    logoUrl = `https://crests.football-data.org/${teamId}.png`;
-  }
-
-  return imageExists ? (
-    <Image
-      src={logoUrl}
-      alt={`${teamName} logo`}
-      width={32}
-      height={32}
-      className="rounded-full"
-      onError={() => setImageExists(false)}
-    />
-  ) : (
-    // Fallback if image doesn't exist
-    <div className="w-8 h-8 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center text-gray-500 dark:text-gray-400 text-xs font-medium">
-      {abbreviation?.substring(0, 2) || "?"}
-    </div>
-  );
-}
+import { SPORTS, getSportLabel } from '@/utils/sports';
+import { formatOdds } from '@/utils/formatters';
+import { getSelectionOdds } from '@/utils/markets';
 
 // Fix formatEventDate to handle various date formats
 function safeFormatEventDate(dateValue: string | Date | undefined | null): string {
@@ -89,13 +53,13 @@ function safeFormatEventDate(dateValue: string | Date | undefined | null): strin
 export default function Events() {
   const [events, setEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedBet, setSelectedBet] = useState<{ event: Event; team: 'home' | 'visitor' | 'draw' } | null>(null);
+  const [selectedBet, setSelectedBet] = useState<{ event: Event; team: BetSelection; market?: BetMarket } | null>(null);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterDates, setFilterDates] = useState<[Date | null, Date | null]>([null, null]);
-  const [sportFilter, setSportFilter] = useState<'soccer' | 'basketball' | null>(null);
+  const [sportFilter, setSportFilter] = useState<Sport | null>(null);
   const [showFilterModal, setShowFilterModal] = useState(false);
-  const { user } = useAuth();
+  const { user, oddsFormat } = useAuth();
 
   // Add debug logging for filterDates
   useEffect(() => {
@@ -288,15 +252,15 @@ export default function Events() {
     );
   }
 
-  // Filter events with valid dates - different handling for soccer vs basketball
+  // Filter events with valid dates - basketball keeps its start time in status
   const validEvents = events.filter(event => {
-    // Soccer events use 'datetime' or 'date' fields
-    if (event.sport === 'soccer') {
-      return isValidDate(event.datetime) || isValidDate(event.date);
-    }
-    
     // Basketball events use 'status' field
-    return isValidDate(event.status);
+    if (event.sport === 'basketball') {
+      return isValidDate(event.status);
+    }
+
+    // Every other sport uses 'datetime' or 'date' fields
+    return isValidDate(event.datetime) || isValidDate(event.date);
   });
 
   return (
@@ -340,7 +304,7 @@ export default function Events() {
             <div className="p-4">
               <div className="flex items-center justify-between mb-4">
                 <span className="px-3 py-1 bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400 rounded-full text-sm font-medium">
-                  {event.sport === 'soccer' ? 'Soccer' : 'Basketball'}
+                  {getSportLabel(event.sport)}
                 </span>
                 <div className="flex items-center gap-2">
                   {event.trades && (
@@ -368,7 +332,7 @@ export default function Events() {
                         {event.home_team.full_name || event.home_team.name || 'Home Team'}
                       </div>
                       <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                        {event.homeTeamCurrentOdds || '0'}% chance
+                        {formatOdds(getSelectionOdds(event, 'home'), oddsFormat)}
                       </div>
                     </div>
                   </div>
@@ -377,7 +341,7 @@ export default function Events() {
                 <div className="flex flex-col items-center justify-center">
                   {event.sport === 'soccer' && event.drawOdds && (
                     <div className="text-sm bg-yellow-100 dark:bg-yellow-900 text-yellow-600 dark:text-yellow-400 px-2 py-1 rounded mb-1">
-                      Draw: {event.drawOdds}%
+                      Draw: {formatOdds(getSelectionOdds(event, 'draw'), oddsFormat)}
                     </div>
                   )}
                   {event.sport === 'soccer' && event.competition && (
@@ -395,7 +359,7 @@ export default function Events() {
                         {event.visitor_team.full_name || event.visitor_team.name || 'Away Team'}
                       </div>
                       <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                        {event.visitorTeamCurrentOdds || '0'}% chance
+                        {formatOdds(getSelectionOdds(event, 'visitor'), oddsFormat)}
                       </div>
                     </div>
                     <TeamLogo
@@ -412,9 +376,9 @@ export default function Events() {
             {/* Footer */}
             <div className="p-3 bg-gray-50 dark:bg-gray-700 text-center text-xs mt-auto">
               <span className="text-gray-500 dark:text-gray-400">
-                {event.sport === 'soccer' 
-                  ? safeFormatEventDate(event.datetime || event.date) 
-                  : safeFormatEventDate(event.status)}
+                {event.sport === 'basketball'
+                  ? safeFormatEventDate(event.status)
+                  : safeFormatEventDate(event.datetime || event.date)}
               </span>
             </div>
           </div>
@@ -436,8 +400,8 @@ export default function Events() {
         <GameInfoModal
           event={selectedEvent}
           onClose={() => setSelectedEvent(null)}
-          onSelectTeam={(team: 'home' | 'visitor' | 'draw') => {
-            setSelectedBet({ event: selectedEvent, team });
+          onSelectTeam={(team, market) => {
+            setSelectedBet({ event: selectedEvent, team, market });
             setSelectedEvent(null);
           }}
         />
@@ -448,6 +412,7 @@ export default function Events() {
         <BettingModal
           event={selectedBet.event}
           selectedTeam={selectedBet.team}
+          market={selectedBet.market}
           onClose={() => setSelectedBet(null)}
         />
       )}
@@ -471,7 +436,7 @@ export default function Events() {
             {/* Sport Filter */}
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Sport</label>
-              <div className="flex space-x-3">
+              <div className="flex flex-wrap gap-3">
                 <button
                   onClick={() => setSportFilter(null)}
                   className={`px-4 py-2 rounded-lg transition-colors ${
@@ -482,26 +447,19 @@ export default function Events() {
                 >
                   All
                 </button>
-                <button
-                  onClick={() => setSportFilter('soccer')}
-                  className={`px-4 py-2 rounded-lg transition-colors ${
-                    sportFilter === 'soccer'
-                      ? 'bg-blue-600 text-white'
-                      : 'border border-gray-300 dark:border-gray-600 bg-transparent hover:bg-gray-100 dark:hover:bg-gray-700'
-                  }`}
-                >
-                  Soccer
-                </button>
-                <button
-                  onClick={() => setSportFilter('basketball')}
-                  className={`px-4 py-2 rounded-lg transition-colors ${
-                    sportFilter === 'basketball'
-                      ? 'bg-blue-600 text-white'
-                      : 'border border-gray-300 dark:border-gray-600 bg-transparent hover:bg-gray-100 dark:hover:bg-gray-700'
-                  }`}
-                >
-                  Basketball
-                </button>
+                {SPORTS.map(({ sport, label }) => (
+                  <button
+                    key={sport}
+                    onClick={() => setSportFilter(sport)}
+                    className={`px-4 py-2 rounded-lg transition-colors ${
+                      sportFilter === sport
+                        ? 'bg-blue-600 text-white'
+                        : 'border border-gray-300 dark:border-gray-600 bg-transparent hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
               </div>
             </div>
             
@@ -12,18 +12,17 @@ import {
   getDoc,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import type { Event } from '@/types/events';
+import type { Event, BetMarket, BetSelection } from '@/types/events';
 import type { Post } from '@/types/post';
 import Image from 'next/image';
 import { useAuth } from '@/contexts/AuthContext';
 import GameInfoModal from '@/components/GameInfoModal';
 import BettingModal from '@/components/BettingModal';
 import PostItem from '@/components/PostItem';
-import TeamLogo from '@/components/TeamLogo';
 
 export default function ForYou() {
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
-  const [selectedBet, setSelectedBet] = useState<{ event: Event; team: 'home' | 'visitor' | 'draw' } | null>(null);
+  const [selectedBet, setSelectedBet] = useState<{ event: Event; team: BetSelection; market?: BetMarket } | null>(null);
   const [posts, setPosts] = useState<Post[]>([]);
   const [loadingPosts, setLoadingPosts] = useState(true);
 
@@ -171,8 +170,8 @@ export default function ForYou() {
         <GameInfoModal
           event={selectedEvent}
           onClose={() => setSelectedEvent(null)}
-          onSelectTeam={(team) => {
-            setSelectedBet({ event: selectedEvent, team });
+          onSelectTeam={(team, market) => {
+            setSelectedBet({ event: selectedEvent, team, market });
             setSelectedEvent(null);
           }}
         />
@@ -183,6 +182,7 @@ export default function ForYou() {
         <BettingModal
           event={selectedBet.event}
           selectedTeam={selectedBet.team}
+          market={selectedBet.market}
           onClose={() => setSelectedBet(null)}
         />
       )}
@@ -2,8 +2,10 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { ParlayProvider } from "@/contexts/ParlayContext";
 import { Navbar } from "@/components/Navbar";
 import UsernameCheck from "@/components/UsernameCheck";
+import ParlaySlip from "@/components/ParlaySlip";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -23,11 +25,14 @@ export default function RootLayout({
     <html lang="en" className="dark">
       <body className={`${inter.className} bg-gray-900`}>
         <AuthProvider>
-          <UsernameCheck />
-          <Navbar />
-          <main className="container mx-auto p-4">
-            {children}
-          </main>
+          <ParlayProvider>
+            <UsernameCheck />
+            <Navbar />
+            <main className="container mx-auto p-4">
+              {children}
+            </main>
+            <ParlaySlip />
+          </ParlayProvider>
         </AuthProvider>
       </body>
     </html>
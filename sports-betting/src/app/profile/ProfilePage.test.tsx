@@ -8,6 +8,7 @@ import {
 } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { httpsCallable } from 'firebase/functions';
+import { useSearchParams } from 'next/navigation';
 import ProfilePage from './page';
 import { useAuth } from '@/contexts/AuthContext';
 import {
@@ -17,6 +18,7 @@ import {
   where,
   orderBy,
   collection,
+  updateDoc,
 } from 'firebase/firestore';
 
 
@@ -41,6 +43,9 @@ jest.mock('firebase/firestore', () => ({
   limit:       jest.fn(),
   collection:  jest.fn(),
   doc:         jest.fn((db, col, id) => ({ path: `${col}/${id}` })),
+  updateDoc:   jest.fn(() => Promise.resolve()),
+  arrayUnion:  jest.fn((...ids) => ({ arrayUnion: ids })),
+  arrayRemove: jest.fn((...ids) => ({ arrayRemove: ids })),
 }));
 
 // Firebase functions
@@ -109,6 +114,13 @@ const mockTrade = {
   },
 };
 
+const noGamingLimits = {
+  limits: { dailyDeposit: null, weeklyDeposit: null, monthlyDeposit: null, netLoss: null, maxStake: null },
+  pendingLimits: {},
+  coolOffUntil: null,
+  selfExcludedUntil: null,
+};
+
 const mockPosts = [
   {
     id: 'post1',
@@ -126,10 +138,16 @@ const mockPosts = [
 beforeEach(() => {
   jest.clearAllMocks();
 
+  (useSearchParams as jest.Mock).mockImplementation(() =>
+    new URLSearchParams('userId=123&username=testuser')
+  );
+
   // Auth hook
   (useAuth as jest.Mock).mockReturnValue({
     user: mockUser,
     username: 'testuser',
+    oddsFormat: 'percentage',
+    setOddsFormat: jest.fn(() => Promise.resolve()),
   });
 
 
@@ -234,6 +252,149 @@ describe('ProfilePage', () => {
     ).toBeInTheDocument();
   });
 
+  test('deposits through the depositFunds callable', async () => {
+    const deposit = jest.fn(() => Promise.resolve({ data: { walletBalance: 1250 } }));
+    (httpsCallable as jest.Mock).mockImplementation((_functions, name) =>
+      name === 'depositFunds'
+        ? deposit
+        : () => Promise.resolve({
+            data: { photoURL: null, username: 'testuser', trades: [mockTrade], private: false },
+          }),
+    );
+
+    await act(async () => render(<ProfilePage />));
+    fireEvent.click(await screen.findByText('Add Funds'));
+    const amountInput = screen.getByLabelText(/Amount \(USD\)/);
+    fireEvent.change(amountInput, { target: { value: '250' } });
+    await act(async () => {
+      fireEvent.submit(amountInput.closest('form')!);
+    });
+
+    expect(deposit).toHaveBeenCalledWith({ amount: 250 });
+    expect(await screen.findByText('$1,250.00')).toBeInTheDocument();
+  });
+
+  test('shows wallet ledger entries on the Wallet tab', async () => {
+    const mockTransactions = [
+      { id: 'w1', userId: '123', type: 'payout', amount: 200, createdAt: 1700000000000 },
+      { id: 'w2', userId: '123', type: 'stake', amount: -100, createdAt: 1699990000000 },
+    ];
+    (httpsCallable as jest.Mock).mockImplementation((_functions, name) => () =>
+      Promise.resolve({
+        data: name === 'getWalletTransactions'
+          ? { transactions: mockTransactions, hasMore: false }
+          : name === 'getResponsibleGaming'
+            ? noGamingLimits
+            : { photoURL: null, username: 'testuser', trades: [mockTrade], private: false },
+      }),
+    );
+
+    await act(async () => render(<ProfilePage />));
+    await act(async () => {
+      fireEvent.click(await screen.findByRole('button', { name: 'Wallet' }));
+    });
+
+    expect(await screen.findByText('Winnings')).toBeInTheDocument();
+    expect(screen.getByText('+$200.00')).toBeInTheDocument();
+    expect(screen.getByText('Bet placed')).toBeInTheDocument();
+    expect(screen.getByText('-$100.00')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+  });
+
+  test('saves responsible gaming limits and shows pending increases', async () => {
+    const setLimits = jest.fn(() => Promise.resolve({
+      data: {
+        ...noGamingLimits,
+        limits: { ...noGamingLimits.limits, dailyDeposit: 50 },
+        pendingLimits: { maxStake: { value: 500, effectiveAt: 1700000000000 } },
+      },
+    }));
+    (httpsCallable as jest.Mock).mockImplementation((_functions, name) =>
+      name === 'setResponsibleGamingLimits'
+        ? setLimits
+        : () => Promise.resolve({
+            data: name === 'getWalletTransactions'
+              ? { transactions: [], hasMore: false }
+              : name === 'getResponsibleGaming'
+                ? { ...noGamingLimits, limits: { ...noGamingLimits.limits, maxStake: 100 } }
+                : { photoURL: null, username: 'testuser', trades: [mockTrade], private: false },
+          }),
+    );
+
+    await act(async () => render(<ProfilePage />));
+    await act(async () => {
+      fireEvent.click(await screen.findByRole('button', { name: 'Wallet' }));
+    });
+
+    fireEvent.change(await screen.findByLabelText('Daily deposit limit'), { target: { value: '50' } });
+    fireEvent.change(screen.getByLabelText('Maximum stake per bet'), { target: { value: '500' } });
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Save Limits' }));
+    });
+
+    // Only changed limits are sent
+    expect(setLimits).toHaveBeenCalledWith({ limits: { dailyDeposit: 50, maxStake: 500 } });
+    expect(screen.getByText(/Increasing to \$500\.00/)).toBeInTheDocument();
+  });
+
+  test('asks for confirmation before self-excluding', async () => {
+    const startBreak = jest.fn(() => Promise.resolve({
+      data: { ...noGamingLimits, selfExcludedUntil: Date.now() + 1e10 },
+    }));
+    (httpsCallable as jest.Mock).mockImplementation((_functions, name) =>
+      name === 'startGamingBreak'
+        ? startBreak
+        : () => Promise.resolve({
+            data: name === 'getWalletTransactions'
+              ? { transactions: [], hasMore: false }
+              : name === 'getResponsibleGaming'
+                ? noGamingLimits
+                : { photoURL: null, username: 'testuser', trades: [mockTrade], private: false },
+          }),
+    );
+
+    await act(async () => render(<ProfilePage />));
+    await act(async () => {
+      fireEvent.click(await screen.findByRole('button', { name: 'Wallet' }));
+    });
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Self-Exclude' }));
+    expect(startBreak).not.toHaveBeenCalled();
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Confirm Self-Exclusion' }));
+    });
+
+    expect(startBreak).toHaveBeenCalledWith({ type: 'selfExclusion', duration: 6 });
+    expect(screen.getByText(/You are self-excluded until/)).toBeInTheDocument();
+  });
+
+  test('follows another user from their profile', async () => {
+    // The same params on every render, as in the app
+    const otherProfile = new URLSearchParams('userId=456&username=otheruser');
+    (useSearchParams as jest.Mock).mockImplementation(() => otherProfile);
+
+    await act(async () => render(<ProfilePage />));
+    await act(async () => {
+      fireEvent.click(await screen.findByRole('button', { name: 'Follow' }));
+    });
+
+    expect(updateDoc).toHaveBeenCalledWith({ path: 'users/123' }, { following: { arrayUnion: ['456'] } });
+    expect(screen.getByRole('button', { name: 'Following' })).toBeInTheDocument();
+  });
+
+  test('turns on the weekly summary email from your own profile', async () => {
+    await act(async () => render(<ProfilePage />));
+    const toggle = await screen.findByRole('switch', { name: 'Weekly summary email' });
+    expect(toggle).toHaveAttribute('aria-checked', 'false');
+
+    await act(async () => {
+      fireEvent.click(toggle);
+    });
+
+    expect(updateDoc).toHaveBeenCalledWith({ path: 'users/123' }, { weeklyDigest: true });
+    expect(toggle).toHaveAttribute('aria-checked', 'true');
+  });
+
   test('switches between Posts and Trades tabs', async () => {
     await act(async () => render(<ProfilePage />));
 
@@ -247,6 +408,146 @@ describe('ProfilePage', () => {
     expect(tradesTab).toHaveClass('border-blue-500');
   });
 
+  test('groups parlay legs into a single trade card', async () => {
+    const mockParlay = {
+      id: 'parlay1',
+      type: 'parlay',
+      amount: 50,
+      expectedPayout: 200,
+      createdAt: { toDate: () => new Date() },
+      status: 'Pending',
+      userId: '123',
+      eventIds: ['event1', 'event2'],
+      legs: [
+        {
+          eventId: 'event1',
+          selectedTeam: 'home',
+          selectedOdds: 50,
+          status: 'Won',
+          event: mockTrade.event,
+        },
+        {
+          eventId: 'event2',
+          selectedTeam: 'visitor',
+          selectedOdds: 50,
+          status: 'Pending',
+          event: {
+            id: 'event2',
+            home_team: { abbreviation: 'BOS', full_name: 'Boston Celtics' },
+            visitor_team: { abbreviation: 'MIA', full_name: 'Miami Heat' },
+            datetime: '2025-04-16T19:30:00',
+          },
+        },
+      ],
+    };
+    (httpsCallable as jest.Mock).mockImplementation(() => () =>
+      Promise.resolve({
+        data: { photoURL: null, username: 'testuser', trades: [mockParlay], private: false },
+      }),
+    );
+
+    await act(async () => render(<ProfilePage />));
+    fireEvent.click(await screen.findByRole('button', { name: 'Trades' }));
+
+    expect(await screen.findByText('2-Leg Parlay')).toBeInTheDocument();
+    expect(screen.getByText('Los Angeles Lakers')).toBeInTheDocument();
+    expect(screen.getByText('Miami Heat')).toBeInTheDocument();
+    expect(screen.getByText('$200.00')).toBeInTheDocument();
+  });
+
+  test('shows the asking price of a listed trade and opens the listing modal', async () => {
+    const listedTrade = {
+      ...mockTrade,
+      status: 'Pending',
+      listing: { askingPrice: 80 },
+    };
+    (httpsCallable as jest.Mock).mockImplementation(() => () =>
+      Promise.resolve({
+        data: { photoURL: null, username: 'testuser', trades: [listedTrade], private: false },
+      }),
+    );
+
+    await act(async () => render(<ProfilePage />));
+    fireEvent.click(await screen.findByRole('button', { name: 'Trades' }));
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Listed at $80.00' }));
+    expect(screen.getByRole('heading', { name: 'Update Listing' })).toBeInTheDocument();
+    expect(screen.getByDisplayValue('80')).toBeInTheDocument();
+  });
+
+  test('lists open limit orders on the trades tab', async () => {
+    const mockOrder = {
+      id: 'order1',
+      eventId: 'event1',
+      selectedTeam: 'home',
+      amount: 50,
+      targetOdds: 40,
+      status: 'Open',
+      createdAt: 1700000000000,
+      expiresAt: null,
+      event: { ...mockTrade.event, homeTeamCurrentOdds: 55 },
+    };
+    (httpsCallable as jest.Mock).mockImplementation((_functions, name) => () =>
+      Promise.resolve({
+        data: name === 'getLimitOrders'
+          ? { orders: [mockOrder] }
+          : { photoURL: null, username: 'testuser', trades: [mockTrade], private: false },
+      }),
+    );
+
+    await act(async () => render(<ProfilePage />));
+    fireEvent.click(await screen.findByRole('button', { name: 'Trades' }));
+
+    expect(await screen.findByText('Open Orders (1)')).toBeInTheDocument();
+    expect(screen.getByText(/\$50\.00 when odds reach 40% or better \(now 55%\)/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Cancel' })).toBeInTheDocument();
+  });
+
+  test('labels the sold part of a partial cash-out', async () => {
+    const soldPart = {
+      ...mockTrade,
+      id: 'trade2',
+      amount: 40,
+      status: 'Sold',
+      soldValue: 50,
+      parentTradeId: 'trade1',
+    };
+    (httpsCallable as jest.Mock).mockImplementation(() => () =>
+      Promise.resolve({
+        data: { photoURL: null, username: 'testuser', trades: [soldPart], private: false },
+      }),
+    );
+
+    await act(async () => render(<ProfilePage />));
+    fireEvent.click(await screen.findByRole('button', { name: 'Trades' }));
+
+    expect(await screen.findByText('Partial cash-out')).toBeInTheDocument();
+  });
+
+  test('filters voided trades and shows the refunded stake', async () => {
+    const voidTrade = { ...mockTrade, id: 'trade2', status: 'Void', amount: 75 };
+    (httpsCallable as jest.Mock).mockImplementation(() => () =>
+      Promise.resolve({
+        data: { photoURL: null, username: 'testuser', trades: [mockTrade, voidTrade], private: false },
+      }),
+    );
+
+    await act(async () => render(<ProfilePage />));
+    fireEvent.click(await screen.findByRole('button', { name: 'Trades' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Void (1)' }));
+
+    expect(screen.getByText('Refunded').nextSibling).toHaveTextContent('$75.00');
+    expect(screen.queryByText('Potential Payout')).not.toBeInTheDocument();
+  });
+
+  test('saves the odds format picked on the profile', async () => {
+    await act(async () => render(<ProfilePage />));
+
+    fireEvent.change(await screen.findByLabelText('Odds format'), { target: { value: 'american' } });
+
+    expect(useAuth().setOddsFormat).toHaveBeenCalledWith('american');
+  });
+
   test('shows sign-in prompt when unauthenticated', async () => {
     // Override auth for this test
     (useAuth as jest.Mock).mockReturnValue({ user: null, username: null });
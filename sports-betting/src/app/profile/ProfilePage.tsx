@@ -1,28 +1,36 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { collection, getDocs, query, where, doc, getDoc, Timestamp, updateDoc, orderBy, limit } from 'firebase/firestore';
+import { collection, getDocs, query, where, doc, getDoc, Timestamp, updateDoc, orderBy, limit, arrayUnion, arrayRemove } from 'firebase/firestore';
 import { db, storage } from '@/lib/firebase';
 import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
 import { useAuth } from '@/contexts/AuthContext';
-import type { Event } from '@/types/events';
+import type { Event, BetMarket, BetSelection } from '@/types/events';
 import type { Post } from '@/types/post';
-import type { Trade } from '@/types/trade'; // Updated import
+import type { Trade, TradeListing } from '@/types/trade'; // Updated import
 import Image from 'next/image';
 import GameInfoModal from '@/components/GameInfoModal';
+import { TeamLogo } from '@/components/common/TeamLogo';
 import BettingModal from '@/components/BettingModal';
-import SellTradeModal from '@/components/SellTradeModal';
+import SellTradeModal, { TradeSale } from '@/components/SellTradeModal';
+import ListTradeModal from '@/components/ListTradeModal';
+import OpenLimitOrders from '@/components/OpenLimitOrders';
+import WalletHistory from '@/components/WalletHistory';
+import ResponsibleGamingSettings from '@/components/ResponsibleGamingSettings';
 import { functions } from '@/lib/firebase';
 import { httpsCallable } from 'firebase/functions';
 import PostItem from '@/components/PostItem';
 import EventSelector from '@/components/EventSelector';
 import { usePathname, useSearchParams } from 'next/navigation';
+import { getSelectionLabel, isTeamMarket } from '@/utils/markets';
+import { ODDS_FORMATS, formatOdds, type OddsFormat } from '@/utils/formatters';
 
 interface UserData {
   trades: string[];
   walletBalance: number;
   lifetimePnl?: number;
   private?: boolean;
+  weeklyDigest?: boolean;
 }
 
 interface ProfileUserData {
@@ -46,44 +54,6 @@ function formatCurrency(amount: number) {
   }).format(amount);
 }
 
-function TeamLogo({ 
-  abbreviation, 
-  teamName, 
-  sport, 
-  teamId 
-}: { 
-  abbreviation: string; 
-  teamName: string; 
-  sport?: string; 
-  teamId?: number | string 
-}) {
-  const [imageExists, setImageExists] = useState(true);
-
-  // For soccer teams, use the football-data.org API
-  let logoUrl = `/logos/${abbreviation}.png`; // Default logo
-  
-  if (sport === 'soccer' && teamId !== undefined) {
-    // Use the football-data.org API for soccer team logos
-    logoUrl = `https://crests.football-data.org/${teamId}.png`;
-  }
-
-  return imageExists ? (
-    <Image
-      src={logoUrl}
-      alt={`${teamName} logo`}
-      width={32}
-      height={32}
-      className="rounded-full"
-      onError={() => setImageExists(false)}
-    />
-  ) : (
-    // Fallback if image doesn't exist
-    <div className="w-8 h-8 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center text-gray-500 dark:text-gray-400 text-xs font-medium">
-      {abbreviation?.substring(0, 2) || "?"}
-    </div>
-  );
-}
-
 function AddFundsModal({ 
   isOpen, 
   onClose, 
@@ -130,9 +100,9 @@ function AddFundsModal({
       await onAddFunds(numAmount);
       onClose();
       setAmount('');
-    } catch (err) {
+    } catch (err: any) {
       console.error('Error in modal while adding funds:', err);
-      setError('Failed to add funds. Please try again.');
+      setError(err?.message || 'Failed to add funds. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -192,6 +162,104 @@ function AddFundsModal({
   );
 }
 
+function ParlayTradeCard({
+  trade,
+  onSelectEvent
+}: {
+  trade: Trade;
+  onSelectEvent: (event: Event) => void;
+}) {
+  const { oddsFormat } = useAuth();
+  const legs = trade.legs || [];
+  const status = trade.status?.toLowerCase();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6 hover:border-gray-300 dark:hover:border-gray-600 transition-all hover:shadow-md">
+      <div className="flex justify-between items-center mb-4 pb-4 border-b border-gray-100 dark:border-gray-700">
+        <div className="flex items-center gap-2">
+          <span className="px-3 py-1 rounded-full text-sm font-medium bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400">
+            {legs.length}-Leg Parlay
+          </span>
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+            status === 'won'
+              ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+              : status === 'lost'
+              ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+              : status === 'void'
+              ? 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+              : 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400'
+          }`}>
+            {trade.status ? trade.status.charAt(0).toUpperCase() + trade.status.slice(1) : 'Unknown'}
+          </span>
+        </div>
+      </div>
+
+      <div className="space-y-3 mb-4">
+        {legs.map((leg) => {
+          const pickedTeam = leg.selectedTeam === 'home'
+            ? leg.event?.home_team
+            : leg.selectedTeam === 'visitor'
+              ? leg.event?.visitor_team
+              : null;
+          return (
+            <div
+              key={leg.eventId}
+              className="flex items-center justify-between gap-4 p-3 bg-gray-50 dark:bg-gray-700/30 rounded-lg cursor-pointer"
+              onClick={() => leg.event && onSelectEvent({ ...leg.event, id: leg.eventId })}
+            >
+              <div className="flex items-center gap-3">
+                {pickedTeam && (
+                  <TeamLogo
+                    abbreviation={pickedTeam.abbreviation}
+                    teamName={pickedTeam.full_name}
+                    sport={leg.event?.sport}
+                    teamId={pickedTeam.id}
+                  />
+                )}
+                <div>
+                  <p className="font-medium">
+                    {leg.selectedTeam === 'draw' ? 'Draw' : pickedTeam?.full_name || 'Unknown Team'}
+                  </p>
+                  {leg.event && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {leg.event.home_team.full_name} vs {leg.event.visitor_team.full_name}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="text-right text-sm">
+                <p className="font-medium">{formatOdds(leg.selectedOdds, oddsFormat)}</p>
+                <p className={
+                  leg.status === 'Won'
+                    ? 'text-green-600 dark:text-green-400'
+                    : leg.status === 'Lost'
+                    ? 'text-red-600 dark:text-red-400'
+                    : 'text-gray-500 dark:text-gray-400'
+                }>
+                  {leg.status}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 bg-gray-50 dark:bg-gray-700/30 p-4 rounded-lg">
+        <div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Bet Amount</p>
+          <p className="text-lg font-semibold mt-1">{formatCurrency(trade.amount)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">Potential Payout</p>
+          <p className="text-lg font-semibold text-green-600 dark:text-green-400 mt-1">
+            {formatCurrency(trade.expectedPayout)}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function formatFullDateTime(date: Date) {
   return new Intl.DateTimeFormat('en-US', {
     weekday: 'short',
@@ -225,13 +293,14 @@ export default function ProfilePage() {
   const [loadingPosts, setLoadingPosts] = useState(true);
   const [walletBalance, setWalletBalance] = useState(0);
   const [lifetimePnl, setLifetimePnl] = useState<number | null>(null);
-  const { user, username } = useAuth();
+  const { user, username, oddsFormat, setOddsFormat } = useAuth();
   const searchParams = useSearchParams();
   const pathname = usePathname();
   const [isAddFundsModalOpen, setIsAddFundsModalOpen] = useState(false);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
-  const [selectedBet, setSelectedBet] = useState<{ event: Event; team: 'home' | 'visitor' | 'draw' } | null>(null);
-  const [activeTab, setActiveTab] = useState<'trades' | 'posts'>('posts');
+  const [selectedBet, setSelectedBet] = useState<{ event: Event; team: BetSelection; market?: BetMarket } | null>(null);
+  const [activeTab, setActiveTab] = useState<'trades' | 'posts' | 'wallet'>('posts');
+  const [walletHistoryKey, setWalletHistoryKey] = useState(0);
   const [newPostContent, setNewPostContent] = useState('');
   const [isSubmittingPost, setIsSubmittingPost] = useState(false);
   const [availableEvents, setAvailableEvents] = useState<Event[]>([]);
@@ -251,12 +320,17 @@ export default function ProfilePage() {
   // New state for profile privacy
   const [isPrivateProfile, setIsPrivateProfile] = useState(false);
   const [updatingPrivacy, setUpdatingPrivacy] = useState(false);
+  const [weeklyDigest, setWeeklyDigest] = useState(false);
+  const [updatingDigest, setUpdatingDigest] = useState(false);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [updatingFollow, setUpdatingFollow] = useState(false);
   // New state for trades search and filtering
   const [tradeSearchQuery, setTradeSearchQuery] = useState<string>('');
-  const [tradeStatusFilter, setTradeStatusFilter] = useState<'all' | 'pending' | 'won' | 'lost' | 'sold'>('all');
+  const [tradeStatusFilter, setTradeStatusFilter] = useState<'all' | 'pending' | 'won' | 'lost' | 'push' | 'void' | 'sold'>('all');
   // New state for trade selling modal
   const [selectedTradeForSale, setSelectedTradeForSale] = useState<Trade | null>(null);
   const [isSellTradeModalOpen, setIsSellTradeModalOpen] = useState(false);
+  const [selectedTradeForListing, setSelectedTradeForListing] = useState<Trade | null>(null);
 
   /**
    * Fetch event by ID from Firestore
@@ -339,6 +413,17 @@ export default function ProfilePage() {
     }
   }, [user, profileUserId]);
 
+  // Whether the logged-in user follows the profile being viewed
+  useEffect(() => {
+    if (!user || !profileUserId || user.uid === profileUserId) return;
+    getDoc(doc(db, 'users', user.uid))
+      .then((userDoc) => {
+        const following: string[] = userDoc.exists() ? userDoc.data()?.following || [] : [];
+        setIsFollowing(following.includes(profileUserId));
+      })
+      .catch((error) => console.error('Error loading followed users:', error));
+  }, [user, profileUserId]);
+
   // Fetch profile user data if viewing another user's profile
   useEffect(() => {
     async function fetchProfileUserData() {
@@ -418,6 +503,7 @@ export default function ProfilePage() {
         setLifetimePnl(userData.lifetimePnl ?? null);
         // Set privacy setting from the 'private' field
         setIsPrivateProfile(userData.private ?? false);
+        setWeeklyDigest(userData.weeklyDigest ?? false);
 
         // try {
         //   const getUserProfileInfo = httpsCallable(functions, 'getUserProfileInfo');
@@ -564,21 +650,13 @@ export default function ProfilePage() {
     }
 
     try {
-      console.log('Adding funds:', amount, 'to user:', user.uid);
-      console.log('Current wallet balance:', walletBalance);
-      
-      const userRef = doc(db, 'users', user.uid);
-      const newBalance = walletBalance + amount;
-      
-      console.log('New balance will be:', newBalance);
-
-      // Update only the walletBalance field, preserving other fields like lifetimePnl
-      await updateDoc(userRef, {
-        walletBalance: newBalance
-      });
+      // Deposit limits are enforced by the backend, which also records the deposit
+      const depositFunds = httpsCallable(functions, 'depositFunds');
+      const result = await depositFunds({ amount });
+      const { walletBalance: newBalance } = result.data as { walletBalance: number };
 
-      console.log('Successfully updated wallet balance');
       setWalletBalance(newBalance);
+      setWalletHistoryKey(prev => prev + 1);
     } catch (error) {
       console.error('Error while adding funds:', error);
       throw error; // Re-throw to be caught by the modal's error handler
@@ -711,6 +789,23 @@ export default function ProfilePage() {
     }
   };
 
+  // Followers are notified of the bets a user places while their profile is public
+  const toggleFollow = async () => {
+    if (!user || !profileUserId || isOwnProfile) return;
+
+    try {
+      setUpdatingFollow(true);
+      await updateDoc(doc(db, 'users', user.uid), {
+        following: isFollowing ? arrayRemove(profileUserId) : arrayUnion(profileUserId)
+      });
+      setIsFollowing(!isFollowing);
+    } catch (error) {
+      console.error('Error updating followed users:', error);
+    } finally {
+      setUpdatingFollow(false);
+    }
+  };
+
   // Function to toggle profile privacy
   const toggleProfilePrivacy = async () => {
     if (!user || !isOwnProfile) return;
@@ -736,24 +831,74 @@ export default function ProfilePage() {
     }
   };
 
+  // Opts in to or out of the weekly summary email
+  const toggleWeeklyDigest = async () => {
+    if (!user || !isOwnProfile) return;
+
+    try {
+      setUpdatingDigest(true);
+      await updateDoc(doc(db, 'users', user.uid), { weeklyDigest: !weeklyDigest });
+      setWeeklyDigest(!weeklyDigest);
+    } catch (error) {
+      console.error('Error updating weekly digest setting:', error);
+    } finally {
+      setUpdatingDigest(false);
+    }
+  };
+
   /**
-   * Handle selling a trade and updating UI
+   * Handle selling all or part of a trade and updating UI
    */
-  const handleSellTrade = async (soldValue: number) => {
+  const handleSellTrade = async (sale: TradeSale) => {
     try {
       if (!selectedTradeForSale) return;
+      const { soldValue, soldAmount, childTradeId } = sale;
       
-      // Update the trade status locally
-      setTrades(prevTrades => 
-        prevTrades.map(trade => 
-          trade.id === selectedTradeForSale.id 
-            ? { ...trade, status: 'sold', soldValue: soldValue } 
-            : trade
-        )
-      );
+      if (childTradeId) {
+        // Partial sale: the original keeps the rest, a new sold trade holds the part sold
+        const keptFraction = sale.remainingAmount / selectedTradeForSale.amount;
+        const soldTrade: Trade = {
+          ...selectedTradeForSale,
+          id: childTradeId,
+          amount: soldAmount,
+          expectedPayout: selectedTradeForSale.expectedPayout * (1 - keptFraction),
+          ...(selectedTradeForSale.costBasis !== undefined && {
+            costBasis: selectedTradeForSale.costBasis * (1 - keptFraction)
+          }),
+          status: 'sold',
+          soldValue,
+          parentTradeId: selectedTradeForSale.id,
+          listing: undefined
+        };
+        setTrades(prevTrades => [
+          soldTrade,
+          ...prevTrades.map(trade =>
+            trade.id === selectedTradeForSale.id
+              ? {
+                  ...trade,
+                  amount: sale.remainingAmount,
+                  expectedPayout: trade.expectedPayout * keptFraction,
+                  ...(trade.costBasis !== undefined && { costBasis: trade.costBasis * keptFraction }),
+                  currentValue: trade.currentValue != null ? trade.currentValue * keptFraction : trade.currentValue,
+                  listing: undefined
+                }
+              : trade
+          )
+        ]);
+      } else {
+        // Update the trade status locally
+        setTrades(prevTrades => 
+          prevTrades.map(trade => 
+            trade.id === selectedTradeForSale.id 
+              ? { ...trade, status: 'sold', soldValue: soldValue } 
+              : trade
+          )
+        );
+      }
       
-      // Update wallet balance locally
+      // Update wallet balance and realised P&L locally
       setWalletBalance(prevBalance => prevBalance + soldValue);
+      setLifetimePnl(prevPnl => prevPnl !== null ? prevPnl + sale.pnlChange : prevPnl);
       setSelectedTradeForSale(null);
       
     } catch (error) {
@@ -761,6 +906,19 @@ export default function ProfilePage() {
     }
   };
 
+  /**
+   * Reflect a new, updated or removed marketplace listing locally
+   */
+  const handleListingChange = (tradeId: string, listing: TradeListing | null) => {
+    setTrades(prevTrades =>
+      prevTrades.map(trade =>
+        trade.id === tradeId
+          ? { ...trade, listing: listing ?? undefined }
+          : trade
+      )
+    );
+  };
+
   // Add debug logs in the render logic
   if (!user && !profileUserId) {
     console.log('Rendering: No user view');
@@ -886,6 +1044,28 @@ export default function ProfilePage() {
               Lost ({statusCounts['lost'] || 0})
             </button>
             
+            <button
+              onClick={() => setTradeStatusFilter('push')}
+              className={`px-4 py-2 text-sm font-medium rounded-full transition-colors ${
+                tradeStatusFilter === 'push' 
+                  ? 'bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200' 
+                  : 'bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+              }`}
+            >
+              Push ({statusCounts['push'] || 0})
+            </button>
+            
+            <button
+              onClick={() => setTradeStatusFilter('void')}
+              className={`px-4 py-2 text-sm font-medium rounded-full transition-colors ${
+                tradeStatusFilter === 'void' 
+                  ? 'bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-200' 
+                  : 'bg-gray-100 text-gray-800 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+              }`}
+            >
+              Void ({statusCounts['void'] || 0})
+            </button>
+            
             <button
               onClick={() => setTradeStatusFilter('sold')}
               className={`px-4 py-2 text-sm font-medium rounded-full transition-colors ${
@@ -926,6 +1106,17 @@ export default function ProfilePage() {
       // Search query filter
       if (tradeSearchQuery.trim() !== '') {
         const query = tradeSearchQuery.toLowerCase();
+
+        // Parlays match if any of their legs does
+        if (trade.type === 'parlay') {
+          return (trade.legs || []).some(leg =>
+            [leg.event?.home_team, leg.event?.visitor_team].some(team =>
+              team?.full_name?.toLowerCase().includes(query) ||
+              team?.abbreviation?.toLowerCase().includes(query)
+            )
+          );
+        }
+
         const homeTeamName = trade.event?.home_team?.full_name?.toLowerCase() || '';
         const visitorTeamName = trade.event?.visitor_team?.full_name?.toLowerCase() || '';
         const homeTeamAbbrev = trade.event?.home_team?.abbreviation?.toLowerCase() || '';
@@ -955,6 +1146,15 @@ export default function ProfilePage() {
         ) : (
           <div className="space-y-6">
             {filteredTrades.map((trade) => {
+              if (trade.type === 'parlay') {
+                return (
+                  <ParlayTradeCard
+                    key={trade.id}
+                    trade={trade}
+                    onSelectEvent={setSelectedEvent}
+                  />
+                );
+              }
               const eventDate = trade.event ? parseLocalDate(trade.event.datetime) : null;
               return (
                 <div
@@ -973,18 +1173,28 @@ export default function ProfilePage() {
                         </span>
                       </div>
                       {isOwnProfile && (
-                        <button
-                          className="py-2 px-4 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white font-medium rounded-lg transition-all flex items-center justify-center gap-2 shadow-sm hover:shadow"
-                          onClick={() => {
-                            setSelectedTradeForSale(trade);
-                            setIsSellTradeModalOpen(true);
-                          }}
-                        >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                          </svg>
-                          Sell Trade
-                        </button>
+                        <div className="flex items-center gap-2">
+                          <button
+                            className="py-2 px-4 border border-blue-500 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 font-medium rounded-lg transition-all"
+                            onClick={() => setSelectedTradeForListing(trade)}
+                          >
+                            {trade.listing
+                              ? `Listed at ${formatCurrency(trade.listing.askingPrice)}`
+                              : 'List for Sale'}
+                          </button>
+                          <button
+                            className="py-2 px-4 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white font-medium rounded-lg transition-all flex items-center justify-center gap-2 shadow-sm hover:shadow"
+                            onClick={() => {
+                              setSelectedTradeForSale(trade);
+                              setIsSellTradeModalOpen(true);
+                            }}
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            Sell Trade
+                          </button>
+                        </div>
                       )}
                     </div>
                   )}
@@ -1018,6 +1228,9 @@ export default function ProfilePage() {
                         )}
                         {trade.status ? trade.status.charAt(0).toUpperCase() + trade.status.slice(1) : 'Unknown'}
                       </span>
+                      {trade.parentTradeId && (
+                        <span className="text-sm text-gray-500 dark:text-gray-400">Partial cash-out</span>
+                      )}
                     </div>
                   )}
 
@@ -1047,16 +1260,16 @@ export default function ProfilePage() {
                         <div>
                           <h3 className="text-lg font-semibold">
                             {trade.event
-                              ? (trade.selectedTeam === 'home'
-                                ? trade.event.home_team.full_name
-                                : trade.event.visitor_team.full_name)
+                              ? getSelectionLabel(trade.event, trade.selectedTeam, trade.market, trade.line)
                               : 'Unknown Team'}
                           </h3>
                           {trade.event && (
                             <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
-                              vs {trade.selectedTeam === 'home'
-                                ? trade.event.visitor_team.full_name
-                                : trade.event.home_team.full_name}
+                              {!isTeamMarket(trade.market)
+                                ? `${trade.event.home_team.full_name} vs ${trade.event.visitor_team.full_name}`
+                                : `vs ${trade.selectedTeam === 'home'
+                                  ? trade.event.visitor_team.full_name
+                                  : trade.event.home_team.full_name}`}
                             </p>
                           )}
                         </div>
@@ -1138,11 +1351,15 @@ export default function ProfilePage() {
                       
                       <div>
                         <p className="text-sm text-gray-500 dark:text-gray-400">
-                          {trade.status?.toLowerCase() === 'sold' ? 'Sold For' : 'Potential Payout'}
+                          {trade.status?.toLowerCase() === 'sold'
+                            ? 'Sold For'
+                            : trade.status?.toLowerCase() === 'void' ? 'Refunded' : 'Potential Payout'}
                         </p>
                         <p className="text-lg font-semibold text-green-600 dark:text-green-400 mt-1">
                           {trade.status?.toLowerCase() === 'sold' && trade.soldValue 
                             ? formatCurrency(trade.soldValue)
+                            : trade.status?.toLowerCase() === 'void'
+                            ? formatCurrency(trade.amount)
                             : formatCurrency(trade.expectedPayout)}
                         </p>
                       </div>
@@ -1229,6 +1446,50 @@ export default function ProfilePage() {
                         </div>
                       </button>
                     </div>
+
+                    {/* Weekly summary email toggle for own profile */}
+                    <div className="mt-2 flex items-center">
+                      <button
+                        onClick={toggleWeeklyDigest}
+                        disabled={updatingDigest}
+                        role="switch"
+                        aria-checked={weeklyDigest}
+                        aria-label="Weekly summary email"
+                        className="flex items-center gap-2 text-sm px-3 py-1.5 rounded-full transition-colors"
+                      >
+                        <span className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors ${
+                          weeklyDigest
+                            ? 'bg-blue-600 dark:bg-blue-500'
+                            : 'bg-gray-300 dark:bg-gray-600'
+                        }`}>
+                          <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                            weeklyDigest ? 'translate-x-4' : 'translate-x-1'
+                          }`} />
+                        </span>
+                        <span className="font-medium">
+                          {updatingDigest ? 'Updating...' : (weeklyDigest ? 'Weekly email on' : 'Weekly email off')}
+                        </span>
+                      </button>
+                    </div>
+
+                    {/* Odds display preference for own profile */}
+                    <div className="mt-2 flex items-center gap-2 text-sm">
+                      <label htmlFor="odds-format" className="font-medium text-gray-600 dark:text-gray-400">
+                        Odds format
+                      </label>
+                      <select
+                        id="odds-format"
+                        value={oddsFormat}
+                        onChange={(e) => setOddsFormat(e.target.value as OddsFormat).catch(() => {})}
+                        className="px-2 py-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"
+                      >
+                        {ODDS_FORMATS.map(({ format, label, example }) => (
+                          <option key={format} value={format}>
+                            {label} ({example})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
                   </>
                 ) : (
                   <div className="flex items-center gap-2">
@@ -1242,6 +1503,19 @@ export default function ProfilePage() {
                     >
                       {isPrivateProfile ? 'Private' : 'Public'}
                     </span>
+                    {user && (
+                      <button
+                        onClick={toggleFollow}
+                        disabled={updatingFollow}
+                        className={`px-3 py-0.5 text-sm rounded-full border transition-colors disabled:opacity-50 ${
+                          isFollowing
+                            ? 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+                            : 'bg-blue-600 border-blue-600 text-white hover:bg-blue-700'
+                        }`}
+                      >
+                        {isFollowing ? 'Following' : 'Follow'}
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
@@ -1268,10 +1542,16 @@ export default function ProfilePage() {
                   {(() => {
                     const pnl = lifetimePnl !== null ? lifetimePnl :
                       trades.reduce((total, trade) => {
-                          if (trade.status === 'won') {
-                          return total + (trade.expectedPayout - trade.amount);
-                          } else if (trade.status === 'lost') {
-                          return total - trade.amount;
+                        const status = trade.status?.toLowerCase();
+                        // Bought trades are measured against what the owner paid
+                        const cost = trade.costBasis ?? trade.amount;
+                        if (status === 'won') {
+                          return total + (trade.expectedPayout - cost);
+                        } else if (status === 'lost') {
+                          return total - cost;
+                        } else if (status === 'sold') {
+                          // Covers both full sales and the sold part of partial sales
+                          return total + ((trade.soldValue ?? trade.amount) - cost);
                         }
                         return total;
                       }, 0);
@@ -1334,6 +1614,18 @@ export default function ProfilePage() {
             Trades
           </button>
           )}
+          {isOwnProfile && (
+          <button
+            onClick={() => setActiveTab('wallet')}
+            className={`py-3 px-5 text-base font-medium border-b-2 transition-colors ${
+              activeTab === 'wallet'
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+            }`}
+          >
+            Wallet
+          </button>
+          )}
         </div>
       </div>
 
@@ -1487,6 +1779,10 @@ export default function ProfilePage() {
       {/* Trade History Tab */}
       {activeTab === 'trades' && (
         <>
+          {/* Open limit orders reserve their stake, so cancelling refunds it */}
+          {isOwnProfile && (
+            <OpenLimitOrders onCancel={(amount) => setWalletBalance(prev => prev + amount)} />
+          )}
           {trades.length === 0 ? (
             <div className="text-center py-12 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-200 dark:border-gray-700">
               <p className="text-gray-500 dark:text-gray-400">
@@ -1501,13 +1797,21 @@ export default function ProfilePage() {
         </>
       )}
 
+      {/* Wallet History Tab */}
+      {activeTab === 'wallet' && isOwnProfile && (
+        <>
+          <ResponsibleGamingSettings />
+          <WalletHistory refreshKey={walletHistoryKey} />
+        </>
+      )}
+
       {/* Game Info Modal */}
       {selectedEvent && (
         <GameInfoModal
           event={selectedEvent}
           onClose={() => setSelectedEvent(null)}
-          onSelectTeam={(team) => {
-            setSelectedBet({ event: selectedEvent, team });
+          onSelectTeam={(team, market) => {
+            setSelectedBet({ event: selectedEvent, team, market });
             setSelectedEvent(null);
           }}
         />
@@ -1518,6 +1822,7 @@ export default function ProfilePage() {
         <BettingModal
           event={selectedBet.event}
           selectedTeam={selectedBet.team}
+          market={selectedBet.market}
           onClose={() => setSelectedBet(null)}
         />
       )}
@@ -1538,7 +1843,17 @@ export default function ProfilePage() {
           isOpen={isSellTradeModalOpen}
           onClose={() => setIsSellTradeModalOpen(false)}
           trade={selectedTradeForSale}
-          onConfirm={(soldValue: number) => handleSellTrade(soldValue)}
+          onConfirm={(sale: TradeSale) => handleSellTrade(sale)}
+        />
+      )}
+
+      {/* List Trade Modal */}
+      {selectedTradeForListing && (
+        <ListTradeModal
+          isOpen={true}
+          onClose={() => setSelectedTradeForListing(null)}
+          trade={selectedTradeForListing}
+          onListingChange={(listing) => handleListingChange(selectedTradeForListing.id, listing)}
         />
       )}
     </div>
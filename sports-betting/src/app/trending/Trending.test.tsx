@@ -23,10 +23,14 @@ jest.mock('firebase/firestore', () => ({
 // Firebase init (db)
 jest.mock('@/lib/firebase', () => ({ db: {} }));
 
+// Odds are shown in the default percentage format
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ user: null }),
+}));
+
 // Replace heavy child components with simple stubs
-jest.mock('@/components/TeamLogo', () => ({
-  __esModule: true,
-  default: ({ abbreviation }: { abbreviation: string }) => (
+jest.mock('@/components/common/TeamLogo', () => ({
+  TeamLogo: ({ abbreviation }: { abbreviation: string }) => (
     <div data-testid="team-logo">{abbreviation}</div>
   ),
 }));
@@ -10,16 +10,20 @@ import {
   limit,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import type { Event } from '@/types/events';
-import TeamLogo from '@/components/TeamLogo';
+import type { Event, BetMarket, BetSelection } from '@/types/events';
+import { TeamLogo } from '@/components/common/TeamLogo';
 import GameInfoModal from '@/components/GameInfoModal';
 import BettingModal from '@/components/BettingModal';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatOdds } from '@/utils/formatters';
+import { getSelectionOdds } from '@/utils/markets';
 
 export default function TrendingPage() {
+  const { oddsFormat } = useAuth();
   const [topEvents, setTopEvents] = useState<Event[]>([]);
   const [loadingTopEvents, setLoadingTopEvents] = useState(true);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
-  const [selectedBet, setSelectedBet] = useState<{ event: Event; team: 'home' | 'visitor' | 'draw' } | null>(null);
+  const [selectedBet, setSelectedBet] = useState<{ event: Event; team: BetSelection; market?: BetMarket } | null>(null);
 
   const isValidDate = (date: any): boolean => {
     const d = new Date(date);
@@ -97,20 +101,20 @@ export default function TrendingPage() {
                     </div>
                     <div className="p-4">
                       <div className="mb-4 flex flex-col items-center">
-                        <TeamLogo abbreviation={event.home_team?.abbreviation} teamName={event.home_team?.full_name} />
+                        <TeamLogo abbreviation={event.home_team?.abbreviation} teamName={event.home_team?.full_name} sport={event.sport} teamId={event.home_team?.id} size={48} showFallback={false} />
                         <div className="text-center">
                           <div className="font-semibold">{event.home_team?.full_name}</div>
-                          <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">{event.homeTeamCurrentOdds}% chance</div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">{formatOdds(getSelectionOdds(event, 'home'), oddsFormat)}</div>
                         </div>
                       </div>
                       <div className="flex items-center justify-center my-4">
                         <div className="px-4 py-1 bg-gray-100 dark:bg-gray-700 rounded-full text-xs text-gray-500 dark:text-gray-400">VS</div>
                       </div>
                       <div className="mt-4 flex flex-col items-center">
-                        <TeamLogo abbreviation={event.visitor_team?.abbreviation} teamName={event.visitor_team?.full_name} />
+                        <TeamLogo abbreviation={event.visitor_team?.abbreviation} teamName={event.visitor_team?.full_name} sport={event.sport} teamId={event.visitor_team?.id} size={48} showFallback={false} />
                         <div className="text-center">
                           <div className="font-semibold">{event.visitor_team?.full_name}</div>
-                          <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">{event.visitorTeamCurrentOdds}% chance</div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">{formatOdds(getSelectionOdds(event, 'visitor'), oddsFormat)}</div>
                         </div>
                       </div>
                     </div>
@@ -139,14 +143,14 @@ export default function TrendingPage() {
         <GameInfoModal
           event={selectedEvent}
           onClose={() => setSelectedEvent(null)}
-          onSelectTeam={(team) => {
-            setSelectedBet({ event: selectedEvent, team });
+          onSelectTeam={(team, market) => {
+            setSelectedBet({ event: selectedEvent, team, market });
             setSelectedEvent(null);
           }}
         />
       )}
       {selectedBet && (
-        <BettingModal event={selectedBet.event} selectedTeam={selectedBet.team} onClose={() => setSelectedBet(null)} />
+        <BettingModal event={selectedBet.event} selectedTeam={selectedBet.team} market={selectedBet.market} onClose={() => setSelectedBet(null)} />
       )}
     </div>
   );
@@ -1,19 +1,23 @@
-import { useState, useEffect } from 'react';
-import { Event } from '@/types/events';
+import { useState, useEffect, useCallback } from 'react';
+import { Event, BetMarket, BetSelection } from '@/types/events';
 import { db, functions } from '@/lib/firebase';
 import { doc, getDoc, onSnapshot } from 'firebase/firestore';
 import { httpsCallable } from "firebase/functions";
 import { useAuth } from '@/contexts/AuthContext';
+import { useParlay } from '@/contexts/ParlayContext';
 import TradeConfirmationModal from './TradeConfirmationModal';
+import { SIDE_MARKETS, getSelectionLabel, getSelectionOdds } from '@/utils/markets';
+import { ODDS_FORMATS, formatOdds, parseOdds } from '@/utils/formatters';
 
 // Props for the BettingModal component
 export interface BettingModalProps {
   event: Event;
-  selectedTeam: 'home' | 'visitor' | 'draw';
+  selectedTeam: BetSelection;
+  market?: BetMarket; // Defaults to the moneyline
   onClose: () => void;
 }
 
-export default function BettingModal({ event, selectedTeam, onClose }: BettingModalProps) {
+export default function BettingModal({ event, selectedTeam, market = 'moneyline', onClose }: BettingModalProps) {
   const [eventOdds, setEventOdds] = useState<any>(null);
   const [betAmount, setBetAmount] = useState<string>('');
   const [showAuthAlert, setShowAuthAlert] = useState(false);
@@ -21,27 +25,33 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
   const [isPlacingBet, setIsPlacingBet] = useState(false);
   const [userBalance, setUserBalance] = useState<number | null>(null);
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [orderType, setOrderType] = useState<'market' | 'limit'>('market');
+  const [targetOdds, setTargetOdds] = useState<string>('');
+  const [placedOrderStatus, setPlacedOrderStatus] = useState<string | null>(null);
+  const [quote, setQuote] = useState<{ quoteId: string; odds: number; expiresAt: number } | null>(null);
+  const [priceMovedMessage, setPriceMovedMessage] = useState<string | null>(null);
+  const [betError, setBetError] = useState<string | null>(null);
   const placeBetFunction = httpsCallable(functions, "placeBet");
-  const { user } = useAuth();
+  const placeLimitOrderFunction = httpsCallable(functions, "placeLimitOrder");
+  const { user, oddsFormat } = useAuth();
+  const { selections, addSelection } = useParlay();
   
   const isSoccer = event.sport === 'soccer';
+  const isMoneyline = market === 'moneyline';
   
-  // Get appropriate team name based on selection
-  const teamName = selectedTeam === 'home'
-      ? event.home_team.full_name
-    : selectedTeam === 'visitor'
-      ? event.visitor_team.full_name
-      : 'Draw'; // For soccer draw option
-
-  // Get appropriate odds based on selection
-  const selectedOdds = selectedTeam === 'home' 
-    ? event.homeTeamCurrentOdds 
-    : selectedTeam === 'visitor'
-      ? event.visitorTeamCurrentOdds
-      : event.drawOdds || 20; // Default draw odds if not set
+  // Get appropriate team name and odds based on selection; bets are
+  // placed at the server-quoted odds once a quote is available
+  const teamName = getSelectionLabel(event, selectedTeam, market);
+  const selectedOdds = quote?.odds ?? getSelectionOdds(eventOdds ?? event, selectedTeam, market);
   
   const numericAmount = Number(betAmount);
-  const potentialPayout = numericAmount * (100 / selectedOdds);
+  // The target is typed in the user's odds format and stored as an implied percentage
+  const numericTargetOdds = parseOdds(targetOdds, oddsFormat) ?? 0;
+  const isLimitOrder = isMoneyline && orderType === 'limit';
+  // A limit order fills at the target odds or lower, so it pays out at least this much
+  const potentialPayout = numericAmount * (100 / (isLimitOrder && numericTargetOdds > 0 ? numericTargetOdds : selectedOdds));
+  const isValidTarget = numericTargetOdds >= 1 && numericTargetOdds <= 99;
+  const oddsFormatLabel = ODDS_FORMATS.find(option => option.format === oddsFormat)?.label;
 
   // Fetch user's balance when modal opens
   useEffect(() => {
@@ -83,6 +93,37 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
     return () => unsub();
   }, [event.id]);
 
+  // Ask the server for a signed quote on the current odds
+  const requestQuote = useCallback(async () => {
+    if (!user) return null;
+    try {
+      const getQuoteFunction = httpsCallable(functions, "getQuote");
+      const result = await getQuoteFunction({
+        eventId: String(event.id),
+        selectedTeam,
+        market
+      });
+      const newQuote = result.data as { quoteId: string; odds: number; expiresAt: number };
+      setQuote(newQuote);
+      return newQuote;
+    } catch (error) {
+      console.error('Error fetching quote:', error);
+      return null;
+    }
+  }, [user, event.id, selectedTeam, market]);
+
+  // Re-quote when the odds move, and again shortly before the quote expires
+  useEffect(() => {
+    requestQuote();
+  }, [requestQuote, eventOdds]);
+
+  useEffect(() => {
+    if (!quote) return;
+    const refreshIn = Math.max(quote.expiresAt - Date.now() - 2000, 0);
+    const timer = setTimeout(requestQuote, refreshIn);
+    return () => clearTimeout(timer);
+  }, [quote, requestQuote]);
+
   const placeBet = async () => {
     if (!user) {
       setShowAuthAlert(true);
@@ -97,24 +138,65 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
     }
 
     setIsPlacingBet(true);
+    setPriceMovedMessage(null);
+    setBetError(null);
     
     try {
+      if (isLimitOrder) {
+        const result = await placeLimitOrderFunction({
+          eventId: String(event.id),
+          selectedTeam: selectedTeam,
+          betAmount: numericAmount,
+          targetOdds: numericTargetOdds
+        });
+        setPlacedOrderStatus((result.data as { status: string }).status);
+        setShowConfirmation(true);
+        setBetAmount('');
+        return;
+      }
+
+      const activeQuote = quote && quote.expiresAt > Date.now() ? quote : await requestQuote();
+      if (!activeQuote) throw new Error('Unable to get a price quote');
+
       await placeBetFunction({
         eventId: String(event.id),
         selectedTeam: selectedTeam,
         betAmount: numericAmount,
-        odds: selectedOdds
+        quoteId: activeQuote.quoteId,
+        ...(!isMoneyline && { market })
       });
       
       setShowConfirmation(true);
       setBetAmount('');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error placing bet:', error);
+      // The server rejects stale quotes; fetch a fresh price for the user to review
+      if (error?.code === 'functions/aborted') {
+        const newQuote = await requestQuote();
+        setPriceMovedMessage(
+          newQuote
+            ? `The price moved to ${formatOdds(newQuote.odds, oddsFormat)}. Review the new payout and place your bet again.`
+            : 'The price moved. Please try again.'
+        );
+      } else {
+        // Self-exclusion, a cool-off, a staking limit or an insufficient balance
+        setBetError(error?.message || 'Failed to place bet. Please try again.');
+      }
     } finally {
       setIsPlacingBet(false);
     }
   };
 
+  const isInParlay = selections.some(
+    s => String(s.event.id) === String(event.id) && s.selectedTeam === selectedTeam
+  );
+
+  const addToParlay = () => {
+    if (selectedTeam !== 'home' && selectedTeam !== 'visitor' && selectedTeam !== 'draw') return;
+    addSelection({ event, selectedTeam });
+    onClose();
+  };
+
   if (showConfirmation) {
     return (
       <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
@@ -125,9 +207,13 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
               </svg>
             </div>
-            <h3 className="text-xl font-bold mb-2">Bet Placed Successfully!</h3>
+            <h3 className="text-xl font-bold mb-2">
+              {placedOrderStatus === 'Open' ? 'Limit Order Placed!' : 'Bet Placed Successfully!'}
+            </h3>
             <p className="text-gray-600 dark:text-gray-300">
-              Your bet on {teamName} has been placed.
+              {placedOrderStatus === 'Open'
+                ? `Your bet on ${teamName} will be placed if its odds reach ${formatOdds(numericTargetOdds, oddsFormat)} or better before the event starts. You can cancel it from your profile.`
+                : `Your bet on ${teamName} has been placed.`}
             </p>
           </div>
           
@@ -163,6 +249,18 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
                 </div>
               )}
               
+              {priceMovedMessage && (
+          <div className="p-3 mb-4 bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 rounded-lg">
+            {priceMovedMessage}
+                </div>
+              )}
+              
+              {betError && (
+          <div className="p-3 mb-4 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg">
+            {betError}
+                </div>
+              )}
+              
               {showBalanceAlert && (
           <div className="p-3 mb-4 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300 rounded-lg">
             Insufficient balance. You have ${userBalance?.toFixed(2)} available.
@@ -173,23 +271,36 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
           <p className="text-center text-lg font-semibold">
             {event.home_team.full_name} vs {event.visitor_team.full_name}
           </p>
+          {isMoneyline ? (
           <div className="mt-2 text-center text-blue-600 dark:text-blue-400 font-medium">
             <span className={`px-2 py-1 rounded ${selectedTeam === 'home' ? 'bg-blue-100 dark:bg-blue-900/30' : ''}`}>
-              {event.home_team.full_name}: {event.homeTeamCurrentOdds || 50}%
+              {event.home_team.full_name}: {formatOdds(getSelectionOdds(event, 'home'), oddsFormat)}
             </span>
             {' vs '}
             <span className={`px-2 py-1 rounded ${selectedTeam === 'visitor' ? 'bg-blue-100 dark:bg-blue-900/30' : ''}`}>
-              {event.visitor_team.full_name}: {event.visitorTeamCurrentOdds || 50}%
+              {event.visitor_team.full_name}: {formatOdds(getSelectionOdds(event, 'visitor'), oddsFormat)}
             </span>
             {isSoccer && (
               <>
                 {' | '}
                 <span className={`px-2 py-1 rounded ${selectedTeam === 'draw' ? 'bg-blue-100 dark:bg-blue-900/30' : ''}`}>
-                  Draw: {event.drawOdds || 20}%
+                  Draw: {formatOdds(getSelectionOdds(event, 'draw'), oddsFormat)}
                 </span>
               </>
             )}
           </div>
+          ) : (
+          <div className="mt-2 text-center text-blue-600 dark:text-blue-400 font-medium">
+            {SIDE_MARKETS.find(config => config.market === market)?.selections.map((selection, index) => (
+              <span key={selection}>
+                {index > 0 && ' vs '}
+                <span className={`px-2 py-1 rounded ${selectedTeam === selection ? 'bg-blue-100 dark:bg-blue-900/30' : ''}`}>
+                  {getSelectionLabel(event, selection, market)}: {formatOdds(getSelectionOdds(event, selection, market), oddsFormat)}
+                </span>
+              </span>
+            ))}
+          </div>
+          )}
         </div>
 
         <div className="p-4 mb-4 border border-blue-300 dark:border-blue-700 rounded-lg bg-blue-50 dark:bg-blue-900/10">
@@ -197,7 +308,7 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
           <div className="flex justify-between items-center">
             <div>
               <p className="text-lg font-bold">{teamName}</p>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Odds: {selectedOdds}%</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">Odds: {formatOdds(selectedOdds, oddsFormat)}</p>
             </div>
             <div className="h-10 w-10 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center">
               <svg className="h-6 w-6 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
@@ -207,6 +318,44 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
           </div>
                 </div>
               
+              {isMoneyline && (
+                <div className="flex mb-4 rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden text-sm font-medium">
+                  {(['market', 'limit'] as const).map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => setOrderType(type)}
+                      className={`flex-1 py-2 transition-colors ${
+                        orderType === type
+                          ? 'bg-blue-600 text-white'
+                          : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {type === 'market' ? 'Bet Now' : 'Limit Order'}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {isLimitOrder && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Place the bet when odds reach ({oddsFormatLabel})
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={targetOdds}
+                    onChange={(e) => setTargetOdds(e.target.value)}
+                    placeholder={`At or better than, e.g. ${formatOdds(Math.max(selectedOdds - 5, 1), oddsFormat)}`}
+                    className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-transparent dark:text-white focus:border-blue-500 dark:focus:border-blue-400 focus:ring-1 focus:ring-blue-500 dark:focus:ring-blue-400 outline-none"
+                    disabled={isPlacingBet}
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Your stake is set aside until the order fills, you cancel it, or the event starts.
+                  </p>
+                </div>
+              )}
+
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Bet Amount</label>
                 <input
@@ -230,10 +379,10 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
                   </div>
                   <div className="flex justify-between items-center mb-2">
                     <span className="text-sm text-gray-600 dark:text-gray-300">Odds:</span>
-                    <span className="font-medium">{selectedOdds}%</span>
+                    <span className="font-medium">{isLimitOrder && numericTargetOdds > 0 ? `${formatOdds(numericTargetOdds, oddsFormat)} or better` : formatOdds(selectedOdds, oddsFormat)}</span>
                   </div>
                   <div className="flex justify-between items-center pt-2 border-t border-blue-100 dark:border-blue-800">
-                    <span className="text-sm font-medium text-gray-600 dark:text-gray-300">Potential Payout:</span>
+                    <span className="text-sm font-medium text-gray-600 dark:text-gray-300">{isLimitOrder ? 'Minimum Payout:' : 'Potential Payout:'}</span>
                     <span className="font-bold text-green-600 dark:text-green-400">${potentialPayout.toFixed(2)}</span>
                   </div>
                 </div>
@@ -248,7 +397,7 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
         <div className="mt-6">
                 <button
             onClick={placeBet}
-            disabled={!betAmount || numericAmount <= 0 || isPlacingBet}
+            disabled={!betAmount || numericAmount <= 0 || isPlacingBet || (isLimitOrder && !isValidTarget)}
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 dark:disabled:bg-blue-800 text-white font-medium py-3 px-4 rounded-lg transition duration-200 flex items-center justify-center"
           >
             {isPlacingBet ? (
@@ -259,8 +408,18 @@ export default function BettingModal({ event, selectedTeam, onClose }: BettingMo
                 </svg>
                 Processing...
               </>
-            ) : "Place Bet"}
+            ) : isLimitOrder ? "Place Limit Order" : "Place Bet"}
                 </button>
+          {/* Parlays only combine moneyline selections */}
+          {isMoneyline && (
+          <button
+            onClick={addToParlay}
+            disabled={isInParlay || isPlacingBet}
+            className="mt-3 w-full border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 font-medium py-3 px-4 rounded-lg transition duration-200"
+          >
+            {isInParlay ? 'Added to Parlay' : 'Add to Parlay'}
+          </button>
+          )}
               </div>
             </div>
           </div>
@@ -1,46 +1,12 @@
 import React, { useState, useEffect, useRef } from 'react';
-import Image from 'next/image';
 import type { Event } from '@/types/events';
 import DateRangePicker from '@/components/DateRangePicker';
+import { TeamLogo } from '@/components/common/TeamLogo';
 import { formatEventDate, fetchEvents } from '@/utils/eventFetching';
-
-function TeamLogo({ 
-  abbreviation, 
-  teamName, 
-  sport, 
-  teamId 
-}: { 
-  abbreviation: string; 
-  teamName: string; 
-  sport?: string; 
-  teamId?: number | string 
-}) {
-  const [imageExists, setImageExists] = useState(true);
-  
-  // For soccer teams, use the football-data.org API
-  let logoUrl = `/logos/${abbreviation}.png`; // Default logo
-  
-  if (sport === 'soccer' && teamId !== undefined) {
-    // Use the football-data.org API for soccer team logos
-    logoUrl = `https://crests.football-data.org/${teamId}.png`;
-  }
-
-  return imageExists ? (
-    <Image
-      src={logoUrl}
-      alt={`${teamName} logo`}
-      width={36}
-      height={36}
-      className="rounded-full"
-      onError={() => setImageExists(false)}
-    />
-  ) : (
-    // Fallback if image doesn't exist
-    <div className="w-9 h-9 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center text-gray-500 dark:text-gray-400 text-xs font-medium">
-      {abbreviation?.substring(0, 2) || "?"}
-    </div>
-  );
-}
+import { getSportLabel } from '@/utils/sports';
+import { formatOdds } from '@/utils/formatters';
+import { getSelectionOdds } from '@/utils/markets';
+import { useAuth } from '@/contexts/AuthContext';
 
 interface EventSelectorProps {
   selectedEventIds: string[];
@@ -51,6 +17,7 @@ export default function EventSelector({
   selectedEventIds, 
   toggleEventSelection
 }: EventSelectorProps) {
+  const { oddsFormat } = useAuth();
   const [events, setEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -256,7 +223,7 @@ export default function EventSelector({
             <div className="p-3">
               <div className="flex justify-between items-center mb-2">
                 <span className="px-2 py-0.5 bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-400 rounded-full text-xs font-medium">
-                  {event.sport === 'soccer' ? 'Soccer' : 'Basketball'}
+                  {getSportLabel(event.sport)}
                 </span>
                 <div className="w-5 h-5 flex items-center justify-center">
                   {selectedEventIds.includes(event.id) ? (
@@ -279,13 +246,14 @@ export default function EventSelector({
                       teamName={event.home_team.full_name}
                       sport={event.sport}
                       teamId={event.home_team.id}
+                      size={36}
                     />
                     <div>
                       <div className="font-semibold">
                         {event.home_team.full_name}
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                        {event.homeTeamCurrentOdds || "50"}% chance
+                        {formatOdds(getSelectionOdds(event, 'home'), oddsFormat)}
                       </div>
                     </div>
                   </div>
@@ -302,7 +270,7 @@ export default function EventSelector({
                         {event.visitor_team.full_name}
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                        {event.visitorTeamCurrentOdds || "50"}% chance
+                        {formatOdds(getSelectionOdds(event, 'visitor'), oddsFormat)}
                       </div>
                     </div>
                     <TeamLogo
@@ -310,6 +278,7 @@ export default function EventSelector({
                       teamName={event.visitor_team.full_name}
                       sport={event.sport}
                       teamId={event.visitor_team.id}
+                      size={36}
                     />
                   </div>
                 </div>
@@ -318,9 +287,9 @@ export default function EventSelector({
             
             <div className="p-2 bg-gray-50 dark:bg-gray-700 text-center text-xs">
               <span className="text-gray-500 dark:text-gray-400">
-                {event.sport === 'soccer' 
-                  ? safeFormatEventDate(event.datetime || event.date) 
-                  : safeFormatEventDate(event.status)}
+                {event.sport === 'basketball'
+                  ? safeFormatEventDate(event.status)
+                  : safeFormatEventDate(event.datetime || event.date)}
               </span>
             </div>
           </div>
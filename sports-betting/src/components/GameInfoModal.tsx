@@ -1,56 +1,25 @@
 import { useState, useEffect } from 'react';
-import { Event } from '@/types/events';
+import { Event, BetMarket, BetSelection } from '@/types/events';
 import Image from 'next/image';
 import { httpsCallable } from "firebase/functions";
 import { functions } from '@/lib/firebase';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import OddsHistoryChart from '@/components/OddsHistoryChart';
-import { collection, onSnapshot, doc, query, orderBy } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-
-// Define props interface for the TeamLogo component
-interface TeamLogoProps {
-  abbreviation: string;
-  teamName: string;
-  logo?: string;
-  teamId?: number | string;
-  sport?: string;
-}
-
-// TeamLogo component
-function TeamLogo({ abbreviation, teamName, logo, teamId, sport }: TeamLogoProps) {
-  const [imageExists, setImageExists] = useState(true);
-
-  // Determine logo source based on sport
-  let logoSrc = `/logos/${abbreviation}.png`; // Default for basketball
-  
-  // For soccer teams, use football-data.org logos if available
-  if (sport === 'soccer' && teamId) {
-    logoSrc = `https://crests.football-data.org/${teamId}.png`;
-  } else if (logo) {
-    logoSrc = logo;
-  }
-
-  return imageExists ? (
-    <Image
-      src={logoSrc}
-      alt={`${teamName} logo`}
-      width={48}
-      height={48}
-      className="rounded-full"
-      onError={() => setImageExists(false)}
-    />
-  ) : null;
-}
+import MarketplaceListings from '@/components/MarketplaceListings';
+import WatchControls from '@/components/WatchControls';
+import { TeamLogo } from '@/components/common/TeamLogo';
+import { SIDE_MARKETS, getSelectionLabel, getSelectionOdds } from '@/utils/markets';
+import { formatOdds } from '@/utils/formatters';
+import { useAuth } from '@/contexts/AuthContext';
 
 // Helper function to format dates safely
 function formatGameDate(event: Event): string {
   try {
     let dateString = event.status;
     
-    // For soccer events, use datetime or date fields instead
-    if (event.sport === 'soccer') {
+    // Only older NBA events keep the start time in status
+    if (event.sport && event.sport !== 'basketball') {
       dateString = event.datetime || event.date || event.status;
     }
     
@@ -81,15 +50,15 @@ function formatGameDate(event: Event): string {
 export interface GameInfoModalProps {
   event: Event;
   onClose: () => void;
-  onSelectTeam: (team: 'home' | 'visitor' | 'draw') => void;
+  onSelectTeam: (team: BetSelection, market?: BetMarket) => void;
 }
 
 // GameInfoModal component
 export default function GameInfoModal({ event, onClose, onSelectTeam }: GameInfoModalProps) {
+  const { oddsFormat } = useAuth();
   const [isGeneratingAnalysis, setIsGeneratingAnalysis] = useState(false);
   const [analysis, setAnalysis] = useState<{analysis: string, citations: Array<{text: string, url: string, title: string}>, metadata: any} | null>(null);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
-  const [oddsHistory, setOddsHistory] = useState<any[]>([]);
   const isSoccer = event.sport === 'soccer';
   const getGameBettingAnalysisFunction = httpsCallable(functions, "getGameBettingAnalysis");
 
@@ -104,36 +73,6 @@ export default function GameInfoModal({ event, onClose, onSelectTeam }: GameInfo
     });
   }, [event]);
 
-  // Fetch odds history data when the modal opens
-  useEffect(() => {
-    // Convert event.id to string if it exists but isn't already a string
-    const eventId = event.id ? String(event.id) : null;
-    
-    if (!eventId) {
-      console.error('Missing event ID');
-      return () => {}; // Return empty cleanup function
-    }
-    
-    const unsubscribe = onSnapshot(
-      query(
-        collection(db, 'events', eventId, 'oddsHistory'),
-        orderBy('timestamp', 'asc')
-      ),
-      (snapshot) => {
-        const history = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        }));
-        setOddsHistory(history);
-      },
-      (error) => {
-        console.error('Error fetching odds history:', error);
-      }
-    );
-    
-    return () => unsubscribe();
-  }, [event.id]);
-
   const generateAnalysis = async () => {
     setIsGeneratingAnalysis(true);
     setAnalysisError(null);
@@ -250,13 +189,15 @@ export default function GameInfoModal({ event, onClose, onSelectTeam }: GameInfo
                   teamName={event.home_team.full_name}
                   teamId={event.home_team.id}
                   sport={event.sport}
+                  size={48}
+                  showFallback={false}
                 />
               </div>
               <div className="text-center">
                 <span className="block font-medium group-hover:text-blue-600 dark:group-hover:text-blue-400 truncate max-w-full">
                   {event.home_team.full_name}
                 </span>
-                <span className="text-sm text-gray-500 dark:text-gray-400 mt-1 block">{event.homeTeamCurrentOdds}% chance</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400 mt-1 block">{formatOdds(getSelectionOdds(event, 'home'), oddsFormat)}</span>
               </div>
             </button>
             
@@ -268,7 +209,7 @@ export default function GameInfoModal({ event, onClose, onSelectTeam }: GameInfo
                     onClick={() => onSelectTeam('draw')}
                     className="mt-3 px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-full text-sm transition-colors"
                   >
-                    Bet on Draw ({event.drawOdds || "20"}%)
+                    Bet on Draw ({formatOdds(getSelectionOdds(event, 'draw'), oddsFormat)})
                   </button>
                 </>
               ) : (
@@ -286,24 +227,55 @@ export default function GameInfoModal({ event, onClose, onSelectTeam }: GameInfo
                   teamName={event.visitor_team.full_name}
                   teamId={event.visitor_team.id}
                   sport={event.sport}
+                  size={48}
+                  showFallback={false}
                 />
               </div>
               <div className="text-center">
                 <span className="block font-medium group-hover:text-blue-600 dark:group-hover:text-blue-400 truncate max-w-full">
                   {event.visitor_team.full_name}
                 </span>
-                <span className="text-sm text-gray-500 dark:text-gray-400 mt-1 block">{event.visitorTeamCurrentOdds}% chance</span>
+                <span className="text-sm text-gray-500 dark:text-gray-400 mt-1 block">{formatOdds(getSelectionOdds(event, 'visitor'), oddsFormat)}</span>
               </div>
             </button>
           </div>
+
+          {/* Side markets for this sport that have been opened on the event */}
+          {event.markets && (
+            <div className="mt-6 space-y-3">
+              {SIDE_MARKETS
+                .filter(({ market, sports }) => sports.includes(event.sport || 'basketball') && event.markets?.[market])
+                .map(({ market, title, selections }) => (
+                  <div key={market}>
+                    <p className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">{title}</p>
+                    <div className={`grid gap-4 ${selections.length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                      {selections.map((selection) => (
+                        <button
+                          key={selection}
+                          onClick={() => onSelectTeam(selection, market)}
+                          className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors text-center"
+                        >
+                          <span className="block font-medium truncate">{getSelectionLabel(event, selection, market)}</span>
+                          <span className="text-sm text-gray-500 dark:text-gray-400">{formatOdds(getSelectionOdds(event, selection, market), oddsFormat)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          )}
         </div>
         
+        <WatchControls event={event} />
+
+        <MarketplaceListings event={event} />
+
         <div className="mb-6">
-          {oddsHistory.length > 0 && (
+          {event.id && (
             <div className="mt-8 border-t border-gray-200 dark:border-gray-700 pt-6">
               <h3 className="text-lg font-semibold mb-4">Odds History</h3>
-              <OddsHistoryChart 
-                data={oddsHistory}
+              <OddsHistoryChart
+                eventId={String(event.id)}
                 homeTeamName={event.home_team.full_name}
                 awayTeamName={event.visitor_team.full_name}
                 showDraw={isSoccer}
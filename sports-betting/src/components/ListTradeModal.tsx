@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase';
+import { formatCurrency } from '@/utils/formatters';
+import { getSelectionLabel } from '@/utils/markets';
+import type { Trade, TradeListing } from '@/types/trade';
+
+interface ListTradeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trade: Trade;
+  onListingChange: (listing: TradeListing | null) => void;
+}
+
+/**
+ * Lets the owner of a pending trade list it on the marketplace for other
+ * users to buy, change the asking price, or take it off the market
+ */
+export default function ListTradeModal({
+  isOpen,
+  onClose,
+  trade,
+  onListingChange
+}: ListTradeModalProps) {
+  const [askingPrice, setAskingPrice] = useState(
+    String(trade.listing?.askingPrice ?? (trade.currentValue || trade.amount).toFixed(2))
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const numericPrice = Number(askingPrice);
+
+  const submitListing = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const listBet = httpsCallable(functions, 'listBet');
+      const result = await listBet({ tradeId: trade.id, askingPrice: numericPrice });
+      onListingChange((result.data as { listing: TradeListing }).listing);
+      onClose();
+    } catch (err) {
+      console.error('Error listing trade:', err);
+      setError('Failed to list trade. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const removeListing = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const cancelListing = httpsCallable(functions, 'cancelListing');
+      await cancelListing({ tradeId: trade.id });
+      onListingChange(null);
+      onClose();
+    } catch (err) {
+      console.error('Error removing listing:', err);
+      setError('Failed to remove listing. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl p-6 max-w-md w-full mx-4 shadow-xl">
+        <h3 className="text-xl font-bold mb-2">
+          {trade.listing ? 'Update Listing' : 'List Trade on Marketplace'}
+        </h3>
+        <p className="text-gray-600 dark:text-gray-300 mb-4">
+          Other users can buy this trade at your asking price. If it sells, the price is added to
+          your wallet and the buyer collects the payout.
+        </p>
+
+        <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg mb-4">
+          <p className="font-medium mb-3">
+            {trade.event
+              ? getSelectionLabel(trade.event, trade.selectedTeam, trade.market, trade.line)
+              : 'Unknown Team'}
+          </p>
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500 dark:text-gray-400">Bet Amount</p>
+              <p className="font-medium">{formatCurrency(trade.amount)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500 dark:text-gray-400">Current Value</p>
+              <p className="font-medium">{formatCurrency(trade.currentValue || trade.amount)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500 dark:text-gray-400">Payout</p>
+              <p className="font-medium">{formatCurrency(trade.expectedPayout)}</p>
+            </div>
+          </div>
+        </div>
+
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Asking Price</label>
+        <input
+          type="number"
+          value={askingPrice}
+          onChange={(e) => setAskingPrice(e.target.value)}
+          className="w-full p-3 mb-4 border border-gray-300 dark:border-gray-600 rounded-lg bg-transparent dark:text-white focus:border-blue-500 outline-none"
+          disabled={isLoading}
+        />
+
+        {error && <p className="text-red-500 text-sm mb-4">{error}</p>}
+
+        <div className="flex gap-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={submitListing}
+            disabled={isLoading || !(numericPrice > 0)}
+            className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50 transition-colors"
+          >
+            {isLoading ? 'Processing...' : trade.listing ? 'Update Price' : 'List Trade'}
+          </button>
+        </div>
+
+        {trade.listing && (
+          <button
+            type="button"
+            onClick={removeListing}
+            disabled={isLoading}
+            className="w-full mt-3 px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+          >
+            Remove Listing
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Event } from '@/types/events';
+import type { MarketplaceListing } from '@/types/trade';
+import { formatCurrency } from '@/utils/formatters';
+import { getSelectionLabel } from '@/utils/markets';
+
+/**
+ * Trades other users have listed for sale on an event, with a buy button
+ * that asks the user to confirm the price first
+ */
+export default function MarketplaceListings({ event }: { event: Event }) {
+  const { user } = useAuth();
+  const [listings, setListings] = useState<MarketplaceListing[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [buyingTradeId, setBuyingTradeId] = useState<string | null>(null);
+  const [confirmingTradeId, setConfirmingTradeId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchListings = useCallback(async () => {
+    try {
+      const getEventListings = httpsCallable(functions, 'getEventListings');
+      const result = await getEventListings({ eventId: String(event.id) });
+      setListings((result.data as { listings: MarketplaceListing[] }).listings);
+    } catch (error) {
+      console.error('Error fetching marketplace listings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [event.id]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchListings();
+  }, [fetchListings]);
+
+  const buyListing = async (listing: MarketplaceListing) => {
+    if (!user) {
+      setMessage({ type: 'error', text: 'Please sign in to buy a trade.' });
+      return;
+    }
+
+    setConfirmingTradeId(null);
+    setBuyingTradeId(listing.tradeId);
+    setMessage(null);
+    try {
+      const buyBet = httpsCallable(functions, 'buyBet');
+      // The server rejects the purchase if the seller has changed the price since
+      await buyBet({ tradeId: listing.tradeId, expectedPrice: listing.askingPrice });
+      setListings(prev => prev.filter(l => l.tradeId !== listing.tradeId));
+      setMessage({
+        type: 'success',
+        text: `Trade bought for ${formatCurrency(listing.askingPrice)}. It now appears on your profile.`
+      });
+    } catch (error: any) {
+      console.error('Error buying trade:', error);
+      setMessage({ type: 'error', text: error.message || 'Failed to buy trade. Please try again.' });
+      // Show the listing's current price, or drop it if it's gone
+      fetchListings();
+    } finally {
+      setBuyingTradeId(null);
+    }
+  };
+
+  if (isLoading || (listings.length === 0 && !message)) return null;
+
+  return (
+    <div className="mt-8 border-t border-gray-200 dark:border-gray-700 pt-6">
+      <h3 className="text-lg font-semibold mb-4">Marketplace</h3>
+      {message && (
+        <p className={`text-sm mb-3 ${message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>
+          {message.text}
+        </p>
+      )}
+      <ul className="space-y-2">
+        {listings.map((listing) => (
+          <li
+            key={listing.tradeId}
+            className="flex justify-between items-center gap-4 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {getSelectionLabel(event, listing.selectedTeam, listing.market, listing.line)}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Pays {formatCurrency(listing.expectedPayout)} if it wins
+                {listing.sellerUsername && ` · @${listing.sellerUsername}`}
+              </p>
+            </div>
+            {listing.sellerId === user?.uid ? (
+              <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                Your listing: {formatCurrency(listing.askingPrice)}
+              </span>
+            ) : confirmingTradeId === listing.tradeId ? (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setConfirmingTradeId(null)}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 rounded-lg text-sm whitespace-nowrap"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => buyListing(listing)}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm whitespace-nowrap"
+                >
+                  Confirm {formatCurrency(listing.askingPrice)}
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmingTradeId(listing.tradeId)}
+                disabled={buyingTradeId !== null}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg text-sm whitespace-nowrap"
+              >
+                {buyingTradeId === listing.tradeId ? 'Buying...' : `Buy for ${formatCurrency(listing.askingPrice)}`}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
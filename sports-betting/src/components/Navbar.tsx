@@ -12,6 +12,7 @@ import {
 import Link from "next/link";
 import { usePathname } from 'next/navigation';
 import Image from "next/image";
+import NotificationBell from "@/components/NotificationBell";
 
 export function Navbar() {
   const { user, username, signInWithGoogle, logout } = useAuth();
@@ -72,6 +73,8 @@ export function Navbar() {
             )}
           </nav>
           
+          {user && <NotificationBell />}
+
           {user ? (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
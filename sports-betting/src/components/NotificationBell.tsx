@@ -0,0 +1,236 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QueryDocumentSnapshot,
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { FaBell } from 'react-icons/fa';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { formatFullDateTime } from '@/utils/formatters';
+import type { AppNotification } from '@/types/notifications';
+
+// Notifications loaded per page of the feed
+const PAGE_SIZE = 10;
+// Unread notifications counted for the badge, which shows "99+" past this
+const MAX_UNREAD_COUNT = 99;
+// Firestore batches hold at most 500 writes
+const BATCH_SIZE = 500;
+
+function toNotification(notificationDoc: QueryDocumentSnapshot): AppNotification {
+  const data = notificationDoc.data();
+  return {
+    id: notificationDoc.id,
+    type: data.type,
+    title: data.title,
+    body: data.body,
+    eventId: data.eventId ?? null,
+    link: data.link ?? null, // Watchlist alerts written before links existed have none
+    read: data.read === true,
+    createdAt: data.createdAt?.toDate() ?? null,
+  };
+}
+
+/**
+ * Bell in the navbar with the user's notification feed: the latest page
+ * updates live and older pages load on demand
+ */
+export default function NotificationBell() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const [latest, setLatest] = useState<QueryDocumentSnapshot[]>([]);
+  const [older, setOlder] = useState<QueryDocumentSnapshot[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  // Read state of older pages, which don't update live
+  const [readIds, setReadIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!user) return;
+    const items = collection(db, 'notifications', user.uid, 'items');
+    setOlder([]);
+    setReadIds(new Set());
+
+    const unsubscribeFeed = onSnapshot(
+      query(items, orderBy('createdAt', 'desc'), limit(PAGE_SIZE)),
+      (snapshot) => {
+        setLatest(snapshot.docs);
+        setHasMore(snapshot.size === PAGE_SIZE);
+      },
+      (error) => console.error('Error listening for notifications:', error)
+    );
+    const unsubscribeUnread = onSnapshot(
+      query(items, where('read', '==', false), limit(MAX_UNREAD_COUNT + 1)),
+      (snapshot) => setUnreadCount(snapshot.size),
+      (error) => console.error('Error counting unread notifications:', error)
+    );
+
+    return () => {
+      unsubscribeFeed();
+      unsubscribeUnread();
+    };
+  }, [user]);
+
+  if (!user) return null;
+
+  // New notifications push the latest page down, so older pages skip what it already shows
+  const latestIds = new Set(latest.map((notificationDoc) => notificationDoc.id));
+  const notifications = [
+    ...latest,
+    ...older.filter((notificationDoc) => !latestIds.has(notificationDoc.id)),
+  ].map((notificationDoc) => {
+    const notification = toNotification(notificationDoc);
+    return readIds.has(notification.id) ? { ...notification, read: true } : notification;
+  });
+
+  const loadMore = async () => {
+    const cursor = older[older.length - 1] || latest[latest.length - 1];
+    if (!cursor) return;
+    setLoadingMore(true);
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, 'notifications', user.uid, 'items'),
+        orderBy('createdAt', 'desc'),
+        startAfter(cursor),
+        limit(PAGE_SIZE)
+      ));
+      setOlder((current) => [...current, ...snapshot.docs]);
+      setHasMore(snapshot.size === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const markRead = async (notification: AppNotification) => {
+    if (notification.read) return;
+    setReadIds((current) => new Set(current).add(notification.id));
+    try {
+      await updateDoc(doc(db, 'notifications', user.uid, 'items', notification.id), { read: true });
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      const unread = await getDocs(query(
+        collection(db, 'notifications', user.uid, 'items'),
+        where('read', '==', false)
+      ));
+      for (let i = 0; i < unread.docs.length; i += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        unread.docs.slice(i, i + BATCH_SIZE).forEach((notificationDoc) => {
+          batch.update(notificationDoc.ref, { read: true });
+        });
+        await batch.commit();
+      }
+      setReadIds(new Set(notifications.map((notification) => notification.id)));
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    markRead(notification);
+    if (notification.link) router.push(notification.link);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+          className="relative h-10 w-10 rounded-full hover:bg-gray-800"
+        >
+          <FaBell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center">
+              {unreadCount > MAX_UNREAD_COUNT ? `${MAX_UNREAD_COUNT}+` : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 max-h-96 overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          <button
+            onClick={markAllRead}
+            disabled={unreadCount === 0}
+            className="px-2 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            Mark all read
+          </button>
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-4 text-sm text-center text-gray-500 dark:text-gray-400">
+            No notifications yet.
+          </div>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              onSelect={() => openNotification(notification)}
+              className={`flex items-start gap-2 cursor-pointer ${notification.read ? '' : 'bg-blue-50 dark:bg-blue-900/20'}`}
+            >
+              <div className="flex-1 flex flex-col gap-0.5">
+                <span className="font-medium">{notification.title}</span>
+                <span className="text-xs text-gray-600 dark:text-gray-300">{notification.body}</span>
+                {notification.createdAt && (
+                  <span className="text-xs text-gray-400">{formatFullDateTime(notification.createdAt)}</span>
+                )}
+              </div>
+              {!notification.read && (
+                <button
+                  aria-label="Mark as read"
+                  title="Mark as read"
+                  onClick={(e) => {
+                    // Mark it read without following the link or closing the menu
+                    e.stopPropagation();
+                    e.preventDefault();
+                    markRead(notification);
+                  }}
+                  className="mt-1 h-2.5 w-2.5 shrink-0 rounded-full bg-blue-600 hover:ring-2 hover:ring-blue-300"
+                />
+              )}
+            </DropdownMenuItem>
+          ))
+        )}
+        {hasMore && (
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="w-full py-2 text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,19 +1,23 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { 
-  Chart as ChartJS, 
-  CategoryScale, 
-  LinearScale, 
-  PointElement, 
-  LineElement, 
-  Title, 
-  Tooltip, 
-  Legend 
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
 } from 'chart.js';
-import { Line } from 'react-chartjs-2';
-import { collection, query, orderBy, getDocs } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { Bar, Line } from 'react-chartjs-2';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatCurrency, formatOdds } from '@/utils/formatters';
+import type { CandleInterval, CandleOutcome, OddsCandle } from '@/types/odds';
 
 // Register Chart.js components
 ChartJS.register(
@@ -21,80 +25,115 @@ ChartJS.register(
   LinearScale,
   PointElement,
   LineElement,
+  BarElement,
   Title,
   Tooltip,
   Legend
 );
 
-interface OddsRecord {
-  timestamp: any;
-  homeTeamOdds: number;
-  visitorTeamOdds: number;
-  drawOdds?: number;
-}
-
 interface OddsHistoryChartProps {
-  data?: OddsRecord[];
-  eventId?: string;
+  eventId: string;
   homeTeamName: string;
   awayTeamName: string;
   showDraw?: boolean;
 }
 
-export default function OddsHistoryChart({ 
-  data, 
-  eventId, 
-  homeTeamName, 
+const INTERVALS: CandleInterval[] = ['5m', '15m', '1h', '4h', '1d'];
+
+const RISING_COLOR = 'rgba(34, 197, 94, 1)'; // Green
+const FALLING_COLOR = 'rgba(239, 68, 68, 1)'; // Red
+
+const formatCandleTime = (start: number, interval: CandleInterval) => {
+  const date = new Date(start);
+  return interval === '1d'
+    ? date.toLocaleDateString()
+    : date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+export default function OddsHistoryChart({
+  eventId,
+  homeTeamName,
   awayTeamName,
   showDraw = false
 }: OddsHistoryChartProps) {
-  const [oddsHistory, setOddsHistory] = useState<OddsRecord[]>([]);
+  const { oddsFormat } = useAuth();
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>('1h');
+  const [view, setView] = useState<'line' | 'candles'>('line');
+  const [outcome, setOutcome] = useState<CandleOutcome>('home');
+  const [candles, setCandles] = useState<OddsCandle[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch odds history from Firestore if data is not provided directly
+  // Odds history is aggregated server-side into one candle per interval
   useEffect(() => {
-    if (data) {
-      setOddsHistory(data);
-      setLoading(false);
-      return;
-    }
-
-    if (!eventId) {
-      setError('No event ID or data provided');
-      setLoading(false);
-      return;
-    }
-
-    const fetchOddsHistory = async () => {
+    const fetchCandles = async () => {
       try {
-        const oddsQuery = query(
-          collection(db, 'events', eventId, 'oddsHistory'),
-          orderBy('timestamp', 'asc')
-        );
-        
-        const snapshot = await getDocs(oddsQuery);
-        const records = snapshot.docs.map(doc => {
-          const data = doc.data();
-          return {
-            timestamp: data.timestamp?.toDate ? data.timestamp.toDate() : data.timestamp,
-            homeTeamOdds: data.homeTeamOdds,
-            visitorTeamOdds: data.visitorTeamOdds || data.awayTeamOdds,
-            drawOdds: data.drawOdds
-          };
-        });
-        
-        setOddsHistory(records);
-        setLoading(false);
+        setLoading(true);
+        setError(null);
+        const getOddsCandles = httpsCallable(functions, 'getOddsCandles');
+        const response = await getOddsCandles({ eventId, interval: candleInterval });
+        setCandles((response.data as { candles: OddsCandle[] }).candles);
       } catch (err) {
         console.error('Error fetching odds history:', err);
         setError('Failed to load odds history');
+      } finally {
         setLoading(false);
       }
     };
 
-    fetchOddsHistory();
-  }, [eventId, data]);
+    fetchCandles();
+  }, [eventId, candleInterval]);
+
+  const outcomeNames: { [outcome in CandleOutcome]: string } = {
+    home: `${homeTeamName} (Home)`,
+    visitor: `${awayTeamName} (Away)`,
+    draw: 'Draw',
+  };
+  // Every soccer entry records the draw, so it gets its own series whenever the history has one
+  const hasDraw = showDraw || candles.some(candle => candle.odds.draw);
+  const outcomes: CandleOutcome[] = hasDraw ? ['home', 'visitor', 'draw'] : ['home', 'visitor'];
+
+  const controls = (
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-sm">
+      <div className="flex gap-1">
+        {(['line', 'candles'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-2 py-1 rounded ${
+              view === option ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-gray-700'
+            }`}
+          >
+            {option === 'line' ? 'Line' : 'Candles'}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        {view === 'candles' && (
+          <select
+            aria-label="Outcome"
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as CandleOutcome)}
+            className="px-2 py-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"
+          >
+            {outcomes.map(option => (
+              <option key={option} value={option}>{outcomeNames[option]}</option>
+            ))}
+          </select>
+        )}
+        <select
+          aria-label="Interval"
+          value={candleInterval}
+          onChange={(e) => setCandleInterval(e.target.value as CandleInterval)}
+          className="px-2 py-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"
+        >
+          {INTERVALS.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
 
   // If we're still loading or there's an error, show a placeholder
   if (loading) {
@@ -113,7 +152,7 @@ export default function OddsHistoryChart({
     );
   }
 
-  if (oddsHistory.length === 0) {
+  if (candles.length === 0) {
     return (
       <div className="w-full h-64 flex items-center justify-center bg-gray-100 dark:bg-gray-800 rounded-lg">
         <div className="text-gray-500 dark:text-gray-400">No odds history available</div>
@@ -121,88 +160,141 @@ export default function OddsHistoryChart({
     );
   }
 
-  // Format data for Chart.js
-  const chartData = {
-    labels: oddsHistory.map(record => {
-      // Convert Firestore Timestamp to JavaScript Date properly
-      let dateObj;
-      
-      if (record.timestamp && typeof record.timestamp.toDate === 'function') {
-        // If it's a Firestore Timestamp object, use its toDate() method
-        dateObj = record.timestamp.toDate();
-      } else if (record.timestamp instanceof Date) {
-        // If it's already a Date object, use it directly
-        dateObj = record.timestamp;
-      } else {
-        // Fallback for other formats
-        dateObj = new Date(record.timestamp);
-      }
-      
-      // Format the date if it's valid, otherwise show 'Invalid Date'
-      if (!isNaN(dateObj.getTime())) {
-        return dateObj.toLocaleDateString() + ' ' + dateObj.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-      } else {
-        console.error('Invalid timestamp:', record.timestamp);
-        return 'Invalid Date';
-      }
-    }),
-    datasets: [
-      {
-        label: `${homeTeamName} (Home)`,
-        data: oddsHistory.map(record => record.homeTeamOdds),
-        borderColor: 'rgba(59, 130, 246, 1)', // Blue
-        backgroundColor: 'rgba(59, 130, 246, 0.2)',
+  const labels = candles.map(candle => formatCandleTime(candle.start, candleInterval));
+
+  if (view === 'line') {
+    const lineColors: { [outcome in CandleOutcome]: string } = {
+      home: 'rgba(59, 130, 246, 1)', // Blue
+      visitor: 'rgba(239, 68, 68, 1)', // Red
+      draw: 'rgba(234, 179, 8, 1)', // Yellow
+    };
+    const chartData = {
+      labels,
+      datasets: outcomes.map(key => ({
+        label: outcomeNames[key],
+        data: candles.map(candle => candle.odds[key]?.close ?? null),
+        borderColor: lineColors[key],
+        backgroundColor: lineColors[key].replace(', 1)', ', 0.2)'),
         fill: false,
         tension: 0.3,
+        spanGaps: true,
         pointRadius: 0 // Remove dots
+      }))
+    };
+
+    const chartOptions = {
+      responsive: true,
+      maintainAspectRatio: false,
+      scales: {
+        y: {
+          beginAtZero: true,
+          max: 100,
+          title: {
+            display: true,
+            text: 'Win Probability (%)'
+          }
+        }
       },
+      plugins: {
+        legend: {
+          position: 'top' as const,
+          labels: {
+            usePointStyle: true,
+            boxWidth: 6
+          }
+        },
+        tooltip: {
+          callbacks: {
+            label: function(context: any) {
+              return `${context.dataset.label}: ${formatOdds(context.parsed.y, oddsFormat)}`;
+            }
+          }
+        }
+      }
+    };
+
+    return (
+      <div className="w-full mt-6">
+        {controls}
+        <div className="h-64">
+          <Line data={chartData} options={chartOptions} />
+        </div>
+      </div>
+    );
+  }
+
+  // Candlestick view: floating bars for the wick (low-high) and the body
+  // (open-close) of the selected outcome, with the amount bet underneath
+  const ohlc = candles.map(candle => candle.odds[outcome] ?? null);
+  const colors = ohlc.map(o => (o && o.close < o.open ? FALLING_COLOR : RISING_COLOR));
+  const maxVolume = Math.max(...candles.map(candle => candle.volume), 1);
+
+  const candleData = {
+    labels,
+    datasets: [
       {
-        label: `${awayTeamName} (Away)`,
-        data: oddsHistory.map(record => record.visitorTeamOdds),
-        borderColor: 'rgba(239, 68, 68, 1)', // Red
-        backgroundColor: 'rgba(239, 68, 68, 0.2)',
-        fill: false,
-        tension: 0.3,
-        pointRadius: 0 // Remove dots
+        label: 'Range',
+        data: ohlc.map(o => (o ? [o.low, o.high] : null)),
+        backgroundColor: colors,
+        barPercentage: 0.1,
+        grouped: false,
+        yAxisID: 'y',
       },
-      // Add draw dataset if showDraw is true and we have data
-      ...(showDraw ? [{
-        label: 'Draw',
-        data: oddsHistory.map(record => record.drawOdds || 0),
-        borderColor: 'rgba(234, 179, 8, 1)', // Yellow
-        backgroundColor: 'rgba(234, 179, 8, 0.2)',
-        fill: false,
-        tension: 0.3,
-        pointRadius: 0 // Remove dots
-      }] : [])
+      {
+        label: outcomeNames[outcome],
+        // Flat candles still get a visible body
+        data: ohlc.map(o => (o ? (o.open === o.close ? [o.open - 0.2, o.close + 0.2] : [o.open, o.close]) : null)),
+        backgroundColor: colors,
+        barPercentage: 0.7,
+        grouped: false,
+        yAxisID: 'y',
+      },
+      {
+        label: 'Volume',
+        data: candles.map(candle => candle.volume),
+        backgroundColor: 'rgba(156, 163, 175, 0.4)', // Gray
+        barPercentage: 0.7,
+        grouped: false,
+        yAxisID: 'volume',
+      }
     ]
   };
 
-  const chartOptions = {
+  const candleOptions = {
     responsive: true,
     maintainAspectRatio: false,
     scales: {
       y: {
-        beginAtZero: true,
-        max: 100,
         title: {
           display: true,
           text: 'Win Probability (%)'
         }
+      },
+      // Volume bars fill the bottom quarter of the chart
+      volume: {
+        position: 'right' as const,
+        beginAtZero: true,
+        max: maxVolume * 4,
+        display: false,
+        grid: { display: false }
       }
     },
     plugins: {
       legend: {
-        position: 'top' as const,
-        labels: {
-          usePointStyle: true,
-          boxWidth: 6
-        }
+        display: false
       },
       tooltip: {
+        filter: (item: any) => item.datasetIndex !== 0,
         callbacks: {
           label: function(context: any) {
-            return `${context.dataset.label}: ${context.parsed.y.toFixed(1)}%`;
+            const candle = candles[context.dataIndex];
+            if (context.dataset.yAxisID === 'volume') {
+              return `Volume: ${formatCurrency(candle.volume)} (${candle.bets} bets)`;
+            }
+            const o = ohlc[context.dataIndex];
+            if (!o) return '';
+            return `O ${formatOdds(o.open, oddsFormat)} H ${formatOdds(o.high, oddsFormat)} ` +
+              `L ${formatOdds(o.low, oddsFormat)} C ${formatOdds(o.close, oddsFormat)}`;
           }
         }
       }
@@ -210,8 +302,11 @@ export default function OddsHistoryChart({
   };
 
   return (
-    <div className="w-full h-64 mt-6">
-      <Line data={chartData} options={chartOptions} />
+    <div className="w-full mt-6">
+      {controls}
+      <div className="h-64">
+        <Bar data={candleData as any} options={candleOptions} />
+      </div>
     </div>
   );
-} 
\ No newline at end of file
+}
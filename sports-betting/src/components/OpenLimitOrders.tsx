@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase';
+import type { LimitOrder } from '@/types/trade';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatCurrency, formatOdds } from '@/utils/formatters';
+import { getSelectionLabel, getSelectionOdds } from '@/utils/markets';
+
+interface OpenLimitOrdersProps {
+  onCancel: (refundedAmount: number) => void;
+}
+
+/**
+ * The signed-in user's open limit orders, each with a cancel button
+ */
+export default function OpenLimitOrders({ onCancel }: OpenLimitOrdersProps) {
+  const [orders, setOrders] = useState<LimitOrder[]>([]);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const { oddsFormat } = useAuth();
+
+  useEffect(() => {
+    const fetchOrders = async () => {
+      try {
+        const getLimitOrders = httpsCallable(functions, 'getLimitOrders');
+        const result = await getLimitOrders();
+        setOrders((result.data as { orders?: LimitOrder[] }).orders || []);
+      } catch (err) {
+        console.error('Error fetching limit orders:', err);
+      }
+    };
+
+    fetchOrders();
+  }, []);
+
+  const cancelOrder = async (order: LimitOrder) => {
+    setCancellingId(order.id);
+    setError('');
+    try {
+      const cancelLimitOrder = httpsCallable(functions, 'cancelLimitOrder');
+      await cancelLimitOrder({ orderId: order.id });
+      setOrders(prev => prev.filter(o => o.id !== order.id));
+      onCancel(order.amount);
+    } catch (err) {
+      console.error('Error cancelling limit order:', err);
+      setError('Failed to cancel order. Please try again.');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (orders.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-4 mb-6">
+      <h3 className="font-semibold mb-3">Open Orders ({orders.length})</h3>
+      {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+      <ul className="space-y-2">
+        {orders.map((order) => (
+          <li
+            key={order.id}
+            className="flex justify-between items-center gap-4 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+          >
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {order.event ? getSelectionLabel(order.event, order.selectedTeam) : 'Unknown event'}
+              </p>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                {formatCurrency(order.amount)} when odds reach {formatOdds(order.targetOdds, oddsFormat)} or better
+                {order.event && ` (now ${formatOdds(getSelectionOdds(order.event, order.selectedTeam), oddsFormat)})`}
+              </p>
+              {order.expiresAt && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Expires {new Date(order.expiresAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={() => cancelOrder(order)}
+              disabled={cancellingId !== null}
+              className="px-3 py-1.5 text-sm border border-red-300 text-red-600 dark:border-red-700 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+            >
+              {cancellingId === order.id ? 'Cancelling...' : 'Cancel'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
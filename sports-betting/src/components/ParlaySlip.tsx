@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useParlay, ParlaySelection } from '@/contexts/ParlayContext';
+import { formatCurrency, formatOdds } from '@/utils/formatters';
+import { getSelectionOdds } from '@/utils/markets';
+
+const MIN_PARLAY_LEGS = 2;
+
+interface LegQuote {
+  quoteId: string;
+  odds: number;
+  expiresAt: number;
+}
+
+// Server-quoted odds of the selected side once quoted, as in BettingModal
+function getLegOdds(selection: ParlaySelection, quotes: Record<string, LegQuote>) {
+  return quotes[String(selection.event.id)]?.odds ?? getSelectionOdds(selection.event, selection.selectedTeam);
+}
+
+function getSelectionName({ event, selectedTeam }: ParlaySelection) {
+  if (selectedTeam === 'home') return event.home_team.full_name;
+  if (selectedTeam === 'visitor') return event.visitor_team.full_name;
+  return 'Draw';
+}
+
+/**
+ * Floating bet slip that collects parlay legs across events
+ */
+export default function ParlaySlip() {
+  const { user, oddsFormat } = useAuth();
+  const { selections, removeSelection, clearSelections } = useParlay();
+  const [betAmount, setBetAmount] = useState('');
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [error, setError] = useState('');
+  const [successPayout, setSuccessPayout] = useState<number | null>(null);
+  const [quotes, setQuotes] = useState<Record<string, LegQuote>>({});
+
+  // Each leg is placed against its own signed quote, like a single bet
+  const requestQuotes = useCallback(async () => {
+    if (!user || selections.length === 0) return null;
+    try {
+      const getQuoteFunction = httpsCallable(functions, 'getQuote');
+      const results = await Promise.all(selections.map(({ event, selectedTeam }) =>
+        getQuoteFunction({ eventId: String(event.id), selectedTeam })
+      ));
+      const newQuotes: Record<string, LegQuote> = {};
+      selections.forEach(({ event }, i) => {
+        newQuotes[String(event.id)] = results[i].data as LegQuote;
+      });
+      setQuotes(newQuotes);
+      return newQuotes;
+    } catch (err) {
+      console.error('Error fetching parlay quotes:', err);
+      return null;
+    }
+  }, [user, selections]);
+
+  useEffect(() => {
+    requestQuotes();
+  }, [requestQuotes]);
+
+  // Re-quote shortly before the first quote expires
+  useEffect(() => {
+    const expiries = Object.values(quotes).map(quote => quote.expiresAt);
+    if (expiries.length === 0) return;
+    const timer = setTimeout(requestQuotes, Math.max(Math.min(...expiries) - Date.now() - 2000, 0));
+    return () => clearTimeout(timer);
+  }, [quotes, requestQuotes]);
+
+  if (selections.length === 0 && successPayout === null) return null;
+
+  const numericAmount = Number(betAmount);
+  const payoutMultiplier = selections.reduce(
+    (multiplier, selection) => multiplier * (100 / getLegOdds(selection, quotes)),
+    1
+  );
+  const potentialPayout = numericAmount * payoutMultiplier;
+  const canPlace = selections.length >= MIN_PARLAY_LEGS && numericAmount > 0 && !isPlacing;
+
+  const placeParlay = async () => {
+    if (!user) {
+      setError('Please sign in to place a parlay.');
+      return;
+    }
+
+    setIsPlacing(true);
+    setError('');
+
+    try {
+      const isQuoted = selections.every(({ event }) => quotes[String(event.id)]?.expiresAt > Date.now());
+      const activeQuotes = isQuoted ? quotes : await requestQuotes();
+      if (!activeQuotes) throw new Error('Unable to get a price quote');
+
+      const placeBetFunction = httpsCallable(functions, 'placeBet');
+      const result = await placeBetFunction({
+        betAmount: numericAmount,
+        legs: selections.map(({ event, selectedTeam }) => ({
+          eventId: String(event.id),
+          selectedTeam,
+          quoteId: activeQuotes[String(event.id)].quoteId
+        }))
+      });
+      const data = result.data as { expectedPayout: number };
+      setSuccessPayout(data.expectedPayout);
+      setBetAmount('');
+      clearSelections();
+    } catch (err: any) {
+      console.error('Error placing parlay:', err);
+      // The server rejects stale quotes; fetch fresh prices for the user to review
+      if (err?.code === 'functions/aborted') {
+        await requestQuotes();
+        setError('The odds moved. Review the new payout and place your parlay again.');
+      } else {
+        setError(err.message || 'Failed to place parlay. Please try again.');
+      }
+    } finally {
+      setIsPlacing(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex justify-between items-center px-4 py-3 border-b border-gray-200 dark:border-gray-700"
+      >
+        <span className="font-semibold">Parlay Slip ({selections.length})</span>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{isExpanded ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="p-4">
+          {successPayout !== null ? (
+            <div className="text-center">
+              <p className="font-semibold text-green-600 dark:text-green-400 mb-2">Parlay placed!</p>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                Potential payout: {formatCurrency(successPayout)}
+              </p>
+              <button
+                onClick={() => setSuccessPayout(null)}
+                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition duration-200"
+              >
+                Done
+              </button>
+            </div>
+          ) : (
+            <>
+              <ul className="space-y-2 mb-4 max-h-60 overflow-y-auto">
+                {selections.map((selection) => (
+                  <li
+                    key={String(selection.event.id)}
+                    className="flex justify-between items-start gap-2 p-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{getSelectionName(selection)}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {selection.event.home_team.full_name} vs {selection.event.visitor_team.full_name}
+                      </p>
+                      <p className="text-xs text-blue-600 dark:text-blue-400">{formatOdds(getLegOdds(selection, quotes), oddsFormat)}</p>
+                    </div>
+                    <button
+                      onClick={() => removeSelection(String(selection.event.id))}
+                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                      aria-label="Remove leg"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {selections.length < MIN_PARLAY_LEGS && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                  Add at least {MIN_PARLAY_LEGS} legs to place a parlay.
+                </p>
+              )}
+
+              <input
+                type="number"
+                value={betAmount}
+                onChange={(e) => setBetAmount(e.target.value)}
+                placeholder="Stake"
+                className="w-full p-2 mb-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-transparent dark:text-white focus:border-blue-500 outline-none"
+                disabled={isPlacing}
+              />
+
+              {numericAmount > 0 && (
+                <div className="flex justify-between text-sm mb-3">
+                  <span className="text-gray-600 dark:text-gray-300">Potential Payout:</span>
+                  <span className="font-bold text-green-600 dark:text-green-400">{formatCurrency(potentialPayout)}</span>
+                </div>
+              )}
+
+              {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={clearSelections}
+                  disabled={isPlacing}
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Clear
+                </button>
+                <button
+                  onClick={placeParlay}
+                  disabled={!canPlace}
+                  className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg text-sm"
+                >
+                  {isPlacing ? 'Placing...' : 'Place Parlay'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
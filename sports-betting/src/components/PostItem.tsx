@@ -13,10 +13,14 @@ import { functions } from '@/lib/firebase';
 import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
 import { FaEdit, FaCheck, FaTimes, FaTrash } from 'react-icons/fa';
 import EventSelector from './EventSelector';
+import { TeamLogo } from '@/components/common/TeamLogo';
 import { useRouter } from 'next/navigation';
+import { formatOdds } from '@/utils/formatters';
+import { getSelectionOdds } from '@/utils/markets';
 
 // TaggedEventItem Component
 function TaggedEventItem({ eventId }: { eventId: string }) {
+  const { oddsFormat } = useAuth();
   const [event, setEvent] = useState<Event | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -53,8 +57,8 @@ function TaggedEventItem({ eventId }: { eventId: string }) {
     try {
       let dateString = event.status;
       
-      // For soccer events, use datetime or date fields instead
-      if (event.sport === 'soccer') {
+      // Only older NBA events keep the start time in status
+      if (event.sport && event.sport !== 'basketball') {
         dateString = event.datetime || event.date || event.status;
       }
       
@@ -100,7 +104,7 @@ function TaggedEventItem({ eventId }: { eventId: string }) {
             </div>
             <div>
               <span className="font-medium block">{event.home_team.full_name}</span>
-              <span className="text-sm text-gray-500 dark:text-gray-400">{event.homeTeamCurrentOdds || '--'}% odds</span>
+              <span className="text-sm text-gray-500 dark:text-gray-400">{event.homeTeamCurrentOdds ? formatOdds(getSelectionOdds(event, 'home'), oddsFormat) : '--'}</span>
             </div>
           </div>
           
@@ -111,7 +115,7 @@ function TaggedEventItem({ eventId }: { eventId: string }) {
           <div className="flex items-center gap-3">
             <div>
               <span className="font-medium block">{event.visitor_team.full_name}</span>
-              <span className="text-sm text-gray-500 dark:text-gray-400">{event.visitorTeamCurrentOdds || '--'}% odds</span>
+              <span className="text-sm text-gray-500 dark:text-gray-400">{event.visitorTeamCurrentOdds ? formatOdds(getSelectionOdds(event, 'visitor'), oddsFormat) : '--'}</span>
             </div>
             <div className="bg-gray-50 dark:bg-gray-600/50 p-2 rounded-full">
               <TeamLogo
@@ -137,45 +141,6 @@ function TaggedEventItem({ eventId }: { eventId: string }) {
   );
 }
 
-// Updated TeamLogo Component
-function TeamLogo({ 
-  abbreviation, 
-  teamName, 
-  sport, 
-  teamId 
-}: { 
-  abbreviation: string; 
-  teamName: string; 
-  sport?: string; 
-  teamId?: number | string 
-}) {
-  const [imageExists, setImageExists] = useState(true);
-  
-  // For soccer teams, use the football-data.org API
-  let logoUrl = `/logos/${abbreviation}.png`; // Default logo
-  
-  if (sport === 'soccer' && teamId !== undefined) {
-    // Use the football-data.org API for soccer team logos
-    logoUrl = `https://crests.football-data.org/${teamId}.png`;
-  }
-
-  return imageExists ? (
-    <Image
-      src={logoUrl}
-      alt={`${teamName} logo`}
-      width={32}
-      height={32}
-      className="rounded-full"
-      onError={() => setImageExists(false)}
-    />
-  ) : (
-    // Fallback if image doesn't exist
-    <div className="w-8 h-8 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center text-gray-500 dark:text-gray-400 text-xs font-medium">
-      {abbreviation?.substring(0, 2) || "?"}
-    </div>
-  );
-}
-
 // Main PostItem Component
 export default function PostItem({ post, onPostDeleted }: { post: Post; onPostDeleted?: (postId: string) => void }) {
   const { user } = useAuth();
@@ -194,6 +159,11 @@ export default function PostItem({ post, onPostDeleted }: { post: Post; onPostDe
   const [keepExistingMedia, setKeepExistingMedia] = useState(!!post.mediaUrl);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyContent, setReplyContent] = useState('');
+  const [isSubmittingReply, setIsSubmittingReply] = useState(false);
+  const [replyError, setReplyError] = useState('');
+  const [replySent, setReplySent] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Check if current user is the author of the post
@@ -455,6 +425,29 @@ export default function PostItem({ post, onPostDeleted }: { post: Post; onPostDe
     setShowDeleteConfirm(false);
   };
 
+  // Replies are posts of their own; the author of this post is notified
+  const handleReplySubmit = async () => {
+    if (!replyContent.trim()) {
+      setReplyError('Reply cannot be empty');
+      return;
+    }
+
+    try {
+      setIsSubmittingReply(true);
+      setReplyError('');
+      const createPost = httpsCallable(functions, 'createPost');
+      await createPost({ content: replyContent.trim(), replyToPostId: post.id });
+      setReplyContent('');
+      setIsReplying(false);
+      setReplySent(true);
+    } catch (err: any) {
+      console.error('Error replying to post:', err);
+      setReplyError(err.message || 'Failed to post reply');
+    } finally {
+      setIsSubmittingReply(false);
+    }
+  };
+
   // Handle navigating to user profile
   const handleUserProfileClick = (userId: string, username: string) => {
     router.push(`/profile?userId=${userId}&username=${encodeURIComponent(username)}`);
@@ -672,6 +665,17 @@ export default function PostItem({ post, onPostDeleted }: { post: Post; onPostDe
         </div>
       ) : (
         <div>
+          {post.replyTo && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+              Replying to{' '}
+              <span
+                onClick={() => handleUserProfileClick(post.replyTo!.userId, post.replyTo!.username)}
+                className="text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+              >
+                @{post.replyTo.username}
+              </span>
+            </p>
+          )}
           <div className="text-gray-800 dark:text-gray-200 whitespace-pre-line">
             {post.content}
           </div>
@@ -718,6 +722,55 @@ export default function PostItem({ post, onPostDeleted }: { post: Post; onPostDe
           </div>
         </div>
       )}
+
+      {/* Reply */}
+      {user && !isEditing && (
+        <div className="mt-4">
+          {isReplying ? (
+            <div>
+              <textarea
+                value={replyContent}
+                onChange={(e) => setReplyContent(e.target.value)}
+                className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white resize-y min-h-[80px]"
+                placeholder={`Reply to @${post.username}`}
+                disabled={isSubmittingReply}
+              />
+              {replyError && <p className="text-red-500 mt-1 text-sm">{replyError}</p>}
+              <div className="flex justify-end gap-2 mt-2">
+                <button
+                  onClick={() => {
+                    setIsReplying(false);
+                    setReplyError('');
+                  }}
+                  className="px-3 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleReplySubmit}
+                  disabled={isSubmittingReply}
+                  className="px-3 py-1.5 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                >
+                  {isSubmittingReply ? 'Replying...' : 'Reply'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => {
+                  setIsReplying(true);
+                  setReplySent(false);
+                }}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Reply
+              </button>
+              {replySent && <span className="text-sm text-green-600 dark:text-green-400">Reply posted</span>}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
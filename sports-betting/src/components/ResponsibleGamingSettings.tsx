@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase';
+import type { GamingLimitKey, ResponsibleGamingSettings as Settings } from '@/types/wallet';
+import { formatCurrency } from '@/utils/formatters';
+
+const LIMIT_FIELDS: { key: GamingLimitKey; label: string }[] = [
+  { key: 'dailyDeposit', label: 'Daily deposit limit' },
+  { key: 'weeklyDeposit', label: 'Weekly deposit limit' },
+  { key: 'monthlyDeposit', label: 'Monthly deposit limit' },
+  { key: 'netLoss', label: 'Net loss limit (30 days)' },
+  { key: 'maxStake', label: 'Maximum stake per bet' }
+];
+
+const COOL_OFF_OPTIONS = [
+  { value: 1, label: '24 hours' },
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' }
+];
+
+const SELF_EXCLUSION_OPTIONS = [
+  { value: 6, label: '6 months' },
+  { value: 12, label: '1 year' },
+  { value: 60, label: '5 years' }
+];
+
+const toInputValues = (settings: Settings) =>
+  LIMIT_FIELDS.reduce((values, { key }) => {
+    values[key] = settings.limits[key] !== null ? String(settings.limits[key]) : '';
+    return values;
+  }, {} as { [key in GamingLimitKey]: string });
+
+/**
+ * Deposit, loss and stake limits plus cool-off and self-exclusion for the
+ * signed-in user. Everything is enforced by the backend.
+ */
+export default function ResponsibleGamingSettings() {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [limitInputs, setLimitInputs] = useState<{ [key in GamingLimitKey]: string } | null>(null);
+  const [coolOffDays, setCoolOffDays] = useState(COOL_OFF_OPTIONS[0].value);
+  const [exclusionMonths, setExclusionMonths] = useState(SELF_EXCLUSION_OPTIONS[0].value);
+  const [confirmingExclusion, setConfirmingExclusion] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const applySettings = (newSettings: Settings) => {
+    setSettings(newSettings);
+    setLimitInputs(toInputValues(newSettings));
+  };
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const getResponsibleGaming = httpsCallable(functions, 'getResponsibleGaming');
+        const result = await getResponsibleGaming();
+        applySettings(result.data as Settings);
+      } catch (err) {
+        console.error('Error fetching responsible gaming settings:', err);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  if (!settings || !limitInputs) return null;
+
+  const saveLimits = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+
+    const limits: { [key: string]: number | null } = {};
+    for (const { key, label } of LIMIT_FIELDS) {
+      const input = limitInputs[key].trim();
+      const value = input === '' ? null : Number(input);
+      if (value !== null && (isNaN(value) || value <= 0)) {
+        setError(`${label} must be a positive amount`);
+        return;
+      }
+      if (value !== settings.limits[key]) limits[key] = value;
+    }
+    if (Object.keys(limits).length === 0) return;
+
+    setIsSaving(true);
+    try {
+      const setLimits = httpsCallable(functions, 'setResponsibleGamingLimits');
+      const result = await setLimits({ limits });
+      applySettings(result.data as Settings);
+      setMessage('Limits saved. Lower limits apply now; increases apply after a 24-hour wait.');
+    } catch (err: any) {
+      console.error('Error saving limits:', err);
+      setError(err?.message || 'Failed to save limits. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startBreak = async (type: 'coolOff' | 'selfExclusion', duration: number) => {
+    setError('');
+    setMessage('');
+    setIsSaving(true);
+    try {
+      const startGamingBreak = httpsCallable(functions, 'startGamingBreak');
+      const result = await startGamingBreak({ type, duration });
+      applySettings(result.data as Settings);
+      setConfirmingExclusion(false);
+    } catch (err: any) {
+      console.error('Error starting break:', err);
+      setError(err?.message || 'Failed to start your break. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const now = Date.now();
+  const isSelfExcluded = !!settings.selfExcludedUntil && settings.selfExcludedUntil > now;
+  const isCoolingOff = !!settings.coolOffUntil && settings.coolOffUntil > now;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-4 mb-6">
+      <h3 className="font-semibold mb-1">Responsible Gaming</h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        Set limits on your deposits and betting, or take a break.
+      </p>
+
+      {isSelfExcluded && (
+        <div className="p-3 mb-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded-lg text-sm">
+          You are self-excluded until {new Date(settings.selfExcludedUntil!).toLocaleDateString()}.
+        </div>
+      )}
+      {!isSelfExcluded && isCoolingOff && (
+        <div className="p-3 mb-4 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 rounded-lg text-sm">
+          You are taking a break until {new Date(settings.coolOffUntil!).toLocaleString()}.
+        </div>
+      )}
+
+      <form onSubmit={saveLimits} className="space-y-3">
+        {LIMIT_FIELDS.map(({ key, label }) => {
+          const pending = settings.pendingLimits[key];
+          return (
+            <div key={key}>
+              <label htmlFor={`limit-${key}`} className="block text-sm font-medium mb-1">{label}</label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                <input
+                  type="number"
+                  id={`limit-${key}`}
+                  value={limitInputs[key]}
+                  onChange={(e) => setLimitInputs(prev => prev && { ...prev, [key]: e.target.value })}
+                  placeholder="No limit"
+                  min="0"
+                  step="0.01"
+                  className="w-full pl-8 pr-4 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+                />
+              </div>
+              {pending && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {pending.value === null ? 'Removing this limit' : `Increasing to ${formatCurrency(pending.value)}`}
+                  {' '}on {new Date(pending.effectiveAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+          );
+        })}
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Limits'}
+        </button>
+      </form>
+
+      {message && <p className="text-green-600 dark:text-green-400 text-sm mt-3">{message}</p>}
+      {error && <p className="text-red-500 text-sm mt-3">{error}</p>}
+
+      <div className="mt-6 pt-4 border-t border-gray-100 dark:border-gray-700 space-y-4">
+        <div>
+          <label htmlFor="cool-off" className="block text-sm font-medium mb-1">Take a break</label>
+          <div className="flex gap-2">
+            <select
+              id="cool-off"
+              value={coolOffDays}
+              onChange={(e) => setCoolOffDays(Number(e.target.value))}
+              className="flex-1 px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+            >
+              {COOL_OFF_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => startBreak('coolOff', coolOffDays)}
+              disabled={isSaving}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Start Break
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="self-exclusion" className="block text-sm font-medium mb-1">Self-exclusion</label>
+          <div className="flex gap-2">
+            <select
+              id="self-exclusion"
+              value={exclusionMonths}
+              onChange={(e) => {
+                setExclusionMonths(Number(e.target.value));
+                setConfirmingExclusion(false);
+              }}
+              className="flex-1 px-3 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+            >
+              {SELF_EXCLUSION_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => confirmingExclusion
+                ? startBreak('selfExclusion', exclusionMonths)
+                : setConfirmingExclusion(true)}
+              disabled={isSaving}
+              className="px-4 py-2 border border-red-300 text-red-600 dark:border-red-700 dark:text-red-400 rounded-lg text-sm hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+            >
+              {confirmingExclusion ? 'Confirm Self-Exclusion' : 'Self-Exclude'}
+            </button>
+          </div>
+          {confirmingExclusion && (
+            <p className="text-xs text-red-600 dark:text-red-400 mt-1">
+              You won&apos;t be able to deposit or bet until it ends, and it can&apos;t be cancelled.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
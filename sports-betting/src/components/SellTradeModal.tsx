@@ -7,11 +7,22 @@ import { formatCurrency } from '@/utils/formatters';
 import type { Trade } from '@/types/trade';
 import { getFunctions, httpsCallable } from 'firebase/functions';
 
+/**
+ * Result of selling all or part of a trade, as returned by sellBet
+ */
+export interface TradeSale {
+  soldValue: number;
+  soldAmount: number;
+  pnlChange: number; // Sale value less what the seller paid for the part sold
+  remainingAmount: number;
+  childTradeId: string | null; // Set for partial sales
+}
+
 interface SellTradeModalProps { 
   isOpen: boolean; 
   onClose: () => void; 
   trade: Trade;
-  onConfirm: (soldValue: number) => Promise<void>;
+  onConfirm: (sale: TradeSale) => Promise<void>;
 }
 
 export default function SellTradeModal({ 
@@ -22,7 +33,12 @@ export default function SellTradeModal({
 }: SellTradeModalProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const [successData, setSuccessData] = useState<{ soldValue: number } | null>(null);
+  const [successData, setSuccessData] = useState<TradeSale | null>(null);
+  const [sellPercent, setSellPercent] = useState(100);
+
+  const currentValue = trade.currentValue || trade.amount;
+  const previewProceeds = currentValue * (sellPercent / 100);
+  const remainingStake = trade.amount * (1 - sellPercent / 100);
 
   const handleConfirm = async () => {
     setError('');
@@ -35,17 +51,18 @@ export default function SellTradeModal({
       
       // Call the Cloud Function
       const result = await sellBetFunction({ 
-        tradeId: trade.id 
+        tradeId: trade.id,
+        fraction: sellPercent / 100
       });
       
       // Get the result data
-      const data = result.data as { success: boolean; soldValue: number };
+      const data = result.data as TradeSale & { success: boolean };
       
       if (data.success) {
         // Set success data first to show success screen
-        setSuccessData({ soldValue: data.soldValue });
-        // Call the parent's onConfirm to refresh data with the sold value
-        await onConfirm(data.soldValue);
+        setSuccessData(data);
+        // Call the parent's onConfirm to refresh data with the sale
+        await onConfirm(data);
       } else {
         throw new Error('Failed to sell trade');
       }
@@ -133,6 +150,36 @@ export default function SellTradeModal({
               </div>
             </div>
 
+            <div className="mb-6">
+              <div className="flex justify-between items-center mb-2">
+                <label htmlFor="sell-percent" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Amount to sell
+                </label>
+                <span className="text-sm font-semibold">{sellPercent}%</span>
+              </div>
+              <input
+                id="sell-percent"
+                type="range"
+                min={1}
+                max={100}
+                step={1}
+                value={sellPercent}
+                onChange={(e) => setSellPercent(Number(e.target.value))}
+                className="w-full accent-blue-600"
+                disabled={isLoading}
+              />
+              <div className="mt-3 grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">You Receive</p>
+                  <p className="font-semibold text-green-600 dark:text-green-400">{formatCurrency(previewProceeds)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Stake Kept</p>
+                  <p className="font-medium">{formatCurrency(remainingStake)}</p>
+                </div>
+              </div>
+            </div>
+
             {error && (
               <p className="text-red-500 text-sm mb-4">{error}</p>
             )}
@@ -166,7 +213,9 @@ export default function SellTradeModal({
               </div>
               <h3 className="text-xl font-bold mb-2">Trade Successfully Sold</h3>
               <p className="text-gray-600 dark:text-gray-300">
-                Your trade has been sold and the funds have been added to your wallet.
+                {successData.childTradeId
+                  ? `You sold part of your trade and kept ${formatCurrency(successData.remainingAmount)} of the stake open. The proceeds have been added to your wallet.`
+                  : 'Your trade has been sold and the funds have been added to your wallet.'}
               </p>
             </div>
 
@@ -208,15 +257,15 @@ export default function SellTradeModal({
 
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
-                  <p className="text-gray-500 dark:text-gray-400">Original Amount</p>
-                  <p className="font-medium">{formatCurrency(trade.amount)}</p>
+                  <p className="text-gray-500 dark:text-gray-400">Stake Sold</p>
+                  <p className="font-medium">{formatCurrency(successData.soldAmount)}</p>
                 </div>
                 <div>
                   <p className="text-gray-500 dark:text-gray-400">Sold For</p>
                   <p className={`font-medium ${
-                    successData && successData.soldValue > trade.amount 
+                    successData && successData.soldValue > successData.soldAmount 
                       ? 'text-green-600 dark:text-green-400' 
-                      : successData && successData.soldValue < trade.amount 
+                      : successData && successData.soldValue < successData.soldAmount 
                         ? 'text-red-600 dark:text-red-400' 
                         : ''
                   }`}>
@@ -1,19 +0,0 @@
-'use client';
-
-import { useState } from 'react';
-import Image from 'next/image';
-
-export default function TeamLogo({ abbreviation, teamName }: { abbreviation: string; teamName: string }) {
-  const [imageExists, setImageExists] = useState(true);
-
-  return imageExists ? (
-    <Image
-      src={`/logos/${abbreviation}.png`}
-      alt={`${teamName} logo`}
-      width={48}
-      height={48}
-      className="rounded-full"
-      onError={() => setImageExists(false)}
-    />
-  ) : null;
-}
\ No newline at end of file
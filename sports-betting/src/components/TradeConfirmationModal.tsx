@@ -1,25 +1,12 @@
 import { useState, useEffect } from 'react';
 import { Event } from '@/types/events';
-import Image from 'next/image';
+import { TeamLogo } from '@/components/common/TeamLogo';
+import { formatOdds } from '@/utils/formatters';
+import { getSelectionOdds } from '@/utils/markets';
+import { useAuth } from '@/contexts/AuthContext';
 import { collection, getDocs, query, where, orderBy, limit } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 
-// TeamLogo component
-function TeamLogo({ abbreviation, teamName }: { abbreviation: string; teamName: string }) {
-  const [imageExists, setImageExists] = useState(true);
-
-  return imageExists ? (
-    <Image
-      src={`/logos/${abbreviation}.png`}
-      alt={`${teamName} logo`}
-      width={48}
-      height={48}
-      className="rounded-full"
-      onError={() => setImageExists(false)}
-    />
-  ) : null;
-}
-
 // Props for the TradeConfirmationModal
 export interface TradeConfirmationModalProps {
   betAmount: number;
@@ -39,6 +26,7 @@ export default function TradeConfirmationModal({
   onClose 
 }: TradeConfirmationModalProps) {
   const [confetti, setConfetti] = useState(true);
+  const { oddsFormat } = useAuth();
   const [suggestedEvents, setSuggestedEvents] = useState<Event[]>([]);
   const [loadingSuggestions, setLoadingSuggestions] = useState(true);
   
@@ -223,6 +211,10 @@ export default function TradeConfirmationModal({
                 <TeamLogo
                   abbreviation={selectedTeam === 'home' ? event.home_team.abbreviation : event.visitor_team.abbreviation}
                   teamName={selectedTeam === 'home' ? event.home_team.full_name : event.visitor_team.full_name}
+                  sport={event.sport}
+                  teamId={selectedTeam === 'home' ? event.home_team.id : event.visitor_team.id}
+                  size={48}
+                  showFallback={false}
                 />
               </div>
               <div className="font-semibold">{teamName}</div>
@@ -239,6 +231,10 @@ export default function TradeConfirmationModal({
                 <TeamLogo
                   abbreviation={selectedTeam === 'home' ? event.visitor_team.abbreviation : event.home_team.abbreviation}
                   teamName={selectedTeam === 'home' ? event.visitor_team.full_name : event.home_team.full_name}
+                  sport={event.sport}
+                  teamId={selectedTeam === 'home' ? event.visitor_team.id : event.home_team.id}
+                  size={48}
+                  showFallback={false}
                 />
               </div>
               <div className="font-semibold">
@@ -296,11 +292,15 @@ export default function TradeConfirmationModal({
                         <TeamLogo
                           abbreviation={suggestedEvent.home_team.abbreviation}
                           teamName={suggestedEvent.home_team.full_name}
+                          sport={suggestedEvent.sport}
+                          teamId={suggestedEvent.home_team.id}
+                          size={48}
+                          showFallback={false}
                         />
                       </div>
                       <div>
                         <span className="font-medium block">{suggestedEvent.home_team.full_name}</span>
-                        <span className="text-sm text-gray-500 dark:text-gray-400">{suggestedEvent.homeTeamCurrentOdds}% odds</span>
+                        <span className="text-sm text-gray-500 dark:text-gray-400">{formatOdds(getSelectionOdds(suggestedEvent, 'home'), oddsFormat)}</span>
                       </div>
                     </div>
                     
@@ -311,12 +311,16 @@ export default function TradeConfirmationModal({
                     <div className="flex items-center gap-3">
                       <div>
                         <span className="font-medium block">{suggestedEvent.visitor_team.full_name}</span>
-                        <span className="text-sm text-gray-500 dark:text-gray-400">{suggestedEvent.visitorTeamCurrentOdds}% odds</span>
+                        <span className="text-sm text-gray-500 dark:text-gray-400">{formatOdds(getSelectionOdds(suggestedEvent, 'visitor'), oddsFormat)}</span>
                       </div>
                       <div className="bg-gray-50 dark:bg-gray-600/50 p-2 rounded-full">
                         <TeamLogo
                           abbreviation={suggestedEvent.visitor_team.abbreviation}
                           teamName={suggestedEvent.visitor_team.full_name}
+                          sport={suggestedEvent.sport}
+                          teamId={suggestedEvent.visitor_team.id}
+                          size={48}
+                          showFallback={false}
                         />
                       </div>
                     </div>
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/lib/firebase';
+import type { WalletTransaction, WalletTransactionType } from '@/types/wallet';
+import { formatCurrency } from '@/utils/formatters';
+
+const PAGE_SIZE = 20;
+
+const TRANSACTION_LABELS: { [type in WalletTransactionType]: string } = {
+  deposit: 'Deposit',
+  stake: 'Bet placed',
+  payout: 'Winnings',
+  refund: 'Refund',
+  sale: 'Trade sold',
+  purchase: 'Trade bought',
+  adjustment: 'Settlement correction'
+};
+
+interface WalletHistoryProps {
+  refreshKey?: number; // Change to reload, e.g. after a deposit
+}
+
+/**
+ * The signed-in user's wallet ledger, newest first
+ */
+export default function WalletHistory({ refreshKey = 0 }: WalletHistoryProps) {
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchTransactions = async (lastCreatedAt?: number | null) => {
+    const getWalletTransactions = httpsCallable(functions, 'getWalletTransactions');
+    const result = await getWalletTransactions({ pageSize: PAGE_SIZE, lastCreatedAt });
+    return result.data as { transactions: WalletTransaction[]; hasMore: boolean };
+  };
+
+  useEffect(() => {
+    const loadFirstPage = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const data = await fetchTransactions();
+        setTransactions(data.transactions || []);
+        setHasMore(data.hasMore);
+      } catch (err) {
+        console.error('Error fetching wallet history:', err);
+        setError('Failed to load wallet history.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFirstPage();
+  }, [refreshKey]);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const data = await fetchTransactions(transactions[transactions.length - 1]?.createdAt);
+      setTransactions(prev => [...prev, ...(data.transactions || [])]);
+      setHasMore(data.hasMore);
+    } catch (err) {
+      console.error('Error fetching wallet history:', err);
+      setError('Failed to load wallet history.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-14 bg-gray-200 dark:bg-gray-700 rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error && transactions.length === 0) {
+    return <p className="text-red-500 text-sm">{error}</p>;
+  }
+
+  if (transactions.length === 0) {
+    return (
+      <div className="text-center py-12 bg-gray-50 dark:bg-gray-800/50 rounded-xl border border-gray-200 dark:border-gray-700">
+        <p className="text-gray-500 dark:text-gray-400">No wallet activity yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+        {transactions.map((transaction) => (
+          <li key={transaction.id} className="flex justify-between items-center py-3">
+            <div>
+              <p className="font-medium">{TRANSACTION_LABELS[transaction.type] || transaction.type}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {transaction.createdAt ? new Date(transaction.createdAt).toLocaleString() : 'Date unavailable'}
+              </p>
+            </div>
+            <span className={`font-semibold ${
+              transaction.amount >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+            }`}>
+              {transaction.amount >= 0 ? '+' : '-'}{formatCurrency(Math.abs(transaction.amount))}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-red-500 text-sm mt-3">{error}</p>}
+      {hasMore && (
+        <button
+          onClick={loadMore}
+          disabled={loadingMore}
+          className="mt-3 w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          {loadingMore ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
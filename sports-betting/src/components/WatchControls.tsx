@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Event } from '@/types/events';
+import type { Watch } from '@/types/notifications';
+
+// Odds moves, in percentage points, users can be alerted on
+const THRESHOLDS = [3, 5, 10, 20];
+
+interface WatchOption {
+  key: string; // Same key the backend stores the watch under
+  label: string;
+  team?: 'home' | 'visitor';
+}
+
+/**
+ * Buttons to watch an event or either of its teams, for alerts when the
+ * odds move past a threshold, the game goes live and the game is settled
+ */
+export default function WatchControls({ event }: { event: Event }) {
+  const { user } = useAuth();
+  const [watchlist, setWatchlist] = useState<{ [key: string]: Watch }>({});
+  const [threshold, setThreshold] = useState(5);
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = onSnapshot(
+      doc(db, 'users', user.uid),
+      (userDoc) => setWatchlist(userDoc.data()?.watchlist || {}),
+      (err) => console.error('Error listening for watchlist:', err)
+    );
+    return () => unsubscribe();
+  }, [user]);
+
+  if (!user) return null;
+
+  const sport = event.sport || 'basketball';
+  const options: WatchOption[] = [
+    { key: `event:${event.id}`, label: 'this game' },
+    { key: `team:${sport}:${event.home_team.id}`, label: event.home_team.full_name, team: 'home' },
+    { key: `team:${sport}:${event.visitor_team.id}`, label: event.visitor_team.full_name, team: 'visitor' },
+  ];
+
+  const toggleWatch = async (option: WatchOption) => {
+    setPendingKey(option.key);
+    setError(null);
+    try {
+      if (watchlist[option.key]) {
+        const removeFromWatchlist = httpsCallable(functions, 'removeFromWatchlist');
+        await removeFromWatchlist({ key: option.key });
+      } else {
+        const addToWatchlist = httpsCallable(functions, 'addToWatchlist');
+        await addToWatchlist({ eventId: event.id, team: option.team, threshold });
+      }
+    } catch (err: any) {
+      console.error('Error updating watchlist:', err);
+      setError(err.message || 'Failed to update watchlist');
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="text-lg font-semibold">Alerts</h3>
+        <label className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-2">
+          Alert on odds moves of
+          <select
+            aria-label="Alert threshold"
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            className="px-2 py-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"
+          >
+            {THRESHOLDS.map(points => (
+              <option key={points} value={points}>{points} pts</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => {
+          const watch = watchlist[option.key];
+          return (
+            <button
+              key={option.key}
+              onClick={() => toggleWatch(option)}
+              disabled={pendingKey !== null}
+              className={`px-3 py-1 rounded-full text-sm border transition-colors disabled:opacity-50 ${
+                watch
+                  ? 'bg-blue-600 border-blue-600 text-white hover:bg-blue-700'
+                  : 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {watch ? `Watching ${option.label} (${watch.threshold} pts)` : `Watch ${option.label}`}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        Watched games and teams notify you when the odds move, the game goes live and it is settled.
+      </p>
+      {error && <p className="text-sm text-red-500 mt-1">{error}</p>}
+    </div>
+  );
+}
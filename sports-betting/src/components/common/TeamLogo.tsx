@@ -2,43 +2,72 @@
 
 import { useState } from 'react';
 import Image from 'next/image';
+import type { Sport } from '@/types/events';
 
 interface TeamLogoProps {
   abbreviation: string;
   teamName: string;
-  sport?: string;
+  sport?: Sport;
   teamId?: number | string;
+  logo?: string; // Logo URL stored on the team, used when the sport has no logo source
+  size?: number;
+  showFallback?: boolean; // Show the team's initials when there's no logo
+}
+
+// ESPN's logo CDN paths for the leagues it covers
+const ESPN_LEAGUES: { [sport in Sport]?: string } = {
+  football: 'nfl',
+  baseball: 'mlb',
+  hockey: 'nhl'
+};
+
+/**
+ * Logo URL for a team: football-data.org crests for soccer, ESPN's CDN for
+ * the NFL, MLB and NHL, and the bundled logos for the NBA
+ */
+export function getTeamLogoUrl(abbreviation: string, sport?: Sport, teamId?: number | string, logo?: string) {
+  if (sport === 'soccer' && teamId !== undefined) {
+    return `https://crests.football-data.org/${teamId}.png`;
+  }
+  const espnLeague = sport && ESPN_LEAGUES[sport];
+  if (espnLeague && abbreviation) {
+    return `https://a.espncdn.com/i/teamlogos/${espnLeague}/500/${abbreviation.toLowerCase()}.png`;
+  }
+  if (logo) return logo;
+  return `/logos/${abbreviation}.png`;
 }
 
 export function TeamLogo({ 
   abbreviation, 
   teamName, 
   sport, 
-  teamId 
+  teamId,
+  logo,
+  size = 32,
+  showFallback = true
 }: TeamLogoProps) {
   const [imageExists, setImageExists] = useState(true);
 
-  // For soccer teams, use the football-data.org API
-  let logoUrl = `/logos/${abbreviation}.png`; // Default logo
-  
-  if (sport === 'soccer' && teamId !== undefined) {
-    // Use the football-data.org API for soccer team logos
-    logoUrl = `https://crests.football-data.org/${teamId}.png`;
+  if (!imageExists) {
+    return showFallback ? (
+      // Fallback if image doesn't exist
+      <div
+        style={{ width: size, height: size }}
+        className="bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center text-gray-500 dark:text-gray-400 text-xs font-medium"
+      >
+        {abbreviation?.substring(0, 2) || "?"}
+      </div>
+    ) : null;
   }
 
-  return imageExists ? (
+  return (
     <Image
-      src={logoUrl}
+      src={getTeamLogoUrl(abbreviation, sport, teamId, logo)}
       alt={`${teamName} logo`}
-      width={32}
-      height={32}
+      width={size}
+      height={size}
       className="rounded-full"
       onError={() => setImageExists(false)}
     />
-  ) : (
-    // Fallback if image doesn't exist
-    <div className="w-8 h-8 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center text-gray-500 dark:text-gray-400 text-xs font-medium">
-      {abbreviation?.substring(0, 2) || "?"}
-    </div>
   );
 }
@@ -4,15 +4,18 @@ import { createContext, useContext, useEffect, useState } from 'react';
 import { User, signInWithPopup, signOut } from 'firebase/auth';
 import { auth, googleProvider, db } from '@/lib/firebase';
 import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import type { OddsFormat } from '@/utils/formatters';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   username: string | null;
   needsUsername: boolean;
+  oddsFormat: OddsFormat;
   signInWithGoogle: () => Promise<void>;
   logout: () => Promise<void>;
   setUsername: (username: string) => Promise<void>;
+  setOddsFormat: (format: OddsFormat) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -22,6 +25,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(true);
   const [username, setUsernameState] = useState<string | null>(null);
   const [needsUsername, setNeedsUsername] = useState(false);
+  const [oddsFormat, setOddsFormatState] = useState<OddsFormat>('percentage');
 
   useEffect(() => {
     const unsubscribe = auth.onAuthStateChanged(async (user) => {
@@ -46,6 +50,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         } else {
           // Check if username exists in the document
           const userData = userDoc.data();
+          setOddsFormatState(userData.oddsFormat || 'percentage');
           if (!userData.username) {
             setNeedsUsername(true);
           } else {
@@ -74,6 +79,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       await signOut(auth);
       setUsernameState(null);
       setNeedsUsername(false);
+      setOddsFormatState('percentage');
     } catch (error) {
       console.error('Error signing out:', error);
     }
@@ -93,15 +99,30 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Odds display preference; shown right away and saved on the user document
+  const setOddsFormat = async (format: OddsFormat) => {
+    setOddsFormatState(format);
+    if (!user) return;
+
+    try {
+      await updateDoc(doc(db, 'users', user.uid), { oddsFormat: format });
+    } catch (error) {
+      console.error('Error saving odds format:', error);
+      throw error;
+    }
+  };
+
   return (
     <AuthContext.Provider value={{ 
       user, 
       loading, 
       username, 
       needsUsername,
+      oddsFormat,
       signInWithGoogle, 
       logout,
-      setUsername 
+      setUsername,
+      setOddsFormat
     }}>
       {children}
     </AuthContext.Provider>
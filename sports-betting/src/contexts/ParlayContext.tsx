@@ -0,0 +1,58 @@
+'use client';
+
+import { createContext, useContext, useState } from 'react';
+import type { Event } from '@/types/events';
+
+export const MAX_PARLAY_LEGS = 10;
+
+export interface ParlaySelection {
+  event: Event;
+  selectedTeam: 'home' | 'visitor' | 'draw';
+}
+
+interface ParlayContextType {
+  selections: ParlaySelection[];
+  addSelection: (selection: ParlaySelection) => void;
+  removeSelection: (eventId: string) => void;
+  clearSelections: () => void;
+}
+
+const ParlayContext = createContext<ParlayContextType | undefined>(undefined);
+
+export function ParlayProvider({ children }: { children: React.ReactNode }) {
+  const [selections, setSelections] = useState<ParlaySelection[]>([]);
+
+  // Only one leg per event; picking another side of the same event replaces it
+  const addSelection = (selection: ParlaySelection) => {
+    setSelections(prev => {
+      const others = prev.filter(s => String(s.event.id) !== String(selection.event.id));
+      if (others.length >= MAX_PARLAY_LEGS) return prev;
+      return [...others, selection];
+    });
+  };
+
+  const removeSelection = (eventId: string) => {
+    setSelections(prev => prev.filter(s => String(s.event.id) !== eventId));
+  };
+
+  const clearSelections = () => setSelections([]);
+
+  return (
+    <ParlayContext.Provider value={{
+      selections,
+      addSelection,
+      removeSelection,
+      clearSelections
+    }}>
+      {children}
+    </ParlayContext.Provider>
+  );
+}
+
+export function useParlay() {
+  const context = useContext(ParlayContext);
+  if (context === undefined) {
+    throw new Error('useParlay must be used within a ParlayProvider');
+  }
+  return context;
+}
@@ -1,19 +1,86 @@
-export interface Team {
+// Football is American football; soccer is association football
+export type Sport = 'basketball' | 'soccer' | 'football' | 'baseball' | 'hockey';
+
+/**
+ * How a finished game was decided. Overtime covers NFL overtime and MLB
+ * extra innings.
+ */
+export type DecidedIn = 'regulation' | 'overtime' | 'shootout';
+
+interface BaseTeam {
   id: number | string;
   abbreviation: string;
-  city?: string;
-  conference?: string;
-  division?: string;
   full_name: string;
   name?: string;
-  logo?: string; // Added for soccer teams
+  city?: string | null;
+}
+
+export interface BasketballTeam extends BaseTeam {
+  conference?: string;
+  division?: string;
 }
 
-export interface Event {
+export interface FootballTeam extends BaseTeam {
+  conference?: string; // AFC or NFC
+  division?: string;
+}
+
+export interface BaseballTeam extends BaseTeam {
+  conference?: string; // American or National League
+  division?: string;
+}
+
+export interface HockeyTeam extends BaseTeam {
+  logo?: string;
+}
+
+export interface SoccerClub extends BaseTeam {
+  logo?: string;
+}
+
+export type Team = BasketballTeam | FootballTeam | BaseballTeam | HockeyTeam | SoccerClub;
+
+export type SideMarketType =
+  | 'spread'
+  | 'total'
+  | 'doubleChance'
+  | 'bothTeamsToScore'
+  | 'totalGoals'
+  | 'halfTimeResult';
+
+export type BetMarket = 'moneyline' | SideMarketType;
+
+export type BetSelection =
+  | 'home'
+  | 'visitor'
+  | 'draw'
+  | 'over'
+  | 'under'
+  | 'homeOrDraw'
+  | 'homeOrAway'
+  | 'drawOrAway'
+  | 'yes'
+  | 'no';
+
+/**
+ * A market priced separately from the moneyline. For spreads the line is the
+ * home team's handicap; for totals it is the combined points or goals.
+ * Double chance odds add up to 200 since each selection covers two results.
+ */
+export interface SideMarket {
+  line?: number;
+  odds: { [selection: string]: number };
+  pools: { [selection: string]: number };
+}
+
+/**
+ * Fields every event has, whatever the sport
+ */
+interface BaseEvent<T extends BaseTeam> {
   id: string;
   date: string;
-  home_team: Team;
-  visitor_team: Team;
+  home_team: T;
+  visitor_team: T;
   home_team_score: number;
   visitor_team_score: number;
   period: number;
@@ -24,13 +91,47 @@ export interface Event {
   updatedAt: Date;
   homeTeamCurrentOdds: number;
   visitorTeamCurrentOdds: number;
-  drawOdds?: number; // For soccer matches
   datetime: string;
+  margin?: number; // House margin added to the odds, e.g. 0.05; missing on events opened without one
   trades?: string[];  // Array of trade IDs
-  sport?: 'basketball' | 'soccer'; // Sport identifier
-  competition?: { // For soccer matches
+  markets?: { [market in SideMarketType]?: SideMarket }; // Spreads, totals and soccer side markets
+}
+
+export interface BasketballEvent extends BaseEvent<BasketballTeam> {
+  sport?: 'basketball'; // Missing on NBA events from before other sports were added
+  decidedIn?: DecidedIn;
+}
+
+export interface FootballEvent extends BaseEvent<FootballTeam> {
+  sport: 'football';
+  week?: number;
+  decidedIn?: DecidedIn;
+}
+
+export interface BaseballEvent extends BaseEvent<BaseballTeam> {
+  sport: 'baseball';
+  innings?: number; // Innings played, including extra innings
+  decidedIn?: DecidedIn;
+}
+
+export interface HockeyEvent extends BaseEvent<HockeyTeam> {
+  sport: 'hockey';
+  decidedIn?: DecidedIn; // Overtime and shootout wins count for every market
+}
+
+export interface SoccerEvent extends BaseEvent<SoccerClub> {
+  sport: 'soccer';
+  drawOdds?: number;
+  competition?: {
     id: number;
     name: string;
     logo?: string;
   };
-} 
\ No newline at end of file
+  score?: {
+    winner?: 'HOME_TEAM' | 'AWAY_TEAM' | 'DRAW' | null;
+    fullTime?: { home?: number | null; away?: number | null };
+    halfTime?: { home?: number | null; away?: number | null };
+  };
+}
+
+export type Event = BasketballEvent | FootballEvent | BaseballEvent | HockeyEvent | SoccerEvent;
@@ -0,0 +1,37 @@
+export type NotificationType =
+  | 'oddsMove'
+  | 'eventLive'
+  | 'eventSettled'
+  | 'tradeSettled'
+  | 'tradeSold'
+  | 'postReply'
+  | 'followedBet';
+
+/**
+ * One entry of the user's notifications/{userId}/items feed
+ */
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  eventId: string | null;
+  link: string | null; // App path to open, e.g. a profile
+  read: boolean;
+  createdAt: Date | null; // Null until the server timestamp is written
+}
+
+export type WatchType = 'event' | 'team';
+
+/**
+ * An event or team on the user's watchlist, stored on the user document
+ * under its key
+ */
+export interface Watch {
+  type: WatchType;
+  eventId: string | null;
+  sport: string;
+  teamId: number | string | null;
+  label: string;
+  threshold: number; // Percentage points of odds movement to alert on
+}
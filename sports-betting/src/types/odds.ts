@@ -0,0 +1,20 @@
+export type CandleInterval = '5m' | '15m' | '1h' | '4h' | '1d';
+
+export type CandleOutcome = 'home' | 'visitor' | 'draw';
+
+export interface Ohlc {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * One interval of an event's odds history, as returned by getOddsCandles
+ */
+export interface OddsCandle {
+  start: number; // Milliseconds since epoch
+  odds: { [outcome in CandleOutcome]?: Ohlc };
+  volume: number; // Amount bet during the interval
+  bets: number;
+}
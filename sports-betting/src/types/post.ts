@@ -14,4 +14,5 @@ export interface Post {
   mediaUrl?: string; // URL to the uploaded image or video
   mediaType?: 'image' | 'video'; // Type of media
   taggedEvents?: string[]; // Array of event IDs that are tagged in this post
+  replyTo?: { postId: string; userId: string; username: string }; // Set on replies
 }
@@ -58,40 +58,3 @@ export interface SoccerMatch {
     awayWin?: number;
   };
 }
-
-// Extended Event type to work with our existing Event interface
-export interface SoccerEvent {
-  id: string;
-  date: string;
-  home_team: {
-    id: number;
-    full_name: string;
-    abbreviation: string;
-    city?: string;
-    logo?: string;
-  };
-  visitor_team: {
-    id: number;
-    full_name: string;
-    abbreviation: string;
-    city?: string;
-    logo?: string;
-  };
-  home_team_score: number;
-  visitor_team_score: number;
-  period: number;
-  status: string;
-  time: string | null;
-  updatedAt: Date;
-  homeTeamCurrentOdds: number;
-  visitorTeamCurrentOdds: number;
-  drawOdds?: number; // Soccer has draw possibility
-  datetime: string;
-  trades?: string[];
-  sport: 'soccer'; // Identifier for soccer events
-  competition?: {
-    id: number;
-    name: string;
-    logo?: string;
-  };
-} 
\ No newline at end of file
@@ -1,5 +1,40 @@
 import { Timestamp } from 'firebase/firestore';
-import type { Event } from './events';
+import type { Event, BetMarket, BetSelection } from './events';
+
+/**
+ * A single selection inside a parlay trade
+ */
+export interface ParlayLeg {
+  eventId: string;
+  selectedTeam: 'home' | 'visitor' | 'draw';
+  selectedOdds: number;
+  status: 'Pending' | 'Won' | 'Lost' | 'Void';
+  event?: Event;
+}
+
+/**
+ * Asking price set by a trade's owner on the peer-to-peer marketplace
+ */
+export interface TradeListing {
+  askingPrice: number;
+  listedAt?: Timestamp;
+}
+
+/**
+ * A listed trade as returned by getEventListings
+ */
+export interface MarketplaceListing {
+  tradeId: string;
+  sellerId: string;
+  sellerUsername: string | null;
+  askingPrice: number;
+  selectedTeam: BetSelection;
+  market: BetMarket;
+  line?: number;
+  selectedOdds: number;
+  amount: number;
+  expectedPayout: number;
+}
 
 export interface Trade {
   id: string;
@@ -7,10 +42,34 @@ export interface Trade {
   expectedPayout: number;
   createdAt: Timestamp;
   eventId: string;
-  selectedTeam: 'home' | 'visitor' | 'draw';
+  selectedTeam: BetSelection;
   status: string;
   userId: string;
   event?: Event;
   currentValue?: number | null;
   soldValue?: number; // Added field for storing the sold value
+  type?: 'single' | 'parlay'; // Missing on trades placed before parlays existed
+  eventIds?: string[]; // Parlay trades only
+  legs?: ParlayLeg[]; // Parlay trades only
+  market?: BetMarket; // Missing on moneyline trades placed before side markets existed
+  line?: number; // Spread or total line at the time of the bet
+  listing?: TradeListing; // Set while the trade is for sale on the marketplace
+  parentTradeId?: string; // Set on the sold part of a partial cash-out
+  costBasis?: number; // What the owner paid, if they bought the trade on the marketplace
+}
+
+/**
+ * An open order to bet once a selection's odds drop to a target,
+ * as returned by getLimitOrders
+ */
+export interface LimitOrder {
+  id: string;
+  eventId: string;
+  selectedTeam: 'home' | 'visitor' | 'draw';
+  amount: number;
+  targetOdds: number;
+  status: 'Open' | 'Filled' | 'Cancelled' | 'Expired';
+  createdAt: number | null; // Milliseconds since epoch
+  expiresAt: number | null; // Event start, in milliseconds since epoch
+  event: Event | null;
 }
@@ -0,0 +1,35 @@
+export type WalletTransactionType =
+  | 'deposit'
+  | 'stake'
+  | 'payout'
+  | 'refund'
+  | 'sale'
+  | 'purchase'
+  | 'adjustment';
+
+/**
+ * A single wallet balance change, as returned by getWalletTransactions
+ */
+export interface WalletTransaction {
+  id: string;
+  userId: string;
+  type: WalletTransactionType;
+  amount: number; // Signed change to walletBalance
+  tradeId?: string;
+  orderId?: string;
+  eventId?: string;
+  createdAt: number | null; // Milliseconds since epoch
+}
+
+export type GamingLimitKey = 'dailyDeposit' | 'weeklyDeposit' | 'monthlyDeposit' | 'netLoss' | 'maxStake';
+
+/**
+ * Responsible gaming settings as returned by getResponsibleGaming. Raised
+ * limits wait in pendingLimits until they take effect.
+ */
+export interface ResponsibleGamingSettings {
+  limits: { [key in GamingLimitKey]: number | null };
+  pendingLimits: { [key in GamingLimitKey]?: { value: number | null; effectiveAt: number } };
+  coolOffUntil: number | null; // Milliseconds since epoch
+  selfExcludedUntil: number | null; // Milliseconds since epoch
+}
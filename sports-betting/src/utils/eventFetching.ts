@@ -10,14 +10,14 @@ import {
   doc
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import type { Event } from '@/types/events';
+import type { Event, Sport } from '@/types/events';
 
 /**
  * Interface for filter options when fetching events
  */
 export interface EventFetchOptions {
   filterDates?: [Date | null, Date | null];
-  sportFilter?: 'soccer' | 'basketball' | null;
+  sportFilter?: Sport | null;
   searchQuery?: string;
   pageSize?: number;
   lastDoc?: any;
@@ -58,9 +58,9 @@ export const fetchEvents = async (options: EventFetchOptions = {}) => {
     // Add sport filter if selected
     if (sportFilter) {
       console.log(`[fetchEvents] Applying sport filter: ${sportFilter}`);
-      if (sportFilter === 'soccer') {
-        // only soccer
-        constraints.push(where('sport', '==', 'soccer'));
+      // Older NBA events have no sport field, so basketball is filtered below
+      if (sportFilter !== 'basketball') {
+        constraints.push(where('sport', '==', sportFilter));
       }
     }
 
@@ -94,11 +94,11 @@ export const fetchEvents = async (options: EventFetchOptions = {}) => {
           id: docSnap.id,
           // Set default sport to 'basketball' if not specified
           sport: data.sport || 'basketball'
-        };
+        } as Event;
       });
 
       if (sportFilter === 'basketball') {
-        newEvents = newEvents.filter(ev => ev.sport !== 'soccer');
+        newEvents = newEvents.filter(ev => ev.sport === 'basketball');
         console.log(
           `[fetchEvents] ${newEvents.length} events remaining after basketball filter.`
         );
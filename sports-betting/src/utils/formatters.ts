@@ -17,3 +17,93 @@ export function formatFullDateTime(date: Date) {
     timeStyle: 'short'
   }).format(date);
 }
+
+export type OddsFormat = 'american' | 'decimal' | 'fractional' | 'percentage';
+
+/**
+ * Odds formats users can pick from, in display order
+ */
+export const ODDS_FORMATS: { format: OddsFormat; label: string; example: string }[] = [
+  { format: 'percentage', label: 'Percentage', example: '40%' },
+  { format: 'american', label: 'American', example: '+150' },
+  { format: 'decimal', label: 'Decimal', example: '2.50' },
+  { format: 'fractional', label: 'Fractional', example: '3/2' }
+];
+
+// Largest denominator used for fractional odds, so they read like a bookmaker's
+const MAX_FRACTION_DENOMINATOR = 10;
+
+/**
+ * Closest fraction to a positive number with a denominator of at most
+ * maxDenominator, from the number's continued fraction
+ */
+function toFraction(value: number, maxDenominator: number): [number, number] {
+  let [prevNumerator, numerator] = [0, 1];
+  let [prevDenominator, denominator] = [1, 0];
+  let remainder = value;
+  let best: [number, number] = [Math.round(value), 1];
+
+  for (let i = 0; i < 20; i++) {
+    const whole = Math.floor(remainder);
+    [prevNumerator, numerator] = [numerator, whole * numerator + prevNumerator];
+    [prevDenominator, denominator] = [denominator, whole * denominator + prevDenominator];
+    if (denominator > maxDenominator) break;
+    best = [numerator, denominator];
+    if (remainder - whole < 1e-9) break;
+    remainder = 1 / (remainder - whole);
+  }
+  return best;
+}
+
+/**
+ * Format odds stored as an implied percentage, e.g. 40, in the user's
+ * chosen format: 40%, +150, 2.50 or 3/2. Odds of 0% or 100% and above have
+ * no price, so they are always shown as percentages.
+ */
+export function formatOdds(odds: number, format: OddsFormat = 'percentage') {
+  if (format === 'percentage' || !(odds > 0 && odds < 100)) {
+    return `${Number(odds.toFixed(2))}%`;
+  }
+
+  const profitPerUnit = (100 - odds) / odds;
+  if (format === 'decimal') {
+    return (100 / odds).toFixed(2);
+  }
+  if (format === 'american') {
+    return profitPerUnit >= 1
+      ? `+${Math.round(profitPerUnit * 100)}`
+      : `-${Math.round(100 / profitPerUnit)}`;
+  }
+  const [numerator, denominator] = toFraction(profitPerUnit, MAX_FRACTION_DENOMINATOR);
+  return numerator === 0 ? `1/${Math.round(1 / profitPerUnit)}` : `${numerator}/${denominator}`;
+}
+
+/**
+ * Read odds typed in the user's chosen format back into an implied
+ * percentage, the inverse of formatOdds. Returns null for input that isn't a
+ * price in that format.
+ */
+export function parseOdds(input: string, format: OddsFormat = 'percentage'): number | null {
+  const value = input.trim().replace(/%$/, '');
+  if (!value) return null;
+
+  let odds: number;
+  if (format === 'fractional' && value.includes('/')) {
+    const [numerator, denominator] = value.split('/').map(Number);
+    odds = 100 / (1 + numerator / denominator);
+  } else {
+    const number = Number(value);
+    if (!Number.isFinite(number)) return null;
+    if (format === 'percentage') {
+      odds = number;
+    } else if (format === 'decimal') {
+      odds = 100 / number;
+    } else if (format === 'american') {
+      if (Math.abs(number) < 100) return null;
+      odds = number > 0 ? 100 * 100 / (number + 100) : 100 * -number / (100 - number);
+    } else {
+      odds = 100 / (1 + number);
+    }
+  }
+  return odds > 0 && odds < 100 ? Math.round(odds * 100) / 100 : null;
+}
@@ -0,0 +1,115 @@
+import type { BetMarket, BetSelection, Event, SideMarketType, Sport } from '@/types/events';
+
+// Sports with no draw, where spread and total markets are offered
+const TWO_WAY_SPORTS: Sport[] = ['basketball', 'football', 'baseball', 'hockey'];
+
+// Just enough of an event to describe a selection
+interface EventTeams {
+  home_team: { full_name: string };
+  visitor_team: { full_name: string };
+  markets?: Event['markets'];
+}
+
+/**
+ * Side markets offered per sport, in display order
+ */
+export const SIDE_MARKETS: {
+  market: SideMarketType;
+  title: string;
+  sports: Sport[];
+  selections: BetSelection[];
+}[] = [
+  { market: 'spread', title: 'Spread', sports: TWO_WAY_SPORTS, selections: ['home', 'visitor'] },
+  { market: 'total', title: 'Total', sports: TWO_WAY_SPORTS, selections: ['over', 'under'] },
+  { market: 'doubleChance', title: 'Double Chance', sports: ['soccer'], selections: ['homeOrDraw', 'homeOrAway', 'drawOrAway'] },
+  { market: 'bothTeamsToScore', title: 'Both Teams to Score', sports: ['soccer'], selections: ['yes', 'no'] },
+  { market: 'totalGoals', title: 'Total Goals', sports: ['soccer'], selections: ['over', 'under'] },
+  { market: 'halfTimeResult', title: 'Half-Time Result', sports: ['soccer'], selections: ['home', 'draw', 'visitor'] }
+];
+
+/**
+ * Whether a trade's selection is a single team (rather than a total, draw or combination)
+ */
+export function isTeamMarket(market: BetMarket = 'moneyline') {
+  return market === 'moneyline' || market === 'spread';
+}
+
+/**
+ * Format a spread line with an explicit sign, e.g. "+5.5" or "-3"
+ */
+export function formatSpreadLine(line: number) {
+  if (line === 0) return 'PK';
+  return line > 0 ? `+${line}` : `${line}`;
+}
+
+/**
+ * Human-readable name of a selection, including the line for spreads and totals.
+ * Pass the trade's line to describe a placed bet rather than the current market.
+ */
+export function getSelectionLabel(
+  event: EventTeams,
+  selection: BetSelection,
+  market: BetMarket = 'moneyline',
+  line?: number
+) {
+  const home = event.home_team.full_name;
+  const visitor = event.visitor_team.full_name;
+
+  if (market === 'spread') {
+    const homeLine = line ?? event.markets?.spread?.line ?? 0;
+    return selection === 'home'
+      ? `${home} ${formatSpreadLine(homeLine)}`
+      : `${visitor} ${formatSpreadLine(-homeLine)}`;
+  }
+  if (market === 'total' || market === 'totalGoals') {
+    const totalLine = line ?? event.markets?.[market]?.line;
+    const suffix = market === 'totalGoals' ? ' Goals' : '';
+    return `${selection === 'over' ? 'Over' : 'Under'} ${totalLine}${suffix}`;
+  }
+  if (market === 'doubleChance') {
+    if (selection === 'homeOrDraw') return `${home} or Draw`;
+    if (selection === 'homeOrAway') return `${home} or ${visitor}`;
+    return `Draw or ${visitor}`;
+  }
+  if (market === 'bothTeamsToScore') {
+    return `Both Teams to Score: ${selection === 'yes' ? 'Yes' : 'No'}`;
+  }
+
+  const team = selection === 'home' ? home : selection === 'visitor' ? visitor : 'Draw';
+  return market === 'halfTimeResult' ? `Half-Time: ${team}` : team;
+}
+
+// Same cap as the functions: a margin never prices a selection above 99%
+const MAX_MARGINED_ODDS = 99;
+
+/**
+ * Odds offered to bettors once the house margin is added, matching
+ * applyMargin in the functions
+ */
+export function applyMargin(odds: number, margin = 0) {
+  if (!(margin > 0)) return odds;
+  const offered = Math.round(odds * (1 + margin) * 100) / 100;
+  return Math.min(offered, Math.max(odds, MAX_MARGINED_ODDS));
+}
+
+/**
+ * Offered odds of a selection, including the event's house margin, with the
+ * same fallbacks used across the app
+ */
+export function getSelectionOdds(
+  event: Event,
+  selection: BetSelection,
+  market: BetMarket = 'moneyline'
+) {
+  return applyMargin(getFairOdds(event, selection, market), event.margin);
+}
+
+// Current odds of a selection before the house margin
+function getFairOdds(event: Event, selection: BetSelection, market: BetMarket) {
+  if (market !== 'moneyline') {
+    return event.markets?.[market]?.odds[selection] || 50;
+  }
+  if (selection === 'home') return event.homeTeamCurrentOdds || 50;
+  if (selection === 'visitor') return event.visitorTeamCurrentOdds || 50;
+  return (event.sport === 'soccer' && event.drawOdds) || 20;
+}
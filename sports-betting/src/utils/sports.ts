@@ -0,0 +1,19 @@
+import type { Sport } from '@/types/events';
+
+/**
+ * Sports the app lists events for, in filter order
+ */
+export const SPORTS: { sport: Sport; label: string; league: string }[] = [
+  { sport: 'basketball', label: 'Basketball', league: 'NBA' },
+  { sport: 'football', label: 'Football', league: 'NFL' },
+  { sport: 'baseball', label: 'Baseball', league: 'MLB' },
+  { sport: 'hockey', label: 'Hockey', league: 'NHL' },
+  { sport: 'soccer', label: 'Soccer', league: 'Soccer' }
+];
+
+/**
+ * Display name of an event's sport; events without one are NBA games
+ */
+export function getSportLabel(sport?: Sport) {
+  return SPORTS.find(config => config.sport === (sport || 'basketball'))?.label || 'Basketball';
+}